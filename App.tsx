@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 
-import { KeyBindingManager, DEFAULT_KEY_BINDINGS } from "./commands";
+import {
+  KeyBindingManager,
+  DEFAULT_KEY_BINDINGS,
+  createResyncCommand,
+  createSpectateCommand,
+} from "./commands";
 import { ConnectionStatus } from "./components/ConnectionStatus";
+import { GameOverScreen } from "./components/GameOverScreen";
 import { GameView } from "./components/GameView";
 import { HUD } from "./components/HUD";
 import {
@@ -15,14 +21,64 @@ import {
 } from "./components/WindowSystem";
 import { createServerSelectionWindowConfig } from "./components/WindowSystem/windows";
 import {
+  ANIMATION_SETTINGS_DEFAULT,
+  GRID_OVERLAYS_DEFAULT,
+  LOG_RETENTION_DEFAULT,
+  MAP_RENDERER_DEFAULT,
+  TILE_MODE_DEFAULT,
+} from "./constants";
+import {
+  GameStoreContext,
   useGameState,
   useWebSocket,
   useCamera,
   usePathfinding,
   useCommandSystem,
   useInputHandling,
+  useSessionRecorder,
+  useReplay,
+  REPLAY_SPEEDS,
+  useCommandTracker,
+  useSessionResume,
+  useParty,
+  useNetworkDiagnostics,
+  useTickHistory,
+  useTileset,
+  useStoreSelector,
 } from "./hooks";
-import { ContextMenuData, ServerInfo, ServerManager, LogType } from "./types";
+import { findStoreEntity, GameStoreState } from "./services/gameStore";
+import { isMockServer, MOCK_SERVER_URL } from "./services/mockServer";
+import {
+  AnimationSettings,
+  ClientToServerCommand,
+  ContextMenuData,
+  GameState,
+  GridOverlays,
+  MapRenderer,
+  ServerInfo,
+  ServerManager,
+  TileMode,
+  LogType,
+} from "./types";
+import { getItemCommandFeedback } from "./utils/commandTracker";
+import { getLevelMemoryScope } from "./utils/levelMemory";
+import { DecodedServerMessage } from "./utils/protocolDecoder";
+import type { ProtocolCompatibility } from "./utils/protocolVersion";
+import { parseSessionRecording } from "./utils/sessionRecording";
+
+/** Тик, на котором наступил ход персонажа (null — ход не его) */
+const selectPlayerTurnTick = (state: GameStoreState): number | null =>
+  state.player && state.activeEntityId === state.player.id
+    ? (state.world?.globalTick ?? null)
+    : null;
+
+/** Первая видимая сущность — с нее начинает камера наблюдателя */
+const selectFirstEntityId = (state: GameStoreState): string | null =>
+  state.entities[0]?.id ?? null;
+
+/** Есть ли прошлые тики для просмотра */
+const selectHasHistory = (state: GameStoreState): boolean =>
+  state.tickHistory.length > 1;
 
 const App: React.FC = () => {
   const keyBindingManager = useMemo(() => {
@@ -31,19 +87,170 @@ const App: React.FC = () => {
     return manager;
   }, []);
 
+  // Запрос полного снимка при пропуске DELTA (отправка появляется ниже)
+  type SendFn = (command: ClientToServerCommand, entityId?: string) => boolean;
+  const wsSendCommandRef = useRef<SendFn | null>(null);
+  const isReplayingRef = useRef(false);
+  const handleResyncRequired = useCallback(() => {
+    // В записи нет сервера, следующий снимок придет из самой записи
+    if (isReplayingRef.current) {
+      return;
+    }
+    wsSendCommandRef.current?.(createResyncCommand());
+  }, []);
+
+  // Server state
+  const [selectedServer, setSelectedServer] = useState<ServerInfo | null>(null);
+  const selectedServerUrl = useMemo(() => {
+    if (!selectedServer) {
+      return null;
+    }
+    return isMockServer(selectedServer)
+      ? MOCK_SERVER_URL
+      : ServerManager.getServerUrl(selectedServer);
+  }, [selectedServer]);
+
+  // Память об уровнях ведется для сервера и персонажа, но не для записи
+  const resolveLevelMemoryScope = useCallback(
+    (myEntityId: string) =>
+      selectedServerUrl && !isReplayingRef.current
+        ? getLevelMemoryScope(selectedServerUrl, myEntityId)
+        : null,
+    [selectedServerUrl],
+  );
+
+  // Сколько сообщений лога держать в памяти (старые уходят в архив)
+  const [logRetention, setLogRetention] = useState<number>(() => {
+    const saved = localStorage.getItem("logRetention");
+    return saved !== null ? JSON.parse(saved) : LOG_RETENTION_DEFAULT;
+  });
+
+  const handleChangeLogRetention = useCallback((limit: number) => {
+    setLogRetention(limit);
+    localStorage.setItem("logRetention", JSON.stringify(limit));
+  }, []);
+
+  // Способ отрисовки карты: DOM-сетка или canvas
+  const [mapRenderer, setMapRenderer] = useState<MapRenderer>(() => {
+    const saved = localStorage.getItem("mapRenderer");
+    return saved !== null ? JSON.parse(saved) : MAP_RENDERER_DEFAULT;
+  });
+
+  const handleChangeMapRenderer = useCallback((renderer: MapRenderer) => {
+    setMapRenderer(renderer);
+    localStorage.setItem("mapRenderer", JSON.stringify(renderer));
+  }, []);
+
+  // Графика карты: ASCII-символы или спрайты тайлсета
+  const [tileMode, setTileMode] = useState<TileMode>(() => {
+    const saved = localStorage.getItem("tileMode");
+    return saved !== null ? JSON.parse(saved) : TILE_MODE_DEFAULT;
+  });
+
+  const handleChangeTileMode = useCallback((mode: TileMode) => {
+    setTileMode(mode);
+    localStorage.setItem("tileMode", JSON.stringify(mode));
+  }, []);
+  const tileset = useTileset(tileMode);
+
+  // Анимации сущностей; без сохраненной настройки учитываем системное
+  // «уменьшить движение»
+  const [animationSettings, setAnimationSettings] =
+    useState<AnimationSettings>(() => {
+      const saved = localStorage.getItem("animationSettings");
+      if (saved !== null) {
+        return { ...ANIMATION_SETTINGS_DEFAULT, ...JSON.parse(saved) };
+      }
+      return {
+        ...ANIMATION_SETTINGS_DEFAULT,
+        reduceMotion: window.matchMedia("(prefers-reduced-motion: reduce)")
+          .matches,
+      };
+    });
+
+  const handleChangeAnimationSettings = useCallback(
+    (settings: AnimationSettings) => {
+      setAnimationSettings(settings);
+      localStorage.setItem("animationSettings", JSON.stringify(settings));
+    },
+    [],
+  );
+
   // Game state hook
   const {
-    world,
-    player,
-    entities,
-    logs,
+    store: gameStore,
     gameState,
-    activeEntityId,
-    speechBubbles,
-    entityRegistry,
+    runSummary,
     addLog,
     handleServerMessage,
-  } = useGameState();
+    requestResync,
+    resetGameState,
+  } = useGameState({
+    onResyncRequired: handleResyncRequired,
+    resolveLevelMemoryScope,
+    logRetention,
+  });
+
+  // История состояний по тикам: просмотр прошлого блокирует ввод
+  const {
+    viewedTick: viewedHistoryTick,
+    isViewingHistory,
+    viewIndex: viewHistoryIndex,
+    stepBack: stepHistoryBack,
+    stepForward: stepHistoryForward,
+    returnToPresent,
+  } = useTickHistory({ store: gameStore });
+  const hasHistory = useStoreSelector(gameStore, selectHasHistory);
+
+  // Ответы сервера на отправленные команды (ACK / отказ / таймаут)
+  const {
+    commands: trackedCommands,
+    track: trackCommand,
+    cancel: cancelTrackedCommand,
+    handleReply: handleCommandReply,
+    reset: resetCommandTracker,
+  } = useCommandTracker({ addLog });
+
+  const itemCommandFeedback = useMemo(
+    () => getItemCommandFeedback(trackedCommands),
+    [trackedCommands],
+  );
+
+  // Session recording and offline replay
+  const {
+    isRecording,
+    eventCount: recordedEventCount,
+    start: startRecording,
+    stop: stopRecording,
+    recordInbound,
+    recordOutbound,
+    download: downloadRecording,
+  } = useSessionRecorder();
+
+  const {
+    isReplaying,
+    isPlaying: isReplayPlaying,
+    speed: replaySpeed,
+    setSpeed: setReplaySpeed,
+    cursor: replayCursor,
+    eventCount: replayEventCount,
+    currentTick: replayTick,
+    minTick: replayMinTick,
+    maxTick: replayMaxTick,
+    load: loadReplay,
+    eject: ejectReplay,
+    play: playReplay,
+    pause: pauseReplay,
+    seekToTick: seekReplayToTick,
+  } = useReplay({
+    onMessage: handleServerMessage,
+    onReset: resetGameState,
+    addLog,
+  });
+
+  useEffect(() => {
+    isReplayingRef.current = isReplaying;
+  }, [isReplaying]);
 
   // Connection state
   const [isConnected, setIsConnected] = useState(false);
@@ -51,13 +258,16 @@ const App: React.FC = () => {
   const [reconnectAttempt] = useState(0);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSpectating, setIsSpectating] = useState(false);
+  // Сущность, вошедшая через основное соединение
+  const [primaryEntityId, setPrimaryEntityId] = useState<string | null>(null);
 
   // UI State
   const [contextMenu, setContextMenu] = useState<ContextMenuData | null>(null);
   const [radialMenuOpen, setRadialMenuOpen] = useState(false);
   const [showSplashScreen, setShowSplashScreen] = useState(true);
   const containerRef = useRef<HTMLDivElement>(null);
-  const prevActiveEntityIdRef = useRef<string | null>(null);
+  const prevPlayerTurnTickRef = useRef<number | null>(null);
   const [inspectEntityHandler, setInspectEntityHandler] = useState<
     ((entity: any) => void) | null
       >(null);
@@ -70,6 +280,20 @@ const App: React.FC = () => {
     [],
   );
 
+  const handleInspectEntity = useCallback(
+    (entity: any) => inspectEntityHandler?.(entity),
+    [inspectEntityHandler],
+  );
+
+  const handleCloseContextMenu = useCallback(() => setContextMenu(null), []);
+
+  // Close context menu when panning starts
+  const handlePanningChange = useCallback((panning: boolean) => {
+    if (panning) {
+      setContextMenu(null);
+    }
+  }, []);
+
   // UI Settings
   const [splashNotificationsEnabled, setSplashNotificationsEnabled] = useState(
     () => {
@@ -85,6 +309,22 @@ const App: React.FC = () => {
     setAutoSkipEnabled(prev => !prev);
   }, []);
 
+  // Слои-подсказки поверх карты: видимость и угрозы
+  const [gridOverlays, setGridOverlays] = useState<GridOverlays>(() => {
+    const saved = localStorage.getItem("gridOverlays");
+    return saved !== null
+      ? { ...GRID_OVERLAYS_DEFAULT, ...JSON.parse(saved) }
+      : GRID_OVERLAYS_DEFAULT;
+  });
+
+  const handleToggleGridOverlay = useCallback((layer: keyof GridOverlays) => {
+    setGridOverlays((prev) => {
+      const next = { ...prev, [layer]: !prev[layer] };
+      localStorage.setItem("gridOverlays", JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
   // Splash Notifications
   const {
     notifications: splashNotifications,
@@ -97,17 +337,109 @@ const App: React.FC = () => {
     localStorage.setItem("splashNotificationsEnabled", JSON.stringify(enabled));
   }, []);
 
-  // Server state
-  const [selectedServer, setSelectedServer] = useState<ServerInfo | null>(null);
+  // Повтор LOGIN после обрыва связи (вход появляется ниже)
+  const resumeSessionRef = useRef<(token: string | null) => void>(() => {});
+  const handleResumeSession = useCallback((token: string | null) => {
+    resumeSessionRef.current(token);
+  }, []);
+
+  const {
+    rememberLogin,
+    forgetLogin,
+    handleServerMessage: handleSessionResumeMessage,
+  } = useSessionResume({
+    isConnected,
+    serverUrl: selectedServerUrl,
+    loginError,
+    onResume: handleResumeSession,
+    addLog,
+  });
+
+  // Traffic and decode stats of all connections for the Network window
+  const networkDiagnostics = useNetworkDiagnostics();
+
+  // Recorded are the messages the world is built from, whatever connection
+  // they came over, so that a replay shows what the player saw
+  const recordPartyInbound = useCallback(
+    (data: unknown, isControlled: boolean) => {
+      if (isControlled) {
+        recordInbound(data);
+      }
+    },
+    [recordInbound],
+  );
+
+  // Several owned entities: extra ones log in over their own connections
+  const handlePartyMessage = useCallback(
+    (msg: DecodedServerMessage, isControlled: boolean, memberId: string) => {
+      handleCommandReply(msg, memberId);
+      if (isControlled) {
+        handleServerMessage(msg);
+      }
+    },
+    [handleCommandReply, handleServerMessage],
+  );
+
+  const {
+    members: partyMembers,
+    ownedEntityIds,
+    controlledEntityId,
+    addMember: addPartyMember,
+    removeMember: removePartyMember,
+    switchControl,
+    cycleControl,
+    getMemberConnection,
+    isPrimaryControlled,
+    sendCommand: sendPartyCommand,
+    reset: resetParty,
+  } = useParty({
+    serverUrl: selectedServerUrl,
+    primaryEntityId,
+    store: gameStore,
+    onMessage: handlePartyMessage,
+    onRawMessage: recordPartyInbound,
+    onControlChange: requestResync,
+    addLog,
+    diagnostics: networkDiagnostics,
+  });
+
+  const recordPrimaryInbound = useCallback(
+    (data: unknown) => {
+      if (isPrimaryControlled()) {
+        recordInbound(data);
+      }
+    },
+    [isPrimaryControlled, recordInbound],
+  );
+
+  const handleLiveMessage = useCallback(
+    (msg: DecodedServerMessage) => {
+      handleCommandReply(msg, null);
+      handleSessionResumeMessage(msg);
+      // The world is built from the controlled entity's connection
+      if (isPrimaryControlled()) {
+        handleServerMessage(msg);
+      }
+    },
+    [
+      handleCommandReply,
+      handleSessionResumeMessage,
+      isPrimaryControlled,
+      handleServerMessage,
+    ],
+  );
 
   // WebSocket hook (no auto-connect)
   const {
     sendCommand: wsSendCommand,
     setAuthenticated,
     connect: wsConnect,
+    disconnect: wsDisconnect,
     isInitialized: wsInitialized,
+    getMetrics: wsGetMetrics,
   } = useWebSocket({
-    onMessage: handleServerMessage,
+    onMessage: handleLiveMessage,
+    onRawMessage: recordPrimaryInbound,
     onConnectionChange: setIsConnected,
     onAuthenticationChange: (authenticated) => {
       setIsAuthenticated(authenticated);
@@ -116,18 +448,158 @@ const App: React.FC = () => {
     onReconnectChange: setIsReconnecting,
     onLoginError: setLoginError,
     addLog,
+    diagnostics: networkDiagnostics,
     autoConnect: false,
   });
 
+  // Отправка команд на сервер: запись в сессию, блокировка в режиме replay.
+  // Команда уходит через соединение сущности-исполнителя (по умолчанию —
+  // управляемой), LOGIN основной сущности — всегда через основное.
+  const sendServerCommand = useCallback(
+    (command: ClientToServerCommand, entityId?: string): boolean => {
+      if (isReplaying) {
+        addLog("Replay mode: commands are not sent", LogType.INFO);
+        return false;
+      }
+      const memberId =
+        command.action === "LOGIN" ? null : getMemberConnection(entityId);
+      const tracked = trackCommand(command, {
+        connectionId: memberId,
+        entityId: memberId ?? primaryEntityId,
+      });
+      const sent = memberId
+        ? sendPartyCommand(memberId, tracked)
+        : wsSendCommand(tracked);
+      if (sent) {
+        recordOutbound(tracked);
+      } else {
+        cancelTrackedCommand(tracked.id);
+      }
+      return sent;
+    },
+    [
+      isReplaying,
+      addLog,
+      getMemberConnection,
+      primaryEntityId,
+      trackCommand,
+      cancelTrackedCommand,
+      recordOutbound,
+      sendPartyCommand,
+      wsSendCommand,
+    ],
+  );
+
+  useEffect(() => {
+    wsSendCommandRef.current = sendServerCommand;
+  }, [sendServerCommand]);
+
   // Handle server selection and connect
   const handleServerConnect = useCallback(
-    (server: ServerInfo) => {
+    (server: ServerInfo, compatibility?: ProtocolCompatibility) => {
       setSelectedServer(server);
-      const url = ServerManager.getServerUrl(server);
+      const url = isMockServer(server)
+        ? MOCK_SERVER_URL
+        : ServerManager.getServerUrl(server);
+      if (compatibility && compatibility.status !== "compatible") {
+        addLog(`Protocol check: ${compatibility.message}`, LogType.INFO);
+      }
       addLog(`Connecting to ${server.name} (${url})...`, LogType.INFO);
+      setIsSpectating(false);
+      setPrimaryEntityId(null);
+      resetParty();
+      resetCommandTracker();
       wsConnect(url);
     },
-    [wsConnect, addLog],
+    [wsConnect, addLog, resetParty, resetCommandTracker],
+  );
+
+  const networkSource = useMemo(
+    () => ({
+      isConnected,
+      getNetworkCounters: networkDiagnostics.getNetworkCounters,
+      getMetrics: wsGetMetrics,
+      getDecodeStats: networkDiagnostics.getDecodeStats,
+    }),
+    [isConnected, networkDiagnostics, wsGetMetrics],
+  );
+
+  // Load a recorded session file and switch to replay mode
+  const handleOpenReplay = useCallback(
+    async (file: File) => {
+      const result = parseSessionRecording(await file.text());
+      if (result.ok === false) {
+        const details = result.errors
+          .slice(0, 3)
+          .map((e) => `${e.path}: ${e.message}`)
+          .join("; ");
+        addLog(`Cannot open replay ${file.name}: ${details}`, LogType.ERROR);
+        return;
+      }
+
+      loadReplay(result.value);
+      addLog(
+        `Replay loaded: ${file.name} (${result.value.events.length} events)`,
+        LogType.INFO,
+      );
+    },
+    [addLog, loadReplay],
+  );
+
+  // Recording starts from a fresh snapshot, otherwise the replay has no map
+  const handleStartRecording = useCallback(() => {
+    startRecording(selectedServerUrl);
+    if (isConnected) {
+      sendServerCommand(createResyncCommand());
+    }
+  }, [selectedServerUrl, startRecording, isConnected, sendServerCommand]);
+
+  const sessionControls = useMemo(
+    () => ({
+      isConnected,
+      isRecording,
+      recordedEventCount,
+      onStartRecording: handleStartRecording,
+      onStopRecording: stopRecording,
+      onDownloadRecording: downloadRecording,
+      isReplaying,
+      isPlaying: isReplayPlaying,
+      speed: replaySpeed,
+      speeds: REPLAY_SPEEDS,
+      currentTick: replayTick,
+      minTick: replayMinTick,
+      maxTick: replayMaxTick,
+      replayCursor,
+      replayEventCount,
+      onOpenReplay: handleOpenReplay,
+      onPlay: playReplay,
+      onPause: pauseReplay,
+      onSpeedChange: setReplaySpeed,
+      onSeekTick: seekReplayToTick,
+      onEject: ejectReplay,
+    }),
+    [
+      isConnected,
+      isRecording,
+      recordedEventCount,
+      handleStartRecording,
+      stopRecording,
+      downloadRecording,
+      isReplaying,
+      isReplayPlaying,
+      replaySpeed,
+      replayTick,
+      replayMinTick,
+      replayMaxTick,
+      replayCursor,
+      replayEventCount,
+      handleOpenReplay,
+      playReplay,
+      pauseReplay,
+      setReplaySpeed,
+      seekReplayToTick,
+      ejectReplay,
+    ],
   );
 
   // Camera hook
@@ -137,6 +609,7 @@ const App: React.FC = () => {
     isPanning,
     followedEntityId,
     cameraOffset,
+    viewport,
     handleWheel,
     goToPosition,
     goToEntity,
@@ -144,17 +617,16 @@ const App: React.FC = () => {
     resetZoom,
     toggleFollow,
   } = useCamera({
-    world,
-    player,
-    entityRegistry,
+    store: gameStore,
     containerRef,
-    onPanningChange: (panning) => {
-      if (panning) {
-        setContextMenu(null);
-      }
-    },
+    onPanningChange: handlePanningChange,
   });
 
+  // Персонаж и очередь хода приходят из хранилища: App не
+  // перерисовывается на каждое обновление мира
+  const playerTurnTick = useStoreSelector(gameStore, selectPlayerTurnTick);
+  const firstEntityId = useStoreSelector(gameStore, selectFirstEntityId);
+
   // Command system hook
   const {
     sendCommand,
@@ -166,19 +638,18 @@ const App: React.FC = () => {
     handleLogin: commandLogin,
     handleMovePlayer,
   } = useCommandSystem({
-    player,
-    activeEntityId,
-    entityRegistry,
-    sendCommand: wsSendCommand,
+    store: gameStore,
+    isSpectator: isSpectating,
+    isInputLocked: isViewingHistory,
+    ownedEntityIds,
+    sendCommand: sendServerCommand,
     addLog,
   });
 
   // Pathfinding hook
   const { pathfindingTarget, currentPath, handleGoToPathfinding } =
     usePathfinding({
-      player,
-      world,
-      activeEntityId,
+      store: gameStore,
       addLog,
       sendCommand,
     });
@@ -187,16 +658,22 @@ const App: React.FC = () => {
   useEffect(() => {
     if (
       autoSkipEnabled &&
-      activeEntityId &&
-      player &&
-      activeEntityId === player.id
+      !isViewingHistory &&
+      gameState !== GameState.GAME_OVER &&
+      playerTurnTick !== null
     ) {
       const timer = setTimeout(() => {
         sendCommand("WAIT");
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [autoSkipEnabled, activeEntityId, player, sendCommand]);
+  }, [
+    autoSkipEnabled,
+    isViewingHistory,
+    gameState,
+    playerTurnTick,
+    sendCommand,
+  ]);
 
   // Input handling hook
   const {
@@ -214,30 +691,167 @@ const App: React.FC = () => {
     sendCommand,
     setRadialMenuOpen,
     setContextMenu,
+    onSwitchEntity: cycleControl,
   });
 
   // Handle login with authentication state update
   const handleLogin = useCallback(
     (entityId: string) => {
       setLoginError(null);
+      setIsSpectating(false);
+      setPrimaryEntityId(entityId);
+      rememberLogin(entityId);
       commandLogin(entityId);
       setIsAuthenticated(true);
       setAuthenticated(true);
     },
-    [commandLogin, setAuthenticated],
+    [rememberLogin, commandLogin, setAuthenticated],
+  );
+
+  // Spectator mode: watch without an entity, camera starts on the first one
+  const spectatorFollowPendingRef = useRef(false);
+  const startSpectating = useCallback(() => {
+    sendServerCommand(createSpectateCommand());
+    setIsSpectating(true);
+    setIsAuthenticated(true);
+    setAuthenticated(true);
+  }, [sendServerCommand, setAuthenticated]);
+
+  const handleSpectate = useCallback(() => {
+    setLoginError(null);
+    setPrimaryEntityId(null);
+    resetParty();
+    rememberLogin(null);
+    spectatorFollowPendingRef.current = true;
+    startSpectating();
+    addLog("Spectator mode: watching without an entity", LogType.INFO);
+  }, [rememberLogin, resetParty, startSpectating, addLog]);
+
+  useEffect(() => {
+    if (spectatorFollowPendingRef.current && firstEntityId) {
+      spectatorFollowPendingRef.current = false;
+      followEntity(firstEntityId);
+    }
+  }, [firstEntityId, followEntity]);
+
+  // Game over: forget the dead character, then reconnect or drop the connection
+  const leaveRun = useCallback(() => {
+    forgetLogin();
+    setLoginError(null);
+    setIsSpectating(false);
+    setPrimaryEntityId(null);
+    resetParty();
+    resetCommandTracker();
+    resetGameState();
+    setIsAuthenticated(false);
+    setAuthenticated(false);
+  }, [
+    forgetLogin,
+    resetParty,
+    resetCommandTracker,
+    resetGameState,
+    setAuthenticated,
+  ]);
+
+  // The server keeps a socket logged in as the dead entity and would go on
+  // sending its snapshots, so the new login goes over a fresh connection
+  const handleNewCharacter = useCallback(() => {
+    leaveRun();
+    wsDisconnect();
+    if (selectedServerUrl) {
+      wsConnect(selectedServerUrl);
+    }
+    addLog("Log in with a new character to start another run", LogType.INFO);
+  }, [leaveRun, wsDisconnect, wsConnect, selectedServerUrl, addLog]);
+
+  const handleReturnToServerList = useCallback(() => {
+    leaveRun();
+    wsDisconnect();
+    setSelectedServer(null);
+  }, [leaveRun, wsDisconnect]);
+
+  const spectatorControls = useMemo(
+    () =>
+      isSpectating
+        ? { followedEntityId, onFollowEntity: followEntity }
+        : undefined,
+    [isSpectating, followedEntityId, followEntity],
+  );
+
+  const timelineControls = useMemo(
+    () => ({
+      viewedTick: viewedHistoryTick,
+      onViewIndex: viewHistoryIndex,
+      onStepBack: stepHistoryBack,
+      onStepForward: stepHistoryForward,
+      onReturnToPresent: returnToPresent,
+    }),
+    [
+      viewedHistoryTick,
+      viewHistoryIndex,
+      stepHistoryBack,
+      stepHistoryForward,
+      returnToPresent,
+    ],
+  );
+
+  const partyControls = useMemo(
+    () =>
+      primaryEntityId
+        ? {
+          primaryEntityId,
+          members: partyMembers,
+          controlledEntityId,
+          onAddMember: addPartyMember,
+          onRemoveMember: removePartyMember,
+          onControl: switchControl,
+        }
+        : undefined,
+    [
+      primaryEntityId,
+      partyMembers,
+      controlledEntityId,
+      addPartyMember,
+      removePartyMember,
+      switchControl,
+    ],
   );
 
+  // Minimap: camera viewport and path target (map data comes from the store)
+  const minimapControls = useMemo(
+    () => ({
+      viewport,
+      pathfindingTarget,
+      onGoToPosition: goToPosition,
+    }),
+    [viewport, pathfindingTarget, goToPosition],
+  );
+
+  // Resumed session: same LOGIN (or SPECTATE) plus a fresh snapshot
+  useEffect(() => {
+    resumeSessionRef.current = (token: string | null) => {
+      if (token === null) {
+        startSpectating();
+      } else {
+        commandLogin(token);
+        setIsAuthenticated(true);
+        setAuthenticated(true);
+      }
+      sendServerCommand(createResyncCommand());
+    };
+  }, [commandLogin, startSpectating, setAuthenticated, sendServerCommand]);
+
   // Handle entity selection and navigation
   const handleGoToEntityWrapper = useCallback(
     (entityId: string) => {
       handleSelectEntity(entityId);
-      const entity = entityRegistry.get(entityId);
+      const entity = findStoreEntity(gameStore.getState(), entityId);
       if (entity) {
         handleSelectPosition(entity.pos.x, entity.pos.y);
       }
       goToEntity(entityId);
     },
-    [handleSelectEntity, handleSelectPosition, goToEntity, entityRegistry],
+    [gameStore, handleSelectEntity, handleSelectPosition, goToEntity],
   );
 
   // Handle position navigation
@@ -249,38 +863,29 @@ const App: React.FC = () => {
     [handleSelectPosition, goToPosition],
   );
 
-  // Close context menu when panning starts (moved to camera hook to avoid cascading renders)
-
   // Show "Ваш ход" notification when turn changes to player
   useEffect(() => {
     if (
       splashNotificationsEnabled &&
-      activeEntityId &&
-      player &&
-      activeEntityId === player.id &&
-      prevActiveEntityIdRef.current !== player.id
+      playerTurnTick !== null &&
+      prevPlayerTurnTickRef.current === null
     ) {
       showSplashNotification("Ваш ход");
     }
-    prevActiveEntityIdRef.current = activeEntityId;
+    prevPlayerTurnTickRef.current = playerTurnTick;
   }, [
-    activeEntityId,
-    player,
+    playerTurnTick,
     showSplashNotification,
     splashNotificationsEnabled,
   ]);
 
-  const selectedTarget = selectedTargetEntityId
-    ? entities.find((e) => e.id === selectedTargetEntityId)
-    : null;
-
   // Component to handle server selection window
   const ServerSelectionHandler = () => {
     const { openWindow, windows, closeWindow } = useWindowManager();
 
     useEffect(() => {
       // Only show server selection if not connected and window not already open
-      if (!selectedServer && wsInitialized) {
+      if (!selectedServer && !isReplaying && wsInitialized) {
         const serverWindowExists = windows.some(
           (w) => w.id === "server-selection",
         );
@@ -288,16 +893,17 @@ const App: React.FC = () => {
           openWindow(
             createServerSelectionWindowConfig({
               onConnect: handleServerConnect,
+              onOpenReplay: handleOpenReplay,
             }),
           );
         }
       }
       // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [selectedServer, wsInitialized, windows, openWindow]);
+    }, [selectedServer, isReplaying, wsInitialized, windows, openWindow]);
 
-    // Close server selection window after connecting
+    // Close server selection window after connecting or opening a replay
     useEffect(() => {
-      if (selectedServer && isConnected) {
+      if ((selectedServer && isConnected) || isReplaying) {
         const serverWindowExists = windows.some(
           (w) => w.id === "server-selection",
         );
@@ -306,111 +912,130 @@ const App: React.FC = () => {
         }
       }
       // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [selectedServer, isConnected, windows, closeWindow]);
+    }, [selectedServer, isConnected, isReplaying, windows, closeWindow]);
 
     return null;
   };
 
   return (
-    <div className="flex flex-col h-screen w-full bg-neutral-950 overflow-hidden text-gray-300 font-mono">
-      {/* Connection Status Indicators */}
-      <ConnectionStatus
-        isConnected={isConnected}
-        isReconnecting={isReconnecting}
-        reconnectAttempt={reconnectAttempt}
-        loginError={loginError}
-      />
-
-      {/* HUD - Status Panel and Windows */}
-      <WindowManagerProvider>
-        <ServerSelectionHandler />
-        <HUD
-          player={player}
-          entities={entities}
-          gameState={gameState}
-          globalTick={world?.globalTick ?? 0}
-          selectedTarget={selectedTarget}
-          activeEntityId={activeEntityId}
-          logs={logs}
-          keyBindingManager={keyBindingManager}
-          onEntityClick={handleGoToEntityWrapper}
-          onGoToPosition={handleGoToPositionWrapper}
-          onGoToEntity={handleGoToEntityWrapper}
-          onSendCommand={sendTextCommand}
-          onContextMenu={handleContextMenu}
-          onInspectEntity={handleInspectEntityCallback}
-          splashNotificationsEnabled={splashNotificationsEnabled}
-          onToggleSplashNotifications={handleToggleSplashNotifications}
-          playerInventory={player?.inventory ?? []}
-          playerInventoryData={player?.inventoryData}
-          playerEquipment={player?.equipment}
-          onUseItem={handleUseItem}
-          onDropItem={handleDropItem}
-          onEquipItem={handleEquipItem}
-          onUnequipItem={handleUnequipItem}
-          onLogin={handleLogin}
-          isAuthenticated={isAuthenticated}
-          wsConnected={isConnected}
+    <GameStoreContext.Provider value={gameStore}>
+      <div className="flex flex-col h-screen w-full bg-neutral-950 overflow-hidden text-gray-300 font-mono">
+        {/* Connection Status Indicators */}
+        <ConnectionStatus
+          isConnected={isConnected}
+          isReconnecting={isReconnecting}
+          reconnectAttempt={reconnectAttempt}
           loginError={loginError}
-          radialMenuOpen={radialMenuOpen}
-          contextMenuOpen={contextMenu !== null}
         />
-      </WindowManagerProvider>
-
-      {/* Game View - Game Grid and Camera */}
-      <div className="flex flex-1 overflow-hidden">
-        <div className="flex-1 bg-black flex flex-col relative border-r border-neutral-800">
-          <GameView
-            ref={containerRef}
-            world={world}
-            player={player}
-            entities={entities}
-            zoom={zoom}
-            isZooming={isZooming}
-            isPanning={isPanning}
-            followedEntityId={followedEntityId}
-            cameraOffset={cameraOffset}
-            speechBubbles={speechBubbles}
-            radialMenuOpen={radialMenuOpen}
-            selectedTargetEntityId={selectedTargetEntityId}
-            selectedTargetPosition={selectedTargetPosition}
-            pathfindingTarget={pathfindingTarget}
-            currentPath={currentPath}
-            contextMenu={contextMenu}
-            entityRegistry={entityRegistry}
-            onWheel={handleWheel}
-            onResetZoom={resetZoom}
-            onToggleFollow={toggleFollow}
-            onMovePlayer={handleMovePlayer}
-            onSelectEntity={handleSelectEntity}
-            onSelectPosition={handleSelectPosition}
-            onFollowEntity={followEntity}
-            onSendCommand={sendCommand}
-            onGoToPathfinding={handleGoToPathfinding}
+
+        {/* HUD - Status Panel and Windows */}
+        <WindowManagerProvider>
+          <ServerSelectionHandler />
+          <HUD
+            selectedTargetId={selectedTargetEntityId}
+            keyBindingManager={keyBindingManager}
+            onEntityClick={handleGoToEntityWrapper}
+            onGoToPosition={handleGoToPositionWrapper}
+            onGoToEntity={handleGoToEntityWrapper}
+            onSendCommand={sendTextCommand}
             onContextMenu={handleContextMenu}
-            onRadialMenuChange={setRadialMenuOpen}
-            onCloseContextMenu={() => setContextMenu(null)}
-            onInspectEntity={(entity) => inspectEntityHandler?.(entity)}
-            autoSkipEnabled={autoSkipEnabled}
-            onToggleAutoSkip={handleToggleAutoSkip}
+            onInspectEntity={handleInspectEntityCallback}
+            splashNotificationsEnabled={splashNotificationsEnabled}
+            onToggleSplashNotifications={handleToggleSplashNotifications}
+            logRetention={logRetention}
+            onChangeLogRetention={handleChangeLogRetention}
+            mapRenderer={mapRenderer}
+            onChangeMapRenderer={handleChangeMapRenderer}
+            tileMode={tileMode}
+            onChangeTileMode={handleChangeTileMode}
+            animationSettings={animationSettings}
+            onChangeAnimationSettings={handleChangeAnimationSettings}
+            onUseItem={handleUseItem}
+            onDropItem={handleDropItem}
+            onEquipItem={handleEquipItem}
+            onUnequipItem={handleUnequipItem}
+            itemCommandFeedback={itemCommandFeedback}
+            onLogin={handleLogin}
+            onSpectate={handleSpectate}
+            isAuthenticated={isAuthenticated}
+            wsConnected={isConnected}
+            loginError={loginError}
+            radialMenuOpen={radialMenuOpen}
+            contextMenuOpen={contextMenu !== null}
+            sessionControls={sessionControls}
+            networkDiagnostics={networkSource}
+            spectator={spectatorControls}
+            party={partyControls}
+            minimap={minimapControls}
           />
+        </WindowManagerProvider>
+
+        {/* Game View - Game Grid and Camera */}
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex-1 bg-black flex flex-col relative border-r border-neutral-800">
+            <GameView
+              ref={containerRef}
+              zoom={zoom}
+              mapRenderer={mapRenderer}
+              tileset={tileset}
+              animationSettings={animationSettings}
+              isZooming={isZooming}
+              isPanning={isPanning}
+              followedEntityId={followedEntityId}
+              cameraOffset={cameraOffset}
+              radialMenuOpen={radialMenuOpen}
+              selectedTargetEntityId={selectedTargetEntityId}
+              selectedTargetPosition={selectedTargetPosition}
+              pathfindingTarget={pathfindingTarget}
+              currentPath={currentPath}
+              contextMenu={contextMenu}
+              onWheel={handleWheel}
+              onResetZoom={resetZoom}
+              onToggleFollow={toggleFollow}
+              onMovePlayer={handleMovePlayer}
+              onSelectEntity={handleSelectEntity}
+              onSelectPosition={handleSelectPosition}
+              onFollowEntity={followEntity}
+              onSendCommand={sendCommand}
+              onGoToPathfinding={handleGoToPathfinding}
+              onContextMenu={handleContextMenu}
+              onRadialMenuChange={setRadialMenuOpen}
+              onCloseContextMenu={handleCloseContextMenu}
+              onInspectEntity={handleInspectEntity}
+              autoSkipEnabled={autoSkipEnabled}
+              onToggleAutoSkip={handleToggleAutoSkip}
+              gridOverlays={gridOverlays}
+              onToggleGridOverlay={handleToggleGridOverlay}
+              timeline={timelineControls}
+            />
+
+            {/* Game over: run summary (hidden while reviewing the last turns) */}
+            {runSummary && !isReplaying && !isViewingHistory && (
+              <GameOverScreen
+                summary={runSummary}
+                onNewCharacter={handleNewCharacter}
+                onServerList={handleReturnToServerList}
+                onReviewHistory={hasHistory ? stepHistoryBack : undefined}
+              />
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Splash Notifications */}
-      {splashNotifications.map((notification) => (
-        <SplashNotification
-          key={notification.id}
-          notification={notification}
-          onComplete={removeSplashNotification}
-        />
-      ))}
+        {/* Splash Notifications */}
+        {splashNotifications.map((notification) => (
+          <SplashNotification
+            key={notification.id}
+            notification={notification}
+            onComplete={removeSplashNotification}
+          />
+        ))}
 
-      {/* App Splash Screen */}
-      {showSplashScreen && (
-        <SplashScreen onComplete={() => setShowSplashScreen(false)} />
-      )}
-    </div>
+        {/* App Splash Screen */}
+        {showSplashScreen && (
+          <SplashScreen onComplete={() => setShowSplashScreen(false)} />
+        )}
+      </div>
+    </GameStoreContext.Provider>
   );
 };
 
@@ -2,4 +2,4 @@
 declare const __BUILD_TIME__: string;
 declare const __GIT_COMMIT__: string;
 declare const __GIT_BRANCH__: string;
-
+declare const __PROTOCOL_VERSION__: string;
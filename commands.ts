@@ -80,6 +80,7 @@ export {
   // Other
   CommandWait,
   CommandCustom,
+  CommandSwitchEntity,
   // Collections
   ALL_PREDEFINED_COMMANDS,
   COMMAND_BY_ACTION,
@@ -111,6 +112,8 @@ export {
   // Other
   createWaitCommand,
   createCustomCommand,
+  createResyncCommand,
+  createSpectateCommand,
 } from "./commands/builders";
 
 // ============================================================================
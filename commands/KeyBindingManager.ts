@@ -13,6 +13,7 @@ import {
   CommandLeft,
   CommandPickup,
   CommandRight,
+  CommandSwitchEntity,
   CommandTalk,
   CommandTeleport,
   CommandTrade,
@@ -31,6 +32,7 @@ import {GameCommand, KeyBinding} from "./types";
  * - WASD движение
  * - Движение стрелками
  * - Основные roguelike действия
+ * - Tab — переключение между своими сущностями
  *
  * Может быть переопределена загрузкой из localStorage или настроек пользователя
  */
@@ -57,6 +59,9 @@ export const DEFAULT_KEY_BINDINGS: KeyBinding[] = [
   // Position Target Commands
   { code: "KeyV", command: CommandTeleport },
   { code: "KeyC", command: CommandCastArea },
+
+  // Client Commands
+  { code: "Tab", command: CommandSwitchEntity },
 ];
 
 // ============================================================================
@@ -411,3 +411,39 @@ export function createCustomCommand(
     payload,
   };
 }
+
+/**
+ * Создает запрос полного снимка состояния (CUSTOM/RESYNC)
+ *
+ * Отправляется, когда клиент потерял последовательность DELTA-обновлений
+ * и не может восстановить мир самостоятельно.
+ *
+ * @returns Команда CUSTOM с action "RESYNC"
+ *
+ * @example
+ * ```typescript
+ * const cmd = createResyncCommand();
+ * // { action: "CUSTOM", payload: { action: "RESYNC" } }
+ * ```
+ */
+export function createResyncCommand(): ClientToServerCommand {
+  return createCustomCommand({ action: "RESYNC" });
+}
+
+/**
+ * Создает запрос режима наблюдателя (CUSTOM/SPECTATE)
+ *
+ * Отправляется вместо LOGIN: клиент получает снимки без `myEntityId`
+ * и не управляет ни одной сущностью.
+ *
+ * @returns Команда CUSTOM с action "SPECTATE"
+ *
+ * @example
+ * ```typescript
+ * const cmd = createSpectateCommand();
+ * // { action: "CUSTOM", payload: { action: "SPECTATE" } }
+ * ```
+ */
+export function createSpectateCommand(): ClientToServerCommand {
+  return createCustomCommand({ action: "SPECTATE" });
+}
@@ -184,6 +184,20 @@ export const CommandWait: GameCommand = {
   description: "Вы пропустили ход",
 };
 
+// ============================================================================
+// Client Commands
+// ============================================================================
+
+/**
+ * Переключает управление на следующую свою сущность.
+ * Обрабатывается клиентом, на сервер не отправляется.
+ */
+export const CommandSwitchEntity: GameCommand = {
+  action: "SWITCH_ENTITY",
+  label: "Switch Entity",
+  description: "Вы переключились на другую сущность",
+};
+
 // ============================================================================
 // All Commands Collection
 // ============================================================================
@@ -219,6 +233,7 @@ export const ALL_PREDEFINED_COMMANDS: GameCommand[] = [
   // Other
   CommandWait,
   CommandCustom,
+  CommandSwitchEntity,
 ];
 
 /**
@@ -246,4 +261,5 @@ export const COMMAND_BY_ACTION: Record<string, GameCommand> = {
   YELL: CommandYell,
   WAIT: CommandWait,
   CUSTOM: CommandCustom,
+  SWITCH_ENTITY: CommandSwitchEntity,
 };
@@ -99,6 +99,7 @@ export {
   // Other
   CommandWait,
   CommandCustom,
+  CommandSwitchEntity,
   // Collections
   ALL_PREDEFINED_COMMANDS,
   COMMAND_BY_ACTION,
@@ -130,6 +131,8 @@ export {
   // Other
   createWaitCommand,
   createCustomCommand,
+  createResyncCommand,
+  createSpectateCommand,
 } from "./builders";
 
 // ============================================================================
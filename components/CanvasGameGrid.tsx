@@ -0,0 +1,454 @@
+import {FC, useEffect, useMemo, useRef, useState} from "react";
+
+import {ANIMATION_SETTINGS_DEFAULT, GRID_OVERLAYS_DEFAULT} from "../constants";
+import {useEntityAnimations} from "../hooks/useEntityAnimations";
+import {useGridInteractions} from "../hooks/useGridInteractions";
+import {Entity, EntityType, GameWorld, Position, Tileset} from "../types";
+import {getCellSize} from "../utils/camera";
+import {getCellKey, groupGhostsByCell} from "../utils/mapCells";
+import {buildThreatMap} from "../utils/threatMap";
+
+import {CanvasMapScene, drawMapOverlay, drawTerrainLayer, MapViewport,} from "./canvasMap";
+import {EntitySpeechBubble} from "./EntitySpeechBubble";
+import type {GameGridProps} from "./GameGrid";
+import {GridMenus} from "./GridMenus";
+import {getCellTooltip} from "./terrainStyles";
+
+/** Запас слоя местности вокруг области видимости (в клетках) */
+const TERRAIN_LAYER_MARGIN = 4;
+
+/**
+ * Видимая в окне часть сетки (в пикселях сетки)
+ * @param origin - экранные координаты клетки (0, 0)
+ * @returns null, если сетка вне окна
+ */
+function measureViewport(
+  origin: { x: number; y: number },
+  world: GameWorld,
+  cellSize: number,
+): MapViewport | null {
+  const left = Math.max(0, Math.floor(-origin.x));
+  const top = Math.max(0, Math.floor(-origin.y));
+  const right = Math.min(
+    world.width * cellSize,
+    Math.ceil(window.innerWidth - origin.x),
+  );
+  const bottom = Math.min(
+    world.height * cellSize,
+    Math.ceil(window.innerHeight - origin.y),
+  );
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Область слоя местности: область видимости с запасом, по границам клеток
+ */
+function getTerrainRegion(
+  viewport: MapViewport,
+  world: GameWorld,
+  cellSize: number,
+): MapViewport {
+  const margin = TERRAIN_LAYER_MARGIN * cellSize;
+  const x = Math.max(0, Math.floor((viewport.x - margin) / cellSize) * cellSize);
+  const y = Math.max(0, Math.floor((viewport.y - margin) / cellSize) * cellSize);
+  const right = Math.min(
+    world.width * cellSize,
+    Math.ceil((viewport.x + viewport.width + margin) / cellSize) * cellSize,
+  );
+  const bottom = Math.min(
+    world.height * cellSize,
+    Math.ceil((viewport.y + viewport.height + margin) / cellSize) * cellSize,
+  );
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+const containsViewport = (outer: MapViewport, inner: MapViewport): boolean =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const isSameViewport = (a: MapViewport | null, b: MapViewport | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.x === b.x &&
+    a.y === b.y &&
+    a.width === b.width &&
+    a.height === b.height);
+
+/**
+ * Анимировать ли перемещение сущности: не во время зума и не для
+ * отслеживаемой сущности (за ней движется камера)
+ */
+const isMoveAnimated = (
+  entity: Entity,
+  disableAnimations: boolean,
+  followedEntityId: string | null,
+): boolean =>
+  !disableAnimations && (entity.id !== followedEntityId || !followedEntityId);
+
+/**
+ * Экранные координаты клетки (0, 0) сетки
+ */
+function getGridOrigin(grid: HTMLElement): { x: number; y: number } {
+  const rect = grid.getBoundingClientRect();
+  return { x: rect.left + grid.clientLeft, y: rect.top + grid.clientTop };
+}
+
+/**
+ * Карта на canvas для больших подземелий
+ *
+ * Те же возможности, что у DOM-сетки (GameGrid): выбор клеток и
+ * сущностей, радиальное и контекстное меню, перетаскивание игрока,
+ * путь, подсказки, анимации сущностей. Рисуется только видимая в окне
+ * часть карты, а клетка под курсором определяется по координатам.
+ *
+ * DOM остается только для того, что требует его: ручки перетаскивания
+ * игроков и речевые пузыри.
+ */
+const CanvasGameGrid: FC<GameGridProps> = ({
+  world,
+  entities,
+  rememberedEntities = [],
+  zoom,
+  tileset = null,
+  overlays = GRID_OVERLAYS_DEFAULT,
+  animationSettings = ANIMATION_SETTINGS_DEFAULT,
+  disableAnimations = false,
+  followedEntityId = null,
+  speechBubbles = [],
+  radialMenuOpen = false,
+  onMovePlayer,
+  onSelectEntity,
+  onSelectPosition,
+  onFollowEntity,
+  onSendCommand,
+  onGoToPathfinding,
+  onContextMenu,
+  onRadialMenuChange,
+  onInspectEntity,
+  selectedTargetEntityId = null,
+  selectedTargetPosition = null,
+  pathfindingTarget = null,
+  currentPath = [],
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef<Omit<CanvasMapScene, "fontFamily"> | null>(null);
+  const isSceneDirtyRef = useRef(true);
+  const [hoveredCell, setHoveredCell] = useState<Position | null>(null);
+
+  const animations = useEntityAnimations(entities, animationSettings);
+  const interactions = useGridInteractions({
+    world,
+    entities,
+    selectedTargetPosition,
+    radialMenuOpen,
+    onMovePlayer,
+    onSelectEntity,
+    onSelectPosition,
+    onSendCommand,
+    onContextMenu,
+    onRadialMenuChange,
+  });
+  const { selectCell, openCellContextMenu, startDrag, dropOnCell } =
+    interactions;
+
+  const CELL_SIZE = getCellSize(zoom);
+  const gridBorder = Math.max(2, zoom * 2);
+
+  // Ghost markers by cell, for cell tooltips
+  const ghostsByCell = useMemo(
+    () => groupGhostsByCell(rememberedEntities),
+    [rememberedEntities],
+  );
+
+  // Threat heatmap, only while the overlay is on
+  const threatMap = useMemo(
+    () => (overlays.threat ? buildThreatMap(world, entities) : null),
+    [overlays.threat, world, entities],
+  );
+
+  // Данные для кадра: цикл отрисовки читает их из ref
+  useEffect(() => {
+    sceneRef.current = {
+      world,
+      entities,
+      rememberedEntities,
+      zoom,
+      cellSize: CELL_SIZE,
+      tileset,
+      overlays,
+      threatMap,
+      hoveredCell,
+      selectedTargetEntityId,
+      selectedTargetPosition,
+      pathfindingTarget,
+      currentPath,
+      animations,
+      animateMove: (entity) =>
+        isMoveAnimated(entity, disableAnimations, followedEntityId),
+    };
+    isSceneDirtyRef.current = true;
+  });
+
+  // Render loop: redraws on scene or viewport changes and while animating
+  useEffect(() => {
+    const grid = gridRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    const terrain = document.createElement("canvas");
+    const terrainCtx = terrain.getContext("2d");
+    if (!grid || !canvas || !ctx || !terrainCtx) {
+      return;
+    }
+    const fontFamily = getComputedStyle(grid).fontFamily;
+
+    let frame = 0;
+    let viewport: MapViewport | null = null;
+    let terrainRegion: MapViewport | null = null;
+    let terrainMap: GameWorld["map"] | null = null;
+    let terrainCellSize = 0;
+    let terrainTileset: Tileset | null = null;
+    let isAnimating = false;
+
+    const render = () => {
+      frame = requestAnimationFrame(render);
+      if (!sceneRef.current) {
+        return;
+      }
+      const scene: CanvasMapScene = { ...sceneRef.current, fontFamily };
+      const { world: sceneWorld, cellSize } = scene;
+      const dpr = window.devicePixelRatio || 1;
+
+      const nextViewport = measureViewport(
+        getGridOrigin(grid),
+        sceneWorld,
+        cellSize,
+      );
+      const isViewportChanged = !isSameViewport(viewport, nextViewport);
+      if (!isViewportChanged && !isSceneDirtyRef.current && !isAnimating) {
+        return;
+      }
+      viewport = nextViewport;
+      isSceneDirtyRef.current = false;
+
+      if (!viewport) {
+        canvas.style.display = "none";
+        isAnimating = false;
+        return;
+      }
+      if (isViewportChanged) {
+        canvas.style.display = "block";
+        canvas.style.left = `${viewport.x}px`;
+        canvas.style.top = `${viewport.y}px`;
+        canvas.style.width = `${viewport.width}px`;
+        canvas.style.height = `${viewport.height}px`;
+        canvas.width = Math.round(viewport.width * dpr);
+        canvas.height = Math.round(viewport.height * dpr);
+      }
+
+      // Terrain layer: rebuilt only when the map changes or the view leaves it
+      if (
+        !terrainRegion ||
+        terrainMap !== sceneWorld.map ||
+        terrainCellSize !== cellSize ||
+        terrainTileset !== scene.tileset ||
+        !containsViewport(terrainRegion, viewport)
+      ) {
+        terrainRegion = getTerrainRegion(viewport, sceneWorld, cellSize);
+        terrainMap = sceneWorld.map;
+        terrainCellSize = cellSize;
+        terrainTileset = scene.tileset;
+        terrain.width = Math.round(terrainRegion.width * dpr);
+        terrain.height = Math.round(terrainRegion.height * dpr);
+        terrainCtx.setTransform(
+          dpr,
+          0,
+          0,
+          dpr,
+          -terrainRegion.x * dpr,
+          -terrainRegion.y * dpr,
+        );
+        drawTerrainLayer(terrainCtx, scene, terrainRegion);
+      }
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(
+        terrain,
+        Math.round((terrainRegion.x - viewport.x) * dpr),
+        Math.round((terrainRegion.y - viewport.y) * dpr),
+      );
+      ctx.setTransform(dpr, 0, 0, dpr, -viewport.x * dpr, -viewport.y * dpr);
+      isAnimating = drawMapOverlay(ctx, scene, viewport, Date.now());
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  /**
+   * Клетка под точкой экрана
+   */
+  const getCellAt = (clientX: number, clientY: number): Position | null => {
+    const grid = gridRef.current;
+    if (!grid) {
+      return null;
+    }
+    const origin = getGridOrigin(grid);
+    const x = Math.floor((clientX - origin.x) / CELL_SIZE);
+    const y = Math.floor((clientY - origin.y) / CELL_SIZE);
+    if (x < 0 || y < 0 || x >= world.width || y >= world.height) {
+      return null;
+    }
+    return { x, y };
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const cell = getCellAt(e.clientX, e.clientY);
+    if (!cell || !gridRef.current) {
+      return;
+    }
+    e.stopPropagation();
+    // Screen position of the cell, for the radial menu
+    const origin = getGridOrigin(gridRef.current);
+    selectCell(cell.x, cell.y, {
+      left: origin.x + cell.x * CELL_SIZE,
+      top: origin.y + cell.y * CELL_SIZE,
+    });
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    const cell = getCellAt(e.clientX, e.clientY);
+    if (!cell) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    openCellContextMenu(cell.x, cell.y, e.clientX, e.clientY);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const cell = getCellAt(e.clientX, e.clientY);
+    if (cell?.x !== hoveredCell?.x || cell?.y !== hoveredCell?.y) {
+      setHoveredCell(cell);
+    }
+  };
+
+  const handleDragStart = (entity: Entity, e: React.DragEvent) => {
+    if (!startDrag(entity)) {
+      e.preventDefault();
+      return;
+    }
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const cell = getCellAt(e.clientX, e.clientY);
+    if (cell) {
+      dropOnCell(cell.x, cell.y);
+    }
+  };
+
+  const hoveredTile = hoveredCell && world.map[hoveredCell.y]?.[hoveredCell.x];
+  const tooltip = hoveredTile
+    ? getCellTooltip(
+      hoveredTile,
+      ghostsByCell.get(getCellKey(hoveredCell.x, hoveredCell.y)),
+      world.globalTick,
+      threatMap?.get(getCellKey(hoveredCell.x, hoveredCell.y)),
+    )
+    : "";
+
+  // Entities on visible tiles get DOM helpers: drag handles and bubbles
+  const isOnVisibleTile = (entity: Entity) =>
+    !entity.isDead && world.map[entity.pos.y]?.[entity.pos.x]?.isVisible;
+  const cellStyle = (entity: Entity) => ({
+    left: entity.pos.x * CELL_SIZE,
+    top: entity.pos.y * CELL_SIZE,
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+  });
+
+  const draggablePlayers = entities.filter(
+    (e) => e.type === EntityType.PLAYER && isOnVisibleTile(e),
+  );
+  const bubbles = speechBubbles.flatMap((bubble) => {
+    const entity = entities.find((e) => e.id === bubble.entityId);
+    return entity && isOnVisibleTile(entity) ? [{ bubble, entity }] : [];
+  });
+
+  return (
+    <div className="relative">
+      <div
+        ref={gridRef}
+        data-game-grid="true"
+        className="relative select-none shadow-2xl shadow-black border-neutral-800 box-content cursor-pointer"
+        style={{
+          width: world.width * CELL_SIZE,
+          height: world.height * CELL_SIZE,
+          borderWidth: `${gridBorder}px`,
+          transform: `translate(-${gridBorder}px, -${gridBorder}px)`,
+          backgroundColor: "#050608",
+          boxShadow: "inset 0 0 30px rgba(0, 0, 0, 0.45)",
+        }}
+        title={tooltip || undefined}
+        onClick={handleClick}
+        onContextMenu={handleContextMenu}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoveredCell(null)}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        <canvas ref={canvasRef} className="absolute pointer-events-none" />
+
+        {/* Ручки перетаскивания игроков */}
+        {draggablePlayers.map((entity) => (
+          <div
+            key={entity.id}
+            className="absolute cursor-move"
+            style={cellStyle(entity)}
+            draggable
+            onDragStart={(e) => handleDragStart(entity, e)}
+          />
+        ))}
+
+        {/* Речевые пузыри */}
+        {bubbles.map(({ bubble, entity }) => (
+          <div
+            key={bubble.id}
+            className="absolute pointer-events-none"
+            style={cellStyle(entity)}
+          >
+            <EntitySpeechBubble bubble={bubble} cellSize={CELL_SIZE} />
+          </div>
+        ))}
+      </div>
+
+      <GridMenus
+        interactions={interactions}
+        cellSize={CELL_SIZE}
+        zoom={zoom}
+        onSelectEntity={onSelectEntity}
+        onSelectPosition={onSelectPosition}
+        onFollowEntity={onFollowEntity}
+        onSendCommand={onSendCommand}
+        onGoToPathfinding={onGoToPathfinding}
+        onInspectEntity={onInspectEntity}
+      />
+    </div>
+  );
+};
+
+export default CanvasGameGrid;
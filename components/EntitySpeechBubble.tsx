@@ -0,0 +1,63 @@
+import {FC} from "react";
+
+import {SpeechBubble} from "../types";
+
+interface EntitySpeechBubbleProps {
+  bubble: SpeechBubble;
+  cellSize: number;
+}
+
+/**
+ * Речевой пузырь над клеткой сущности
+ *
+ * Позиционируется относительно блока размером с клетку.
+ */
+export const EntitySpeechBubble: FC<EntitySpeechBubbleProps> = ({
+  bubble,
+  cellSize,
+}) => (
+  <div
+    className="absolute left-1/2 -translate-x-1/2 pointer-events-none speech-bubble z-50"
+    style={{
+      bottom: `${cellSize + 8}px`,
+      maxWidth: `${cellSize * 5}px`,
+      minWidth: `${cellSize * 2}px`,
+    }}
+  >
+    <div className="relative bg-white text-neutral-900 text-xs rounded-xl px-3 py-1.5 shadow-2xl border-2 border-neutral-800/20">
+      <div className="max-w-full overflow-hidden text-ellipsis whitespace-nowrap font-sans font-medium leading-tight">
+        {bubble.text.length > 60
+          ? bubble.text.substring(0, 60) + "..."
+          : bubble.text}
+      </div>
+      {/* Speech bubble tail */}
+      <div
+        className="absolute left-1/2 -translate-x-1/2"
+        style={{
+          bottom: "-8px",
+        }}
+      >
+        <div
+          style={{
+            width: 0,
+            height: 0,
+            borderLeft: "8px solid transparent",
+            borderRight: "8px solid transparent",
+            borderTop: "8px solid rgba(0, 0, 0, 0.2)",
+          }}
+        />
+        <div
+          className="absolute left-1/2 -translate-x-1/2"
+          style={{
+            bottom: "1px",
+            width: 0,
+            height: 0,
+            borderLeft: "7px solid transparent",
+            borderRight: "7px solid transparent",
+            borderTop: "7px solid white",
+          }}
+        />
+      </div>
+    </div>
+  </div>
+);
@@ -1,19 +1,42 @@
-import {Hand, MessageCircle, Search, Sword} from "lucide-react";
-import {FC, useCallback, useEffect, useRef, useState} from "react";
+import {FC, useEffect, useMemo, useRef, useState} from "react";
 
-import {COLORS, SYMBOLS} from "../constants";
-import {ContextMenuData, Entity, EntityType, GameWorld, Position, SpeechBubble,} from "../types";
+import {ANIMATION_SETTINGS_DEFAULT, GRID_OVERLAYS_DEFAULT} from "../constants";
+import {useEntityAnimations} from "../hooks/useEntityAnimations";
+import {useGridInteractions} from "../hooks/useGridInteractions";
+import {AnimationSettings, ContextMenuData, Entity, EntityType, GameWorld, GridOverlays, Position, RememberedEntity, SpeechBubble, Tileset,} from "../types";
 import {getCellSize} from "../utils/camera";
-
-import {ContextMenu} from "./ContextMenu";
-import {RadialMenu} from "./RadialMenu";
-
-interface GameGridProps {
+import {getCellKey, groupGhostsByCell} from "../utils/mapCells";
+import {buildThreatMap} from "../utils/threatMap";
+
+import {
+  ENTITY_ANIMATION_KEYFRAMES,
+  getDeathAnimationStyle,
+  getHitFlashStyle,
+  getHitNumberStyle,
+  getHitShakeStyle,
+  getLungeAnimationStyle,
+  getMoveAnimationStyle,
+} from "./entityAnimationStyles";
+import {EntitySpeechBubble} from "./EntitySpeechBubble";
+import {GridMenus} from "./GridMenus";
+import {GridOverlayLayer} from "./GridOverlayLayer";
+import {getCellTooltip, getTerrainStyle} from "./terrainStyles";
+import {getEntitySprite, getGhostSprite, getSpriteStyle, getTerrainSprite,} from "./tileSprites";
+
+export interface GameGridProps {
   world: GameWorld;
   entities: Entity[];
+  /** Призраки: последние известные позиции сущностей вне поля зрения */
+  rememberedEntities?: RememberedEntity[];
   playerPos: Position;
   fovRadius: number;
   zoom: number;
+  /** Тайлсет графического режима; без него сущности рисуются символами */
+  tileset?: Tileset | null;
+  /** Включенные слои-подсказки (видимость, угрозы) */
+  overlays?: GridOverlays;
+  /** Скорость анимаций сущностей и «уменьшить движение» */
+  animationSettings?: AnimationSettings;
   disableAnimations?: boolean;
   followedEntityId?: string | null;
   speechBubbles?: SpeechBubble[];
@@ -36,7 +59,11 @@ interface GameGridProps {
 const GameGrid: FC<GameGridProps> = ({
   world,
   entities,
+  rememberedEntities = [],
   zoom,
+  tileset = null,
+  overlays = GRID_OVERLAYS_DEFAULT,
+  animationSettings = ANIMATION_SETTINGS_DEFAULT,
   disableAnimations = false,
   followedEntityId = null,
   speechBubbles = [],
@@ -55,10 +82,6 @@ const GameGrid: FC<GameGridProps> = ({
   pathfindingTarget = null,
   currentPath = [],
 }) => {
-  const [localContextMenu, setLocalContextMenu] =
-    useState<ContextMenuData | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [draggedEntity, setDraggedEntity] = useState<Entity | null>(null);
   const [visibleCells, setVisibleCells] = useState<{
     minX: number;
     maxX: number;
@@ -66,76 +89,26 @@ const GameGrid: FC<GameGridProps> = ({
     maxY: number;
   }>({ minX: 0, maxX: world.width, minY: 0, maxY: world.height });
 
-  // Radial menu state
-  const [radialMenu, setRadialMenu] = useState<{
-    entity: Entity;
-    x: number;
-    y: number;
-  } | null>(null);
-
-  // Damage tracking
-  const [damageAnimations, setDamageAnimations] = useState<
-    Map<string, { damage: number; timestamp: number }>
-  >(new Map());
-  const previousHpRef = useRef<Map<string, number>>(new Map());
-  const damageTimeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const animations = useEntityAnimations(entities, animationSettings);
+  const interactions = useGridInteractions({
+    world,
+    entities,
+    selectedTargetPosition,
+    radialMenuOpen,
+    onMovePlayer,
+    onSelectEntity,
+    onSelectPosition,
+    onSendCommand,
+    onContextMenu,
+    onRadialMenuChange,
+  });
+  const { getEntitiesAt, selectCell, openCellContextMenu, startDrag, dropOnCell } =
+    interactions;
 
   const gridRef = useRef<HTMLDivElement>(null);
 
   const CELL_SIZE = getCellSize(zoom);
 
-  // Track HP changes and trigger damage animations
-  useEffect(() => {
-    entities.forEach((entity) => {
-      if (entity.stats?.hp !== undefined) {
-        const previousHp = previousHpRef.current.get(entity.id);
-        const currentHp = entity.stats.hp;
-
-        if (previousHp !== undefined && currentHp < previousHp) {
-          // HP decreased - show damage animation
-          const newDamage = previousHp - currentHp;
-
-          setDamageAnimations((prev) => {
-            const newMap = new Map(prev);
-            const existing = newMap.get(entity.id);
-
-            // If there's already an animation, accumulate the damage
-            const totalDamage = existing
-              ? existing.damage + newDamage
-              : newDamage;
-
-            // Update with accumulated damage and new timestamp to restart animation
-            newMap.set(entity.id, {
-              damage: totalDamage,
-              timestamp: Date.now(),
-            });
-            return newMap;
-          });
-
-          // Clear existing timeout if any
-          const existingTimeout = damageTimeoutsRef.current.get(entity.id);
-          if (existingTimeout) {
-            clearTimeout(existingTimeout);
-          }
-
-          // Set new timeout to remove animation after 1 second
-          const timeout = setTimeout(() => {
-            setDamageAnimations((prev) => {
-              const newMap = new Map(prev);
-              newMap.delete(entity.id);
-              return newMap;
-            });
-            damageTimeoutsRef.current.delete(entity.id);
-          }, 1000);
-
-          damageTimeoutsRef.current.set(entity.id, timeout);
-        }
-
-        previousHpRef.current.set(entity.id, currentHp);
-      }
-    });
-  }, [entities]);
-
   // Calculate visible cells based on viewport
   useEffect(() => {
     const updateVisibleCells = () => {
@@ -187,245 +160,51 @@ const GameGrid: FC<GameGridProps> = ({
     }
   }, [CELL_SIZE, world.width, world.height]);
 
-  const getEntitiesAt = useCallback(
-    (x: number, y: number) => {
-      return entities
-        .filter((e) => e.pos.x === x && e.pos.y === y && !e.isDead)
-        .sort((a, b) => {
-          const order = {
-            [EntityType.EXIT]: 1,
-            [EntityType.ITEM]: 2,
-            [EntityType.NPC]: 3,
-            [EntityType.ENEMY_GOBLIN]: 4,
-            [EntityType.ENEMY_ORC]: 4,
-            [EntityType.CHEST]: 4,
-            [EntityType.PLAYER]: 10,
-          };
-          return (order[a.type] || 0) - (order[b.type] || 0);
-        });
-    },
-    [entities],
+  // Ghost markers by cell, for cell tooltips
+  const ghostsByCell = useMemo(
+    () => groupGhostsByCell(rememberedEntities),
+    [rememberedEntities],
   );
 
-  const handleCellClick = useCallback(
-    (x: number, y: number, e: React.MouseEvent) => {
-      e.stopPropagation();
-      const cellEntities = getEntitiesAt(x, y);
-
-      // Check if clicking on already selected position with entities
-      const isAlreadySelected =
-        selectedTargetPosition?.x === x && selectedTargetPosition?.y === y;
-
-      if (isAlreadySelected && cellEntities.length > 0) {
-        // Open radial menu for the top entity
-        const topEntity = cellEntities[cellEntities.length - 1];
-
-        // Get cell position accounting for all transforms (camera offset, etc)
-        const target = e.currentTarget as HTMLElement;
-        const rect = target.getBoundingClientRect();
-
-        setRadialMenu({
-          entity: topEntity,
-          x: rect.left,
-          y: rect.top,
-        });
-        if (onRadialMenuChange) {
-          onRadialMenuChange(true);
-        }
-        return;
-      }
-
-      // Close radial menu if clicking elsewhere
-      if (radialMenu) {
-        setRadialMenu(null);
-        if (onRadialMenuChange) {
-          onRadialMenuChange(false);
-        }
-      }
-
-      // Выбор позиции
-      if (onSelectPosition) {
-        onSelectPosition(x, y);
-      }
-
-      // Выбор сущности (если есть)
-      if (cellEntities.length > 0 && onSelectEntity) {
-        // Выбираем верхнюю сущность
-        const topEntity = cellEntities[cellEntities.length - 1];
-        onSelectEntity(topEntity.id);
-      } else if (onSelectEntity) {
-        onSelectEntity(null);
-      }
-    },
-    [
-      onSelectEntity,
-      onSelectPosition,
-      getEntitiesAt,
-      selectedTargetPosition,
-      radialMenu,
-      onRadialMenuChange,
-    ],
+  // Threat heatmap, only while the overlay is on
+  const threatMap = useMemo(
+    () => (overlays.threat ? buildThreatMap(world, entities) : null),
+    [overlays.threat, world, entities],
   );
 
-  const handleContextMenu = useCallback(
-    (x: number, y: number, e: React.MouseEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-
-      const cellEntities = getEntitiesAt(x, y);
-
-      const data = {
-        x: e.clientX,
-        y: e.clientY,
-        cellX: x,
-        cellY: y,
-        entities: cellEntities,
-      };
+  const handleCellClick = (x: number, y: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Cell position accounting for all transforms (camera offset, etc)
+    selectCell(x, y, e.currentTarget.getBoundingClientRect());
+  };
 
-      if (onContextMenu) {
-        onContextMenu(data);
-      } else {
-        setLocalContextMenu(data);
-      }
-    },
-    [getEntitiesAt, onContextMenu],
-  );
+  const handleContextMenu = (x: number, y: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    openCellContextMenu(x, y, e.clientX, e.clientY);
+  };
 
-  const handleDragStart = useCallback((entity: Entity, e: React.DragEvent) => {
-    if (entity.type !== EntityType.PLAYER) {
+  const handleDragStart = (entity: Entity, e: React.DragEvent) => {
+    if (!startDrag(entity)) {
       e.preventDefault();
       return;
     }
-
-    setIsDragging(true);
-    setDraggedEntity(entity);
     e.dataTransfer.effectAllowed = "move";
-  }, []);
+  };
 
-  const handleDragOver = useCallback((e: React.DragEvent) => {
+  const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = "move";
-  }, []);
-
-  const handleDrop = useCallback(
-    (x: number, y: number, e: React.DragEvent) => {
-      e.preventDefault();
-      setIsDragging(false);
-
-      if (!draggedEntity || draggedEntity.type !== EntityType.PLAYER) {
-        return;
-      }
-
-      const tile = world.map[y]?.[x];
-      if (!tile || tile.isWall) {
-        return;
-      }
-
-      // Перемещаем игрока
-      if (onMovePlayer) {
-        onMovePlayer(x, y);
-      }
-
-      setDraggedEntity(null);
-    },
-    [draggedEntity, world, onMovePlayer],
-  );
-
-  // Radial menu handlers
-  const handleRadialAction = useCallback(
-    (actionId: string, entity: Entity) => {
-      if (!onSendCommand) {
-        return;
-      }
-
-      switch (actionId) {
-      case "attack":
-        onSendCommand("ATTACK", { targetId: entity.id });
-        break;
-      case "talk":
-        onSendCommand("TALK", { targetId: entity.id });
-        break;
-      case "pickup":
-        onSendCommand("PICKUP", { itemId: entity.id });
-        break;
-      case "interact":
-        onSendCommand("INTERACT", { targetId: entity.id });
-        break;
-      case "inspect":
-        // For inspection, we can select the entity
-        if (onSelectEntity) {
-          onSelectEntity(entity.id);
-        }
-        break;
-      }
-
-      // Close radial menu after action
-      setRadialMenu(null);
-      if (onRadialMenuChange) {
-        onRadialMenuChange(false);
-      }
-    },
-    [onSendCommand, onSelectEntity, onRadialMenuChange],
-  );
-
-  const getRadialMenuActions = useCallback((entity: Entity) => {
-    const actions = [];
-
-    // Attack action for hostile entities
-    if (entity.isHostile) {
-      actions.push({
-        id: "attack",
-        icon: Sword,
-        label: "Атаковать",
-        color: "#dc2626",
-      });
-    }
-
-    // Talk action for NPCs
-    if (entity.type === EntityType.NPC) {
-      actions.push({
-        id: "talk",
-        icon: MessageCircle,
-        label: "Поговорить",
-        color: "#3b82f6",
-      });
-    }
-
-    // Pickup action for items
-    if (entity.type === EntityType.ITEM) {
-      actions.push({
-        id: "pickup",
-        icon: Hand,
-        label: "Подобрать",
-        color: "#10b981",
-      });
-    }
-
-    // Interact action for chests and exits
-    if (entity.type === EntityType.CHEST || entity.type === EntityType.EXIT) {
-      actions.push({
-        id: "interact",
-        icon: Hand,
-        label: "Взаимодействовать",
-        color: "#10b981",
-      });
-    }
-
-    // Inspect action for all entities (except player)
-    if (entity.type !== EntityType.PLAYER) {
-      actions.push({
-        id: "inspect",
-        icon: Search,
-        label: "Осмотреть",
-        color: "#8b5cf6",
-      });
-    }
+  };
 
-    return actions;
-  }, []);
+  const handleDrop = (x: number, y: number, e: React.DragEvent) => {
+    e.preventDefault();
+    dropOnCell(x, y);
+  };
 
   const renderEntity = (entity: Entity, index: number, total: number) => {
     const isPlayer = entity.type === EntityType.PLAYER;
+    const sprite = tileset ? getEntitySprite(tileset, entity) : undefined;
 
     // Позиционирование для двух сущностей в клетке
     const position =
@@ -461,15 +240,26 @@ const GameGrid: FC<GameGridProps> = ({
         draggable={isPlayer}
         onDragStart={(e) => handleDragStart(entity, e)}
       >
-        {/* Символ сущности */}
-        <div
-          className={`leading-none ${entity.color} ${
-            isPlayer ? "font-bold animate-pulse" : ""
-          }`}
-          style={{ fontSize: `${zoom * 24}px` }}
-        >
-          {entity.symbol}
-        </div>
+        {/* Спрайт или символ сущности */}
+        {sprite ? (
+          <div
+            className={isPlayer ? "animate-pulse" : ""}
+            style={{
+              width: `${zoom * 24}px`,
+              height: `${zoom * 24}px`,
+              ...getSpriteStyle(tileset, sprite),
+            }}
+          />
+        ) : (
+          <div
+            className={`leading-none ${entity.color} ${
+              isPlayer ? "font-bold animate-pulse" : ""
+            }`}
+            style={{ fontSize: `${zoom * 24}px` }}
+          >
+            {entity.symbol}
+          </div>
+        )}
 
         {/* Имя сущности */}
         <div
@@ -543,6 +333,7 @@ const GameGrid: FC<GameGridProps> = ({
     }
 
     const cellEntities = getEntitiesAt(x, y);
+    const cellGhosts = ghostsByCell.get(getCellKey(x, y));
     const isVisible = tile.isVisible;
     const isExplored = tile.isExplored;
 
@@ -565,33 +356,20 @@ const GameGrid: FC<GameGridProps> = ({
       borderColor = "rgb(38, 38, 38)"; // Darker border
     }
 
-    let bgClass = "bg-window-base";
-    let floorSymbol = SYMBOLS.FLOOR;
-    let floorColor = COLORS.FLOOR;
-
     // Фон клетки
-    if (tile.env === "grass") {
-      bgClass = "bg-green-950/40";
-      floorSymbol = SYMBOLS.GRASS;
-      floorColor = COLORS.GRASS;
-    } else if (tile.env === "water") {
-      bgClass = "bg-blue-900/40";
-      floorSymbol = SYMBOLS.WATER;
-      floorColor = COLORS.WATER;
-    } else if (tile.env === "tree") {
-      bgClass = "bg-green-900/40";
-      floorSymbol = SYMBOLS.TREE;
-      floorColor = COLORS.TREE;
-    } else if (tile.isWall) {
-      bgClass = "bg-window-content";
-      floorSymbol = SYMBOLS.WALL;
-      floorColor = COLORS.WALL;
-    }
+    const terrain = getTerrainStyle(tile);
+    const terrainSprite = tileset ? getTerrainSprite(tileset, tile) : undefined;
+    const tooltip = getCellTooltip(
+      tile,
+      cellGhosts,
+      world.globalTick,
+      threatMap?.get(getCellKey(x, y)),
+    );
 
     return (
       <div
         key={`${x}-${y}`}
-        className={`relative ${bgClass} ${visibilityClass} flex items-center justify-center cursor-pointer hover:bg-dock-item-hover transition-colors group`}
+        className={`relative ${terrain.bg} ${visibilityClass} flex items-center justify-center cursor-pointer hover:bg-dock-item-hover transition-colors group`}
         style={{
           width: CELL_SIZE,
           height: CELL_SIZE,
@@ -599,6 +377,7 @@ const GameGrid: FC<GameGridProps> = ({
           borderColor: borderColor,
           borderStyle: "solid",
         }}
+        title={tooltip || undefined}
         onClick={(e) => handleCellClick(x, y, e)}
         onContextMenu={(e) => handleContextMenu(x, y, e)}
         onDragOver={handleDragOver}
@@ -654,16 +433,24 @@ const GameGrid: FC<GameGridProps> = ({
           <div className="absolute inset-0 bg-green-400/20 pointer-events-none z-10" />
         )}
 
+        {/* Спрайт местности */}
+        {(isVisible || isExplored) && terrainSprite && (
+          <div
+            className="absolute inset-0 pointer-events-none"
+            style={getSpriteStyle(tileset, terrainSprite)}
+          />
+        )}
+
         {/* Фон/пол клетки */}
-        {(isVisible || isExplored) && (
+        {(isVisible || isExplored) && !terrainSprite && (
           <div
-            className={`absolute inset-0 flex items-center justify-center ${floorColor}`}
+            className={`absolute inset-0 flex items-center justify-center ${terrain.color}`}
             style={{
               fontSize: `${zoom * 32}px`,
-              opacity: isVisible ? 0.2 : 0.1,
+              opacity: isVisible ? terrain.opacity : terrain.opacity / 2,
             }}
           >
-            {floorSymbol}
+            {terrain.symbol}
           </div>
         )}
 
@@ -712,6 +499,18 @@ const GameGrid: FC<GameGridProps> = ({
         {world.map.flatMap((row, y) => row.map((_, x) => renderCell(x, y)))}
       </div>
 
+      {/* Слои-подсказки: видимость и угрозы */}
+      {(overlays.visibility || overlays.threat) && (
+        <GridOverlayLayer
+          world={world}
+          overlays={overlays}
+          threatMap={threatMap}
+          cellSize={CELL_SIZE}
+          range={visibleCells}
+          offset={Math.max(2, zoom * 2)}
+        />
+      )}
+
       {/* Анимированный слой для сущностей */}
       <div
         className="absolute top-0 left-0 pointer-events-none"
@@ -721,6 +520,40 @@ const GameGrid: FC<GameGridProps> = ({
           transform: `translate(-${Math.max(2, zoom * 2)}px, -${Math.max(2, zoom * 2)}px)`,
         }}
       >
+        {/* Призраки - тусклые символы на последних известных позициях */}
+        {rememberedEntities.map((entity) => {
+          const sprite = tileset ? getGhostSprite(tileset, entity) : undefined;
+          return (
+            <div
+              key={`remembered-${entity.id}`}
+              className="absolute flex items-center justify-center pointer-events-none opacity-40 grayscale"
+              style={{
+                left: entity.pos.x * CELL_SIZE,
+                top: entity.pos.y * CELL_SIZE,
+                width: CELL_SIZE,
+                height: CELL_SIZE,
+              }}
+            >
+              {sprite ? (
+                <div
+                  style={{
+                    width: `${zoom * 24}px`,
+                    height: `${zoom * 24}px`,
+                    ...getSpriteStyle(tileset, sprite),
+                  }}
+                />
+              ) : (
+                <div
+                  className={`leading-none ${entity.color}`}
+                  style={{ fontSize: `${zoom * 24}px` }}
+                >
+                  {entity.symbol}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
         {entities
           .filter((e) => !e.isDead)
           .map((entity) => {
@@ -736,7 +569,7 @@ const GameGrid: FC<GameGridProps> = ({
               return null;
             }
 
-            // Отключаем анимацию для отслеживаемой сущности
+            // Отключаем анимацию перемещения для отслеживаемой сущности
             const isFollowedEntity = entity.id === followedEntityId;
             const shouldAnimate =
               !disableAnimations && (!isFollowedEntity || !followedEntityId);
@@ -744,9 +577,10 @@ const GameGrid: FC<GameGridProps> = ({
             // Find speech bubble for this entity
             const bubble = speechBubbles.find((b) => b.entityId === entity.id);
 
-            // Check if entity has damage animation
-            const damageAnim = damageAnimations.get(entity.id);
-            const hasDamageAnim = damageAnim !== undefined;
+            const effects = animations.effects.get(entity.id);
+            const move = shouldAnimate ? effects?.move : undefined;
+            const lunge = effects?.lunge;
+            const hit = effects?.hit;
 
             return (
               <div
@@ -757,32 +591,25 @@ const GameGrid: FC<GameGridProps> = ({
                   top: entity.pos.y * CELL_SIZE,
                   width: CELL_SIZE,
                   height: CELL_SIZE,
-                  transition: shouldAnimate
-                    ? "left 0.3s ease-out, top 0.3s ease-out"
-                    : "none",
                 }}
               >
                 {/* Damage flash overlay - key forces restart */}
-                {hasDamageAnim && (
+                {hit && (
                   <div
-                    key={`flash-${entity.id}-${damageAnim.timestamp}`}
-                    className="absolute inset-0 bg-red-500 rounded animate-pulse pointer-events-none z-40"
-                    style={{
-                      animation: "damageFlash 0.3s ease-out",
-                      opacity: 0,
-                    }}
+                    key={`flash-${entity.id}-${hit.start}`}
+                    className="absolute inset-0 bg-red-500 rounded pointer-events-none z-40"
+                    style={getHitFlashStyle(hit)}
                   />
                 )}
 
                 {/* Floating damage number - key forces restart */}
-                {hasDamageAnim && (
+                {hit && (
                   <div
-                    key={`damage-${entity.id}-${damageAnim.timestamp}`}
+                    key={`damage-${entity.id}-${hit.start}`}
                     className="absolute left-1/2 pointer-events-none z-50"
                     style={{
-                      animation: "floatUp 1s ease-out forwards",
+                      ...getHitNumberStyle(hit),
                       bottom: `${CELL_SIZE / 2}px`,
-                      transform: "translateX(-50%)",
                     }}
                   >
                     <div
@@ -793,155 +620,75 @@ const GameGrid: FC<GameGridProps> = ({
                           "0 0 4px black, 0 0 8px black, 1px 1px 2px black",
                       }}
                     >
-                      -{damageAnim.damage}
+                      -{hit.damage}
                     </div>
                   </div>
                 )}
 
-                {/* Shake wrapper - key forces restart */}
+                {/* Move, lunge and shake wrappers - keys force restart */}
                 <div
-                  key={`shake-${entity.id}-${hasDamageAnim ? damageAnim.timestamp : 0}`}
-                  className={hasDamageAnim ? "damage-shake" : ""}
+                  key={`move-${entity.id}-${move?.start ?? 0}`}
+                  className="absolute inset-0"
+                  style={move && getMoveAnimationStyle(move, CELL_SIZE)}
                 >
-                  {renderEntity(entity, entityIndex, totalInCell)}
-                </div>
-                {bubble && (
                   <div
-                    className="absolute left-1/2 -translate-x-1/2 pointer-events-none speech-bubble z-50"
-                    style={{
-                      bottom: `${CELL_SIZE + 8}px`,
-                      maxWidth: `${CELL_SIZE * 5}px`,
-                      minWidth: `${CELL_SIZE * 2}px`,
-                    }}
+                    key={`lunge-${entity.id}-${lunge?.start ?? 0}`}
+                    className="absolute inset-0"
+                    style={lunge && getLungeAnimationStyle(lunge, CELL_SIZE)}
                   >
-                    <div className="relative bg-white text-neutral-900 text-xs rounded-xl px-3 py-1.5 shadow-2xl border-2 border-neutral-800/20">
-                      <div className="max-w-full overflow-hidden text-ellipsis whitespace-nowrap font-sans font-medium leading-tight">
-                        {bubble.text.length > 60
-                          ? bubble.text.substring(0, 60) + "..."
-                          : bubble.text}
-                      </div>
-                      {/* Speech bubble tail */}
-                      <div
-                        className="absolute left-1/2 -translate-x-1/2"
-                        style={{
-                          bottom: "-8px",
-                        }}
-                      >
-                        <div
-                          style={{
-                            width: 0,
-                            height: 0,
-                            borderLeft: "8px solid transparent",
-                            borderRight: "8px solid transparent",
-                            borderTop: "8px solid rgba(0, 0, 0, 0.2)",
-                          }}
-                        />
-                        <div
-                          className="absolute left-1/2 -translate-x-1/2"
-                          style={{
-                            bottom: "1px",
-                            width: 0,
-                            height: 0,
-                            borderLeft: "7px solid transparent",
-                            borderRight: "7px solid transparent",
-                            borderTop: "7px solid white",
-                          }}
-                        />
-                      </div>
+                    <div
+                      key={`shake-${entity.id}-${hit?.start ?? 0}`}
+                      className="absolute inset-0"
+                      style={hit && getHitShakeStyle(hit)}
+                    >
+                      {renderEntity(entity, entityIndex, totalInCell)}
                     </div>
                   </div>
+                </div>
+                {bubble && (
+                  <EntitySpeechBubble bubble={bubble} cellSize={CELL_SIZE} />
                 )}
               </div>
             );
           })}
-      </div>
-
-      {/* Контекстное меню */}
-      {localContextMenu && (
-        <ContextMenu
-          data={localContextMenu}
-          onClose={() => setLocalContextMenu(null)}
-          onSelectEntity={onSelectEntity}
-          onFollowEntity={onFollowEntity}
-          onSendCommand={onSendCommand}
-          onSelectPosition={onSelectPosition}
-          onGoToPathfinding={onGoToPathfinding}
-          onInspectEntity={onInspectEntity}
-        />
-      )}
-
-      {/* Радиальное меню быстрых действий */}
-      {radialMenu && (
-        <RadialMenu
-          x={radialMenu.x}
-          y={radialMenu.y}
-          entity={radialMenu.entity}
-          actions={getRadialMenuActions(radialMenu.entity)}
-          onAction={handleRadialAction}
-          onClose={() => {
-            setRadialMenu(null);
-            if (onRadialMenuChange) {
-              onRadialMenuChange(false);
-            }
-          }}
-          cellSize={CELL_SIZE}
-          zoom={zoom}
-        />
-      )}
-
-      {/* Close radial menu if external prop changes */}
-      {!radialMenuOpen &&
-        radialMenu &&
-        (() => {
-          setRadialMenu(null);
-          return null;
-        })()}
-
-      {/* Индикатор перетаскивания */}
-      {isDragging && (
-        <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-ui-button-primary-bg text-ui-button-primary-text px-4 py-2 rounded shadow-lg z-50 text-sm font-semibold">
-          Перетащите игрока в новую клетку
-        </div>
-      )}
-
-      {/* Damage animation styles */}
-      <style>{`
-        @keyframes damageFlash {
-          0% {
-            opacity: 0.6;
-          }
-          100% {
-            opacity: 0;
-          }
-        }
-
-        @keyframes floatUp {
-          0% {
-            opacity: 1;
-            transform: translateX(-50%) translateY(0);
-          }
-          100% {
-            opacity: 0;
-            transform: translateX(-50%) translateY(-40px);
-          }
-        }
 
-        @keyframes shake {
-          0%, 100% {
-            transform: translateX(0);
-          }
-          25% {
-            transform: translateX(-2px);
-          }
-          75% {
-            transform: translateX(2px);
+        {/* Умершие сущности угасают на последней клетке */}
+        {animations.dying.map(({ entity, death }) => {
+          if (!world.map[entity.pos.y]?.[entity.pos.x]?.isVisible) {
+            return null;
           }
-        }
+          return (
+            <div
+              key={`dying-${entity.id}-${death.start}`}
+              className="absolute pointer-events-none"
+              style={{
+                left: entity.pos.x * CELL_SIZE,
+                top: entity.pos.y * CELL_SIZE,
+                width: CELL_SIZE,
+                height: CELL_SIZE,
+                ...getDeathAnimationStyle(death),
+              }}
+            >
+              {renderEntity(entity, 0, 1)}
+            </div>
+          );
+        })}
+      </div>
 
-        .damage-shake {
-          animation: shake 0.3s ease-in-out;
-        }
-      `}</style>
+      <GridMenus
+        interactions={interactions}
+        cellSize={CELL_SIZE}
+        zoom={zoom}
+        onSelectEntity={onSelectEntity}
+        onSelectPosition={onSelectPosition}
+        onFollowEntity={onFollowEntity}
+        onSendCommand={onSendCommand}
+        onGoToPathfinding={onGoToPathfinding}
+        onInspectEntity={onInspectEntity}
+      />
+
+      {/* Entity animation styles */}
+      <style>{ENTITY_ANIMATION_KEYFRAMES}</style>
     </div>
   );
 };
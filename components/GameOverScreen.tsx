@@ -0,0 +1,121 @@
+import {History, List, RotateCcw, Skull} from "lucide-react";
+import {FC} from "react";
+
+import {LogType, RunSummary} from "../types";
+
+import {LogMessageText} from "./LogMessageText";
+
+interface GameOverScreenProps {
+  summary: RunSummary;
+  /** Войти заново на том же сервере другим персонажем */
+  onNewCharacter: () => void;
+  /** Отключиться и вернуться к выбору сервера */
+  onServerList: () => void;
+  /** Посмотреть последние тики на шкале истории */
+  onReviewHistory?: () => void;
+}
+
+const EVENT_COLORS: Partial<Record<LogType, string>> = {
+  [LogType.COMBAT]: "text-red-400",
+  [LogType.NARRATIVE]: "text-purple-400 italic",
+  [LogType.SPEECH]: "text-yellow-300",
+  [LogType.ERROR]: "text-red-600",
+  [LogType.COMMAND]: "text-cyan-600",
+};
+
+const buttonClass =
+  "flex items-center justify-center gap-2 px-4 py-2 rounded border text-sm transition-colors";
+
+/**
+ * Экран окончания игры: причина смерти и итоги забега
+ */
+export const GameOverScreen: FC<GameOverScreenProps> = ({
+  summary,
+  onNewCharacter,
+  onServerList,
+  onReviewHistory,
+}) => {
+  const stats = [
+    { label: "Turns survived", value: summary.turns },
+    { label: "Ticks", value: summary.ticks },
+    { label: "Kills", value: summary.kills },
+    { label: "Gold", value: summary.gold },
+    { label: "Dungeon level", value: summary.level },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/70">
+      <div className="flex flex-col gap-4 w-full max-w-lg p-6 bg-neutral-950 border border-red-800 rounded shadow-2xl font-mono text-gray-300">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <Skull className="w-10 h-10 text-red-500" />
+          <h2 className="text-2xl text-red-500 uppercase tracking-widest">
+            You died
+          </h2>
+          <div className="text-sm text-gray-400">
+            {summary.characterName} · {summary.causeOfDeath}
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-5 gap-2 text-center">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="flex flex-col gap-1 p-2 rounded border border-neutral-800"
+            >
+              <dd className="text-lg text-white">{stat.value}</dd>
+              <dt className="text-[10px] uppercase text-gray-500">
+                {stat.label}
+              </dt>
+            </div>
+          ))}
+        </dl>
+
+        {summary.lastEvents.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <div className="text-xs text-gray-500 uppercase tracking-widest border-b border-gray-800 pb-1">
+              Last events
+            </div>
+            <ul className="flex flex-col gap-1 text-xs max-h-40 overflow-y-auto">
+              {summary.lastEvents.map((log) => (
+                <li
+                  key={log.id}
+                  className={EVENT_COLORS[log.type] ?? "text-gray-400"}
+                >
+                  <LogMessageText log={log} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={onNewCharacter}
+            className={`${buttonClass} bg-red-900/60 border-red-700 text-white hover:bg-red-800`}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reconnect as new character
+          </button>
+          <div className="flex gap-2">
+            {onReviewHistory && (
+              <button
+                onClick={onReviewHistory}
+                className={`${buttonClass} flex-1 border-neutral-700 hover:border-amber-500 hover:text-amber-200`}
+              >
+                <History className="w-4 h-4" />
+                Review last turns
+              </button>
+            )}
+            <button
+              onClick={onServerList}
+              className={`${buttonClass} flex-1 border-neutral-700 hover:border-cyan-400 hover:text-cyan-200`}
+            >
+              <List className="w-4 h-4" />
+              Return to server list
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
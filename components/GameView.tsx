@@ -1,28 +1,54 @@
-import {Focus, Navigation} from "lucide-react";
+import {Eye, Focus, Navigation} from "lucide-react";
 import {forwardRef} from "react";
 
-import type {ContextMenuData, Entity, GameWorld, Position, SpeechBubble,} from "../types";
+import {
+  useEntities,
+  usePlayer,
+  useRememberedEntities,
+  useSpeechBubbles,
+  useViewedTickSnapshot,
+  useWorld,
+} from "../hooks/useGameStore";
+import type {
+  AnimationSettings,
+  ContextMenuData,
+  Entity,
+  GridOverlays,
+  MapRenderer,
+  Position,
+  RememberedEntity,
+  Tileset,
+} from "../types";
 
+import CanvasGameGrid from "./CanvasGameGrid";
 import {ContextMenu} from "./ContextMenu";
 import GameGrid from "./GameGrid";
+import {HistoryTimeline, TickHistoryControls} from "./HistoryTimeline";
 
+// Метки призраков относятся к настоящему, в истории они не показываются
+const NO_REMEMBERED_ENTITIES: RememberedEntity[] = [];
+
+/**
+ * Мир и сущности берутся из хранилища игры (см. hooks/useGameStore)
+ */
 interface GameViewProps {
-  world: GameWorld | null;
-  player: Entity | null;
-  entities: Entity[];
   zoom: number;
+  /** Способ отрисовки карты */
+  mapRenderer: MapRenderer;
+  /** Тайлсет графического режима (null — ASCII) */
+  tileset: Tileset | null;
+  /** Скорость анимаций сущностей и «уменьшить движение» */
+  animationSettings: AnimationSettings;
   isZooming: boolean;
   isPanning: boolean;
   followedEntityId: string | null;
   cameraOffset: { x: number; y: number };
-  speechBubbles: SpeechBubble[];
   radialMenuOpen: boolean;
   selectedTargetEntityId: string | null;
   selectedTargetPosition: Position | null;
   pathfindingTarget: Position | null;
   currentPath: Position[];
   contextMenu: ContextMenuData | null;
-  entityRegistry: Map<string, Entity>;
   onWheel: (e: React.WheelEvent) => void;
   onResetZoom: () => void;
   onToggleFollow: () => void;
@@ -38,31 +64,36 @@ interface GameViewProps {
   onInspectEntity?: (entity: Entity) => void;
   autoSkipEnabled: boolean;
   onToggleAutoSkip: () => void;
+  /** Слои-подсказки поверх карты */
+  gridOverlays: GridOverlays;
+  onToggleGridOverlay: (layer: keyof GridOverlays) => void;
+  /** Шкала истории тиков: на прошлом тике карта рисуется по нему */
+  timeline?: TickHistoryControls;
 }
 
 export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
   (
     {
-      world,
-      player,
-      entities,
       zoom,
+      mapRenderer,
+      tileset,
+      animationSettings,
       isZooming,
       isPanning,
       followedEntityId,
       cameraOffset,
-      speechBubbles,
       radialMenuOpen,
       selectedTargetEntityId,
       selectedTargetPosition,
       pathfindingTarget,
       currentPath,
       contextMenu,
-      entityRegistry,
       onWheel,
       onResetZoom,
       onToggleAutoSkip,
       autoSkipEnabled,
+      gridOverlays,
+      onToggleGridOverlay,
       onToggleFollow,
       onMovePlayer,
       onSelectEntity,
@@ -75,9 +106,35 @@ export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
       onRadialMenuChange,
       onCloseContextMenu,
       onInspectEntity,
+      timeline,
     },
     containerRef,
   ) => {
+    const liveWorld = useWorld();
+    const livePlayer = usePlayer();
+    const liveEntities = useEntities();
+    const liveRememberedEntities = useRememberedEntities();
+    const speechBubbles = useSpeechBubbles();
+    const historySnapshot = useViewedTickSnapshot(timeline?.viewedTick ?? null);
+
+    const world = historySnapshot?.world ?? liveWorld;
+    const player = historySnapshot ? historySnapshot.player : livePlayer;
+    const entities = historySnapshot?.entities ?? liveEntities;
+    const rememberedEntities = historySnapshot
+      ? NO_REMEMBERED_ENTITIES
+      : liveRememberedEntities;
+
+    // Чьими глазами смотрим: игрок, а в режиме наблюдателя — отслеживаемая сущность
+    const viewer =
+      player ??
+      (followedEntityId
+        ? entities.find((entity) => entity.id === followedEntityId)
+        : undefined) ??
+      entities[0] ??
+      null;
+    const gridEntities = player ? [player, ...entities] : entities;
+    const Grid = mapRenderer === "canvas" ? CanvasGameGrid : GameGrid;
+
     return (
       <>
         <div
@@ -86,7 +143,7 @@ export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
           onWheel={onWheel}
         >
           {/* Сообщение ожидания данных */}
-          {(!world || !player) && (
+          {(!world || !viewer) && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center">
                 <div className="text-gray-400 text-xl mb-4">
@@ -99,8 +156,18 @@ export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
             </div>
           )}
 
+          {/* Режим наблюдателя: чья перспектива отображается */}
+          {world && viewer && !player && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-black/80 text-white px-3 py-1 rounded text-xs font-mono border border-cyan-500 pointer-events-none">
+              <Eye className="w-3 h-3 text-cyan-400" />
+              <span>Наблюдатель</span>
+              <span className="text-gray-400">·</span>
+              <span className="text-cyan-200">{viewer.name}</span>
+            </div>
+          )}
+
           {/* Индикатор зума и переключатель следования */}
-          {world && player && (
+          {world && viewer && (
             <div className="absolute top-2 right-2 flex flex-col gap-2 z-50 items-end">
               <button
                 onClick={(e) => {
@@ -154,10 +221,41 @@ export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
                 />
                 <span>Авто-скип</span>
               </label>
+
+              <label
+                className="flex items-center gap-2 bg-black/80 text-gray-400 px-3 py-1 rounded border border-neutral-600 text-xs font-mono cursor-pointer hover:text-cyan-200 transition-colors"
+                title="Видимые, запомненные и неисследованные клетки"
+              >
+                <input
+                  type="checkbox"
+                  checked={gridOverlays.visibility}
+                  onChange={() => onToggleGridOverlay("visibility")}
+                  className="accent-cyan-500"
+                />
+                <span>Видимость</span>
+              </label>
+
+              <label
+                className="flex items-center gap-2 bg-black/80 text-gray-400 px-3 py-1 rounded border border-neutral-600 text-xs font-mono cursor-pointer hover:text-cyan-200 transition-colors"
+                title="Клетки, куда видимые враги достанут ударом (красные) или шагом и ударом (оранжевые)"
+              >
+                <input
+                  type="checkbox"
+                  checked={gridOverlays.threat}
+                  onChange={() => onToggleGridOverlay("threat")}
+                  className="accent-cyan-500"
+                />
+                <span>Угрозы</span>
+              </label>
             </div>
           )}
 
-          {world && player && (
+          {/* Просмотр прошлых тиков */}
+          {world && viewer && timeline && (
+            <HistoryTimeline controls={timeline} />
+          )}
+
+          {world && viewer && (
             <div
               className="absolute top-0 left-0"
               style={{
@@ -167,12 +265,16 @@ export const GameView = forwardRef<HTMLDivElement, GameViewProps>(
                   : "none",
               }}
             >
-              <GameGrid
+              <Grid
                 world={world}
-                entities={[player, ...entities]}
-                playerPos={player.pos}
+                entities={gridEntities}
+                rememberedEntities={rememberedEntities}
+                playerPos={viewer.pos}
                 fovRadius={8}
                 zoom={zoom}
+                tileset={tileset}
+                overlays={gridOverlays}
+                animationSettings={animationSettings}
                 disableAnimations={isZooming}
                 followedEntityId={followedEntityId}
                 speechBubbles={speechBubbles}
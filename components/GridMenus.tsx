@@ -0,0 +1,140 @@
+import {Hand, MessageCircle, Search, Sword} from "lucide-react";
+import {FC} from "react";
+
+import type {GridInteractions} from "../hooks/useGridInteractions";
+import {Entity, EntityType, Position} from "../types";
+
+import {ContextMenu} from "./ContextMenu";
+import {RadialMenu} from "./RadialMenu";
+
+interface GridMenusProps {
+  interactions: GridInteractions;
+  cellSize: number;
+  zoom: number;
+  onSelectEntity?: (entityId: string | null) => void;
+  onSelectPosition?: (x: number, y: number) => void;
+  onFollowEntity?: (entityId: string | null) => void;
+  onSendCommand?: (action: string, payload?: any) => void;
+  onGoToPathfinding?: (position: Position) => void;
+  onInspectEntity?: (entity: Entity) => void;
+}
+
+const getRadialMenuActions = (entity: Entity) => {
+  const actions = [];
+
+  // Attack action for hostile entities
+  if (entity.isHostile) {
+    actions.push({
+      id: "attack",
+      icon: Sword,
+      label: "Атаковать",
+      color: "#dc2626",
+    });
+  }
+
+  // Talk action for NPCs
+  if (entity.type === EntityType.NPC) {
+    actions.push({
+      id: "talk",
+      icon: MessageCircle,
+      label: "Поговорить",
+      color: "#3b82f6",
+    });
+  }
+
+  // Pickup action for items
+  if (entity.type === EntityType.ITEM) {
+    actions.push({
+      id: "pickup",
+      icon: Hand,
+      label: "Подобрать",
+      color: "#10b981",
+    });
+  }
+
+  // Interact action for chests and exits
+  if (entity.type === EntityType.CHEST || entity.type === EntityType.EXIT) {
+    actions.push({
+      id: "interact",
+      icon: Hand,
+      label: "Взаимодействовать",
+      color: "#10b981",
+    });
+  }
+
+  // Inspect action for all entities (except player)
+  if (entity.type !== EntityType.PLAYER) {
+    actions.push({
+      id: "inspect",
+      icon: Search,
+      label: "Осмотреть",
+      color: "#8b5cf6",
+    });
+  }
+
+  return actions;
+};
+
+/**
+ * Меню карты: локальное контекстное меню, радиальное меню быстрых
+ * действий и подсказка при перетаскивании игрока
+ */
+export const GridMenus: FC<GridMenusProps> = ({
+  interactions,
+  cellSize,
+  zoom,
+  onSelectEntity,
+  onSelectPosition,
+  onFollowEntity,
+  onSendCommand,
+  onGoToPathfinding,
+  onInspectEntity,
+}) => {
+  const {
+    localContextMenu,
+    closeLocalContextMenu,
+    radialMenu,
+    closeRadialMenu,
+    handleRadialAction,
+    isDragging,
+  } = interactions;
+
+  return (
+    <>
+      {/* Контекстное меню */}
+      {localContextMenu && (
+        <ContextMenu
+          data={localContextMenu}
+          onClose={closeLocalContextMenu}
+          onSelectEntity={onSelectEntity}
+          onFollowEntity={onFollowEntity}
+          onSendCommand={onSendCommand}
+          onSelectPosition={onSelectPosition}
+          onGoToPathfinding={onGoToPathfinding}
+          onInspectEntity={onInspectEntity}
+        />
+      )}
+
+      {/* Радиальное меню быстрых действий */}
+      {radialMenu && (
+        <RadialMenu
+          x={radialMenu.x}
+          y={radialMenu.y}
+          entity={radialMenu.entity}
+          actions={getRadialMenuActions(radialMenu.entity)}
+          onAction={handleRadialAction}
+          onClose={closeRadialMenu}
+          cellSize={cellSize}
+          zoom={zoom}
+        />
+      )}
+
+      {/* Индикатор перетаскивания */}
+      {isDragging && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-ui-button-primary-bg text-ui-button-primary-text px-4 py-2 rounded shadow-lg z-50 text-sm font-semibold">
+          Перетащите игрока в новую клетку
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,84 @@
+import {FC} from "react";
+
+import {GameWorld, GridOverlays} from "../types";
+import {getCellKey} from "../utils/mapCells";
+import type {CellThreat} from "../utils/threatMap";
+
+import {getCellOverlayFills} from "./gridOverlays";
+
+interface GridOverlayLayerProps {
+  world: GameWorld;
+  overlays: GridOverlays;
+  threatMap: Map<string, CellThreat> | null;
+  cellSize: number;
+  /** Отрисовываемые клетки: [minX, maxX) × [minY, maxY) */
+  range: { minX: number; maxX: number; minY: number; maxY: number };
+  /** Сдвиг слоя, как у сетки (на ширину ее рамки) */
+  offset: number;
+}
+
+/**
+ * Слои-подсказки поверх DOM-сетки: видимость клеток и угрозы
+ *
+ * Лежит отдельным слоем между сеткой и сущностями, чтобы затемнение
+ * запомненных клеток не обесцвечивало подсказки.
+ */
+export const GridOverlayLayer: FC<GridOverlayLayerProps> = ({
+  world,
+  overlays,
+  threatMap,
+  cellSize,
+  range,
+  offset,
+}) => {
+  const cells = [];
+  for (let y = range.minY; y < range.maxY; y++) {
+    for (let x = range.minX; x < range.maxX; x++) {
+      const tile = world.map[y]?.[x];
+      if (!tile) {
+        continue;
+      }
+      const fills = getCellOverlayFills(
+        tile,
+        threatMap?.get(getCellKey(x, y)),
+        overlays,
+      );
+      if (fills.length === 0) {
+        continue;
+      }
+      cells.push(
+        <div
+          key={`${x}-${y}`}
+          className="absolute"
+          style={{
+            left: x * cellSize,
+            top: y * cellSize,
+            width: cellSize,
+            height: cellSize,
+            background: fills
+              .reverse()
+              .map(({ color, hatch }) =>
+                hatch
+                  ? `repeating-linear-gradient(45deg, ${color} 0 2px, transparent 2px 8px)`
+                  : `linear-gradient(${color}, ${color})`,
+              )
+              .join(", "),
+          }}
+        />,
+      );
+    }
+  }
+
+  return (
+    <div
+      className="absolute top-0 left-0 pointer-events-none"
+      style={{
+        width: world.width * cellSize,
+        height: world.height * cellSize,
+        transform: `translate(-${offset}px, -${offset}px)`,
+      }}
+    >
+      {cells}
+    </div>
+  );
+};
@@ -1,19 +1,23 @@
-import type {FC} from "react";
+import {memo} from "react";
 
 import {KeyBindingManager} from "../commands";
-import type {Entity, GameState, Item, LogMessage, ServerToClientEquipmentView,} from "../types";
+import type {AnimationSettings, Entity, Item, MapRenderer, TileMode} from "../types";
+import type {TrackedCommand} from "../utils/commandTracker";
 
 import StatusPanel from "./StatusPanel";
 import {WindowSystem} from "./WindowSystem";
+import type {MinimapControls} from "./WindowSystem/windows/components/MinimapWindow";
+import type {NetworkDiagnosticsSource} from "./WindowSystem/windows/components/NetworkWindow";
+import type {PartyControls} from "./WindowSystem/windows/components/PartyWindow";
+import type {SessionControls} from "./WindowSystem/windows/components/SessionWindow";
+import type {SpectatorControls} from "./WindowSystem/windows/components/TurnOrderWindow";
 
+/**
+ * Игровые данные (персонаж, сущности, инвентарь) панели и окна читают из
+ * хранилища игры сами, поэтому обновления сервера не перерисовывают HUD
+ */
 interface HUDProps {
-  player: Entity | null;
-  entities: Entity[];
-  gameState: GameState;
-  globalTick: number;
-  selectedTarget: Entity | null;
-  activeEntityId: string | null;
-  logs: LogMessage[];
+  selectedTargetId: string | null;
   keyBindingManager: KeyBindingManager;
   onEntityClick: (entityId: string) => void;
   onGoToPosition: (position: { x: number; y: number }) => void;
@@ -23,33 +27,35 @@ interface HUDProps {
   onInspectEntity?: (handler: (entity: Entity) => void) => void;
   splashNotificationsEnabled: boolean;
   onToggleSplashNotifications: (enabled: boolean) => void;
-  playerInventory: Item[];
-  playerInventoryData?: {
-    maxSlots?: number;
-    currentWeight?: number;
-    maxWeight?: number;
-  } | null;
-  playerEquipment?: ServerToClientEquipmentView | null;
+  logRetention: number;
+  onChangeLogRetention: (limit: number) => void;
+  mapRenderer: MapRenderer;
+  onChangeMapRenderer: (renderer: MapRenderer) => void;
+  tileMode: TileMode;
+  onChangeTileMode: (mode: TileMode) => void;
+  animationSettings: AnimationSettings;
+  onChangeAnimationSettings: (settings: AnimationSettings) => void;
   onUseItem: (item: Item, targetEntityId?: string) => void;
   onDropItem: (item: Item) => void;
   onEquipItem: (item: Item) => void;
   onUnequipItem: (item: Item) => void;
+  itemCommandFeedback?: Map<string, TrackedCommand>;
   onLogin: (entityId: string) => void;
+  onSpectate?: () => void;
   isAuthenticated: boolean;
   wsConnected: boolean;
   loginError: string | null;
   radialMenuOpen: boolean;
   contextMenuOpen: boolean;
+  sessionControls?: SessionControls;
+  networkDiagnostics?: NetworkDiagnosticsSource;
+  spectator?: SpectatorControls;
+  party?: PartyControls;
+  minimap?: MinimapControls;
 }
 
-export const HUD: FC<HUDProps> = ({
-  player,
-  entities,
-  gameState,
-  globalTick,
-  selectedTarget,
-  activeEntityId,
-  logs,
+export const HUD = memo<HUDProps>(({
+  selectedTargetId,
   keyBindingManager,
   onEntityClick,
   onGoToPosition,
@@ -59,40 +65,41 @@ export const HUD: FC<HUDProps> = ({
   onInspectEntity,
   splashNotificationsEnabled,
   onToggleSplashNotifications,
-  playerInventory,
-  playerInventoryData,
-  playerEquipment,
+  logRetention,
+  onChangeLogRetention,
+  mapRenderer,
+  onChangeMapRenderer,
+  tileMode,
+  onChangeTileMode,
+  animationSettings,
+  onChangeAnimationSettings,
   onUseItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
+  itemCommandFeedback,
   onLogin,
+  onSpectate,
   isAuthenticated,
   wsConnected,
   loginError,
   radialMenuOpen,
   contextMenuOpen,
+  sessionControls,
+  networkDiagnostics,
+  spectator,
+  party,
+  minimap,
 }) => {
   return (
     <>
       {/* Status Panel */}
-      {player && (
-        <StatusPanel
-          player={player}
-          gameState={gameState}
-          globalTick={globalTick}
-          target={selectedTarget}
-        />
-      )}
+      <StatusPanel targetId={selectedTargetId} />
 
       {/* Window System */}
       <WindowSystem
         keyBindingManager={keyBindingManager}
-        entities={player ? [player, ...entities] : entities}
-        activeEntityId={activeEntityId}
-        playerId={player?.id ?? null}
         onEntityClick={onEntityClick}
-        logs={logs}
         onGoToPosition={onGoToPosition}
         onGoToEntity={onGoToEntity}
         onSendCommand={onSendCommand}
@@ -100,20 +107,34 @@ export const HUD: FC<HUDProps> = ({
         onInspectEntity={onInspectEntity}
         splashNotificationsEnabled={splashNotificationsEnabled}
         onToggleSplashNotifications={onToggleSplashNotifications}
-        playerInventory={playerInventory}
-        playerInventoryData={playerInventoryData}
-        playerEquipment={playerEquipment}
+        logRetention={logRetention}
+        onChangeLogRetention={onChangeLogRetention}
+        mapRenderer={mapRenderer}
+        onChangeMapRenderer={onChangeMapRenderer}
+        tileMode={tileMode}
+        onChangeTileMode={onChangeTileMode}
+        animationSettings={animationSettings}
+        onChangeAnimationSettings={onChangeAnimationSettings}
         onUseItem={onUseItem}
         onDropItem={onDropItem}
         onEquipItem={onEquipItem}
         onUnequipItem={onUnequipItem}
+        itemCommandFeedback={itemCommandFeedback}
         onLogin={onLogin}
+        onSpectate={onSpectate}
         isAuthenticated={isAuthenticated}
         wsConnected={wsConnected}
         loginError={loginError}
         radialMenuOpen={radialMenuOpen}
         contextMenuOpen={contextMenuOpen}
+        sessionControls={sessionControls}
+        networkDiagnostics={networkDiagnostics}
+        spectator={spectator}
+        party={party}
+        minimap={minimap}
       />
     </>
   );
-};
+});
+
+HUD.displayName = "HUD";
@@ -0,0 +1,121 @@
+import {ChevronLeft, ChevronRight, History, SkipForward} from "lucide-react";
+import {FC} from "react";
+
+import {useTickSnapshots} from "../hooks/useGameStore";
+import {findTickSnapshotIndex} from "../utils/tickHistory";
+
+/**
+ * Управление просмотром истории (из useTickHistory)
+ */
+export interface TickHistoryControls {
+  /** Просматриваемый тик (null — настоящее) */
+  viewedTick: number | null;
+  onViewIndex: (index: number) => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onReturnToPresent: () => void;
+}
+
+interface HistoryTimelineProps {
+  controls: TickHistoryControls;
+}
+
+const stepButtonClass =
+  "p-1 rounded text-gray-400 hover:text-amber-200 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors";
+
+/**
+ * Баннер просмотра истории и шкала тиков поверх игрового поля
+ */
+export const HistoryTimeline: FC<HistoryTimelineProps> = ({ controls }) => {
+  const history = useTickSnapshots();
+  if (history.length < 2) {
+    return null;
+  }
+
+  const ticks = history.map((snapshot) => snapshot.tick);
+  const presentIndex = ticks.length - 1;
+  const viewedIndex =
+    controls.viewedTick === null
+      ? presentIndex
+      : findTickSnapshotIndex(history, controls.viewedTick);
+  // Последний снимок — это настоящее, а не история
+  const isViewingHistory = viewedIndex < presentIndex;
+
+  const presentTick = ticks[presentIndex];
+  const viewedTick = ticks[viewedIndex] ?? presentTick;
+  const ticksAgo = presentTick - viewedTick;
+
+  return (
+    <>
+      {isViewingHistory && (
+        <div className="absolute top-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-black/80 text-white px-3 py-1 rounded text-xs font-mono border border-amber-500">
+          <History className="w-3 h-3 text-amber-400" />
+          <span>Просмотр истории</span>
+          <span className="text-gray-400">·</span>
+          <span className="text-amber-200">
+            тик {viewedTick} (−{ticksAgo})
+          </span>
+          <span className="text-gray-400">· ввод заблокирован</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              controls.onReturnToPresent();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="ml-1 px-2 rounded bg-amber-600/80 text-white hover:bg-amber-500 transition-colors"
+          >
+            К настоящему
+          </button>
+        </div>
+      )}
+
+      <div
+        className="absolute bottom-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-black/80 text-white px-3 py-1 rounded text-xs font-mono border border-neutral-600"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <History
+          className={`w-3 h-3 ${isViewingHistory ? "text-amber-400" : "text-gray-400"}`}
+        />
+        <button
+          onClick={controls.onStepBack}
+          disabled={viewedIndex <= 0}
+          className={stepButtonClass}
+          title="Предыдущий тик"
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={ticks.length - 1}
+          value={viewedIndex}
+          onChange={(e) => controls.onViewIndex(Number(e.target.value))}
+          className="w-48 accent-amber-500"
+          aria-label="Шкала тиков"
+        />
+        <button
+          onClick={controls.onStepForward}
+          disabled={!isViewingHistory}
+          className={stepButtonClass}
+          title="Следующий тик"
+        >
+          <ChevronRight className="w-3 h-3" />
+        </button>
+        <button
+          onClick={controls.onReturnToPresent}
+          disabled={!isViewingHistory}
+          className={stepButtonClass}
+          title="К настоящему"
+        >
+          <SkipForward className="w-3 h-3" />
+        </button>
+        <span
+          className={`w-20 text-right ${isViewingHistory ? "text-amber-200" : "text-gray-400"}`}
+        >
+          {isViewingHistory ? `−${ticksAgo}` : "сейчас"}
+        </span>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,111 @@
+import {FC} from "react";
+
+import {LogMessage, LogSegment, LogTextStyle, Position} from "../types";
+
+/**
+ * Обработчики ссылок в сообщениях лога
+ */
+export interface LogReferenceHandlers {
+  /** Навести камеру на сущность и выделить ее */
+  onGoToEntity?: (entityId: string) => void;
+  /** Подсветить клетку и навести на нее камеру */
+  onGoToPosition?: (position: Position) => void;
+  /** Открыть инспектор предмета */
+  onInspectItem?: (itemId: string) => void;
+}
+
+interface LogMessageTextProps extends LogReferenceHandlers {
+  log: LogMessage;
+}
+
+const chipClass = "px-1 rounded hover:underline disabled:hover:no-underline";
+
+const CHIP_STYLES: Record<Exclude<LogSegment["kind"], "text">, string> = {
+  entity: "bg-cyan-400/10 text-cyan-400",
+  position: "bg-orange-400/10 text-orange-400",
+  item: "bg-amber-300/10 text-amber-300",
+};
+
+const getTextClass = (style: LogTextStyle): string =>
+  [
+    style.bold && "font-bold",
+    style.italic && "italic",
+    style.underline && "underline",
+    style.strike && "line-through",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Текст сообщения лога: ссылки на сущности, клетки и предметы
+ * рисуются кнопками, остальное — текстом с оформлением из разметки
+ * (см. utils/logMarkup). HTML из текста никогда не вставляется.
+ */
+export const LogMessageText: FC<LogMessageTextProps> = ({
+  log,
+  onGoToEntity,
+  onGoToPosition,
+  onInspectItem,
+}) => {
+  if (!log.segments) {
+    return <span>{log.text}</span>;
+  }
+
+  const renderChip = (
+    segment: Exclude<LogSegment, { kind: "text" }>,
+    key: number,
+  ) => {
+    let label: string;
+    let title: string;
+    let onClick: (() => void) | undefined;
+    switch (segment.kind) {
+    case "entity":
+      label = segment.name;
+      title = "Показать на карте";
+      onClick = onGoToEntity && (() => onGoToEntity(segment.entityId));
+      break;
+    case "position":
+      label = `(${segment.x}, ${segment.y})`;
+      title = "Подсветить клетку";
+      onClick =
+        onGoToPosition &&
+        (() => onGoToPosition({ x: segment.x, y: segment.y }));
+      break;
+    case "item":
+      label = segment.name;
+      title = "Осмотреть предмет";
+      onClick = onInspectItem && (() => onInspectItem(segment.itemId));
+      break;
+    }
+    return (
+      <button
+        key={key}
+        type="button"
+        onClick={onClick}
+        disabled={!onClick}
+        title={onClick ? title : undefined}
+        className={`${chipClass} ${CHIP_STYLES[segment.kind]}`}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <span>
+      {log.segments.map((segment, i) =>
+        segment.kind === "text" ? (
+          <span
+            key={i}
+            className={segment.style ? getTextClass(segment.style) : undefined}
+            style={segment.style?.color ? { color: segment.style.color } : undefined}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          renderChip(segment, i)
+        ),
+      )}
+    </span>
+  );
+};
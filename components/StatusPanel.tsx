@@ -1,12 +1,16 @@
 import {FC} from "react";
 
-import {Entity, GameState} from "../types";
+import {
+  useDerivedGameState,
+  useEntity,
+  useGlobalTick,
+  usePlayer,
+} from "../hooks/useGameStore";
+import {GameState} from "../types";
 
 interface StatusPanelProps {
-  player: Entity;
-  gameState: GameState;
-  target?: Entity | null;
-  globalTick?: number; // Added
+  /** Выбранная цель; данные берутся из хранилища игры */
+  targetId?: string | null;
 }
 
 const ProgressBar: FC<{
@@ -34,6 +38,21 @@ const ProgressBar: FC<{
   );
 };
 
+const GAME_STATE_BADGES: Record<GameState, { label: string; className: string }> = {
+  [GameState.EXPLORATION]: {
+    label: "ИССЛЕДОВАНИЕ",
+    className: "border-log-success text-log-success",
+  },
+  [GameState.COMBAT]: {
+    label: "⚠ БОЙ",
+    className: "border-log-combat text-log-combat animate-pulse",
+  },
+  [GameState.GAME_OVER]: {
+    label: "☠ ГИБЕЛЬ",
+    className: "border-log-error text-log-error",
+  },
+};
+
 const formatTime = (ticks: number) => {
   // 1 tick = 1 minute roughly for display logic, or abstract
   // Let's say 100 ticks = 1 hour
@@ -45,12 +64,17 @@ const formatTime = (ticks: number) => {
   return `День ${day}, ${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`;
 };
 
-const StatusPanel: FC<StatusPanelProps> = ({
-  player,
-  gameState,
-  target,
-  globalTick = 0,
-}) => {
+const StatusPanel: FC<StatusPanelProps> = ({ targetId = null }) => {
+  const player = usePlayer();
+  const gameState = useDerivedGameState();
+  const globalTick = useGlobalTick();
+  const target = useEntity(targetId ?? "");
+
+  // У наблюдателя и до входа панели нет
+  if (!player) {
+    return null;
+  }
+
   return (
     <div className="bg-window-base border-b border-window-border p-4 flex justify-between items-center h-24">
       {/* Player Stats */}
@@ -84,9 +108,9 @@ const StatusPanel: FC<StatusPanelProps> = ({
       {/* Game State Indicator */}
       <div className="flex flex-col items-center">
         <div
-          className={`px-4 py-1 rounded border ${gameState === GameState.COMBAT ? "border-log-combat text-log-combat animate-pulse" : "border-log-success text-log-success"}`}
+          className={`px-4 py-1 rounded border ${GAME_STATE_BADGES[gameState].className}`}
         >
-          {gameState === GameState.COMBAT ? "⚠ БОЙ" : "ИССЛЕДОВАНИЕ"}
+          {GAME_STATE_BADGES[gameState].label}
         </div>
         <div className="text-xs text-dock-text-dim mt-2 font-mono">
           {formatTime(globalTick)}
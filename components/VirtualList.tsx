@@ -0,0 +1,208 @@
+import {ReactNode, UIEvent, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState,} from "react";
+
+interface VirtualListProps<T> {
+  items: readonly T[];
+  /** Стабильный ключ элемента (функция вне компонента) */
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  /** Высота строки до первого измерения (px) */
+  estimateSize: number;
+  /** Сколько строк рисовать сверх видимой области с каждой стороны */
+  overscan?: number;
+  /** Держать прокрутку внизу при новых строках, если список уже внизу */
+  followOutput?: boolean;
+  className?: string;
+}
+
+interface VirtualRowProps {
+  rowKey: string;
+  offset: number;
+  onResize: (key: string, height: number) => void;
+  children: ReactNode;
+}
+
+/** Насколько список может не доходить до конца, оставаясь "внизу" (px) */
+const BOTTOM_THRESHOLD = 8;
+
+/**
+ * Строка списка: абсолютное позиционирование и измерение высоты
+ */
+const VirtualRow = ({ rowKey, offset, onResize, children }: VirtualRowProps) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      onResize(rowKey, row.offsetHeight);
+    });
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [rowKey, onResize]);
+
+  return (
+    <div
+      ref={rowRef}
+      className="absolute left-0 right-0"
+      style={{ top: offset }}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * Индекс последней строки, которая начинается не ниже position
+ */
+function findRowAt(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Виртуализированный список строк разной высоты
+ *
+ * В DOM находятся только видимые строки (и overscan вокруг них).
+ * Высота строки измеряется после отрисовки, до этого используется
+ * estimateSize.
+ *
+ * @example
+ * ```tsx
+ * <VirtualList
+ *   items={logs}
+ *   getKey={getLogKey}
+ *   estimateSize={24}
+ *   followOutput
+ *   renderItem={(log) => <LogRow log={log} />}
+ * />
+ * ```
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize,
+  overscan = 10,
+  followOutput = false,
+  className = "",
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isAtBottomRef = useRef(true);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [sizes, setSizes] = useState<ReadonlyMap<string, number>>(
+    () => new Map(),
+  );
+
+  // Track the viewport height (window resize, collapse/restore)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      setViewport({
+        scrollTop: container.scrollTop,
+        height: container.clientHeight,
+      });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget;
+    isAtBottomRef.current =
+      container.scrollTop + container.clientHeight >=
+      container.scrollHeight - BOTTOM_THRESHOLD;
+    setViewport({
+      scrollTop: container.scrollTop,
+      height: container.clientHeight,
+    });
+  };
+
+  // Forget heights of rows that left the list (e.g. logs moved to the archive)
+  const [measuredItems, setMeasuredItems] = useState(items);
+  if (measuredItems !== items) {
+    setMeasuredItems(items);
+    const keys = new Set(items.map(getKey));
+    if (Array.from(sizes.keys()).some((key) => !keys.has(key))) {
+      setSizes(
+        new Map(Array.from(sizes).filter(([key]) => keys.has(key))),
+      );
+    }
+  }
+
+  const handleRowResize = useCallback((key: string, height: number) => {
+    setSizes((prev) =>
+      prev.get(key) === height ? prev : new Map(prev).set(key, height),
+    );
+  }, []);
+
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    let total = 0;
+    items.forEach((item) => {
+      offsets.push(total);
+      total += sizes.get(getKey(item)) ?? estimateSize;
+    });
+    return { offsets, total };
+  }, [items, sizes, getKey, estimateSize]);
+
+  // Stay at the bottom while new rows arrive
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (followOutput && container && isAtBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [followOutput, layout.total]);
+
+  const visibleRows: number[] = [];
+  if (items.length > 0) {
+    const first = Math.max(
+      0,
+      findRowAt(layout.offsets, viewport.scrollTop) - overscan,
+    );
+    const bottom = viewport.scrollTop + viewport.height;
+    let last = findRowAt(layout.offsets, bottom);
+    last = Math.min(items.length - 1, last + overscan);
+    for (let index = first; index <= last; index++) {
+      visibleRows.push(index);
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={`overflow-y-auto ${className}`}
+    >
+      <div className="relative" style={{ height: layout.total }}>
+        {visibleRows.map((index) => {
+          const item = items[index];
+          const key = getKey(item);
+          return (
+            <VirtualRow
+              key={key}
+              rowKey={key}
+              offset={layout.offsets[index]}
+              onResize={handleRowResize}
+            >
+              {renderItem(item)}
+            </VirtualRow>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import {createContext, FC, ReactNode, useCallback, useContext, useEffect, useState,} from "react";
+import {createContext, FC, ReactNode, useCallback, useContext, useEffect, useMemo, useState,} from "react";
 
 import {
   calculateNormalizedPosition,
@@ -575,24 +575,45 @@ export const WindowManagerProvider: FC<WindowManagerProviderProps> = ({
     }
   }, []);
 
-  const value: WindowManagerContextType = {
-    windows,
-    openWindow,
-    closeWindow,
-    focusWindow,
-    minimizeWindow,
-    restoreWindow,
-    updateWindowPositionPx,
-    updateWindowSize,
-    updateWindowContent,
-    updateWindowBadge,
-    dockWindow,
-    undockWindow,
-    getDockedBounds,
-    updateMagneticSnap,
-    resetWindowLayout,
-    getWindowPixelPosition,
-  };
+  // Окна перерисовываются только от изменений самих окон, а не владельца провайдера
+  const value: WindowManagerContextType = useMemo(
+    () => ({
+      windows,
+      openWindow,
+      closeWindow,
+      focusWindow,
+      minimizeWindow,
+      restoreWindow,
+      updateWindowPositionPx,
+      updateWindowSize,
+      updateWindowContent,
+      updateWindowBadge,
+      dockWindow,
+      undockWindow,
+      getDockedBounds,
+      updateMagneticSnap,
+      resetWindowLayout,
+      getWindowPixelPosition,
+    }),
+    [
+      windows,
+      openWindow,
+      closeWindow,
+      focusWindow,
+      minimizeWindow,
+      restoreWindow,
+      updateWindowPositionPx,
+      updateWindowSize,
+      updateWindowContent,
+      updateWindowBadge,
+      dockWindow,
+      undockWindow,
+      getDockedBounds,
+      updateMagneticSnap,
+      resetWindowLayout,
+      getWindowPixelPosition,
+    ],
+  );
 
   return (
     <WindowManagerContext.Provider value={value}>
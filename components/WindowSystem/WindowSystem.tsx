@@ -1,7 +1,14 @@
 import {FC, useCallback, useEffect, useRef} from "react";
 
 import {KeyBindingManager} from "../../commands";
-import {ContextMenuData, Entity, Item, LogMessage, Position, ServerToClientEquipmentView,} from "../../types";
+import {
+  useGameSelector,
+  useGameStore,
+  usePlayerInventory,
+} from "../../hooks/useGameStore";
+import type {GameStoreState} from "../../services/gameStore";
+import {AnimationSettings, ContextMenuData, Entity, Item, MapRenderer, Position, TileMode,} from "../../types";
+import type {TrackedCommand} from "../../utils/commandTracker";
 
 import {getStoredWindowState} from "./utils";
 import Window from "./Window";
@@ -15,28 +22,45 @@ import {
   createInventoryWindowConfig,
   createItemInspectorWindowConfig,
   createLoginWindowConfig,
+  createMinimapWindowConfig,
+  createNetworkWindowConfig,
+  createPartyWindowConfig,
   createQuickAccessWindowConfig,
+  createSessionWindowConfig,
   createSettingsWindowConfig,
+  createStatisticsWindowConfig,
   createTurnOrderBarWindowConfig,
   createTurnOrderWindowConfig,
   DOCK_WINDOW_ID,
-  ENTITY_INSPECTOR_WINDOW_ID,
   GAME_LOG_WINDOW_ID,
   INVENTORY_WINDOW_ID,
   LOGIN_WINDOW_ID,
+  MINIMAP_WINDOW_ID,
+  NETWORK_WINDOW_ID,
+  PARTY_WINDOW_ID,
   QUICK_ACCESS_WINDOW_ID,
+  SESSION_WINDOW_ID,
   SETTINGS_WINDOW_ID,
+  STATISTICS_WINDOW_ID,
   TURN_ORDER_BAR_WINDOW_ID,
   TURN_ORDER_WINDOW_ID,
 } from "./windows";
-
+import type {MinimapControls} from "./windows/components/MinimapWindow";
+import type {NetworkDiagnosticsSource} from "./windows/components/NetworkWindow";
+import type {PartyControls} from "./windows/components/PartyWindow";
+import type {SessionControls} from "./windows/components/SessionWindow";
+import type {SpectatorControls} from "./windows/components/TurnOrderWindow";
+
+const selectHasEntities = (state: GameStoreState): boolean =>
+  state.player !== null || state.entities.length > 0;
+
+/**
+ * Игровые данные окна читают из хранилища игры сами (см. hooks/useGameStore),
+ * поэтому обновления сервера не пересоздают содержимое окон
+ */
 interface WindowSystemProps {
   keyBindingManager: KeyBindingManager;
-  entities?: Entity[];
-  activeEntityId?: string | null;
-  playerId?: string | null;
   onEntityClick?: (entityId: string) => void;
-  logs?: LogMessage[];
   onGoToPosition?: (position: Position) => void;
   onGoToEntity?: (entityId: string) => void;
   onSendCommand?: (text: string, type: "SAY" | "WHISPER" | "YELL") => void;
@@ -44,32 +68,37 @@ interface WindowSystemProps {
   onInspectEntity?: (handler: (entity: Entity) => void) => void;
   splashNotificationsEnabled: boolean;
   onToggleSplashNotifications: (enabled: boolean) => void;
-  playerInventory?: Item[];
-  playerInventoryData?: {
-    maxSlots?: number;
-    currentWeight?: number;
-    maxWeight?: number;
-  } | null;
-  playerEquipment?: ServerToClientEquipmentView | null;
+  logRetention: number;
+  onChangeLogRetention: (limit: number) => void;
+  mapRenderer: MapRenderer;
+  onChangeMapRenderer: (renderer: MapRenderer) => void;
+  tileMode: TileMode;
+  onChangeTileMode: (mode: TileMode) => void;
+  animationSettings: AnimationSettings;
+  onChangeAnimationSettings: (settings: AnimationSettings) => void;
   onUseItem?: (item: Item, targetEntityId?: string) => void;
   onDropItem?: (item: Item) => void;
   onEquipItem?: (item: Item) => void;
   onUnequipItem?: (item: Item) => void;
+  itemCommandFeedback?: Map<string, TrackedCommand>;
   onLogin?: (entityId: string) => void;
+  onSpectate?: () => void;
   isAuthenticated?: boolean;
   wsConnected?: boolean;
   loginError?: string | null;
   radialMenuOpen?: boolean;
   contextMenuOpen?: boolean;
+  sessionControls?: SessionControls;
+  networkDiagnostics?: NetworkDiagnosticsSource;
+  spectator?: SpectatorControls;
+  /** Свои сущности; undefined — не вошли или наблюдатель */
+  party?: PartyControls;
+  minimap?: MinimapControls;
 }
 
 const WindowSystem: FC<WindowSystemProps> = ({
   keyBindingManager,
-  entities = [],
-  activeEntityId = null,
-  playerId = null,
   onEntityClick,
-  logs = [],
   onGoToPosition,
   onGoToEntity,
   onSendCommand,
@@ -77,19 +106,31 @@ const WindowSystem: FC<WindowSystemProps> = ({
   onInspectEntity,
   splashNotificationsEnabled,
   onToggleSplashNotifications,
-  playerInventory = [],
-  playerInventoryData,
-  playerEquipment,
+  logRetention,
+  onChangeLogRetention,
+  mapRenderer,
+  onChangeMapRenderer,
+  tileMode,
+  onChangeTileMode,
+  animationSettings,
+  onChangeAnimationSettings,
   onUseItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
+  itemCommandFeedback,
   onLogin,
+  onSpectate,
   isAuthenticated = false,
   wsConnected = false,
   loginError = null,
   radialMenuOpen = false,
   contextMenuOpen = false,
+  sessionControls,
+  networkDiagnostics,
+  spectator,
+  party,
+  minimap,
 }) => {
   const {
     windows,
@@ -101,18 +142,19 @@ const WindowSystem: FC<WindowSystemProps> = ({
     updateWindowBadge,
     resetWindowLayout,
   } = useWindowManager();
+  const store = useGameStore();
+  const hasEntities = useGameSelector(selectHasEntities);
+  const inventoryCount = usePlayerInventory().length;
   const turnOrderBarInitializedRef = useRef(false);
   const loginWindowClosedRef = useRef(false);
+  const spectatorTurnOrderOpenedRef = useRef(false);
   const windowsRef = useRef(windows);
-  const prevEntitiesRef = useRef<Entity[]>([]);
   const handleInspectEntityRef = useRef<(entity: Entity) => void>(() => {});
   const handleInspectItemRef = useRef<(item: Item) => void>(() => {});
 
   // Handle opening entity inspector - update ref on every render
   handleInspectEntityRef.current = (entity: Entity) => {
-    openWindow(
-      createEntityInspectorWindowConfig({ entity, entities: entities || [] }),
-    );
+    openWindow(createEntityInspectorWindowConfig({ entity }));
   };
 
   // Handle opening item inspector - update ref on every render
@@ -120,6 +162,21 @@ const WindowSystem: FC<WindowSystemProps> = ({
     openWindow(createItemInspectorWindowConfig({ item }));
   };
 
+  // Items that log references can point to: own inventory and items on the ground
+  const handleInspectItemById = useCallback(
+    (itemId: string) => {
+      const { player, entities } = store.getState();
+      const item = [
+        ...(player?.inventory ?? []),
+        ...entities.flatMap((e) => (e.itemData ? [e.itemData] : [])),
+      ].find((i) => i.id === itemId);
+      if (item) {
+        handleInspectItemRef.current(item);
+      }
+    },
+    [store],
+  );
+
   // Expose stable wrapper through onInspectEntity prop (only once on mount)
   useEffect(() => {
     if (onInspectEntity) {
@@ -159,6 +216,14 @@ const WindowSystem: FC<WindowSystemProps> = ({
           onOpenCasino: handleOpenCasino,
           splashNotificationsEnabled,
           onToggleSplashNotifications,
+          logRetention,
+          onChangeLogRetention,
+          mapRenderer,
+          onChangeMapRenderer,
+          tileMode,
+          onChangeTileMode,
+          animationSettings,
+          onChangeAnimationSettings,
         }),
       );
 
@@ -170,13 +235,85 @@ const WindowSystem: FC<WindowSystemProps> = ({
       }
     }
 
+    const sessionExists = windows.some((w) => w.id === SESSION_WINDOW_ID);
+    if (!sessionExists && sessionControls) {
+      openWindow(createSessionWindowConfig({ controls: sessionControls }));
+
+      const stored = getStoredWindowState(SESSION_WINDOW_ID);
+      if (!stored) {
+        setTimeout(() => {
+          minimizeWindow(SESSION_WINDOW_ID);
+        }, 0);
+      }
+    }
+
+    const networkExists = windows.some((w) => w.id === NETWORK_WINDOW_ID);
+    if (!networkExists && networkDiagnostics) {
+      openWindow(createNetworkWindowConfig({ source: networkDiagnostics }));
+
+      const stored = getStoredWindowState(NETWORK_WINDOW_ID);
+      if (!stored) {
+        setTimeout(() => {
+          minimizeWindow(NETWORK_WINDOW_ID);
+        }, 0);
+      }
+    }
+
+    const statisticsExists = windows.some((w) => w.id === STATISTICS_WINDOW_ID);
+    if (!statisticsExists) {
+      openWindow(createStatisticsWindowConfig());
+
+      const stored = getStoredWindowState(STATISTICS_WINDOW_ID);
+      if (!stored) {
+        setTimeout(() => {
+          minimizeWindow(STATISTICS_WINDOW_ID);
+        }, 0);
+      }
+    }
+
+    const minimapExists = windows.some((w) => w.id === MINIMAP_WINDOW_ID);
+    if (!minimapExists && minimap) {
+      openWindow(createMinimapWindowConfig({ controls: minimap }));
+
+      const stored = getStoredWindowState(MINIMAP_WINDOW_ID);
+      if (!stored) {
+        setTimeout(() => {
+          minimizeWindow(MINIMAP_WINDOW_ID);
+        }, 0);
+      }
+    }
+
+    // Party window exists only while logged in with an entity
+    const partyExists = windows.some((w) => w.id === PARTY_WINDOW_ID);
+    if (!partyExists && party) {
+      openWindow(createPartyWindowConfig({ controls: party }));
+
+      const stored = getStoredWindowState(PARTY_WINDOW_ID);
+      if (!stored) {
+        setTimeout(() => {
+          minimizeWindow(PARTY_WINDOW_ID);
+        }, 0);
+      }
+    } else if (partyExists && !party) {
+      closeWindow(PARTY_WINDOW_ID);
+    }
+
+    // Spectators pick whom to follow from the turn order (opened once)
+    const turnOrderExists = windows.some((w) => w.id === TURN_ORDER_WINDOW_ID);
+    if (!spectator) {
+      spectatorTurnOrderOpenedRef.current = false;
+    } else if (!turnOrderExists && !spectatorTurnOrderOpenedRef.current) {
+      spectatorTurnOrderOpenedRef.current = true;
+      openWindow(createTurnOrderWindowConfig({ spectator }));
+    }
+
     const gameLogExists = windows.some((w) => w.id === GAME_LOG_WINDOW_ID);
     if (!gameLogExists) {
       openWindow(
         createGameLogWindowConfig({
-          logs,
           onGoToPosition,
           onGoToEntity,
+          onInspectItem: handleInspectItemById,
           onSendCommand,
         }),
       );
@@ -187,10 +324,7 @@ const WindowSystem: FC<WindowSystemProps> = ({
     if (!inventoryExists) {
       openWindow(
         createInventoryWindowConfig({
-          items: playerInventory,
-
-          inventoryData: playerInventoryData,
-
+          itemCount: inventoryCount,
           onUseItem,
           onDropItem,
           onEquipItem,
@@ -206,9 +340,6 @@ const WindowSystem: FC<WindowSystemProps> = ({
     if (!quickAccessExists) {
       openWindow(
         createQuickAccessWindowConfig({
-          slots: playerInventory,
-
-          inventoryItems: playerInventory,
           totalSlots: 6,
 
           onUsePinnedItem: (item) => onUseItem?.(item),
@@ -216,11 +347,6 @@ const WindowSystem: FC<WindowSystemProps> = ({
           onEquipItem: (item) => onEquipItem?.(item),
           onUnequipItem: (item) => onUnequipItem?.(item),
           onInspectItem: (item) => handleInspectItemRef.current?.(item),
-          equipment: playerEquipment
-            ? ([playerEquipment.weapon, playerEquipment.armor].filter(
-              Boolean,
-            ) as Item[])
-            : [],
         }),
       );
     }
@@ -230,16 +356,13 @@ const WindowSystem: FC<WindowSystemProps> = ({
     );
     if (
       !turnOrderBarExists &&
-      entities.length > 0 &&
+      hasEntities &&
       !turnOrderBarInitializedRef.current
     ) {
       turnOrderBarInitializedRef.current = true;
 
       openWindow(
         createTurnOrderBarWindowConfig({
-          entities,
-          activeEntityId,
-          playerId,
           onEntityClick,
           onContextMenu,
         }),
@@ -255,6 +378,7 @@ const WindowSystem: FC<WindowSystemProps> = ({
         openWindow(
           createLoginWindowConfig({
             onConnect: onLogin,
+            onSpectate,
             isConnected: isAuthenticated,
             wsConnected,
             loginError,
@@ -269,23 +393,21 @@ const WindowSystem: FC<WindowSystemProps> = ({
     windows,
     openWindow,
     minimizeWindow,
-    entities,
-    activeEntityId,
-    playerId,
+    hasEntities,
     onEntityClick,
     handleOpenCasino,
     keyBindingManager,
     resetWindowLayout,
-    logs,
     onGoToPosition,
     onGoToEntity,
     onSendCommand,
     onContextMenu,
-    playerInventory,
     onUseItem,
     onDropItem,
     splashNotificationsEnabled,
     onToggleSplashNotifications,
+    logRetention,
+    onChangeLogRetention,
     onLogin,
     isAuthenticated,
     wsConnected,
@@ -293,28 +415,16 @@ const WindowSystem: FC<WindowSystemProps> = ({
     // restoreWindow is stable from context, safe to use without dependency
   ]);
 
-  // Update TurnOrderBar content when entities or turn data changes
+  // Update TurnOrderBar content when click handlers change (turn data comes from the store)
   useEffect(() => {
-    if (entities.length > 0) {
-      const barConfig = createTurnOrderBarWindowConfig({
-        entities,
-        activeEntityId,
-        playerId,
-        onEntityClick,
-        onContextMenu,
-      });
-      updateWindowContent(TURN_ORDER_BAR_WINDOW_ID, barConfig.content);
-    }
-  }, [
-    entities,
-    activeEntityId,
-    playerId,
-    onEntityClick,
-    updateWindowContent,
-    onContextMenu,
-  ]);
+    const barConfig = createTurnOrderBarWindowConfig({
+      onEntityClick,
+      onContextMenu,
+    });
+    updateWindowContent(TURN_ORDER_BAR_WINDOW_ID, barConfig.content);
+  }, [onEntityClick, updateWindowContent, onContextMenu]);
 
-  // Update Settings window content when splash notifications setting changes
+  // Update Settings window content when UI settings change
   useEffect(() => {
     const settingsConfig = createSettingsWindowConfig({
       keyBindingManager,
@@ -322,47 +432,95 @@ const WindowSystem: FC<WindowSystemProps> = ({
       onOpenCasino: handleOpenCasino,
       splashNotificationsEnabled,
       onToggleSplashNotifications,
+      logRetention,
+      onChangeLogRetention,
+      mapRenderer,
+      onChangeMapRenderer,
+      tileMode,
+      onChangeTileMode,
+      animationSettings,
+      onChangeAnimationSettings,
     });
     updateWindowContent(SETTINGS_WINDOW_ID, settingsConfig.content);
   }, [
     splashNotificationsEnabled,
     onToggleSplashNotifications,
+    logRetention,
+    onChangeLogRetention,
+    mapRenderer,
+    onChangeMapRenderer,
+    tileMode,
+    onChangeTileMode,
+    animationSettings,
+    onChangeAnimationSettings,
     keyBindingManager,
     resetWindowLayout,
     handleOpenCasino,
     updateWindowContent,
   ]);
 
-  // Update TurnOrderWindow content when entities or turn data changes
+  // Update Session window content when recording or replay state changes
   useEffect(() => {
-    if (entities.length > 0) {
-      const orderConfig = createTurnOrderWindowConfig({
-        entities,
-        activeEntityId,
-        playerId,
+    if (sessionControls) {
+      const sessionConfig = createSessionWindowConfig({
+        controls: sessionControls,
       });
-      updateWindowContent(TURN_ORDER_WINDOW_ID, orderConfig.content);
+      updateWindowContent(SESSION_WINDOW_ID, sessionConfig.content);
     }
-  }, [entities, activeEntityId, playerId, updateWindowContent]);
+  }, [sessionControls, updateWindowContent]);
 
-  // Update GameLogWindow content when logs change
+  // Update Network window content when connection state changes
+  useEffect(() => {
+    if (networkDiagnostics) {
+      const networkConfig = createNetworkWindowConfig({
+        source: networkDiagnostics,
+      });
+      updateWindowContent(NETWORK_WINDOW_ID, networkConfig.content);
+    }
+  }, [networkDiagnostics, updateWindowContent]);
+
+  // Update Minimap window content when the camera or the path target moves
+  useEffect(() => {
+    if (minimap) {
+      const minimapConfig = createMinimapWindowConfig({ controls: minimap });
+      updateWindowContent(MINIMAP_WINDOW_ID, minimapConfig.content);
+    }
+  }, [minimap, updateWindowContent]);
+
+  // Update Party window content when owned entities or control change
+  useEffect(() => {
+    if (party) {
+      const partyConfig = createPartyWindowConfig({ controls: party });
+      updateWindowContent(PARTY_WINDOW_ID, partyConfig.content);
+    }
+  }, [party, updateWindowContent]);
+
+  // Update TurnOrderWindow content when spectator controls change (turn data comes from the store)
+  useEffect(() => {
+    const orderConfig = createTurnOrderWindowConfig({ spectator });
+    updateWindowContent(TURN_ORDER_WINDOW_ID, orderConfig.content);
+  }, [spectator, updateWindowContent]);
+
+  // Update GameLogWindow content when link handlers change (logs come from the store)
   useEffect(() => {
     const logConfig = createGameLogWindowConfig({
-      logs,
       onGoToPosition,
       onGoToEntity,
+      onInspectItem: handleInspectItemById,
       onSendCommand,
     });
     updateWindowContent(GAME_LOG_WINDOW_ID, logConfig.content);
-  }, [logs, onGoToPosition, onGoToEntity, onSendCommand, updateWindowContent]);
-
-  // Update InventoryWindow content when player inventory changes
+  }, [
+    onGoToPosition,
+    onGoToEntity,
+    handleInspectItemById,
+    onSendCommand,
+    updateWindowContent,
+  ]);
 
+  // Update InventoryWindow content when item handlers change (items come from the store)
   useEffect(() => {
     const inventoryConfig = createInventoryWindowConfig({
-      items: playerInventory,
-      inventoryData: playerInventoryData,
-      equipment: playerEquipment,
       onUseItem,
       onDropItem,
       onEquipItem,
@@ -371,40 +529,36 @@ const WindowSystem: FC<WindowSystemProps> = ({
     });
 
     updateWindowContent(INVENTORY_WINDOW_ID, inventoryConfig.content);
-    updateWindowBadge(INVENTORY_WINDOW_ID, inventoryConfig.badge);
   }, [
-    playerInventory,
-    playerInventoryData,
-    playerEquipment,
     onUseItem,
     onDropItem,
     onEquipItem,
     onUnequipItem,
     updateWindowContent,
-    updateWindowBadge,
   ]);
 
-  // Update QuickAccessWindow content when player inventory or use handler changes
+  // Dock badge follows the item count
+  useEffect(() => {
+    updateWindowBadge(
+      INVENTORY_WINDOW_ID,
+      inventoryCount > 0 ? inventoryCount : undefined,
+    );
+  }, [inventoryCount, updateWindowBadge]);
+
+  // Update QuickAccessWindow content when item handlers or command feedback change
   useEffect(() => {
     const quickAccessConfig = createQuickAccessWindowConfig({
-      slots: playerInventory,
-      inventoryItems: playerInventory,
       totalSlots: 6,
       onUsePinnedItem: (item) => onUseItem?.(item),
       onDropItem: (item) => onDropItem?.(item),
       onEquipItem: (item) => onEquipItem?.(item),
       onUnequipItem: (item) => onUnequipItem?.(item),
       onInspectItem: (item) => handleInspectItemRef.current?.(item),
-      equipment: playerEquipment
-        ? ([playerEquipment.weapon, playerEquipment.armor].filter(
-          Boolean,
-        ) as Item[])
-        : [],
+      commandFeedback: itemCommandFeedback,
     });
     updateWindowContent(QUICK_ACCESS_WINDOW_ID, quickAccessConfig.content);
   }, [
-    playerInventory,
-    playerEquipment,
+    itemCommandFeedback,
     onUseItem,
     onDropItem,
     onEquipItem,
@@ -412,66 +566,33 @@ const WindowSystem: FC<WindowSystemProps> = ({
     updateWindowContent,
   ]);
 
-  // Update EntityInspectorWindow content when entities change
-  useEffect(() => {
-    // Find all open entity inspector windows
-    const inspectorWindows = windowsRef.current.filter((window) =>
-      window.id.startsWith(ENTITY_INSPECTOR_WINDOW_ID),
-    );
-
-    if (inspectorWindows.length === 0) {
-      return;
-    }
-
-    // Check if any relevant entity changed
-    let shouldUpdate = false;
-    const prevEntities = prevEntitiesRef.current;
-
-    inspectorWindows.forEach((window) => {
-      const entityId = window.id.replace(`${ENTITY_INSPECTOR_WINDOW_ID}-`, "");
-      const currentEntity = entities.find((e) => e.id === entityId);
-      const prevEntity = prevEntities.find((e) => e.id === entityId);
-
-      if (JSON.stringify(currentEntity) !== JSON.stringify(prevEntity)) {
-        shouldUpdate = true;
-      }
-    });
-
-    if (!shouldUpdate) {
-      return;
-    }
-
-    prevEntitiesRef.current = entities;
-
-    // Update content for each inspector window
-    inspectorWindows.forEach((window) => {
-      const entityId = window.id.replace(`${ENTITY_INSPECTOR_WINDOW_ID}-`, "");
-      const entity = entities.find((e) => e.id === entityId);
-      if (entity) {
-        const inspectorConfig = createEntityInspectorWindowConfig({
-          entity,
-          entities,
-        });
-        updateWindowContent(window.id, inspectorConfig.content);
-      }
-    });
-  }, [entities, updateWindowContent]);
-
   // Update LoginWindow content when connection state changes
   useEffect(() => {
     if (onLogin) {
       const loginConfig = createLoginWindowConfig({
         onConnect: onLogin,
+        onSpectate,
         isConnected: isAuthenticated,
         wsConnected,
         loginError,
       });
       updateWindowContent(LOGIN_WINDOW_ID, loginConfig.content);
     }
-  }, [onLogin, isAuthenticated, wsConnected, loginError, updateWindowContent]);
+  }, [
+    onLogin,
+    onSpectate,
+    isAuthenticated,
+    wsConnected,
+    loginError,
+    updateWindowContent,
+  ]);
 
   // Auto-close login window after successful authentication
   useEffect(() => {
+    // Logged out (e.g. connection drop) - close again after the next login
+    if (!isAuthenticated) {
+      loginWindowClosedRef.current = false;
+    }
     if (isAuthenticated && !loginWindowClosedRef.current) {
       loginWindowClosedRef.current = true;
       // Wait a bit to show the success message, then close
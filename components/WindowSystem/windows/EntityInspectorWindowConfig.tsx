@@ -9,12 +9,10 @@ export const ENTITY_INSPECTOR_WINDOW_ID = "entity-inspector";
 
 interface CreateEntityInspectorWindowConfigProps {
   entity: Entity;
-  entities: Entity[];
 }
 
 export const createEntityInspectorWindowConfig = ({
   entity,
-  entities,
 }: CreateEntityInspectorWindowConfigProps): WindowConfig => {
   return {
     id: `${ENTITY_INSPECTOR_WINDOW_ID}-${entity.id}`,
@@ -25,6 +23,6 @@ export const createEntityInspectorWindowConfig = ({
     defaultSize: { width: 500, height: 600 },
     minSize: { width: 400, height: 400 },
     resizable: true,
-    content: <EntityInspectorWindow entityId={entity.id} entities={entities} />,
+    content: <EntityInspectorWindow entityId={entity.id} />,
   };
 };
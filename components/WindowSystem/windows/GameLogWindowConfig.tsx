@@ -1,6 +1,6 @@
 import {MessageSquare} from "lucide-react";
 
-import {LogMessage, Position} from "../../../types";
+import {Position} from "../../../types";
 import {WindowConfig} from "../types";
 
 import {GameLogWindow} from "./components/GameLogWindow";
@@ -8,16 +8,16 @@ import {GameLogWindow} from "./components/GameLogWindow";
 export const GAME_LOG_WINDOW_ID = "game-log-window";
 
 interface CreateGameLogWindowConfigProps {
-  logs: LogMessage[];
   onGoToPosition?: (position: Position) => void;
   onGoToEntity?: (entityId: string) => void;
+  onInspectItem?: (itemId: string) => void;
   onSendCommand?: (text: string, type: "SAY" | "WHISPER" | "YELL") => void;
 }
 
 export const createGameLogWindowConfig = ({
-  logs,
   onGoToPosition,
   onGoToEntity,
+  onInspectItem,
   onSendCommand,
 }: CreateGameLogWindowConfigProps): WindowConfig => {
   return {
@@ -36,9 +36,9 @@ export const createGameLogWindowConfig = ({
     decorated: true,
     content: (
       <GameLogWindow
-        logs={logs}
         onGoToPosition={onGoToPosition}
         onGoToEntity={onGoToEntity}
+        onInspectItem={onInspectItem}
         onSendCommand={onSendCommand}
       />
     ),
@@ -1,6 +1,6 @@
 import {Package} from "lucide-react";
 
-import {Item, ServerToClientEquipmentView} from "../../../types";
+import {Item} from "../../../types";
 import {WindowConfig} from "../types";
 
 import {InventoryWindow} from "./components/InventoryWindow";
@@ -8,13 +8,8 @@ import {InventoryWindow} from "./components/InventoryWindow";
 export const INVENTORY_WINDOW_ID = "inventory-window";
 
 interface CreateInventoryWindowConfigProps {
-  items: Item[];
-  inventoryData?: {
-    maxSlots?: number;
-    currentWeight?: number;
-    maxWeight?: number;
-  } | null;
-  equipment?: ServerToClientEquipmentView | null;
+  /** Число предметов для значка в Dock (дальше значок обновляет WindowSystem) */
+  itemCount?: number;
   onUseItem?: (item: Item, targetEntityId?: string) => void;
   onDropItem?: (item: Item) => void;
   onEquipItem?: (item: Item) => void;
@@ -23,17 +18,13 @@ interface CreateInventoryWindowConfigProps {
 }
 
 export const createInventoryWindowConfig = ({
-  items,
-  inventoryData,
-  equipment,
+  itemCount = 0,
   onUseItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
   onInspectItem,
 }: CreateInventoryWindowConfigProps): WindowConfig => {
-  const itemCount = items.length;
-
   return {
     id: INVENTORY_WINDOW_ID,
     title: "Inventory",
@@ -51,9 +42,6 @@ export const createInventoryWindowConfig = ({
     decorated: true,
     content: (
       <InventoryWindow
-        items={items}
-        inventoryData={inventoryData}
-        equipment={equipment}
         onUseItem={onUseItem}
         onDropItem={onDropItem}
         onEquipItem={onEquipItem}
@@ -8,6 +8,7 @@ export const LOGIN_WINDOW_ID = "login-window";
 
 interface CreateLoginWindowConfigProps {
   onConnect: (entityId: string) => void;
+  onSpectate?: () => void;
   isConnected: boolean;
   wsConnected: boolean;
   loginError?: string | null;
@@ -15,13 +16,14 @@ interface CreateLoginWindowConfigProps {
 
 export const createLoginWindowConfig = ({
   onConnect,
+  onSpectate,
   isConnected,
   wsConnected,
   loginError = null,
 }: CreateLoginWindowConfigProps): WindowConfig => {
   // Adjust height based on content
   const hasError = loginError && !isConnected;
-  const height = hasError ? 320 : 250;
+  const height = (hasError ? 320 : 250) + (onSpectate ? 60 : 0);
 
   return {
     id: LOGIN_WINDOW_ID,
@@ -40,6 +42,7 @@ export const createLoginWindowConfig = ({
     content: (
       <LoginWindow
         onConnect={onConnect}
+        onSpectate={onSpectate}
         isConnected={isConnected}
         wsConnected={wsConnected}
         loginError={loginError}
@@ -0,0 +1,28 @@
+import {MapIcon} from "lucide-react";
+
+import {WindowConfig} from "../types";
+
+import {MinimapControls, MinimapWindow} from "./components/MinimapWindow";
+
+export const MINIMAP_WINDOW_ID = "minimap";
+
+interface MinimapWindowOptions {
+  controls: MinimapControls;
+}
+
+export const createMinimapWindowConfig = ({
+  controls,
+}: MinimapWindowOptions): WindowConfig => ({
+  id: MINIMAP_WINDOW_ID,
+  title: "Minimap",
+  closeable: false,
+  minimizable: true,
+  resizable: true,
+  showInDock: true,
+  icon: <MapIcon size={20} />,
+  defaultOrigin: { x: 1, y: 1 }, // bottom-right corner of window
+  defaultPosition: { x: 0.98, y: 0.85 }, // near bottom-right of viewport
+  defaultSize: { width: 280, height: 280 },
+  minSize: { width: 160, height: 160 },
+  content: <MinimapWindow controls={controls} />,
+});
@@ -0,0 +1,31 @@
+import {Activity} from "lucide-react";
+
+import {WindowConfig} from "../types";
+
+import {
+  NetworkDiagnosticsSource,
+  NetworkWindow,
+} from "./components/NetworkWindow";
+
+export const NETWORK_WINDOW_ID = "network";
+
+interface NetworkWindowOptions {
+  source: NetworkDiagnosticsSource;
+}
+
+export const createNetworkWindowConfig = ({
+  source,
+}: NetworkWindowOptions): WindowConfig => ({
+  id: NETWORK_WINDOW_ID,
+  title: "Network",
+  closeable: false,
+  minimizable: true,
+  resizable: true,
+  showInDock: true,
+  icon: <Activity size={20} />,
+  defaultOrigin: { x: 1, y: 0 }, // top-right corner of window
+  defaultPosition: { x: 0.95, y: 0.1 }, // near top-right of viewport
+  defaultSize: { width: 420, height: 520 },
+  minSize: { width: 360, height: 320 },
+  content: <NetworkWindow source={source} />,
+});
@@ -0,0 +1,28 @@
+import {Gamepad2} from "lucide-react";
+
+import {WindowConfig} from "../types";
+
+import {PartyControls, PartyWindow} from "./components/PartyWindow";
+
+export const PARTY_WINDOW_ID = "party";
+
+interface PartyWindowOptions {
+  controls: PartyControls;
+}
+
+export const createPartyWindowConfig = ({
+  controls,
+}: PartyWindowOptions): WindowConfig => ({
+  id: PARTY_WINDOW_ID,
+  title: "Party",
+  closeable: false,
+  minimizable: true,
+  resizable: true,
+  showInDock: true,
+  icon: <Gamepad2 size={20} />,
+  defaultOrigin: { x: 0, y: 1 }, // bottom-left corner of window
+  defaultPosition: { x: 0.05, y: 0.9 }, // near bottom-left of viewport
+  defaultSize: { width: 380, height: 320 },
+  minSize: { width: 320, height: 240 },
+  content: <PartyWindow controls={controls} />,
+});
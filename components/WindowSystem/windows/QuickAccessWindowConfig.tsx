@@ -1,6 +1,7 @@
 import {Pin} from "lucide-react";
 
 import type {Item} from "../../../types";
+import type {TrackedCommand} from "../../../utils/commandTracker";
 import type {WindowConfig} from "../types";
 
 import {QuickAccessWindow} from "./components/QuickAccessWindow";
@@ -8,15 +9,13 @@ import {QuickAccessWindow} from "./components/QuickAccessWindow";
 export const QUICK_ACCESS_WINDOW_ID = "quick-access-window";
 
 interface CreateQuickAccessWindowConfigProps {
-  slots: Array<Item | null>;
   totalSlots?: number;
-  inventoryItems: Item[];
   onUsePinnedItem?: (item: Item) => void;
   onDropItem?: (item: Item) => void;
   onEquipItem?: (item: Item) => void;
   onUnequipItem?: (item: Item) => void;
   onInspectItem?: (item: Item) => void;
-  equipment?: Array<Item>;
+  commandFeedback?: Map<string, TrackedCommand>;
 }
 
 /**
@@ -26,23 +25,18 @@ interface CreateQuickAccessWindowConfigProps {
  * - Right-click "Use" action triggers server command via callback
  */
 export const createQuickAccessWindowConfig = ({
-  slots,
   totalSlots,
-  inventoryItems,
   onUsePinnedItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
   onInspectItem,
-  equipment,
+  commandFeedback,
 }: CreateQuickAccessWindowConfigProps): WindowConfig => {
-  const pinnedCount = slots.filter(Boolean).length;
-
   return {
     id: QUICK_ACCESS_WINDOW_ID,
     title: "",
     icon: <Pin size={16} />,
-    badge: pinnedCount > 0 ? pinnedCount : undefined,
     defaultOrigin: { x: 0.5, y: 0 }, // top-center of window
     defaultPosition: { x: 0.5, y: 0.1 }, // top-center of viewport, slightly below edge
     defaultSize: { width: 350, height: 55 },
@@ -56,15 +50,13 @@ export const createQuickAccessWindowConfig = ({
     decorated: false,
     content: (
       <QuickAccessWindow
-        slots={slots}
         totalSlots={totalSlots}
-        inventoryItems={inventoryItems}
         onUsePinnedItem={onUsePinnedItem}
         onDropItem={onDropItem}
         onEquipItem={onEquipItem}
         onUnequipItem={onUnequipItem}
         onInspectItem={onInspectItem}
-        equipment={equipment}
+        commandFeedback={commandFeedback}
       />
     ),
   };
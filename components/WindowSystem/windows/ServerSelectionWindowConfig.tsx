@@ -1,6 +1,7 @@
 import {Server} from "lucide-react";
 
 import {ServerInfo} from "../../../types/server";
+import type {ProtocolCompatibility} from "../../../utils/protocolVersion";
 import {WindowConfig} from "../types";
 
 import {ServerSelectionWindow} from "./components/ServerSelectionWindow";
@@ -8,11 +9,13 @@ import {ServerSelectionWindow} from "./components/ServerSelectionWindow";
 export const SERVER_SELECTION_WINDOW_ID = "server-selection";
 
 interface CreateServerSelectionWindowConfigProps {
-  onConnect: (server: ServerInfo) => void;
+  onConnect: (server: ServerInfo, compatibility: ProtocolCompatibility) => void;
+  onOpenReplay?: (file: File) => void;
 }
 
 export const createServerSelectionWindowConfig = ({
   onConnect,
+  onOpenReplay,
 }: CreateServerSelectionWindowConfigProps): WindowConfig => {
   return {
     id: SERVER_SELECTION_WINDOW_ID,
@@ -27,6 +30,8 @@ export const createServerSelectionWindowConfig = ({
     resizable: true,
     showInDock: false,
     decorated: true,
-    content: <ServerSelectionWindow onConnect={onConnect} />,
+    content: (
+      <ServerSelectionWindow onConnect={onConnect} onOpenReplay={onOpenReplay} />
+    ),
   };
 };
@@ -0,0 +1,28 @@
+import {Clapperboard} from "lucide-react";
+
+import {WindowConfig} from "../types";
+
+import {SessionControls, SessionWindow} from "./components/SessionWindow";
+
+export const SESSION_WINDOW_ID = "session";
+
+interface SessionWindowOptions {
+  controls: SessionControls;
+}
+
+export const createSessionWindowConfig = ({
+  controls,
+}: SessionWindowOptions): WindowConfig => ({
+  id: SESSION_WINDOW_ID,
+  title: "Session",
+  closeable: false,
+  minimizable: true,
+  resizable: true,
+  showInDock: true,
+  icon: <Clapperboard size={20} />,
+  defaultOrigin: { x: 1, y: 1 }, // bottom-right corner of window
+  defaultPosition: { x: 0.95, y: 0.9 }, // near bottom-right of viewport
+  defaultSize: { width: 420, height: 340 },
+  minSize: { width: 360, height: 280 },
+  content: <SessionWindow controls={controls} />,
+});
@@ -1,6 +1,7 @@
 import {Settings} from "lucide-react";
 
 import {KeyBindingManager} from "../../../commands";
+import type {AnimationSettings, MapRenderer, TileMode} from "../../../types";
 import {WindowConfig} from "../types";
 
 import KeybindingsSettings from "./components/KeybindingsSettings";
@@ -13,6 +14,14 @@ interface SettingsWindowOptions {
   onOpenCasino: () => void;
   splashNotificationsEnabled: boolean;
   onToggleSplashNotifications: (enabled: boolean) => void;
+  logRetention: number;
+  onChangeLogRetention: (limit: number) => void;
+  mapRenderer: MapRenderer;
+  onChangeMapRenderer: (renderer: MapRenderer) => void;
+  tileMode: TileMode;
+  onChangeTileMode: (mode: TileMode) => void;
+  animationSettings: AnimationSettings;
+  onChangeAnimationSettings: (settings: AnimationSettings) => void;
 }
 
 export const createSettingsWindowConfig = ({
@@ -21,6 +30,14 @@ export const createSettingsWindowConfig = ({
   onOpenCasino,
   splashNotificationsEnabled,
   onToggleSplashNotifications,
+  logRetention,
+  onChangeLogRetention,
+  mapRenderer,
+  onChangeMapRenderer,
+  tileMode,
+  onChangeTileMode,
+  animationSettings,
+  onChangeAnimationSettings,
 }: SettingsWindowOptions): WindowConfig => ({
   id: SETTINGS_WINDOW_ID,
   title: "Settings",
@@ -39,6 +56,14 @@ export const createSettingsWindowConfig = ({
       onOpenCasino={onOpenCasino}
       splashNotificationsEnabled={splashNotificationsEnabled}
       onToggleSplashNotifications={onToggleSplashNotifications}
+      logRetention={logRetention}
+      onChangeLogRetention={onChangeLogRetention}
+      mapRenderer={mapRenderer}
+      onChangeMapRenderer={onChangeMapRenderer}
+      tileMode={tileMode}
+      onChangeTileMode={onChangeTileMode}
+      animationSettings={animationSettings}
+      onChangeAnimationSettings={onChangeAnimationSettings}
     />
   ),
 });
@@ -0,0 +1,22 @@
+import {ChartLine} from "lucide-react";
+
+import {WindowConfig} from "../types";
+
+import {StatisticsWindow} from "./components/StatisticsWindow";
+
+export const STATISTICS_WINDOW_ID = "statistics";
+
+export const createStatisticsWindowConfig = (): WindowConfig => ({
+  id: STATISTICS_WINDOW_ID,
+  title: "Statistics",
+  closeable: false,
+  minimizable: true,
+  resizable: true,
+  showInDock: true,
+  icon: <ChartLine size={20} />,
+  defaultOrigin: { x: 1, y: 0 }, // top-right corner of window
+  defaultPosition: { x: 0.9, y: 0.15 }, // near top-right of viewport
+  defaultSize: { width: 460, height: 560 },
+  minSize: { width: 380, height: 320 },
+  content: <StatisticsWindow />,
+});
@@ -1,4 +1,4 @@
-import {ContextMenuData, Entity} from "../../../types";
+import {ContextMenuData} from "../../../types";
 import {WindowConfig} from "../types";
 
 import {TurnOrderBar} from "./components/TurnOrderBar";
@@ -6,17 +6,11 @@ import {TurnOrderBar} from "./components/TurnOrderBar";
 export const TURN_ORDER_BAR_WINDOW_ID = "turn-order-bar";
 
 interface TurnOrderBarWindowOptions {
-  entities: Entity[];
-  activeEntityId: string | null;
-  playerId: string | null;
   onEntityClick?: (entityId: string) => void;
   onContextMenu?: (data: ContextMenuData) => void;
 }
 
 export const createTurnOrderBarWindowConfig = ({
-  entities,
-  activeEntityId,
-  playerId,
   onEntityClick,
   onContextMenu,
 }: TurnOrderBarWindowOptions): WindowConfig => ({
@@ -35,9 +29,6 @@ export const createTurnOrderBarWindowConfig = ({
   defaultSize: { width: window.innerWidth - 900, height: 60 },
   content: (
     <TurnOrderBar
-      entities={entities}
-      activeEntityId={activeEntityId}
-      playerId={playerId}
       onEntityClick={onEntityClick}
       onContextMenu={onContextMenu}
     />
@@ -1,20 +1,17 @@
 import ReactJson from "@microlink/react-json-view";
-import {FC, useMemo} from "react";
+import {FC} from "react";
 
-import {Entity} from "../../../../../types";
+import {useEntity} from "../../../../../hooks/useGameStore";
 
 interface EntityInspectorWindowProps {
   entityId: string;
-  entities: Entity[];
 }
 
 export const EntityInspectorWindow: FC<EntityInspectorWindowProps> = ({
   entityId,
-  entities,
 }) => {
-  const entity = useMemo(() => {
-    return entities.find((e) => e.id === entityId);
-  }, [entities, entityId]);
+  // Re-renders only when this entity changes
+  const entity = useEntity(entityId);
 
   if (!entity) {
     return (
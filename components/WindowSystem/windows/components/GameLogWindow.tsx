@@ -1,33 +1,67 @@
-import {Code, MapPin, Send} from "lucide-react";
+import {Code, Download, MapPin, Search, Send} from "lucide-react";
 import {useEffect, useMemo, useRef, useState} from "react";
 
+import {
+  useArchivedLogCount,
+  useGameStore,
+  useLogs,
+} from "../../../../hooks/useGameStore";
+import {exportLogHistory, searchArchivedLogs} from "../../../../services/logArchive";
 import {LogMessage, LogType, Position} from "../../../../types";
+import {matchesLogQuery} from "../../../../utils/logHistory";
+import {LogMessageText} from "../../../LogMessageText";
+import {VirtualList} from "../../../VirtualList";
 import {useWindowContext} from "../../Window";
 
 interface GameLogWindowProps {
-  logs: LogMessage[];
   onGoToPosition?: (position: Position) => void;
   onGoToEntity?: (entityId: string) => void;
+  onInspectItem?: (itemId: string) => void;
   onSendCommand?: (text: string, type: "SAY" | "WHISPER" | "YELL") => void;
 }
 
 type LogFilter = "ALL" | "COMBAT" | "NARRATIVE" | "CHAT" | "SYSTEM";
 
+// Типы сообщений каждой вкладки (undefined — все сообщения)
+const LOG_FILTER_TYPES: Record<LogFilter, readonly LogType[] | undefined> = {
+  ALL: undefined,
+  COMBAT: [LogType.COMBAT],
+  NARRATIVE: [LogType.NARRATIVE],
+  CHAT: [LogType.SPEECH],
+  SYSTEM: [LogType.INFO, LogType.ERROR, LogType.COMMAND, LogType.SUCCESS],
+};
+
+const getLogKey = (log: LogMessage) => log.id;
+
+// Задержка поиска по архиву после ввода (мс)
+const ARCHIVE_SEARCH_DELAY = 250;
+
 export const GameLogWindow: React.FC<GameLogWindowProps> = ({
-  logs,
   onGoToPosition,
   onGoToEntity,
+  onInspectItem,
   onSendCommand,
 }) => {
-  const endRef = useRef<HTMLDivElement>(null);
   const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
-  const logContainerRef = useRef<HTMLDivElement>(null);
   const [activeFilter, setActiveFilter] = useState<LogFilter>("ALL");
   const [inputValue, setInputValue] = useState("");
   const [messageType, setMessageType] = useState<"SAY" | "WHISPER" | "YELL">(
     "SAY",
   );
 
+  const store = useGameStore();
+  const logs = useLogs();
+  const filteredLogs = useLogs(LOG_FILTER_TYPES[activeFilter]);
+  const archivedLogCount = useArchivedLogCount();
+
+  // Search covers the messages in memory and the archive
+  const [searchQuery, setSearchQuery] = useState("");
+  const [archiveMatches, setArchiveMatches] = useState<{
+    query: string;
+    logs: LogMessage[];
+  } | null>(null);
+  const needle = searchQuery.trim().toLowerCase();
+
   const { isMinimized, restoreWindow } = useWindowContext();
   const [transientLogs, setTransientLogs] = useState<LogMessage[]>([]);
   const lastLogIdRef = useRef<string | null>(null);
@@ -54,40 +88,42 @@ export const GameLogWindow: React.FC<GameLogWindowProps> = ({
     }
   }, [logs, isMinimized]);
 
-  // Auto-scroll to bottom when logs change
   useEffect(() => {
-    endRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [logs, activeFilter]);
-
-  // Handle clicks on interactive elements in logs
-  useEffect(() => {
-    const container = logContainerRef.current;
-    if (!container) {
+    if (!needle || archivedLogCount === 0) {
       return;
     }
-
-    const handleClick = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-
-      // Click on entity
-      const entityId = target.getAttribute("data-entity-id");
-      if (entityId && onGoToEntity) {
-        onGoToEntity(entityId);
-        return;
-      }
-
-      // Click on position
-      const posX = target.getAttribute("data-position-x");
-      const posY = target.getAttribute("data-position-y");
-      if (posX && posY && onGoToPosition) {
-        onGoToPosition({ x: parseInt(posX), y: parseInt(posY) });
-        return;
-      }
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchArchivedLogs(needle).then((found) => {
+        if (!cancelled) {
+          setArchiveMatches({ query: needle, logs: found });
+        }
+      });
+    }, ARCHIVE_SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
     };
+  }, [needle, archivedLogCount]);
+
+  const shownLogs = useMemo(() => {
+    if (!needle) {
+      return filteredLogs;
+    }
+    const types = LOG_FILTER_TYPES[activeFilter];
+    const archived =
+      archiveMatches?.query === needle && archivedLogCount > 0
+        ? archiveMatches.logs.filter((log) => !types || types.includes(log.type))
+        : [];
+    return [
+      ...archived,
+      ...filteredLogs.filter((log) => matchesLogQuery(log, needle)),
+    ];
+  }, [needle, filteredLogs, activeFilter, archiveMatches, archivedLogCount]);
 
-    container.addEventListener("click", handleClick);
-    return () => container.removeEventListener("click", handleClick);
-  }, [onGoToPosition, onGoToEntity]);
+  const handleExport = () => {
+    exportLogHistory(store.getState().logs);
+  };
 
   const toggleJsonView = (logId: string) => {
     setExpandedLogId(expandedLogId === logId ? null : logId);
@@ -113,31 +149,6 @@ export const GameLogWindow: React.FC<GameLogWindowProps> = ({
     }
   };
 
-  const filteredLogs = useMemo(() => {
-    if (activeFilter === "ALL") {
-      return logs;
-    }
-    return logs.filter((log) => {
-      switch (activeFilter) {
-      case "COMBAT":
-        return log.type === LogType.COMBAT;
-      case "NARRATIVE":
-        return log.type === LogType.NARRATIVE;
-      case "CHAT":
-        return log.type === LogType.SPEECH;
-      case "SYSTEM":
-        return (
-          log.type === LogType.INFO ||
-            log.type === LogType.ERROR ||
-            log.type === LogType.COMMAND ||
-            log.type === LogType.SUCCESS
-        );
-      default:
-        return true;
-      }
-    });
-  }, [logs, activeFilter]);
-
   const handleSend = () => {
     if (!inputValue.trim()) {
       return;
@@ -153,73 +164,112 @@ export const GameLogWindow: React.FC<GameLogWindowProps> = ({
     }
   };
 
+  const renderLog = (log: LogMessage) => (
+    <div className="space-y-1 pb-2">
+      <div
+        className={`${getLogColor(log.type)} break-words leading-tight flex items-start justify-between group`}
+      >
+        <div className="flex-1">
+          {log.type !== LogType.COMMAND && (
+            <span className="text-log-timestamp mr-2 text-xs select-none">
+              [
+              {new Date(log.timestamp).toLocaleTimeString([], {
+                hour12: false,
+                minute: "2-digit",
+                second: "2-digit",
+              })}
+              ]
+            </span>
+          )}
+          {log.type === LogType.NARRATIVE && <span className="mr-1">◈</span>}
+          {log.type === LogType.COMMAND && (
+            <span className="mr-2 text-gray-600">{">"}</span>
+          )}
+          <LogMessageText
+            log={log}
+            onGoToEntity={onGoToEntity}
+            onGoToPosition={onGoToPosition}
+            onInspectItem={onInspectItem}
+          />
+        </div>
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+          {log.playerPosition && onGoToPosition && (
+            <button
+              onClick={() => onGoToPosition(log.playerPosition!)}
+              className="p-1 rounded hover:bg-window-button-hover"
+              title={`Перейти к позиции игрока (${log.playerPosition.x}, ${log.playerPosition.y})`}
+            >
+              <MapPin size={14} className="text-blue-400" />
+            </button>
+          )}
+          {log.commandData && (
+            <button
+              onClick={() => toggleJsonView(log.id)}
+              className="p-1 rounded hover:bg-window-button-hover"
+              title="Показать JSON"
+            >
+              <Code size={14} className="text-gray-500" />
+            </button>
+          )}
+        </div>
+      </div>
+      {log.commandData && expandedLogId === log.id && (
+        <div className="ml-6 p-2 bg-window-content rounded border border-window-border text-xs font-mono text-gray-400">
+          <pre className="whitespace-pre-wrap break-all">
+            {JSON.stringify(log.commandData, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div
       className={`flex flex-col ${isMinimized ? "h-auto bg-transparent" : "h-full bg-window-content"} font-mono text-sm overflow-hidden`}
     >
       {/* Logs Area */}
       {!isMinimized ? (
-        <div
-          ref={logContainerRef}
-          className="flex-1 overflow-y-auto space-y-2 p-2"
-        >
-          {filteredLogs.map((log) => (
-            <div key={log.id} className="space-y-1">
-              <div
-                className={`${getLogColor(log.type)} break-words leading-tight flex items-start justify-between group`}
-              >
-                <div className="flex-1">
-                  {log.type !== LogType.COMMAND && (
-                    <span className="text-log-timestamp mr-2 text-xs select-none">
-                      [
-                      {new Date(log.timestamp).toLocaleTimeString([], {
-                        hour12: false,
-                        minute: "2-digit",
-                        second: "2-digit",
-                      })}
-                      ]
-                    </span>
-                  )}
-                  {log.type === LogType.NARRATIVE && (
-                    <span className="mr-1">◈</span>
-                  )}
-                  {log.type === LogType.COMMAND && (
-                    <span className="mr-2 text-gray-600">{">"}</span>
-                  )}
-                  <span dangerouslySetInnerHTML={{ __html: log.text }} />
-                </div>
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
-                  {log.playerPosition && onGoToPosition && (
-                    <button
-                      onClick={() => onGoToPosition(log.playerPosition!)}
-                      className="p-1 rounded hover:bg-window-button-hover"
-                      title={`Перейти к позиции игрока (${log.playerPosition.x}, ${log.playerPosition.y})`}
-                    >
-                      <MapPin size={14} className="text-blue-400" />
-                    </button>
-                  )}
-                  {log.commandData && (
-                    <button
-                      onClick={() => toggleJsonView(log.id)}
-                      className="p-1 rounded hover:bg-window-button-hover"
-                      title="Показать JSON"
-                    >
-                      <Code size={14} className="text-gray-500" />
-                    </button>
-                  )}
-                </div>
-              </div>
-              {log.commandData && expandedLogId === log.id && (
-                <div className="ml-6 p-2 bg-window-content rounded border border-window-border text-xs font-mono text-gray-400">
-                  <pre className="whitespace-pre-wrap break-all">
-                    {JSON.stringify(log.commandData, null, 2)}
-                  </pre>
-                </div>
-              )}
-            </div>
-          ))}
-          <div ref={endRef} />
-        </div>
+        <>
+          <div className="flex items-center gap-2 px-2 py-1 border-b border-window-border">
+            <Search size={14} className="text-window-icon-color flex-shrink-0" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search full history..."
+              className="flex-1 min-w-0 bg-transparent text-xs text-ui-input-text placeholder-ui-input-placeholder outline-none"
+            />
+            {needle ? (
+              <span className="text-xs text-dock-text-dim">
+                {shownLogs.length} found
+              </span>
+            ) : (
+              archivedLogCount > 0 && (
+                <span
+                  className="text-xs text-dock-text-dim"
+                  title="Старые сообщения перенесены в архив"
+                >
+                  +{archivedLogCount} archived
+                </span>
+              )
+            )}
+            <button
+              onClick={handleExport}
+              className="p-1 rounded hover:bg-window-button-hover"
+              title="Сохранить всю историю лога"
+            >
+              <Download size={14} className="text-window-icon-color" />
+            </button>
+          </div>
+          <VirtualList
+            items={shownLogs}
+            getKey={getLogKey}
+            estimateSize={20}
+            followOutput={!needle}
+            renderItem={renderLog}
+            className="flex-1 p-2"
+          />
+        </>
       ) : (
         <div className="flex flex-col space-y-1 p-2 min-h-0">
           {transientLogs.map((log) => (
@@ -227,7 +277,12 @@ export const GameLogWindow: React.FC<GameLogWindowProps> = ({
               key={log.id}
               className={`${getLogColor(log.type)} text-xs break-words p-1`}
             >
-              <span dangerouslySetInnerHTML={{ __html: log.text }} />
+              <LogMessageText
+                log={log}
+                onGoToEntity={onGoToEntity}
+                onGoToPosition={onGoToPosition}
+                onInspectItem={onInspectItem}
+              />
             </div>
           ))}
         </div>
@@ -7,7 +7,7 @@
  * - Visual item display with icon, name, and quantity
  * - Drag-and-drop support (LMB)
  * - Inline context menu on right-click
- * - Visual states: normal, hover, dragging, drop target
+ * - Visual states: normal, hover, dragging, drop target, pending, rejected
  * - Server-driven item symbols and colors
  * - Tooltip with item info
  *
@@ -58,6 +58,12 @@ interface InventorySlotProps {
   className?: string;
 
   unavailable?: boolean;
+
+  /** Command for this item is waiting for the server reply */
+  pending?: boolean;
+
+  /** Why the last command for this item was rejected (shown inline) */
+  rejectedReason?: string | null;
 }
 
 export const InventorySlot: FC<InventorySlotProps> = ({
@@ -80,6 +86,10 @@ export const InventorySlot: FC<InventorySlotProps> = ({
   className,
 
   unavailable = false,
+
+  pending = false,
+
+  rejectedReason = null,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isOver, setIsOver] = useState(false);
@@ -175,7 +185,7 @@ export const InventorySlot: FC<InventorySlotProps> = ({
   };
 
   const handleUse = () => {
-    if (item) {
+    if (item && !pending) {
       onUse?.(item);
       setShowContextMenu(false);
     }
@@ -220,7 +230,7 @@ export const InventorySlot: FC<InventorySlotProps> = ({
   };
 
   const handleClick = (e: React.MouseEvent) => {
-    if (item && !unavailable && onUse) {
+    if (item && !unavailable && !pending && onUse) {
       e.preventDefault();
       e.stopPropagation();
       onUse(item);
@@ -252,6 +262,10 @@ export const InventorySlot: FC<InventorySlotProps> = ({
 
         ${unavailable ? "opacity-40 cursor-not-allowed" : "hover:border-window-border-focus"}
 
+        ${pending ? "opacity-50 grayscale cursor-wait" : ""}
+
+        ${rejectedReason ? "border-log-error" : ""}
+
         transition-all duration-100
 
         flex items-center justify-center
@@ -262,7 +276,7 @@ export const InventorySlot: FC<InventorySlotProps> = ({
       `}
         title={
           item
-            ? `${item.name}${item.description ? ` - ${item.description}` : ""}${unavailable ? " (Not in inventory)" : ""}`
+            ? `${item.name}${item.description ? ` - ${item.description}` : ""}${unavailable ? " (Not in inventory)" : ""}${pending ? " (Waiting for server)" : ""}${rejectedReason ? ` (Rejected: ${rejectedReason})` : ""}`
             : "Empty Slot"
         }
       >
@@ -274,8 +288,10 @@ export const InventorySlot: FC<InventorySlotProps> = ({
             >
               {getItemIcon(item)}
             </div>
-            <div className="absolute bottom-0 left-0 right-0 bg-black/80 text-white text-[8px] text-center px-1 py-0.5 truncate">
-              {item.name}
+            <div
+              className={`absolute bottom-0 left-0 right-0 text-white text-[8px] text-center px-1 py-0.5 truncate ${rejectedReason ? "bg-red-900/90" : "bg-black/80"}`}
+            >
+              {rejectedReason ?? item.name}
             </div>
             {item.value > 1 && item.type === "GOLD" && (
               <div className="absolute top-1 right-1 bg-yellow-600 text-white text-[10px] font-bold px-1 rounded">
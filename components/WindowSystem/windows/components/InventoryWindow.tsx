@@ -21,7 +21,6 @@
  * Usage:
  * ```tsx
  * <InventoryWindow
- *   items={player.inventory}
  *   onUseItem={(item, targetId) => sendCommand("USE", { name: item.name, targetId })}
  *   onDropItem={(item) => sendCommand("DROP", { name: item.name })}
  *   onEquipItem={(item) => sendCommand("EQUIP", { itemId: item.id })}
@@ -32,35 +31,34 @@
 import {Package} from "lucide-react";
 import {FC, useEffect, useState} from "react";
 
-import {Item, ServerToClientEquipmentView} from "../../../../types";
+import {
+  usePlayerEquipment,
+  usePlayerInventory,
+  usePlayerInventoryData,
+} from "../../../../hooks/useGameStore";
+import {Item} from "../../../../types";
 
 import {InventorySlot} from "./InventorySlot";
 
 interface InventoryWindowProps {
-  items: Item[];
   onUseItem?: (item: Item, targetEntityId?: string) => void;
   onDropItem?: (item: Item) => void;
   onEquipItem?: (item: Item) => void;
   onUnequipItem?: (item: Item) => void;
   onInspectItem?: (item: Item) => void;
-  inventoryData?: {
-    maxSlots?: number;
-    currentWeight?: number;
-    maxWeight?: number;
-  } | null;
-  equipment?: ServerToClientEquipmentView | null;
 }
 
 export const InventoryWindow: FC<InventoryWindowProps> = ({
-  items,
   onUseItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
   onInspectItem,
-  inventoryData,
-  equipment,
 }) => {
+  // Содержимое инвентаря — из хранилища игры
+  const items = usePlayerInventory();
+  const inventoryData = usePlayerInventoryData();
+  const equipment = usePlayerEquipment();
   const [draggedItem, setDraggedItem] = useState<Item | null>(null);
 
   // Global drop listener to handle drops on game grid
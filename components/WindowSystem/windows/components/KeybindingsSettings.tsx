@@ -10,6 +10,7 @@ import {
   CommandLeft,
   CommandPickup,
   CommandRight,
+  CommandSwitchEntity,
   CommandTalk,
   CommandTeleport,
   CommandTrade,
@@ -17,6 +18,8 @@ import {
   GameCommand,
   KeyBindingManager,
 } from "../../../../commands";
+import {ANIMATION_SPEEDS, LOG_RETENTION_OPTIONS} from "../../../../constants";
+import type {AnimationSettings, MapRenderer, TileMode} from "../../../../types";
 
 interface KeybindingsSettingsProps {
   keyBindingManager: KeyBindingManager;
@@ -24,6 +27,18 @@ interface KeybindingsSettingsProps {
   onOpenCasino: () => void;
   splashNotificationsEnabled: boolean;
   onToggleSplashNotifications: (enabled: boolean) => void;
+  /** Сколько сообщений лога держать в памяти */
+  logRetention: number;
+  onChangeLogRetention: (limit: number) => void;
+  /** Способ отрисовки карты */
+  mapRenderer: MapRenderer;
+  onChangeMapRenderer: (renderer: MapRenderer) => void;
+  /** Графика карты: ASCII-символы или спрайты */
+  tileMode: TileMode;
+  onChangeTileMode: (mode: TileMode) => void;
+  /** Скорость анимаций сущностей и «уменьшить движение» */
+  animationSettings: AnimationSettings;
+  onChangeAnimationSettings: (settings: AnimationSettings) => void;
 }
 
 interface KeyBindingRow {
@@ -47,6 +62,7 @@ const AVAILABLE_COMMANDS: GameCommand[] = [
   CommandTeleport,
   CommandCastArea,
   CommandCustom,
+  CommandSwitchEntity,
   // TODO: Добавить возможность перетащить из инвентаря сущность и назначить
 ];
 
@@ -75,6 +91,14 @@ const KeybindingsSettings: FC<KeybindingsSettingsProps> = ({
   onOpenCasino,
   splashNotificationsEnabled,
   onToggleSplashNotifications,
+  logRetention,
+  onChangeLogRetention,
+  mapRenderer,
+  onChangeMapRenderer,
+  tileMode,
+  onChangeTileMode,
+  animationSettings,
+  onChangeAnimationSettings,
 }) => {
   const [activeTab, setActiveTab] = useState<"keybindings" | "windows" | "ui">(
     "keybindings",
@@ -672,6 +696,124 @@ const KeybindingsSettings: FC<KeybindingsSettingsProps> = ({
                   <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-cyan-500 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-cyan-600"></div>
                 </label>
               </div>
+
+              <div className="flex items-center justify-between p-4 bg-ui-input-bg rounded-lg">
+                <div>
+                  <h3 className="font-medium text-window-text mb-1">
+                    Сообщений лога в памяти
+                  </h3>
+                  <p className="text-sm text-dock-text-dim">
+                    Более старые сообщения переносятся в архив браузера и
+                    остаются доступны для поиска и экспорта
+                  </p>
+                </div>
+                <select
+                  value={logRetention}
+                  onChange={(e) => onChangeLogRetention(Number(e.target.value))}
+                  className="bg-ui-input-bg text-ui-input-text text-sm rounded px-2 py-1 border border-ui-input-border outline-none focus:border-window-border-focus"
+                >
+                  {LOG_RETENTION_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between p-4 bg-ui-input-bg rounded-lg">
+                <div>
+                  <h3 className="font-medium text-window-text mb-1">
+                    Отрисовка карты
+                  </h3>
+                  <p className="text-sm text-dock-text-dim">
+                    Canvas рисует только видимую часть карты и быстрее на
+                    больших подземельях и при отдалении
+                  </p>
+                </div>
+                <select
+                  value={mapRenderer}
+                  onChange={(e) =>
+                    onChangeMapRenderer(e.target.value as MapRenderer)
+                  }
+                  className="bg-ui-input-bg text-ui-input-text text-sm rounded px-2 py-1 border border-ui-input-border outline-none focus:border-window-border-focus"
+                >
+                  <option value="dom">DOM</option>
+                  <option value="canvas">Canvas</option>
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between p-4 bg-ui-input-bg rounded-lg">
+                <div>
+                  <h3 className="font-medium text-window-text mb-1">
+                    Графика карты
+                  </h3>
+                  <p className="text-sm text-dock-text-dim">
+                    Спрайты тайлсета вместо символов; объекты без спрайта
+                    остаются символами
+                  </p>
+                </div>
+                <select
+                  value={tileMode}
+                  onChange={(e) => onChangeTileMode(e.target.value as TileMode)}
+                  className="bg-ui-input-bg text-ui-input-text text-sm rounded px-2 py-1 border border-ui-input-border outline-none focus:border-window-border-focus"
+                >
+                  <option value="ascii">ASCII</option>
+                  <option value="tiles">Tiles</option>
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between p-4 bg-ui-input-bg rounded-lg">
+                <div>
+                  <h3 className="font-medium text-window-text mb-1">
+                    Скорость анимаций
+                  </h3>
+                  <p className="text-sm text-dock-text-dim">
+                    Перемещения, удары, попадания и смерть сущностей на карте
+                  </p>
+                </div>
+                <select
+                  value={animationSettings.speed}
+                  onChange={(e) =>
+                    onChangeAnimationSettings({
+                      ...animationSettings,
+                      speed: Number(e.target.value),
+                    })
+                  }
+                  className="bg-ui-input-bg text-ui-input-text text-sm rounded px-2 py-1 border border-ui-input-border outline-none focus:border-window-border-focus"
+                >
+                  {ANIMATION_SPEEDS.map((speed) => (
+                    <option key={speed} value={speed}>
+                      {speed}×
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between p-4 bg-ui-input-bg rounded-lg">
+                <div>
+                  <h3 className="font-medium text-window-text mb-1">
+                    Уменьшить движение
+                  </h3>
+                  <p className="text-sm text-dock-text-dim">
+                    Сущности сразу встают на новую клетку, без рывков и
+                    тряски; вспышки и угасание остаются
+                  </p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={animationSettings.reduceMotion}
+                    onChange={(e) =>
+                      onChangeAnimationSettings({
+                        ...animationSettings,
+                        reduceMotion: e.target.checked,
+                      })
+                    }
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-cyan-500 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-cyan-600"></div>
+                </label>
+              </div>
             </div>
 
             {/* Информация о билде */}
@@ -2,6 +2,8 @@ import {FC, useState} from "react";
 
 interface LoginWindowProps {
   onConnect: (entityId: string) => void;
+  /** Watch the session without controlling an entity */
+  onSpectate?: () => void;
   isConnected: boolean;
   wsConnected?: boolean;
   loginError?: string | null;
@@ -9,19 +11,27 @@ interface LoginWindowProps {
 
 export const LoginWindow: FC<LoginWindowProps> = ({
   onConnect,
+  onSpectate,
   isConnected,
   wsConnected = false,
   loginError = null,
 }) => {
   const [entityId, setEntityId] = useState("");
+  const [isSpectating, setIsSpectating] = useState(false);
 
   const handleConnect = () => {
     const trimmedId = entityId.trim();
     if (trimmedId) {
+      setIsSpectating(false);
       onConnect(trimmedId);
     }
   };
 
+  const handleSpectate = () => {
+    setIsSpectating(true);
+    onSpectate?.();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       if (!isConnected && wsConnected) {
@@ -70,9 +80,23 @@ export const LoginWindow: FC<LoginWindowProps> = ({
             : "Login"}
       </button>
 
+      {onSpectate && (
+        <button
+          onClick={handleSpectate}
+          disabled={isConnected || !wsConnected}
+          className={`w-full mt-3 p-3 text-sm rounded-md border border-window-border transition-all duration-200 ${
+            isConnected || !wsConnected
+              ? "text-ui-button-disabled-text cursor-not-allowed opacity-60"
+              : "text-window-text hover:bg-window-button-hover cursor-pointer"
+          }`}
+        >
+          Spectate (no entity)
+        </button>
+      )}
+
       {isConnected && (
         <div className="mt-6 p-4 bg-green-900/40 border border-green-700/50 rounded-md text-green-400 text-sm font-medium">
-          ✓ Authenticated as {entityId}
+          {isSpectating ? "✓ Watching as spectator" : `✓ Authenticated as ${entityId}`}
         </div>
       )}
 
@@ -0,0 +1,225 @@
+import {FC, useEffect, useRef, useState} from "react";
+
+import {useEntities, usePlayer, useWorld} from "../../../../hooks/useGameStore";
+import {Entity, GameWorld, Position, TileEnv} from "../../../../types";
+import type {CameraViewport} from "../../../../utils/camera";
+import {isWallStyle} from "../../../terrainStyles";
+
+type Rgb = [number, number, number];
+
+/** Цвет местности на миникарте (видимая клетка) */
+const TERRAIN_COLORS: Record<TileEnv, Rgb> = {
+  stone: [64, 64, 64],
+  floor: [120, 113, 108],
+  grass: [34, 120, 60],
+  water: [37, 99, 235],
+  tree: [21, 83, 45],
+};
+
+const WALL_COLOR: Rgb = [161, 161, 170];
+const PLAYER_COLOR: Rgb = [34, 211, 238];
+const HOSTILE_COLOR: Rgb = [239, 68, 68];
+const PATHFINDING_TARGET_COLOR: Rgb = [34, 197, 94];
+
+/** Яркость исследованной, но не видимой сейчас клетки */
+const EXPLORED_BRIGHTNESS = 0.45;
+
+/**
+ * Данные и действия миникарты, которых нет в хранилище игры
+ */
+export interface MinimapControls {
+  /** Видимая область основной карты в клетках */
+  viewport: CameraViewport;
+  pathfindingTarget: Position | null;
+  /** Перевести камеру на клетку */
+  onGoToPosition: (position: Position) => void;
+}
+
+interface MinimapWindowProps {
+  controls: MinimapControls;
+}
+
+/**
+ * Рисует миникарту: одна клетка — один пиксель
+ */
+function drawMinimap(
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  player: Entity | null,
+  entities: Entity[],
+  pathfindingTarget: Position | null,
+): void {
+  const image = ctx.createImageData(world.width, world.height);
+  const setPixel = (x: number, y: number, [r, g, b]: Rgb, brightness = 1) => {
+    if (x < 0 || y < 0 || x >= world.width || y >= world.height) {
+      return;
+    }
+    const i = (y * world.width + x) * 4;
+    image.data[i] = r * brightness;
+    image.data[i + 1] = g * brightness;
+    image.data[i + 2] = b * brightness;
+    image.data[i + 3] = 255;
+  };
+
+  world.map.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      if (!tile.isVisible && !tile.isExplored) {
+        return;
+      }
+      setPixel(
+        x,
+        y,
+        isWallStyle(tile) ? WALL_COLOR : TERRAIN_COLORS[tile.env],
+        tile.isVisible ? 1 : EXPLORED_BRIGHTNESS,
+      );
+    }),
+  );
+
+  // Враждебные — только на видимых клетках
+  entities.forEach((entity) => {
+    if (
+      entity.isHostile &&
+      !entity.isDead &&
+      world.map[entity.pos.y]?.[entity.pos.x]?.isVisible
+    ) {
+      setPixel(entity.pos.x, entity.pos.y, HOSTILE_COLOR);
+    }
+  });
+  if (pathfindingTarget) {
+    setPixel(pathfindingTarget.x, pathfindingTarget.y, PATHFINDING_TARGET_COLOR);
+  }
+  if (player) {
+    setPixel(player.pos.x, player.pos.y, PLAYER_COLOR);
+  }
+
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Миникарта исследованной части уровня
+ *
+ * Рамка показывает видимую область основной карты; клик или
+ * перетаскивание по миникарте переводит камеру на клетку под курсором.
+ */
+export const MinimapWindow: FC<MinimapWindowProps> = ({ controls }) => {
+  const { viewport, pathfindingTarget, onGoToPosition } = controls;
+  const world = useWorld();
+  const player = usePlayer();
+  const entities = useEntities();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerId: number; cell: string } | null>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const hasWorld = world !== null;
+
+  // Контейнер появляется вместе с картой
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      setContainerSize({
+        width: container.clientWidth,
+        height: container.clientHeight,
+      });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasWorld]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (world && ctx) {
+      drawMinimap(ctx, world, player, entities, pathfindingTarget);
+    }
+  }, [world, player, entities, pathfindingTarget]);
+
+  if (!world) {
+    return (
+      <div className="flex items-center justify-center h-full bg-window-base text-dock-text-dim text-sm">
+        The minimap appears once the map is loaded
+      </div>
+    );
+  }
+
+  // Целочисленный масштаб, если помещается: пиксели остаются ровными
+  const fit = Math.min(
+    containerSize.width / world.width,
+    containerSize.height / world.height,
+  );
+  const scale = fit >= 1 ? Math.floor(fit) : fit;
+
+  const goToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * world.width);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * world.height);
+    const position = {
+      x: Math.max(0, Math.min(world.width - 1, x)),
+      y: Math.max(0, Math.min(world.height - 1, y)),
+    };
+    const cell = `${position.x},${position.y}`;
+    if (dragRef.current && dragRef.current.cell !== cell) {
+      dragRef.current.cell = cell;
+      onGoToPosition(position);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) {
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, cell: "" };
+    goToPointer(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      goToPointer(e);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  return (
+    <div className="h-full p-2 bg-window-base">
+      <div
+        ref={containerRef}
+        className="flex items-center justify-center w-full h-full overflow-hidden"
+      >
+        <div
+          className="relative bg-black cursor-crosshair overflow-hidden touch-none"
+          style={{ width: world.width * scale, height: world.height * scale }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <canvas
+            ref={canvasRef}
+            width={world.width}
+            height={world.height}
+            className="w-full h-full"
+            style={{ imageRendering: "pixelated" }}
+          />
+
+          {/* Видимая область основной карты */}
+          <div
+            className="absolute border border-white/80 pointer-events-none"
+            style={{
+              left: `${(viewport.x / world.width) * 100}%`,
+              top: `${(viewport.y / world.height) * 100}%`,
+              width: `${(viewport.width / world.width) * 100}%`,
+              height: `${(viewport.height / world.height) * 100}%`,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
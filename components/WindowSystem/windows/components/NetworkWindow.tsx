@@ -0,0 +1,213 @@
+import {ArrowDown, ArrowUp, Clock, Inbox, Wifi, WifiOff} from "lucide-react";
+import {FC, ReactNode, useEffect, useState} from "react";
+
+import type {DecodeStats} from "../../../../hooks/useNetworkDiagnostics";
+import {
+  ConnectionEvent,
+  formatBytes,
+  getTrafficHistory,
+  NetworkCounters,
+  summarizeTraffic,
+  TrafficBucket,
+} from "../../../../utils/networkMetrics";
+
+import {JSONViewer} from "./json/JSONViewer";
+
+/**
+ * Источники данных для окна диагностики (из useNetworkDiagnostics и
+ * useWebSocket)
+ */
+export interface NetworkDiagnosticsSource {
+  isConnected: boolean;
+  getNetworkCounters: () => NetworkCounters;
+  getMetrics: () => unknown;
+  getDecodeStats: () => DecodeStats;
+}
+
+interface NetworkWindowProps {
+  source: NetworkDiagnosticsSource;
+}
+
+/** Период обновления окна (мс) */
+const REFRESH_INTERVAL_MS = 1000;
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 80;
+
+const EVENT_STYLES: Record<ConnectionEvent["kind"], string> = {
+  connected: "text-log-success",
+  disconnected: "text-log-error",
+  reconnecting: "text-log-warning",
+  error: "text-log-error",
+};
+
+const Stat: FC<{ icon: ReactNode; label: string; value: string }> = ({
+  icon,
+  label,
+  value,
+}) => (
+  <div className="flex items-center gap-2 p-2 rounded border border-window-border">
+    {icon}
+    <div className="flex flex-col">
+      <span className="text-xs text-dock-text-dim">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Скользящий график: сообщения в секунду (столбцы) и время ответа (линия)
+ */
+const TrafficChart: FC<{ history: TrafficBucket[] }> = ({ history }) => {
+  const maxMessages = Math.max(
+    1,
+    ...history.map((b) => b.messagesIn + b.messagesOut),
+  );
+  const roundTrips = history.map((b) =>
+    b.roundTripCount > 0 ? b.roundTripTotal / b.roundTripCount : null,
+  );
+  const maxRoundTrip = Math.max(1, ...roundTrips.map((rt) => rt ?? 0));
+  const barWidth = CHART_WIDTH / history.length;
+
+  const points = roundTrips
+    .map((rt, i) =>
+      rt === null
+        ? null
+        : `${i * barWidth + barWidth / 2},${CHART_HEIGHT - (rt / maxRoundTrip) * CHART_HEIGHT}`,
+    )
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-20 bg-window-content rounded border border-window-border"
+      preserveAspectRatio="none"
+    >
+      {history.map((bucket, i) => {
+        const inHeight = (bucket.messagesIn / maxMessages) * CHART_HEIGHT;
+        const outHeight = (bucket.messagesOut / maxMessages) * CHART_HEIGHT;
+        return (
+          <g key={bucket.second}>
+            <rect
+              x={i * barWidth}
+              y={CHART_HEIGHT - inHeight}
+              width={barWidth - 1}
+              height={inHeight}
+              className="fill-sky-700/70"
+            />
+            <rect
+              x={i * barWidth}
+              y={CHART_HEIGHT - inHeight - outHeight}
+              width={barWidth - 1}
+              height={outHeight}
+              className="fill-amber-600/70"
+            />
+          </g>
+        );
+      })}
+      {points && (
+        <polyline
+          points={points}
+          fill="none"
+          strokeWidth={1.5}
+          className="stroke-emerald-400"
+        />
+      )}
+    </svg>
+  );
+};
+
+export const NetworkWindow: FC<NetworkWindowProps> = ({ source }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Счетчики изменяются вне React — перерисовываемся по таймеру
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const counters = source.getNetworkCounters();
+  const history = getTrafficHistory(counters, now);
+  const summary = summarizeTraffic(history);
+  const decodeStats = source.getDecodeStats();
+  const transportMetrics = source.getMetrics();
+
+  const roundTrip =
+    summary.averageRoundTripMs ?? counters.lastRoundTripMs ?? null;
+
+  return (
+    <div className="flex flex-col gap-3 p-3 h-full overflow-y-auto bg-window-base text-window-text text-sm">
+      <div className="flex items-center gap-2">
+        {source.isConnected ? (
+          <Wifi size={16} className="text-log-success" />
+        ) : (
+          <WifiOff size={16} className="text-log-error" />
+        )}
+        <span>{source.isConnected ? "Connected" : "Disconnected"}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Stat
+          icon={<Clock size={16} />}
+          label="Response time (command → reply)"
+          value={roundTrip !== null ? `${Math.round(roundTrip)} ms` : "—"}
+        />
+        <Stat
+          icon={<Inbox size={16} />}
+          label="Queued commands"
+          value={String(counters.queuedCommands)}
+        />
+        <Stat
+          icon={<ArrowDown size={16} className="text-sky-400" />}
+          label="In (5s avg)"
+          value={`${summary.messagesInPerSec.toFixed(1)} msg/s · ${formatBytes(summary.bytesInPerSec)}/s`}
+        />
+        <Stat
+          icon={<ArrowUp size={16} className="text-amber-400" />}
+          label="Out (5s avg)"
+          value={`${summary.messagesOutPerSec.toFixed(1)} msg/s · ${formatBytes(summary.bytesOutPerSec)}/s`}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <TrafficChart history={history} />
+        <div className="flex gap-3 text-xs text-dock-text-dim">
+          <span className="text-sky-400">■ in</span>
+          <span className="text-amber-400">■ out</span>
+          <span className="text-emerald-400">— response time</span>
+          <span className="ml-auto">last 60s</span>
+        </div>
+      </div>
+
+      <div className="text-xs text-dock-text-dim">
+        Total: {counters.totalMessagesIn} in ({formatBytes(counters.totalBytesIn)}) ·{" "}
+        {counters.totalMessagesOut} out ({formatBytes(counters.totalBytesOut)}) ·{" "}
+        {decodeStats.malformed} malformed
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <h3 className="font-semibold">Connection history</h3>
+        {counters.connectionEvents.length === 0 ? (
+          <span className="text-dock-text-dim">No events yet</span>
+        ) : (
+          <ul className="flex flex-col gap-0.5 font-mono text-xs">
+            {[...counters.connectionEvents].reverse().map((event) => (
+              <li key={`${event.at}-${event.kind}`} className="flex gap-2">
+                <span className="text-dock-text-dim">
+                  {new Date(event.at).toLocaleTimeString()}
+                </span>
+                <span className={EVENT_STYLES[event.kind]}>{event.kind}</span>
+                {event.detail && <span>{event.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {transportMetrics !== undefined && transportMetrics !== null && (
+        <JSONViewer data={transportMetrics} title="Transport metrics" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import {Gamepad2, Plus, X, Zap} from "lucide-react";
+import {FC, FormEvent, useState} from "react";
+
+import {useActiveEntityId} from "../../../../hooks/useGameStore";
+import type {PartyMember, PartyMemberStatus} from "../../../../hooks/useParty";
+
+/**
+ * Управление своими сущностями (из useParty)
+ */
+export interface PartyControls {
+  /** Сущность основного соединения */
+  primaryEntityId: string | null;
+  members: PartyMember[];
+  controlledEntityId: string | null;
+  onAddMember: (entityId: string) => void;
+  onRemoveMember: (entityId: string) => void;
+  onControl: (entityId: string) => void;
+}
+
+interface PartyWindowProps {
+  controls: PartyControls;
+}
+
+const STATUS_STYLES: Record<PartyMemberStatus, string> = {
+  connecting: "text-log-warning",
+  online: "text-log-success",
+  offline: "text-dock-text-dim",
+  error: "text-log-error",
+};
+
+const buttonClass =
+  "flex items-center gap-1 px-3 py-1 text-sm rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const primaryButtonClass = `${buttonClass} bg-ui-button-primary-bg text-ui-button-primary-text hover:bg-ui-button-primary-hover`;
+
+export const PartyWindow: FC<PartyWindowProps> = ({ controls }) => {
+  const [entityId, setEntityId] = useState("");
+  const activeEntityId = useActiveEntityId();
+
+  const rows = [
+    ...(controls.primaryEntityId
+      ? [
+        {
+          entityId: controls.primaryEntityId,
+          status: "online" as PartyMemberStatus,
+          error: undefined,
+          isPrimary: true,
+        },
+      ]
+      : []),
+    ...controls.members.map((m) => ({ ...m, isPrimary: false })),
+  ];
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = entityId.trim();
+    if (trimmed) {
+      controls.onAddMember(trimmed);
+      setEntityId("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-4 h-full overflow-y-auto bg-window-base text-window-text text-sm">
+      <ul className="flex flex-col gap-2">
+        {rows.map((row) => {
+          const isControlled = row.entityId === controls.controlledEntityId;
+          const isActive = row.entityId === activeEntityId;
+          return (
+            <li
+              key={row.entityId}
+              className={`flex items-center gap-2 p-2 rounded border ${
+                isControlled
+                  ? "border-window-border-focus bg-window-button-hover"
+                  : "border-window-border"
+              }`}
+            >
+              <Gamepad2
+                size={16}
+                className={isControlled ? "text-blue-400" : "text-dock-text-dim"}
+              />
+              <div className="flex flex-col flex-1 min-w-0">
+                <span className="font-mono truncate">{row.entityId}</span>
+                <span className={`text-xs ${STATUS_STYLES[row.status]}`}>
+                  {row.isPrimary ? "main connection" : row.status}
+                  {row.error && ` · ${row.error}`}
+                </span>
+              </div>
+              {isActive && (
+                <Zap size={16} className="text-yellow-400" aria-label="Current turn" />
+              )}
+              <button
+                onClick={() => controls.onControl(row.entityId)}
+                disabled={isControlled || row.status !== "online"}
+                className={primaryButtonClass}
+              >
+                {isControlled ? "Controlled" : "Control"}
+              </button>
+              {!row.isPrimary && (
+                <button
+                  onClick={() => controls.onRemoveMember(row.entityId)}
+                  className="p-1 rounded text-dock-text-dim hover:text-log-error hover:bg-window-button-hover"
+                  title="Log out and close the connection"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={entityId}
+          onChange={(e) => setEntityId(e.target.value)}
+          placeholder="Entity ID"
+          className="flex-1 p-2 border border-ui-input-border rounded bg-ui-input-bg text-ui-input-text outline-none placeholder-ui-input-placeholder focus:border-window-border-focus"
+        />
+        <button
+          type="submit"
+          disabled={!entityId.trim()}
+          className={primaryButtonClass}
+        >
+          <Plus size={14} />
+          Add
+        </button>
+      </form>
+
+      <p className="text-xs text-dock-text-dim">
+        Each added entity logs in over its own connection. Control follows
+        whose turn it is; Tab switches to the next entity.
+      </p>
+    </div>
+  );
+};
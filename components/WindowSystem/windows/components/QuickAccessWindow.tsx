@@ -1,7 +1,13 @@
 import type {DragEvent, FC} from "react";
 import {useCallback, useEffect, useMemo, useState} from "react";
 
+import {
+  useGameStore,
+  usePlayerEquipment,
+  usePlayerInventory,
+} from "../../../../hooks/useGameStore";
 import type {Item} from "../../../../types";
+import type {TrackedCommand} from "../../../../utils/commandTracker";
 
 import {InventorySlot} from "./InventorySlot";
 
@@ -25,13 +31,6 @@ import {InventorySlot} from "./InventorySlot";
  */
 
 interface QuickAccessWindowProps {
-  slots: Array<Item | null>;
-  /**
-   * Full, up-to-date inventory items for resolving drops by id.
-   * FIXME: In future, quick access should store only item ids and resolve them via this collection.
-   */
-  inventoryItems: Item[];
-
   totalSlots?: number;
 
   onUsePinnedItem?: (item: Item) => void;
@@ -39,34 +38,51 @@ interface QuickAccessWindowProps {
   onEquipItem?: (item: Item) => void;
   onUnequipItem?: (item: Item) => void;
   onInspectItem?: (item: Item) => void;
-  equipment?: Array<Item>;
+  /**
+   * Последняя команда по каждому предмету (itemId → команда):
+   * слот блокируется, пока команда ждет ответа, и показывает причину отказа.
+   */
+  commandFeedback?: Map<string, TrackedCommand>;
 }
 
 export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
-  slots,
-  inventoryItems,
   totalSlots,
   onUsePinnedItem,
   onDropItem,
   onEquipItem,
   onUnequipItem,
   onInspectItem,
-  equipment,
+  commandFeedback,
 }) => {
-  const count = useMemo(() => {
-    const base = Array.isArray(slots) ? slots.length : 0;
-    const requested = totalSlots ?? base;
-    return requested > 0 ? requested : base;
-  }, [slots, totalSlots]);
+  const store = useGameStore();
+  /**
+   * Full, up-to-date inventory items for resolving drops by id.
+   * FIXME: In future, quick access should store only item ids and resolve them via this collection.
+   */
+  const inventoryItems = usePlayerInventory();
+  const playerEquipment = usePlayerEquipment();
+  const equipment = useMemo(
+    () =>
+      playerEquipment
+        ? ([playerEquipment.weapon, playerEquipment.armor].filter(
+          Boolean,
+        ) as Item[])
+        : [],
+    [playerEquipment],
+  );
 
+  // Slots start filled from the inventory at mount time
   const [slotItems, setSlotItems] = useState<Array<Item | null>>(() => {
-    const initialLength = count;
+    const slots = store.getState().player?.inventory ?? [];
+    const requested = totalSlots ?? slots.length;
+    const initialLength = requested > 0 ? requested : slots.length;
     const next: Array<Item | null> = new Array(initialLength).fill(null);
     for (let i = 0; i < initialLength; i += 1) {
       next[i] = slots[i] ?? null;
     }
     return next;
   });
+  const count = slotItems.length;
 
   const [draggedItem, setDraggedItem] = useState<{
     item: Item;
@@ -123,8 +139,7 @@ export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
       }
 
       const sourceItem =
-        (inventoryItems ?? []).find((candidate) => candidate.id === itemId) ??
-        null;
+        inventoryItems.find((candidate) => candidate.id === itemId) ?? null;
 
       // Debug log: show result of resolving item from inventory
       // eslint-disable-next-line no-console
@@ -132,7 +147,7 @@ export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
         itemId,
         resolved: !!sourceItem,
         slotIndex,
-        inventorySize: (inventoryItems ?? []).length,
+        inventorySize: inventoryItems.length,
       });
 
       if (!sourceItem) {
@@ -194,6 +209,7 @@ export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
     >
       {Array.from({ length: count }).map((_, i) => {
         const item = slotItems[i] ?? null;
+        const feedback = item ? commandFeedback?.get(item.id) : undefined;
 
         return (
           <div
@@ -210,6 +226,14 @@ export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
                   ? !inventoryItems.some((invItem) => invItem.id === item.id)
                   : false
               }
+              pending={feedback?.status === "pending"}
+              rejectedReason={
+                feedback?.status === "rejected"
+                  ? (feedback.reason ?? "Rejected")
+                  : feedback?.status === "timeout"
+                    ? "No reply from server"
+                    : null
+              }
               onUse={(itm) => {
                 if (itm) {
                   onUsePinnedItem?.(itm);
@@ -220,7 +244,7 @@ export const QuickAccessWindow: FC<QuickAccessWindowProps> = ({
               onUnequip={onUnequipItem}
               onInspect={onInspectItem}
               isEquipped={
-                item ? equipment?.some((eq) => eq.id === item.id) : false
+                item ? equipment.some((eq) => eq.id === item.id) : false
               }
               onDragStart={(itm) => {
                 setDraggedItem({ item: itm, slotIndex: i });
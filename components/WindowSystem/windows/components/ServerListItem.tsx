@@ -2,6 +2,7 @@ import {Check, RefreshCw, Trash2} from "lucide-react";
 import type {FC} from "react";
 
 import {ServerInfo, ServerManager, ServerStatus, ServerVersionInfo} from "../../../../types/server";
+import type {ProtocolCompatibility, ProtocolCompatibilityStatus} from "../../../../utils/protocolVersion";
 
 import {ServerStatusBadge} from "./ServerStatusBadge";
 
@@ -9,16 +10,26 @@ interface ServerListItemProps {
   server: ServerInfo;
   status?: ServerStatus;
   version?: ServerVersionInfo;
+  /** Совместимость протокола (после проверки версии) */
+  compatibility?: ProtocolCompatibility;
   isSelected: boolean;
   onSelect: (serverId: string) => void;
   onCheck: (server: ServerInfo) => void;
   onRemove: (serverId: string) => void;
 }
 
+const COMPATIBILITY_STYLES: Record<ProtocolCompatibilityStatus, string> = {
+  compatible: "text-log-success",
+  "patch-mismatch": "text-log-warning",
+  incompatible: "text-log-error",
+  unknown: "text-dock-text-dim",
+};
+
 export const ServerListItem: FC<ServerListItemProps> = ({
   server,
   status,
   version,
+  compatibility,
   isSelected,
   onSelect,
   onCheck,
@@ -71,6 +82,17 @@ export const ServerListItem: FC<ServerListItemProps> = ({
               No build information available
             </p>
           )}
+          {compatibility && status?.isAvailable && (
+            <p
+              className={`text-[10px] font-mono mt-0.5 truncate ${COMPATIBILITY_STYLES[compatibility.status]}`}
+              title={compatibility.message}
+            >
+              {compatibility.serverVersion
+                ? `protocol ${compatibility.serverVersion}`
+                : "protocol not reported"}
+              {compatibility.status === "incompatible" && " · incompatible"}
+            </p>
+          )}
         </div>
         <div className="h-full flex flex-col items-end justify-between">
           <ServerStatusBadge status={status} />
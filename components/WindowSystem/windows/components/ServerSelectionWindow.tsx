@@ -1,25 +1,39 @@
-import { Plus, RefreshCw, Server } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { FolderOpen, Plus, RefreshCw, Server } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
+import { isMockServer, MOCK_SERVER } from "../../../../services/mockServer";
 import type { ServerInfo, ServerStatus, ServerVersionInfo } from "../../../../types/server";
 import { ServerManager } from "../../../../types/server";
+import {
+  checkProtocolCompatibility,
+  CLIENT_PROTOCOL_VERSION,
+  getServerProtocolVersion,
+  ProtocolCompatibility,
+} from "../../../../utils/protocolVersion";
 
 import { AddServerForm } from "./AddServerForm";
 import { ServerListItem } from "./ServerListItem";
 
 interface ServerSelectionWindowProps {
-  onConnect: (server: ServerInfo) => void;
+  /** compatibility — результат проверки версии протокола перед подключением */
+  onConnect: (server: ServerInfo, compatibility: ProtocolCompatibility) => void;
+  onOpenReplay?: (file: File) => void;
 }
 
+// Saved servers plus the built-in local mock server (never persisted)
+const loadServers = (): ServerInfo[] => [
+  ...ServerManager.getServers(),
+  MOCK_SERVER,
+];
+
 export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
   onConnect,
+  onOpenReplay,
 }) => {
   // Initialize state with loaded data
-  const [servers, setServers] = useState<ServerInfo[]>(() =>
-    ServerManager.getServers(),
-  );
+  const [servers, setServers] = useState<ServerInfo[]>(loadServers);
   const [statuses, setStatuses] = useState<Map<string, ServerStatus>>(() => {
-    const loadedServers = ServerManager.getServers();
+    const loadedServers = loadServers();
     const cachedStatuses = new Map<string, ServerStatus>();
     loadedServers.forEach((server) => {
       const cached = ServerManager.getCachedStatus(server.id);
@@ -36,21 +50,38 @@ export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
       if (selectedId) {
         return selectedId;
       }
-      const loadedServers = ServerManager.getServers();
+      const loadedServers = loadServers();
       return loadedServers.length > 0 ? loadedServers[0].id : null;
     },
   );
   const [isCheckingAll, setIsCheckingAll] = useState(false);
+  const [isCheckingVersion, setIsCheckingVersion] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newServerName, setNewServerName] = useState("");
   const [newServerHost, setNewServerHost] = useState("");
   const [newServerPort, setNewServerPort] = useState("8080");
   const [isDndGirlVisible, setIsDndGirlVisible] = useState(true);
+  const replayInputRef = useRef<HTMLInputElement>(null);
 
   // --- LOGIC ---
 
   // Check single server availability AND version
   const checkServer = useCallback(async (server: ServerInfo) => {
+    // Local mock server is always available and has no build info
+    if (isMockServer(server)) {
+      setStatuses((prev) => {
+        const newMap = new Map(prev);
+        newMap.set(server.id, {
+          serverId: server.id,
+          isAvailable: true,
+          latency: 0,
+          lastChecked: Date.now(),
+        });
+        return newMap;
+      });
+      return;
+    }
+
     // 1. Сбрасываем текущий статус на "проверяется" (визуально можно обыграть в item)
     setStatuses((prev) => {
       const newMap = new Map(prev);
@@ -157,18 +188,63 @@ export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
     [selectedServerId, servers],
   );
 
-  // Connect to selected server
-  const handleConnect = useCallback(() => {
-    if (!selectedServerId) {
+  // Open recorded session instead of connecting
+  const handleReplayFileChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) {
+        onOpenReplay?.(file);
+      }
+      e.target.value = "";
+    },
+    [onOpenReplay],
+  );
+
+  // Protocol compatibility per server (the mock server follows the client)
+  const getCompatibility = useCallback(
+    (server: ServerInfo, version = versions.get(server.id)) =>
+      checkProtocolCompatibility(
+        isMockServer(server)
+          ? CLIENT_PROTOCOL_VERSION
+          : getServerProtocolVersion(version),
+      ),
+    [versions],
+  );
+
+  const selectedServer = servers.find((s) => s.id === selectedServerId);
+  const selectedCompatibility = selectedServer
+    ? getCompatibility(selectedServer)
+    : null;
+  const isConnectBlocked = selectedCompatibility?.status === "incompatible";
+
+  // Connect to selected server (checks the protocol version first)
+  const handleConnect = useCallback(async () => {
+    const server = servers.find((s) => s.id === selectedServerId);
+    if (!server) {
       return;
     }
 
-    const server = servers.find((s) => s.id === selectedServerId);
-    if (server) {
-      ServerManager.setSelectedServerId(server.id);
-      onConnect(server);
+    // Version not fetched yet (e.g. Connect clicked right away): fetch it now
+    let version = versions.get(server.id);
+    if (!version && !isMockServer(server)) {
+      setIsCheckingVersion(true);
+      try {
+        version = await ServerManager.getServerVersion(server);
+        setVersions((prev) => new Map(prev).set(server.id, version));
+      } catch (error) {
+        console.warn(`Could not fetch version for server ${server.name}`, error);
+      }
+      setIsCheckingVersion(false);
+    }
+
+    const compatibility = getCompatibility(server, version);
+    if (compatibility.status === "incompatible") {
+      return;
     }
-  }, [selectedServerId, servers, onConnect]);
+
+    ServerManager.setSelectedServerId(server.id);
+    onConnect(server, compatibility);
+  }, [selectedServerId, servers, versions, getCompatibility, onConnect]);
 
   return (
     <div
@@ -258,6 +334,11 @@ export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
                   server={server}
                   status={statuses.get(server.id)}
                   version={versions.get(server.id)}
+                  compatibility={
+                    versions.has(server.id) || isMockServer(server)
+                      ? getCompatibility(server)
+                      : undefined
+                  }
                   isSelected={selectedServerId === server.id}
                   onSelect={setSelectedServerId}
                   onCheck={checkServer}
@@ -268,6 +349,22 @@ export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
           )}
         </div>
 
+        {/* Protocol mismatch explanation */}
+        {selectedCompatibility &&
+          selectedCompatibility.status !== "compatible" &&
+          (isConnectBlocked || versions.has(selectedServerId)) && (
+          <div
+            className={`mx-4 mb-2 p-3 rounded border text-sm ${
+              isConnectBlocked
+                ? "bg-red-900/40 border-red-700/50 text-red-400"
+                : "bg-yellow-900/30 border-yellow-700/50 text-yellow-300"
+            }`}
+          >
+            {isConnectBlocked ? "✗ Cannot connect. " : "⚠ "}
+            {selectedCompatibility.message}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="p-4 border-t border-window-border flex flex-row justify-between gap-2">
           <div className="flex items-center gap-2">
@@ -290,13 +387,37 @@ export const ServerSelectionWindow: React.FC<ServerSelectionWindowProps> = ({
               <Plus size={14} />
               Add Server
             </button>
+            {onOpenReplay && (
+              <>
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="flex items-center gap-1 px-3 py-1 text-sm bg-ui-button-disabled-bg text-ui-button-disabled-text hover:bg-window-button-hover rounded transition-colors"
+                  title="Replay a recorded session without a server"
+                >
+                  <FolderOpen size={14} />
+                  Open Replay
+                </button>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={handleReplayFileChange}
+                />
+              </>
+            )}
           </div>
           <button
             onClick={handleConnect}
-            disabled={!selectedServerId}
-            className="flex items-center gap-1 px-3 py-1 text-sm bg-ui-button-primary-bg text-ui-button-primary-text hover:bg-ui-button-primary-hover rounded transition-colors"
+            disabled={!selectedServerId || isConnectBlocked || isCheckingVersion}
+            className="flex items-center gap-1 px-3 py-1 text-sm bg-ui-button-primary-bg text-ui-button-primary-text hover:bg-ui-button-primary-hover rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={
+              isConnectBlocked
+                ? "Protocol versions are incompatible"
+                : `Client protocol ${CLIENT_PROTOCOL_VERSION}`
+            }
           >
-          Connect to Server
+            {isCheckingVersion ? "Checking version..." : "Connect to Server"}
           </button>
         </div>
       </div>
@@ -0,0 +1,181 @@
+import {Circle, Download, FolderOpen, Pause, Play, Square, X} from "lucide-react";
+import {ChangeEvent, FC, useRef} from "react";
+
+/**
+ * Управление записью и воспроизведением сессии
+ */
+export interface SessionControls {
+  /** Подключен ли клиент к серверу (запись доступна только онлайн) */
+  isConnected: boolean;
+  isRecording: boolean;
+  /** Количество записанных событий */
+  recordedEventCount: number;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onDownloadRecording: () => void;
+
+  isReplaying: boolean;
+  isPlaying: boolean;
+  speed: number;
+  speeds: readonly number[];
+  currentTick: number;
+  minTick: number;
+  maxTick: number;
+  /** Применено событий / всего событий в записи */
+  replayCursor: number;
+  replayEventCount: number;
+  onOpenReplay: (file: File) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeekTick: (tick: number) => void;
+  onEject: () => void;
+}
+
+interface SessionWindowProps {
+  controls: SessionControls;
+}
+
+const buttonClass =
+  "flex items-center gap-1 px-3 py-1 text-sm rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const primaryButtonClass = `${buttonClass} bg-ui-button-primary-bg text-ui-button-primary-text hover:bg-ui-button-primary-hover`;
+const secondaryButtonClass = `${buttonClass} bg-ui-button-disabled-bg text-ui-button-disabled-text hover:bg-window-button-hover`;
+
+export const SessionWindow: FC<SessionWindowProps> = ({ controls }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      controls.onOpenReplay(file);
+    }
+    // Allow re-opening the same file
+    e.target.value = "";
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4 h-full overflow-y-auto bg-window-base text-window-text text-sm">
+      {/* Recording */}
+      <section className="flex flex-col gap-2">
+        <h3 className="font-semibold">Recording</h3>
+        <div className="flex items-center gap-2">
+          {controls.isRecording ? (
+            <button
+              onClick={controls.onStopRecording}
+              className={secondaryButtonClass}
+            >
+              <Square size={14} />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={controls.onStartRecording}
+              disabled={!controls.isConnected || controls.isReplaying}
+              className={primaryButtonClass}
+              title={
+                controls.isConnected
+                  ? "Record all server messages and sent commands"
+                  : "Connect to a server to record"
+              }
+            >
+              <Circle size={14} className="text-red-500" />
+              Record
+            </button>
+          )}
+          <button
+            onClick={controls.onDownloadRecording}
+            disabled={controls.recordedEventCount === 0}
+            className={secondaryButtonClass}
+          >
+            <Download size={14} />
+            Download
+          </button>
+          <span className="text-dock-text-dim">
+            {controls.isRecording && "● "}
+            {controls.recordedEventCount} events
+          </span>
+        </div>
+      </section>
+
+      {/* Replay */}
+      <section className="flex flex-col gap-2 pt-4 border-t border-window-border">
+        <h3 className="font-semibold">Replay</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={controls.isRecording}
+            className={secondaryButtonClass}
+          >
+            <FolderOpen size={14} />
+            Open...
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {controls.isReplaying && (
+            <button onClick={controls.onEject} className={secondaryButtonClass}>
+              <X size={14} />
+              Close
+            </button>
+          )}
+        </div>
+
+        {controls.isReplaying ? (
+          <>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={controls.isPlaying ? controls.onPause : controls.onPlay}
+                className={primaryButtonClass}
+              >
+                {controls.isPlaying ? <Pause size={14} /> : <Play size={14} />}
+                {controls.isPlaying ? "Pause" : "Play"}
+              </button>
+              <label className="flex items-center gap-1">
+                Speed
+                <select
+                  value={controls.speed}
+                  onChange={(e) => controls.onSpeedChange(Number(e.target.value))}
+                  className="px-2 py-1 border border-ui-input-border rounded bg-ui-input-bg text-ui-input-text"
+                >
+                  {controls.speeds.map((speed) => (
+                    <option key={speed} value={speed}>
+                      {speed}x
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <input
+                type="range"
+                min={controls.minTick}
+                max={controls.maxTick}
+                value={controls.currentTick}
+                onChange={(e) => controls.onSeekTick(Number(e.target.value))}
+                disabled={controls.maxTick <= controls.minTick}
+                className="w-full"
+              />
+              <div className="flex justify-between text-dock-text-dim">
+                <span>
+                  Tick {controls.currentTick} / {controls.maxTick}
+                </span>
+                <span>
+                  {controls.replayCursor} / {controls.replayEventCount} events
+                </span>
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="text-dock-text-dim">
+            Open a recorded session file to replay it without a server.
+          </p>
+        )}
+      </section>
+    </div>
+  );
+};
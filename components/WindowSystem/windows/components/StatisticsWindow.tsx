@@ -0,0 +1,267 @@
+import {Download} from "lucide-react";
+import {FC} from "react";
+
+import {useSessionStats} from "../../../../hooks/useGameStore";
+import {EntityType} from "../../../../types";
+import {downloadTextFile} from "../../../../utils/download";
+import {
+  countAllKills,
+  ESTIMATED_SESSION_COUNTERS,
+  getSessionStatsFileName,
+  serializeSessionStatsCsv,
+  SessionCounters,
+  StatSample,
+  sumSessionCounters,
+} from "../../../../utils/sessionStats";
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 60;
+
+interface SeriesChartProps {
+  samples: StatSample[];
+  value: (sample: StatSample) => number;
+  max: (sample: StatSample) => number;
+  className: string;
+}
+
+/**
+ * Линия значения по тикам, 0..max; вертикальные отметки — смена уровня
+ */
+const SeriesChart: FC<SeriesChartProps> = ({
+  samples,
+  value,
+  max,
+  className,
+}) => {
+  const first = samples[0].tick;
+  const span = Math.max(1, samples[samples.length - 1].tick - first);
+  const top = Math.max(1, ...samples.map(max));
+  const x = (sample: StatSample) => ((sample.tick - first) / span) * CHART_WIDTH;
+  const points = samples
+    .map((s) => `${x(s)},${CHART_HEIGHT - (value(s) / top) * CHART_HEIGHT}`)
+    .join(" ");
+  const levelChanges = samples.filter(
+    (s, i) => i > 0 && s.level !== samples[i - 1].level,
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-16 bg-window-content rounded border border-window-border"
+      preserveAspectRatio="none"
+    >
+      {levelChanges.map((s) => (
+        <line
+          key={s.tick}
+          x1={x(s)}
+          x2={x(s)}
+          y1={0}
+          y2={CHART_HEIGHT}
+          strokeWidth={1}
+          strokeDasharray="2 2"
+          className="stroke-neutral-600"
+        />
+      ))}
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        className={className}
+      />
+    </svg>
+  );
+};
+
+/** Пометка оценочных показателей (см. ESTIMATED_SESSION_COUNTERS) */
+const ESTIMATE_MARK = "≈";
+const ESTIMATE_HINT =
+  "Estimated from combat log text and HP changes: the server sends no combat events";
+
+interface StatProps {
+  label: string;
+  value: number;
+  counter: keyof SessionCounters;
+}
+
+const Stat: FC<StatProps> = ({ label, value, counter }) => {
+  const estimated = ESTIMATED_SESSION_COUNTERS.has(counter);
+  return (
+    <div
+      className="flex flex-col p-2 rounded border border-window-border"
+      title={estimated ? ESTIMATE_HINT : undefined}
+    >
+      <span className="text-xs text-dock-text-dim">{label}</span>
+      <span className="font-mono">
+        {estimated && ESTIMATE_MARK}
+        {value}
+      </span>
+    </div>
+  );
+};
+
+const KILL_TYPE_NAMES: Partial<Record<EntityType, string>> = {
+  [EntityType.ENEMY_GOBLIN]: "Goblins",
+  [EntityType.ENEMY_ORC]: "Orcs",
+  [EntityType.PLAYER]: "Players",
+  [EntityType.NPC]: "NPCs",
+};
+
+const LEVEL_COLUMNS: {
+  label: string;
+  counter: keyof SessionCounters;
+  value: (c: SessionCounters) => number;
+}[] = [
+  { label: "Ticks", counter: "ticks", value: (c) => c.ticks },
+  { label: "Dealt", counter: "damageDealt", value: (c) => c.damageDealt },
+  { label: "Taken", counter: "damageTaken", value: (c) => c.damageTaken },
+  { label: "Kills", counter: "kills", value: countAllKills },
+  { label: "Gold", counter: "goldEarned", value: (c) => c.goldEarned },
+  { label: "Potions", counter: "potionsUsed", value: (c) => c.potionsUsed },
+  { label: "Walked", counter: "distanceWalked", value: (c) => c.distanceWalked },
+  { label: "Waited", counter: "ticksWaited", value: (c) => c.ticksWaited },
+];
+
+/**
+ * Статистика сессии: итоги, графики HP/выносливости и разбивка по уровням
+ */
+export const StatisticsWindow: FC = () => {
+  const stats = useSessionStats();
+
+  if (!stats) {
+    return (
+      <div className="flex items-center justify-center h-full bg-window-base text-dock-text-dim text-sm">
+        Statistics start after you log in with a character
+      </div>
+    );
+  }
+
+  const levels = Object.keys(stats.levels)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const total = sumSessionCounters(levels.map((level) => stats.levels[level]));
+  const kills = (Object.keys(total.kills) as EntityType[])
+    .map((type) => ({ type, count: total.kills[type] ?? 0 }))
+    .sort((a, b) => b.count - a.count);
+  const maxKills = Math.max(1, ...kills.map((k) => k.count));
+  const samples = stats.samples;
+
+  const handleExport = () => {
+    downloadTextFile(
+      serializeSessionStatsCsv(stats),
+      getSessionStatsFileName(),
+      "text/csv",
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-3 h-full overflow-y-auto bg-window-base text-window-text text-sm">
+      <div className="grid grid-cols-4 gap-2">
+        <Stat label="Damage dealt" value={total.damageDealt} counter="damageDealt" />
+        <Stat label="Damage taken" value={total.damageTaken} counter="damageTaken" />
+        <Stat label="Kills" value={countAllKills(total)} counter="kills" />
+        <Stat label="Gold earned" value={total.goldEarned} counter="goldEarned" />
+        <Stat label="Potions used" value={total.potionsUsed} counter="potionsUsed" />
+        <Stat
+          label="Distance walked"
+          value={total.distanceWalked}
+          counter="distanceWalked"
+        />
+        <Stat label="World ticks" value={total.ticks} counter="ticks" />
+        <Stat label="Ticks waited" value={total.ticksWaited} counter="ticksWaited" />
+      </div>
+      <span className="text-xs text-dock-text-dim">
+        {ESTIMATE_MARK} {ESTIMATE_HINT}
+      </span>
+
+      {samples.length > 1 && (
+        <div className="flex flex-col gap-1">
+          <SeriesChart
+            samples={samples}
+            value={(s) => s.hp}
+            max={(s) => s.maxHp}
+            className="stroke-red-400"
+          />
+          <SeriesChart
+            samples={samples}
+            value={(s) => s.stamina}
+            max={(s) => s.maxStamina}
+            className="stroke-emerald-400"
+          />
+          <div className="flex gap-3 text-xs text-dock-text-dim">
+            <span className="text-red-400">— HP</span>
+            <span className="text-emerald-400">— stamina</span>
+            <span>┆ new level</span>
+            <span className="ml-auto">
+              ticks {samples[0].tick}–{samples[samples.length - 1].tick}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {kills.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <h3 className="font-semibold">Kills by type {ESTIMATE_MARK}</h3>
+          {kills.map(({ type, count }) => (
+            <div key={type} className="flex items-center gap-2 text-xs">
+              <span className="w-16 text-dock-text-dim">
+                {KILL_TYPE_NAMES[type] ?? type}
+              </span>
+              <div className="flex-1 h-2 rounded bg-window-content">
+                <div
+                  className="h-2 rounded bg-red-500/70"
+                  style={{ width: `${(count / maxKills) * 100}%` }}
+                />
+              </div>
+              <span className="w-8 text-right font-mono">{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center">
+          <h3 className="font-semibold">By dungeon level</h3>
+          <button
+            onClick={handleExport}
+            disabled={levels.length === 0}
+            className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs border border-window-border hover:bg-window-button-hover disabled:opacity-50"
+            title="Export the per-level table as CSV"
+          >
+            <Download size={12} />
+            CSV
+          </button>
+        </div>
+        {levels.length === 0 ? (
+          <span className="text-dock-text-dim">No turns yet</span>
+        ) : (
+          <table className="w-full font-mono text-xs text-right">
+            <thead className="text-dock-text-dim">
+              <tr>
+                <th className="text-left font-normal">Level</th>
+                {LEVEL_COLUMNS.map((column) => (
+                  <th key={column.label} className="font-normal">
+                    {ESTIMATED_SESSION_COUNTERS.has(column.counter) &&
+                      ESTIMATE_MARK}
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {levels.map((level) => (
+                <tr key={level}>
+                  <td className="text-left">{level}</td>
+                  {LEVEL_COLUMNS.map((column) => (
+                    <td key={column.label}>
+                      {column.value(stats.levels[level])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
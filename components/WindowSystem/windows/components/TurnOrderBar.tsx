@@ -1,22 +1,24 @@
 import {useEffect, useRef, useState} from "react";
 
+import {
+  useActiveEntityId,
+  useAllEntities,
+  usePlayer,
+} from "../../../../hooks/useGameStore";
 import {ContextMenuData, Entity} from "../../../../types";
 
 interface TurnOrderBarProps {
-  entities: Entity[];
-  activeEntityId: string | null;
-  playerId: string | null;
   onEntityClick?: (entityId: string) => void;
   onContextMenu?: (data: ContextMenuData) => void;
 }
 
 export const TurnOrderBar: React.FC<TurnOrderBarProps> = ({
-  entities,
-  activeEntityId,
-  playerId,
   onEntityClick,
   onContextMenu,
 }) => {
+  const entities = useAllEntities();
+  const activeEntityId = useActiveEntityId();
+  const playerId = usePlayer()?.id ?? null;
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollOffset, setScrollOffset] = useState(0);
 
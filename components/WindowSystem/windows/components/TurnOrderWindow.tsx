@@ -1,24 +1,61 @@
-import {Coins, Heart, Shield, Sword, User, Users, Zap} from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Coins,
+  Eye,
+  Heart,
+  Shield,
+  Sword,
+  User,
+  Users,
+  Zap,
+} from "lucide-react";
 import {FC} from "react";
 
+import {
+  useActiveEntityId,
+  useAllEntities,
+  usePlayer,
+} from "../../../../hooks/useGameStore";
 import {Entity} from "../../../../types";
 
+/**
+ * Управление камерой в режиме наблюдателя (из App)
+ */
+export interface SpectatorControls {
+  /** Сущность, за которой следует камера */
+  followedEntityId: string | null;
+  onFollowEntity: (entityId: string) => void;
+}
+
 interface TurnOrderWindowProps {
-  entities: Entity[];
-  activeEntityId: string | null;
-  playerId: string | null;
+  spectator?: SpectatorControls;
 }
 
-export const TurnOrderWindow: FC<TurnOrderWindowProps> = ({
-  entities,
-  activeEntityId,
-  playerId,
-}) => {
+export const TurnOrderWindow: FC<TurnOrderWindowProps> = ({ spectator }) => {
+  const entities = useAllEntities();
+  const activeEntityId = useActiveEntityId();
+  const playerId = usePlayer()?.id ?? null;
   // Sort entities by nextActionTick to create turn order
   const sortedEntities = [...entities].sort(
     (a, b) => a.nextActionTick - b.nextActionTick,
   );
 
+  const followedEntity = spectator
+    ? sortedEntities.find((e) => e.id === spectator.followedEntityId)
+    : undefined;
+
+  // Cycle the spectator camera through the turn order
+  const cycleFollow = (step: 1 | -1) => {
+    if (!spectator || sortedEntities.length === 0) {
+      return;
+    }
+    const index = followedEntity ? sortedEntities.indexOf(followedEntity) : -1;
+    const next =
+      (index + step + sortedEntities.length) % sortedEntities.length;
+    spectator.onFollowEntity(sortedEntities[next].id);
+  };
+
   const getEntityIcon = (entity: Entity) => {
     if (entity.id === playerId) {
       return <User size={24} className="text-blue-400" />;
@@ -60,11 +97,42 @@ export const TurnOrderWindow: FC<TurnOrderWindowProps> = ({
 
   return (
     <div className="flex flex-col h-full bg-window-base text-window-text">
+      {/* Spectator camera controls */}
+      {spectator && (
+        <div className="flex items-center gap-2 border-b border-window-border p-2 bg-window-content text-sm">
+          <button
+            onClick={() => cycleFollow(-1)}
+            className="p-1 rounded hover:bg-window-button-hover"
+            title="Previous entity"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <div className="flex-1 flex items-center justify-center gap-2 truncate">
+            <Eye size={14} className="text-ui-tab-active-text" />
+            <span className="truncate">
+              {followedEntity ? followedEntity.name : "Free camera"}
+            </span>
+          </div>
+          <button
+            onClick={() => cycleFollow(1)}
+            className="p-1 rounded hover:bg-window-button-hover"
+            title="Next entity"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {sortedEntities.map((entity, index) => (
           <div
             key={entity.id}
+            onClick={
+              spectator ? () => spectator.onFollowEntity(entity.id) : undefined
+            }
             className={`relative bg-window-content border-2 rounded-lg p-4 transition-all ${
+              spectator ? "cursor-pointer" : ""
+            } ${
               entity.id === activeEntityId
                 ? "border-ui-tab-active-text bg-ui-tab-active-bg shadow-lg shadow-cyan-500/20"
                 : entity.id === playerId
@@ -106,6 +174,12 @@ export const TurnOrderWindow: FC<TurnOrderWindowProps> = ({
                   <span className="flex-shrink-0 text-xs px-2 py-0.5 bg-window-content rounded">
                     {entity.label}
                   </span>
+                  {spectator?.followedEntityId === entity.id && (
+                    <Eye
+                      size={14}
+                      className="flex-shrink-0 text-ui-tab-active-text"
+                    />
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2 mb-2">
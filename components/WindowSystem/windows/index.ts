@@ -55,3 +55,25 @@ export {
   QUICK_ACCESS_WINDOW_ID,
   createQuickAccessWindowConfig,
 } from "./QuickAccessWindowConfig";
+
+export {
+  SESSION_WINDOW_ID,
+  createSessionWindowConfig,
+} from "./SessionWindowConfig";
+
+export {
+  NETWORK_WINDOW_ID,
+  createNetworkWindowConfig,
+} from "./NetworkWindowConfig";
+
+export {
+  STATISTICS_WINDOW_ID,
+  createStatisticsWindowConfig,
+} from "./StatisticsWindowConfig";
+
+export {
+  MINIMAP_WINDOW_ID,
+  createMinimapWindowConfig,
+} from "./MinimapWindowConfig";
+
+export { PARTY_WINDOW_ID, createPartyWindowConfig } from "./PartyWindowConfig";
@@ -0,0 +1,903 @@
+import {Entity, EntityType, GameWorld, GridOverlays, Position, RememberedEntity, SpriteRect, Tile, Tileset,} from "../types";
+import {resolveClassColor} from "../utils/cssColor";
+import {
+  EntityAnimationState,
+  getEffectProgress,
+  getLungeOffset,
+  getMovePosition,
+  HitEffect,
+  isEffectRunning,
+} from "../utils/entityAnimations";
+import {getCellKey, groupEntitiesByCell} from "../utils/mapCells";
+import type {CellThreat} from "../utils/threatMap";
+
+import {getCellOverlayFills} from "./gridOverlays";
+import {getTerrainStyle} from "./terrainStyles";
+import {getEntitySprite, getGhostSprite, getTerrainSprite} from "./tileSprites";
+
+/**
+ * Отрисовка карты на canvas
+ *
+ * Повторяет оформление DOM-сетки (GameGrid): те же цвета, символы,
+ * размеры и анимации, но рисуются только клетки в области видимости.
+ * Местность рисуется в отдельный слой, который перестраивается лишь при
+ * изменении карты, зума или области видимости; сущности и выделение
+ * рисуются поверх каждый кадр.
+ *
+ * Координаты — пиксели сетки: клетка (x, y) занимает
+ * [x * cellSize, (x + 1) * cellSize).
+ */
+
+/**
+ * Все, что нужно для кадра
+ */
+export interface CanvasMapScene {
+  world: GameWorld;
+  entities: Entity[];
+  rememberedEntities: RememberedEntity[];
+  zoom: number;
+  cellSize: number;
+  fontFamily: string;
+  /** Тайлсет графического режима (null — ASCII) */
+  tileset: Tileset | null;
+  /** Включенные слои-подсказки */
+  overlays: GridOverlays;
+  /** Угрозы по клеткам (null, если слой угроз выключен) */
+  threatMap: Map<string, CellThreat> | null;
+  hoveredCell: Position | null;
+  selectedTargetEntityId: string | null;
+  selectedTargetPosition: Position | null;
+  pathfindingTarget: Position | null;
+  currentPath: Position[];
+  /** Эффекты сущностей: перемещения, рывки, попадания, угасание */
+  animations: EntityAnimationState;
+  /** Показывать ли перемещение сущности (иначе она сразу на клетке) */
+  animateMove: (entity: Entity) => boolean;
+}
+
+/**
+ * Видимая часть сетки (в пикселях сетки)
+ */
+export interface MapViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Период animate-pulse (мс) */
+const PULSE_PERIOD = 2000;
+
+const GRID_BACKGROUND = "#050608";
+const HOVER_BACKGROUND = "bg-dock-item-hover";
+const CELL_BORDER = {
+  visible: "rgb(64, 64, 64)",
+  explored: "rgb(38, 38, 38)",
+  unexplored: "rgb(10, 10, 10)",
+};
+/** Непрозрачность исследованной, но невидимой клетки (opacity-40) */
+const EXPLORED_OPACITY = 0.4;
+/** Непрозрачность призрака (opacity-40) */
+const GHOST_OPACITY = 0.4;
+/** Шаг штриховки неисследованных клеток (как в GridOverlayLayer) */
+const HATCH_SPACING = 8;
+/** line-height текста по умолчанию */
+const LINE_HEIGHT = 1.5;
+
+const easeOut = (t: number): number => 1 - (1 - t) * (1 - t);
+
+/**
+ * Непрозрачность для animate-pulse: 1 → 0.5 → 1
+ */
+const pulseOpacity = (now: number): number =>
+  0.75 + 0.25 * Math.cos((2 * Math.PI * (now % PULSE_PERIOD)) / PULSE_PERIOD);
+
+/**
+ * Диапазон клеток, попадающих в область видимости (max не включается)
+ */
+export function getVisibleCellRange(
+  viewport: MapViewport,
+  cellSize: number,
+  world: GameWorld,
+): { minX: number; maxX: number; minY: number; maxY: number } {
+  return {
+    minX: Math.max(0, Math.floor(viewport.x / cellSize)),
+    maxX: Math.min(
+      world.width,
+      Math.ceil((viewport.x + viewport.width) / cellSize),
+    ),
+    minY: Math.max(0, Math.floor(viewport.y / cellSize)),
+    maxY: Math.min(
+      world.height,
+      Math.ceil((viewport.y + viewport.height) / cellSize),
+    ),
+  };
+}
+
+/**
+ * Обрезает текст с многоточием, как CSS truncate
+ */
+function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+): string {
+  if (ctx.measureText(text).width <= maxWidth) {
+    return text;
+  }
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * Рисует плашку с текстом (имя, лейбл, счетчик сущностей)
+ */
+function drawBadge(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  left: number,
+  top: number,
+  options: {
+    fontSize: number;
+    paddingX: number;
+    paddingY: number;
+    fontFamily: string;
+    background: string;
+    color: string;
+    bold?: boolean;
+    maxWidth?: number;
+    border?: string;
+  },
+): void {
+  const { fontSize, paddingX, paddingY, fontFamily } = options;
+  ctx.font = `${options.bold ? "bold " : ""}${fontSize}px ${fontFamily}`;
+  const maxTextWidth =
+    options.maxWidth !== undefined
+      ? Math.max(0, options.maxWidth - paddingX * 2)
+      : Infinity;
+  const label = fitText(ctx, text, maxTextWidth);
+  const width = ctx.measureText(label).width + paddingX * 2;
+  const height = fontSize * LINE_HEIGHT + paddingY * 2;
+
+  ctx.fillStyle = options.background;
+  ctx.beginPath();
+  ctx.roundRect(left, top, width, height, 4);
+  ctx.fill();
+  if (options.border) {
+    ctx.strokeStyle = options.border;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+  ctx.fillStyle = options.color;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, left + paddingX, top + height / 2);
+}
+
+/**
+ * Размер плашки с текстом (для выравнивания по правому краю)
+ */
+function measureBadge(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  fontSize: number,
+  paddingX: number,
+  paddingY: number,
+  fontFamily: string,
+  bold = false,
+): { width: number; height: number } {
+  ctx.font = `${bold ? "bold " : ""}${fontSize}px ${fontFamily}`;
+  return {
+    width: ctx.measureText(text).width + paddingX * 2,
+    height: fontSize * LINE_HEIGHT + paddingY * 2,
+  };
+}
+
+/**
+ * Рисует спрайт атласа в прямоугольник (без сглаживания, как пиксель-арт)
+ */
+function drawSprite(
+  ctx: CanvasRenderingContext2D,
+  tileset: Tileset,
+  sprite: SpriteRect,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): void {
+  const smoothing = ctx.imageSmoothingEnabled;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(
+    tileset.image,
+    sprite.x,
+    sprite.y,
+    sprite.w,
+    sprite.h,
+    left,
+    top,
+    width,
+    height,
+  );
+  ctx.imageSmoothingEnabled = smoothing;
+}
+
+/**
+ * Рисует клетку местности
+ * @param background - класс фона вместо фона местности (подсветка)
+ */
+function drawTerrainCell(
+  ctx: CanvasRenderingContext2D,
+  tile: Tile,
+  x: number,
+  y: number,
+  scene: CanvasMapScene,
+  background?: string,
+): void {
+  const { cellSize: size, zoom, fontFamily } = scene;
+  const left = x * size;
+  const top = y * size;
+  const border = Math.max(1, zoom);
+
+  if (!tile.isVisible && !tile.isExplored) {
+    ctx.fillStyle = CELL_BORDER.unexplored;
+    ctx.fillRect(left, top, size, size);
+    ctx.fillStyle = "#000";
+    ctx.fillRect(left + border, top + border, size - border * 2, size - border * 2);
+    return;
+  }
+
+  const terrain = getTerrainStyle(tile);
+  ctx.save();
+  if (!tile.isVisible) {
+    ctx.globalAlpha = EXPLORED_OPACITY;
+    ctx.filter = "grayscale(1)";
+  }
+  ctx.fillStyle = resolveClassColor(background ?? terrain.bg, "backgroundColor");
+  ctx.fillRect(left, top, size, size);
+  ctx.strokeStyle = tile.isVisible ? CELL_BORDER.visible : CELL_BORDER.explored;
+  ctx.lineWidth = border;
+  ctx.strokeRect(
+    left + border / 2,
+    top + border / 2,
+    size - border,
+    size - border,
+  );
+
+  const sprite = scene.tileset && getTerrainSprite(scene.tileset, tile);
+  if (sprite) {
+    const inner = size - border * 2;
+    drawSprite(ctx, scene.tileset, sprite, left + border, top + border, inner, inner);
+    ctx.restore();
+    return;
+  }
+
+  ctx.globalAlpha *= tile.isVisible ? terrain.opacity : terrain.opacity / 2;
+  ctx.fillStyle = resolveClassColor(terrain.color);
+  ctx.font = `${zoom * 32}px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(terrain.symbol, left + size / 2, top + size / 2);
+  ctx.restore();
+}
+
+/**
+ * Рисует слой местности для области видимости
+ */
+export function drawTerrainLayer(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  viewport: MapViewport,
+): void {
+  const { world } = scene;
+  const range = getVisibleCellRange(viewport, scene.cellSize, world);
+
+  ctx.fillStyle = GRID_BACKGROUND;
+  ctx.fillRect(viewport.x, viewport.y, viewport.width, viewport.height);
+
+  for (let y = range.minY; y < range.maxY; y++) {
+    for (let x = range.minX; x < range.maxX; x++) {
+      const tile = world.map[y]?.[x];
+      if (tile) {
+        drawTerrainCell(ctx, tile, x, y, scene);
+      }
+    }
+  }
+}
+
+/**
+ * Слои-подсказки (видимость, угрозы) для клеток в области видимости
+ */
+function drawGridOverlays(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  range: { minX: number; maxX: number; minY: number; maxY: number },
+): void {
+  const { world, overlays, threatMap, cellSize: size } = scene;
+  if (!overlays.visibility && !overlays.threat) {
+    return;
+  }
+  for (let y = range.minY; y < range.maxY; y++) {
+    for (let x = range.minX; x < range.maxX; x++) {
+      const tile = world.map[y]?.[x];
+      if (!tile) {
+        continue;
+      }
+      const fills = getCellOverlayFills(
+        tile,
+        threatMap?.get(getCellKey(x, y)),
+        overlays,
+      );
+      fills.forEach(({ color, hatch }) => {
+        if (hatch) {
+          drawHatch(ctx, x * size, y * size, size, color);
+        } else {
+          ctx.fillStyle = color;
+          ctx.fillRect(x * size, y * size, size, size);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Диагональная штриховка клетки
+ */
+function drawHatch(
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  top: number,
+  size: number,
+  color: string,
+): void {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left, top, size, size);
+  ctx.clip();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let offset = -size; offset < size; offset += HATCH_SPACING) {
+    ctx.moveTo(left + offset, top + size);
+    ctx.lineTo(left + offset + size, top);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Подсветка клетки под курсором и ее координаты
+ */
+function drawHoveredCell(ctx: CanvasRenderingContext2D, scene: CanvasMapScene) {
+  const { hoveredCell, world, cellSize: size, zoom, fontFamily } = scene;
+  const tile = hoveredCell && world.map[hoveredCell.y]?.[hoveredCell.x];
+  if (!hoveredCell || !tile || (!tile.isVisible && !tile.isExplored)) {
+    return;
+  }
+  drawTerrainCell(ctx, tile, hoveredCell.x, hoveredCell.y, scene, HOVER_BACKGROUND);
+
+  if (tile.isVisible) {
+    const border = Math.max(1, zoom);
+    ctx.fillStyle = resolveClassColor("text-gray-600");
+    ctx.font = `${zoom * 8}px ${fontFamily}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.fillText(
+      `${hoveredCell.x},${hoveredCell.y}`,
+      hoveredCell.x * size + border + zoom * 2,
+      hoveredCell.y * size + border + zoom * 2,
+    );
+  }
+}
+
+/**
+ * Рамка вокруг клетки (выбранная позиция, цель pathfinding)
+ * @param outset - насколько рамка выходит за клетку
+ */
+function strokeCellFrame(
+  ctx: CanvasRenderingContext2D,
+  position: Position,
+  cellSize: number,
+  outset: number,
+  width: number,
+  color: string,
+): void {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.beginPath();
+  ctx.roundRect(
+    position.x * cellSize - outset + width / 2,
+    position.y * cellSize - outset + width / 2,
+    cellSize + outset * 2 - width,
+    cellSize + outset * 2 - width,
+    8,
+  );
+  ctx.stroke();
+}
+
+/**
+ * Путь, выбранная позиция и цель pathfinding
+ * @returns true, если нужна анимация
+ */
+function drawTargets(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  entitiesByCell: Map<string, Entity[]>,
+  now: number,
+): boolean {
+  const {
+    world,
+    cellSize: size,
+    zoom,
+    currentPath,
+    pathfindingTarget,
+    selectedTargetPosition,
+    selectedTargetEntityId,
+  } = scene;
+  const isVisible = (pos: Position) => world.map[pos.y]?.[pos.x]?.isVisible;
+  const border = Math.max(1, zoom);
+
+  ctx.fillStyle = resolveClassColor("bg-green-400/20", "backgroundColor");
+  currentPath.forEach((pos) => {
+    const isTarget =
+      pathfindingTarget?.x === pos.x && pathfindingTarget?.y === pos.y;
+    if (!isTarget && isVisible(pos)) {
+      ctx.fillRect(
+        pos.x * size + border,
+        pos.y * size + border,
+        size - border * 2,
+        size - border * 2,
+      );
+    }
+  });
+
+  if (selectedTargetPosition && isVisible(selectedTargetPosition)) {
+    const cellEntities =
+      entitiesByCell.get(
+        getCellKey(selectedTargetPosition.x, selectedTargetPosition.y),
+      ) ?? [];
+    const hasSelectedEntity = cellEntities.some(
+      (e) => e.id === selectedTargetEntityId,
+    );
+    strokeCellFrame(
+      ctx,
+      selectedTargetPosition,
+      size,
+      Math.max(2, zoom * 2),
+      Math.max(1, zoom * 2),
+      resolveClassColor(
+        hasSelectedEntity ? "border-cyan-400" : "border-orange-500",
+        "borderColor",
+      ),
+    );
+  }
+
+  if (pathfindingTarget && isVisible(pathfindingTarget)) {
+    ctx.save();
+    ctx.globalAlpha = pulseOpacity(now);
+    strokeCellFrame(
+      ctx,
+      pathfindingTarget,
+      size,
+      Math.max(3, zoom * 3),
+      Math.max(2, zoom * 3),
+      resolveClassColor("border-green-500", "borderColor"),
+    );
+    ctx.restore();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Счетчик "+N", если в клетке больше двух сущностей
+ */
+function drawCrowdBadge(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  x: number,
+  y: number,
+  count: number,
+): void {
+  const { cellSize: size, zoom, fontFamily } = scene;
+  const border = Math.max(1, zoom);
+  const text = `+${count - 2}`;
+  const badge = measureBadge(ctx, text, zoom * 10, zoom * 3, zoom, fontFamily, true);
+  drawBadge(
+    ctx,
+    text,
+    (x + 1) * size - border - zoom * 2 - badge.width,
+    (y + 1) * size - border - zoom * 2 - badge.height,
+    {
+      fontSize: zoom * 10,
+      paddingX: zoom * 3,
+      paddingY: zoom,
+      fontFamily,
+      background: resolveClassColor("bg-yellow-600", "backgroundColor"),
+      color: "#fff",
+      bold: true,
+    },
+  );
+}
+
+/**
+ * Призраки — тусклые символы (спрайты) на последних известных позициях
+ */
+function drawGhosts(ctx: CanvasRenderingContext2D, scene: CanvasMapScene) {
+  const { rememberedEntities, cellSize: size, zoom, fontFamily, tileset } =
+    scene;
+  if (rememberedEntities.length === 0) {
+    return;
+  }
+  ctx.save();
+  ctx.globalAlpha = GHOST_OPACITY;
+  ctx.filter = "grayscale(1)";
+  ctx.font = `${zoom * 24}px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  const spriteSize = zoom * 24;
+  rememberedEntities.forEach((ghost) => {
+    const sprite = tileset && getGhostSprite(tileset, ghost);
+    if (sprite) {
+      drawSprite(
+        ctx,
+        tileset,
+        sprite,
+        ghost.pos.x * size + (size - spriteSize) / 2,
+        ghost.pos.y * size + (size - spriteSize) / 2,
+        spriteSize,
+        spriteSize,
+      );
+      return;
+    }
+    ctx.fillStyle = resolveClassColor(ghost.color);
+    ctx.fillText(
+      ghost.symbol,
+      ghost.pos.x * size + size / 2,
+      ghost.pos.y * size + size / 2,
+    );
+  });
+  ctx.restore();
+}
+
+/**
+ * Смещение тряски при уроне: 0 → -2 → 2 → 0 пикселей
+ */
+function getShakeOffset(hit: HitEffect, now: number): number {
+  if (!hit.motion || now - hit.start >= hit.flashDuration) {
+    return 0;
+  }
+  const t = (now - hit.start) / hit.flashDuration;
+  if (t < 0.25) {
+    return -8 * t;
+  }
+  if (t < 0.75) {
+    return -2 + 8 * (t - 0.25);
+  }
+  return 2 - 8 * (t - 0.75);
+}
+
+/**
+ * Рисует сущность: символ (спрайт), имя, лейбл и HP для враждебных
+ * @param index - место сущности в клетке (снизу вверх)
+ * @param total - сколько сущностей в клетке
+ * @param cellLeft - левый край клетки (с учетом перемещения)
+ * @param cellTop - верхний край клетки (с учетом перемещения)
+ * @returns true, если нужна анимация (пульсация игрока)
+ */
+function drawEntity(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  entity: Entity,
+  index: number,
+  total: number,
+  cellLeft: number,
+  cellTop: number,
+  now: number,
+): boolean {
+  const { cellSize: size, zoom, fontFamily, tileset } = scene;
+  const isPlayer = entity.type === EntityType.PLAYER;
+  const sprite = tileset && getEntitySprite(tileset, entity);
+  const symbolSize = zoom * 24;
+  const gap = zoom * 2;
+  const hpHeight = zoom * 3;
+  const hasHp = entity.isHostile && Boolean(entity.stats);
+
+  // Позиционирование для двух сущностей в клетке
+  const position =
+    total === 1
+      ? "center"
+      : index === 0
+        ? "top-left"
+        : index === 1
+          ? "bottom-right"
+          : "center";
+
+  const symbolFont = `${isPlayer ? "bold " : ""}${symbolSize}px ${fontFamily}`;
+  ctx.font = symbolFont;
+  const symbolWidth = sprite ? symbolSize : ctx.measureText(entity.symbol).width;
+  const name = measureBadge(ctx, entity.name, zoom * 10, zoom * 4, zoom, fontFamily);
+  const columnWidth =
+    position === "center" ? size : Math.max(symbolWidth, name.width);
+  const columnHeight =
+    symbolSize + gap + name.height + (hasHp ? gap + hpHeight : 0);
+  const padding = Math.max(2, zoom * 2);
+  const columnLeft =
+    position === "bottom-right"
+      ? cellLeft + size - padding - columnWidth
+      : position === "top-left"
+        ? cellLeft + padding
+        : cellLeft;
+  const columnTop =
+    position === "bottom-right"
+      ? cellTop + size - padding - columnHeight
+      : position === "top-left"
+        ? cellTop + padding
+        : cellTop;
+  const centerX = columnLeft + columnWidth / 2;
+
+  // Спрайт или символ сущности
+  ctx.save();
+  if (isPlayer) {
+    ctx.globalAlpha *= pulseOpacity(now);
+  }
+  if (sprite) {
+    drawSprite(
+      ctx,
+      tileset,
+      sprite,
+      centerX - symbolSize / 2,
+      columnTop,
+      symbolSize,
+      symbolSize,
+    );
+  } else {
+    ctx.font = symbolFont;
+    ctx.fillStyle = resolveClassColor(entity.color);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(entity.symbol, centerX, columnTop + symbolSize / 2);
+  }
+  ctx.restore();
+
+  // Имя сущности
+  const nameWidth = Math.min(name.width, columnWidth);
+  const nameTop = columnTop + symbolSize + gap;
+  drawBadge(ctx, entity.name, centerX - nameWidth / 2, nameTop, {
+    fontSize: zoom * 10,
+    paddingX: zoom * 4,
+    paddingY: zoom,
+    fontFamily,
+    background: "rgba(0, 0, 0, 0.7)",
+    color: "#fff",
+    maxWidth: columnWidth,
+  });
+
+  // HP бар для враждебных
+  if (hasHp) {
+    const barTop = nameTop + name.height + gap;
+    ctx.fillStyle = resolveClassColor("bg-window-content", "backgroundColor");
+    ctx.beginPath();
+    ctx.roundRect(columnLeft, barTop, columnWidth, hpHeight, hpHeight / 2);
+    ctx.fill();
+    const ratio = Math.max(0, Math.min(1, entity.stats.hp / entity.stats.maxHp));
+    if (ratio > 0) {
+      ctx.fillStyle = resolveClassColor("bg-log-combat", "backgroundColor");
+      ctx.beginPath();
+      ctx.roundRect(columnLeft, barTop, columnWidth * ratio, hpHeight, hpHeight / 2);
+      ctx.fill();
+    }
+  }
+
+  // Лейбл для враждебных (в углу клетки или блока сущности)
+  if (entity.isHostile && entity.label) {
+    const anchorRight =
+      position === "center" ? cellLeft + size : columnLeft + columnWidth;
+    const anchorTop = position === "center" ? cellTop : columnTop;
+    const label = measureBadge(
+      ctx,
+      entity.label,
+      zoom * 10,
+      zoom * 3,
+      zoom,
+      fontFamily,
+      true,
+    );
+    drawBadge(
+      ctx,
+      entity.label,
+      anchorRight + zoom * 2 - label.width,
+      anchorTop - zoom * 2,
+      {
+        fontSize: zoom * 10,
+        paddingX: zoom * 3,
+        paddingY: zoom,
+        fontFamily,
+        background: resolveClassColor("bg-red-600", "backgroundColor"),
+        color: "#fff",
+        bold: true,
+        border: resolveClassColor("border-red-400", "borderColor"),
+      },
+    );
+  }
+
+  return isPlayer;
+}
+
+/**
+ * Вспышка и всплывающее число урона
+ * @returns true, пока анимация идет
+ */
+function drawDamage(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  hit: HitEffect,
+  cellLeft: number,
+  cellTop: number,
+  now: number,
+): boolean {
+  const { cellSize: size, zoom, fontFamily } = scene;
+  if (!isEffectRunning(hit, now)) {
+    return false;
+  }
+
+  if (now - hit.start < hit.flashDuration) {
+    ctx.save();
+    ctx.globalAlpha =
+      0.6 * (1 - easeOut((now - hit.start) / hit.flashDuration));
+    ctx.fillStyle = resolveClassColor("bg-red-500", "backgroundColor");
+    ctx.beginPath();
+    ctx.roundRect(cellLeft, cellTop, size, size, 4);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Без движения число не всплывает, а только гаснет
+  const progress = easeOut(getEffectProgress(hit, now));
+  const rise = hit.motion ? 40 * progress : 0;
+  ctx.save();
+  ctx.globalAlpha = 1 - progress;
+  ctx.font = `bold ${zoom * 20}px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "bottom";
+  ctx.shadowColor = "black";
+  ctx.shadowBlur = 4;
+  ctx.fillStyle = resolveClassColor("text-red-500");
+  ctx.fillText(
+    `-${hit.damage}`,
+    cellLeft + size / 2,
+    cellTop + size / 2 - rise,
+  );
+  ctx.restore();
+  return true;
+}
+
+/**
+ * Умершие сущности угасают и обесцвечиваются на последней клетке
+ * @returns true, пока идет угасание
+ */
+function drawDyingEntities(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  now: number,
+): boolean {
+  const { world, cellSize: size, animations } = scene;
+  let isAnimating = false;
+  animations.dying.forEach(({ entity, death }) => {
+    if (
+      !isEffectRunning(death, now) ||
+      !world.map[entity.pos.y]?.[entity.pos.x]?.isVisible
+    ) {
+      return;
+    }
+    const progress = getEffectProgress(death, now);
+    ctx.save();
+    ctx.globalAlpha = 1 - progress;
+    ctx.filter = `grayscale(${progress})`;
+    drawEntity(
+      ctx,
+      scene,
+      entity,
+      0,
+      1,
+      entity.pos.x * size,
+      entity.pos.y * size,
+      now,
+    );
+    ctx.restore();
+    isAnimating = true;
+  });
+  return isAnimating;
+}
+
+/**
+ * Рисует все поверх слоя местности: подсветку, путь, выделение,
+ * призраков, сущности и урон
+ * @returns true, если идет анимация и нужен следующий кадр
+ */
+export function drawMapOverlay(
+  ctx: CanvasRenderingContext2D,
+  scene: CanvasMapScene,
+  viewport: MapViewport,
+  now: number,
+): boolean {
+  const { world, cellSize: size } = scene;
+  const range = getVisibleCellRange(viewport, size, world);
+  // Entities near the edge can spill their labels into view
+  const isNearView = (pos: Position) =>
+    pos.x >= range.minX - 1 &&
+    pos.x <= range.maxX &&
+    pos.y >= range.minY - 1 &&
+    pos.y <= range.maxY;
+  const entitiesByCell = groupEntitiesByCell(scene.entities);
+  let isAnimating = false;
+
+  drawHoveredCell(ctx, scene);
+  drawGridOverlays(ctx, scene, range);
+  if (drawTargets(ctx, scene, entitiesByCell, now)) {
+    isAnimating = true;
+  }
+
+  entitiesByCell.forEach((cellEntities) => {
+    const { pos } = cellEntities[0];
+    if (cellEntities.length > 2 && world.map[pos.y]?.[pos.x]?.isVisible) {
+      drawCrowdBadge(ctx, scene, pos.x, pos.y, cellEntities.length);
+    }
+  });
+
+  drawGhosts(ctx, scene);
+
+  entitiesByCell.forEach((cellEntities) => {
+    cellEntities.forEach((entity, index) => {
+      // Only render entities on visible tiles
+      if (!world.map[entity.pos.y]?.[entity.pos.x]?.isVisible) {
+        return;
+      }
+      const effects = scene.animations.effects.get(entity.id);
+      const move =
+        effects?.move && scene.animateMove(entity) ? effects.move : undefined;
+      const shown = move ? getMovePosition(move, now) : entity.pos;
+      if (!isNearView(shown)) {
+        return;
+      }
+      if (move && isEffectRunning(move, now)) {
+        isAnimating = true;
+      }
+
+      const lunge = effects?.lunge;
+      const offset = lunge ? getLungeOffset(lunge, now) : { x: 0, y: 0 };
+      if (lunge && isEffectRunning(lunge, now)) {
+        isAnimating = true;
+      }
+      const hit = effects?.hit;
+      const shake = hit ? getShakeOffset(hit, now) : 0;
+      const cellLeft = (shown.x + offset.x) * size;
+      const cellTop = (shown.y + offset.y) * size;
+      if (
+        drawEntity(
+          ctx,
+          scene,
+          entity,
+          index,
+          cellEntities.length,
+          cellLeft + shake,
+          cellTop,
+          now,
+        )
+      ) {
+        isAnimating = true;
+      }
+      if (hit && drawDamage(ctx, scene, hit, cellLeft, cellTop, now)) {
+        isAnimating = true;
+      }
+    });
+  });
+
+  if (drawDyingEntities(ctx, scene, now)) {
+    isAnimating = true;
+  }
+
+  return isAnimating;
+}
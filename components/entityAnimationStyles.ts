@@ -0,0 +1,150 @@
+import type {CSSProperties} from "react";
+
+import {
+  DeathEffect,
+  HitEffect,
+  LUNGE_DISTANCE,
+  LungeEffect,
+  MoveEffect,
+} from "../utils/entityAnimations";
+
+/**
+ * CSS-анимации эффектов сущностей для DOM-слоев карты
+ *
+ * Каждый эффект — keyframes на отдельной обертке; обертка получает key
+ * с временем начала эффекта, чтобы новый эффект запускал анимацию заново.
+ * Смещения передаются через CSS-переменные в пикселях.
+ */
+
+/** Та же кривая, что easeOut у canvas-карты */
+const EASE_OUT_QUAD = "cubic-bezier(0.5, 1, 0.89, 1)";
+
+export const ENTITY_ANIMATION_KEYFRAMES = `
+  @keyframes damageFlash {
+    0% {
+      opacity: 0.6;
+    }
+    100% {
+      opacity: 0;
+    }
+  }
+
+  @keyframes floatUp {
+    0% {
+      opacity: 1;
+      transform: translateX(-50%) translateY(0);
+    }
+    100% {
+      opacity: 0;
+      transform: translateX(-50%) translateY(-40px);
+    }
+  }
+
+  @keyframes damageFade {
+    0% {
+      opacity: 1;
+    }
+    100% {
+      opacity: 0;
+    }
+  }
+
+  @keyframes shake {
+    0%, 100% {
+      transform: translateX(0);
+    }
+    25% {
+      transform: translateX(-2px);
+    }
+    75% {
+      transform: translateX(2px);
+    }
+  }
+
+  @keyframes entityMove {
+    0% {
+      transform: translate(var(--move-x), var(--move-y));
+    }
+    100% {
+      transform: translate(0, 0);
+    }
+  }
+
+  @keyframes entityLunge {
+    0%, 100% {
+      transform: translate(0, 0);
+    }
+    40% {
+      transform: translate(var(--lunge-x), var(--lunge-y));
+    }
+  }
+
+  @keyframes entityDeath {
+    0% {
+      opacity: 1;
+      filter: grayscale(0);
+    }
+    100% {
+      opacity: 0;
+      filter: grayscale(1);
+    }
+  }
+`;
+
+/**
+ * Перемещение: обертка стартует со старой позиции и приходит на клетку
+ * сущности
+ */
+export function getMoveAnimationStyle(
+  move: MoveEffect,
+  cellSize: number,
+): CSSProperties {
+  return {
+    ["--move-x" as never]: `${(move.from.x - move.to.x) * cellSize}px`,
+    ["--move-y" as never]: `${(move.from.y - move.to.y) * cellSize}px`,
+    animation: `entityMove ${move.duration}ms ${EASE_OUT_QUAD}`,
+  };
+}
+
+/**
+ * Рывок к цели и обратно
+ */
+export function getLungeAnimationStyle(
+  lunge: LungeEffect,
+  cellSize: number,
+): CSSProperties {
+  return {
+    ["--lunge-x" as never]: `${lunge.dx * LUNGE_DISTANCE * cellSize}px`,
+    ["--lunge-y" as never]: `${lunge.dy * LUNGE_DISTANCE * cellSize}px`,
+    animation: `entityLunge ${lunge.duration}ms ease-out`,
+  };
+}
+
+/**
+ * Вспышка поверх клетки при попадании
+ */
+export const getHitFlashStyle = (hit: HitEffect): CSSProperties => ({
+  animation: `damageFlash ${hit.flashDuration}ms ease-out`,
+  opacity: 0,
+});
+
+/**
+ * Число урона: всплывает, а без движения просто гаснет
+ */
+export const getHitNumberStyle = (hit: HitEffect): CSSProperties => ({
+  animation: `${hit.motion ? "floatUp" : "damageFade"} ${hit.duration}ms ease-out forwards`,
+  transform: "translateX(-50%)",
+});
+
+/**
+ * Тряска сущности при попадании
+ */
+export const getHitShakeStyle = (hit: HitEffect): CSSProperties =>
+  hit.motion ? { animation: `shake ${hit.flashDuration}ms ease-in-out` } : {};
+
+/**
+ * Угасание умершей сущности
+ */
+export const getDeathAnimationStyle = (death: DeathEffect): CSSProperties => ({
+  animation: `entityDeath ${death.duration}ms ease-in forwards`,
+});
@@ -0,0 +1,51 @@
+import {GridOverlays, Tile} from "../types";
+import type {CellThreat, ThreatLevel} from "../utils/threatMap";
+
+/**
+ * Оформление слоев-подсказок поверх карты (общее для DOM- и canvas-отрисовки)
+ */
+
+/**
+ * Состояние клетки для слоя видимости
+ */
+export type TileVisibility = "visible" | "remembered" | "unexplored";
+
+/** Заливка клеток слоя видимости; неисследованные штрихуются этим цветом */
+export const VISIBILITY_OVERLAY_COLORS: Record<TileVisibility, string> = {
+  visible: "rgba(34, 211, 238, 0.12)",
+  remembered: "rgba(99, 102, 241, 0.3)",
+  unexplored: "rgba(255, 255, 255, 0.08)",
+};
+
+/** Заливка клеток слоя угроз */
+export const THREAT_OVERLAY_COLORS: Record<ThreatLevel, string> = {
+  attack: "rgba(239, 68, 68, 0.4)",
+  approach: "rgba(249, 115, 22, 0.22)",
+};
+
+export const getTileVisibility = (tile: Tile): TileVisibility =>
+  tile.isVisible ? "visible" : tile.isExplored ? "remembered" : "unexplored";
+
+/**
+ * Заливки клетки снизу вверх для включенных слоев
+ * @param threat - угроза клетке (если включен слой угроз)
+ * @returns цвета и тип заливки ("hatch" — штриховка)
+ */
+export function getCellOverlayFills(
+  tile: Tile,
+  threat: CellThreat | undefined,
+  overlays: GridOverlays,
+): { color: string; hatch: boolean }[] {
+  const fills: { color: string; hatch: boolean }[] = [];
+  const visibility = getTileVisibility(tile);
+  if (overlays.visibility) {
+    fills.push({
+      color: VISIBILITY_OVERLAY_COLORS[visibility],
+      hatch: visibility === "unexplored",
+    });
+  }
+  if (overlays.threat && threat) {
+    fills.push({ color: THREAT_OVERLAY_COLORS[threat.level], hatch: false });
+  }
+  return fills;
+}
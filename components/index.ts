@@ -6,6 +6,7 @@ export { HUD } from "./HUD";
 // Existing component exports
 export { ContextMenu } from "./ContextMenu";
 export { default as GameGrid } from "./GameGrid";
+export { default as CanvasGameGrid } from "./CanvasGameGrid";
 export { default as GameLog } from "./GameLog";
 export { RadialMenu } from "./RadialMenu";
 export { default as StatusPanel } from "./StatusPanel";
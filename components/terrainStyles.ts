@@ -0,0 +1,115 @@
+import {COLORS, SYMBOLS} from "../constants";
+import {RememberedEntity, Tile, TileEnv} from "../types";
+import {formatGhostTooltip} from "../utils/ghostMarkers";
+import {CellThreat, formatThreatTooltip} from "../utils/threatMap";
+
+/**
+ * Оформление клеток карты (общее для DOM- и canvas-отрисовки)
+ */
+
+export interface TerrainStyle {
+  label: string;
+  bg: string;
+  symbol: string;
+  color: string;
+  /** Непрозрачность символа на видимой клетке (на исследованной — вдвое меньше) */
+  opacity: number;
+}
+
+/** Оформление клетки по типу местности */
+const TERRAIN_STYLES: Record<TileEnv, TerrainStyle> = {
+  stone: {
+    label: "Stone",
+    bg: "bg-neutral-900",
+    symbol: SYMBOLS.FLOOR,
+    color: COLORS.WALL,
+    opacity: 0.2,
+  },
+  floor: {
+    label: "Floor",
+    bg: "bg-window-base",
+    symbol: SYMBOLS.FLOOR,
+    color: COLORS.FLOOR,
+    opacity: 0.2,
+  },
+  grass: {
+    label: "Grass",
+    bg: "bg-green-950/40",
+    symbol: SYMBOLS.GRASS,
+    color: COLORS.GRASS,
+    opacity: 0.35,
+  },
+  water: {
+    label: "Water",
+    bg: "bg-blue-900/40",
+    symbol: SYMBOLS.WATER,
+    color: COLORS.WATER,
+    opacity: 0.5,
+  },
+  tree: {
+    label: "Tree",
+    bg: "bg-green-900/40",
+    symbol: SYMBOLS.TREE,
+    color: COLORS.TREE,
+    opacity: 0.6,
+  },
+};
+
+const WALL_STYLE: TerrainStyle = {
+  label: "Wall",
+  bg: "bg-window-content",
+  symbol: SYMBOLS.WALL,
+  color: COLORS.WALL,
+  opacity: 0.2,
+};
+
+/**
+ * Оформление клетки: стена из камня/пола рисуется стеной, остальная
+ * местность (трава, вода, деревья) — своим символом даже если непроходима
+ */
+export const getTerrainStyle = (tile: Tile): TerrainStyle =>
+  tile.isWall && (tile.env === "stone" || tile.env === "floor")
+    ? WALL_STYLE
+    : TERRAIN_STYLES[tile.env];
+
+/**
+ * Рисуется ли клетка стеной
+ */
+export const isWallStyle = (tile: Tile): boolean =>
+  getTerrainStyle(tile) === WALL_STYLE;
+
+/**
+ * Подсказка о местности: только для клеток, отличных от пола и стен
+ */
+const describeTerrain = (tile: Tile): string | null => {
+  const style = getTerrainStyle(tile);
+  if (style === WALL_STYLE) {
+    return null;
+  }
+  if (!tile.isWalkable) {
+    return `${style.label} — impassable`;
+  }
+  if (tile.moveCost !== 1) {
+    return `${style.label} — move cost ×${tile.moveCost}`;
+  }
+  return tile.env === "floor" ? null : style.label;
+};
+
+/**
+ * Подсказка клетки: местность (если клетка известна), призраки на ней
+ * и угроза (если включен слой угроз)
+ * @returns текст подсказки или пустая строка
+ */
+export const getCellTooltip = (
+  tile: Tile,
+  ghosts: RememberedEntity[] | undefined,
+  globalTick: number,
+  threat?: CellThreat,
+): string =>
+  [
+    tile.isVisible || tile.isExplored ? describeTerrain(tile) : null,
+    ghosts ? formatGhostTooltip(ghosts, globalTick) : null,
+    threat ? formatThreatTooltip(threat) : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
@@ -0,0 +1,82 @@
+import type {CSSProperties} from "react";
+
+import {
+  Entity,
+  EntityType,
+  RememberedEntity,
+  SpriteRect,
+  Tile,
+  Tileset,
+} from "../types";
+
+import {isWallStyle} from "./terrainStyles";
+
+/**
+ * Спрайты тайлсета для клеток и сущностей (общие для DOM- и canvas-отрисовки)
+ *
+ * Любая клетка или сущность без спрайта в манифесте рисуется своим
+ * ASCII-символом, поэтому тайлсет может описывать только часть объектов.
+ */
+
+/**
+ * Спрайт местности (стены — "wall", как в getTerrainStyle)
+ */
+export function getTerrainSprite(
+  tileset: Tileset,
+  tile: Tile,
+): SpriteRect | undefined {
+  const {env} = tileset.manifest.sprites;
+  return isWallStyle(tile) ? env.wall : env[tile.env];
+}
+
+/**
+ * Спрайт сущности: тип NPC, затем тип предмета, затем тип сущности
+ */
+export function getEntitySprite(
+  tileset: Tileset,
+  entity: Entity,
+): SpriteRect | undefined {
+  const {sprites} = tileset.manifest;
+  if (entity.type === EntityType.NPC && entity.npcType) {
+    const npc = sprites.npc[entity.npcType];
+    if (npc) {
+      return npc;
+    }
+  }
+  if (entity.type === EntityType.ITEM && entity.itemData) {
+    const item = sprites.item[entity.itemData.type];
+    if (item) {
+      return item;
+    }
+  }
+  return sprites.entity[entity.type];
+}
+
+/**
+ * Спрайт призрака (в памяти хранится только тип сущности)
+ */
+export function getGhostSprite(
+  tileset: Tileset,
+  ghost: RememberedEntity,
+): SpriteRect | undefined {
+  return tileset.manifest.sprites.entity[ghost.type];
+}
+
+/**
+ * CSS для показа спрайта фоном элемента (любого размера, спрайт растягивается)
+ */
+export function getSpriteStyle(
+  tileset: Tileset,
+  sprite: SpriteRect,
+): CSSProperties {
+  const {naturalWidth: width, naturalHeight: height} = tileset.image;
+  const percent = (offset: number, atlas: number, size: number) =>
+    atlas > size ? `${(offset / (atlas - size)) * 100}%` : "0%";
+  return {
+    backgroundImage: `url("${tileset.imageUrl}")`,
+    backgroundPosition: `${percent(sprite.x, width, sprite.w)} ${percent(sprite.y, height, sprite.h)}`,
+    backgroundSize: `${(width / sprite.w) * 100}% ${(height / sprite.h) * 100}%`,
+    backgroundRepeat: "no-repeat",
+    imageRendering: "pixelated",
+  };
+}
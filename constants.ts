@@ -1,3 +1,5 @@
+import type {AnimationSettings, GridOverlays, MapRenderer, TileEnv, TileMode,} from "./types";
+
 export const MAP_WIDTH = 40;
 export const MAP_HEIGHT = 25;
 
@@ -71,6 +73,54 @@ export const TIME_COST = {
   INTERACT: 50,
 };
 
+// Terrain defaults, used when the server does not send walkability or cost
+export const TERRAIN: Record<TileEnv, { isWalkable: boolean; moveCost: number }> = {
+  stone: { isWalkable: true, moveCost: 1 }, // rocky floor unless isWall
+  floor: { isWalkable: true, moveCost: 1 },
+  grass: { isWalkable: true, moveCost: 1 },
+  water: { isWalkable: true, moveCost: 2 },
+  tree: { isWalkable: false, moveCost: 1 },
+};
+
+// Ghost markers: how long a last-seen entity stays on the map (ticks, ~30 moves)
+export const GHOST_MARKER_TTL = 3000;
+
+// Tick history: how many world states the timeline keeps
+export const TICK_HISTORY_SIZE = 200;
+
+// Game log: messages kept in memory, older ones are moved to IndexedDB
+export const LOG_RETENTION_DEFAULT = 1000;
+export const LOG_RETENTION_OPTIONS = [200, 500, 1000, 2000, 5000];
+// Archive in batches so every new message does not hit IndexedDB
+export const LOG_ARCHIVE_BATCH = 100;
+// Archived logs of closed tabs are dropped after a week (ms)
+export const LOG_ARCHIVE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+// Search results shown from the archive
+export const LOG_SEARCH_LIMIT = 500;
+
+// Map renderer: DOM grid by default, canvas is opt-in in the settings
+export const MAP_RENDERER_DEFAULT: MapRenderer = "dom";
+
+// Tileset mode: ASCII glyphs by default, sprites are opt-in in the settings
+export const TILE_MODE_DEFAULT: TileMode = "ascii";
+export const TILESET_MANIFEST_URL = "/assets/tilesets/default/tileset.json";
+
+// Grid overlays: both hint layers are off until toggled on the map
+export const GRID_OVERLAYS_DEFAULT: GridOverlays = {
+  visibility: false,
+  threat: false,
+};
+
+// Entity animations: normal speed; the settings offer these multipliers
+export const ANIMATION_SPEEDS = [0.5, 1, 1.5, 2];
+export const ANIMATION_SETTINGS_DEFAULT: AnimationSettings = {
+  speed: 1,
+  reduceMotion: false,
+};
+
+// Session statistics: HP/stamina samples kept for the charts
+export const SESSION_STATS_SAMPLES = 300;
+
 // Prices
 export const PRICES = {
   POTION: 50,
@@ -5,3 +5,38 @@ export { usePathfinding } from "./usePathfinding";
 export { useCommandSystem } from "./useCommandSystem";
 export { useInputHandling } from "./useInputHandling";
 export { useContextMenuPosition } from "./useContextMenuPosition";
+export { useSessionRecorder } from "./useSessionRecorder";
+export { useReplay, REPLAY_SPEEDS } from "./useReplay";
+export { useCommandTracker } from "./useCommandTracker";
+export { useSessionResume } from "./useSessionResume";
+export { useParty } from "./useParty";
+export { useNetworkDiagnostics } from "./useNetworkDiagnostics";
+export { useTickHistory } from "./useTickHistory";
+export { useEntityAnimations } from "./useEntityAnimations";
+export { useGridInteractions } from "./useGridInteractions";
+export { useTileset } from "./useTileset";
+export {
+  GameStoreContext,
+  useGameStore,
+  useStoreSelector,
+  useGameSelector,
+  usePlayer,
+  useWorld,
+  useEntities,
+  useAllEntities,
+  usePlayerInventory,
+  usePlayerInventoryData,
+  usePlayerEquipment,
+  useActiveEntityId,
+  useDerivedGameState,
+  useGlobalTick,
+  useSpeechBubbles,
+  useRememberedEntities,
+  useEntity,
+  useTile,
+  useLogs,
+  useArchivedLogCount,
+  useSessionStats,
+  useTickSnapshots,
+  useViewedTickSnapshot,
+} from "./useGameStore";
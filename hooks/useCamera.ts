@@ -1,23 +1,30 @@
 import {useCallback, useEffect, useMemo, useRef, useState} from "react";
 
-import {calculateCameraOffset} from "@/utils";
+import {calculateCameraOffset, getCameraViewport} from "@/utils";
 
 import {MAX_ZOOM, MIN_ZOOM, ZOOM_STEP} from "../constants";
-import {Entity, GameWorld, Position} from "../types";
+import {findStoreEntity, GameStore, GameStoreState} from "../services/gameStore";
+import {Position} from "../types";
 
+import {useStoreSelector} from "./useGameStore";
 
 interface UseCameraProps {
-  world: GameWorld | null;
-  player: Entity | null;
-  entityRegistry: Map<string, Entity>;
+  /** Игровые данные: камера подписана только на позицию отслеживаемой сущности */
+  store: GameStore;
   containerRef: React.RefObject<HTMLDivElement>;
   onPanningChange?: (isPanning: boolean) => void;
 }
 
+const selectHasWorld = (state: GameStoreState): boolean => state.world !== null;
+const selectPlayerId = (state: GameStoreState): string | null =>
+  state.player?.id ?? null;
+
+function isSamePosition(a: Position | null, b: Position | null): boolean {
+  return a === b || (!!a && !!b && a.x === b.x && a.y === b.y);
+}
+
 export const useCamera = ({
-  world,
-  player,
-  entityRegistry,
+  store,
   containerRef,
   onPanningChange,
 }: UseCameraProps) => {
@@ -42,8 +49,27 @@ export const useCamera = ({
   const followInitializedRef = useRef(false);
   const containerReadyRef = useRef(false);
   const pendingFollowIdRef = useRef<string | null>(null);
+  // Без игрока (наблюдатель) переключатель возвращается к последней сущности
+  const lastFollowedIdRef = useRef<string | null>(null);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
 
+  // Владелец хука перерисовывается, только когда мир появляется или
+  // пропадает, меняется свой персонаж или двигается отслеживаемая сущность
+  const hasWorld = useStoreSelector(store, selectHasWorld);
+  const playerId = useStoreSelector(store, selectPlayerId);
+  const selectFollowedPosition = useCallback(
+    (state: GameStoreState): Position | null =>
+      followedEntityId
+        ? (findStoreEntity(state, followedEntityId)?.pos ?? null)
+        : null,
+    [followedEntityId],
+  );
+  const followedPosition = useStoreSelector(
+    store,
+    selectFollowedPosition,
+    isSamePosition,
+  );
+
   // Handle mouse wheel for zoom
   const handleWheel = useCallback(
     (e: React.WheelEvent<HTMLDivElement>) => {
@@ -62,13 +88,12 @@ export const useCamera = ({
       if (!zoomStartRef.current) {
         let currentOffset = panOffset;
         if (followedEntityId && containerRef.current) {
-          const followedEntity = entityRegistry.get(followedEntityId);
-          if (followedEntity) {
+          if (followedPosition) {
             const containerWidth = containerRef.current.clientWidth;
             const containerHeight = containerRef.current.clientHeight;
             currentOffset = calculateCameraOffset(
-              followedEntity.pos.x,
-              followedEntity.pos.y,
+              followedPosition.x,
+              followedPosition.y,
               containerWidth,
               containerHeight,
               zoom,
@@ -120,7 +145,7 @@ export const useCamera = ({
         zoomStartRef.current = null;
       }, 150);
     },
-    [followedEntityId, panOffset, zoom, entityRegistry, containerRef],
+    [followedEntityId, followedPosition, panOffset, zoom, containerRef],
   );
 
   // Prevent page zoom when scrolling over game area
@@ -193,14 +218,13 @@ export const useCamera = ({
           onPanningChange?.(true);
 
           let currentOffset = panOffset;
-          if (followedEntityId && world) {
-            const followedEntity = entityRegistry.get(followedEntityId);
-            if (followedEntity && containerRef.current) {
+          if (followedEntityId && hasWorld) {
+            if (followedPosition && containerRef.current) {
               const containerWidth = containerRef.current.clientWidth;
               const containerHeight = containerRef.current.clientHeight;
               currentOffset = calculateCameraOffset(
-                followedEntity.pos.x,
-                followedEntity.pos.y,
+                followedPosition.x,
+                followedPosition.y,
                 containerWidth,
                 containerHeight,
                 zoom,
@@ -288,8 +312,8 @@ export const useCamera = ({
     panStart,
     panOffset,
     followedEntityId,
-    entityRegistry,
-    world,
+    followedPosition,
+    hasWorld,
     zoom,
     containerRef,
     onPanningChange,
@@ -297,32 +321,42 @@ export const useCamera = ({
 
   // Calculate camera offset for following entity
   const cameraOffset = useMemo(() => {
-    if (!followedEntityId || !world || !player || containerSize.width === 0) {
+    if (!followedEntityId || !hasWorld || containerSize.width === 0) {
       return panOffset;
     }
 
-    const followedEntity = entityRegistry.get(followedEntityId);
-    if (!followedEntity) {
+    if (!followedPosition) {
       return panOffset;
     }
 
     return calculateCameraOffset(
-      followedEntity.pos.x,
-      followedEntity.pos.y,
+      followedPosition.x,
+      followedPosition.y,
       containerSize.width,
       containerSize.height,
       zoom,
     );
   }, [
     followedEntityId,
-    world,
-    player,
-    entityRegistry,
+    hasWorld,
+    followedPosition,
     panOffset,
     zoom,
     containerSize,
   ]);
 
+  // Видимая область карты в клетках (для миникарты)
+  const viewport = useMemo(
+    () =>
+      getCameraViewport(
+        cameraOffset,
+        containerSize.width,
+        containerSize.height,
+        zoom,
+      ),
+    [cameraOffset, containerSize, zoom],
+  );
+
   // Handle container resize
   useEffect(() => {
     const handleResize = () => {
@@ -360,18 +394,18 @@ export const useCamera = ({
 
   // Initialize follow on player entity
   useEffect(() => {
-    if (player && !followInitializedRef.current) {
-      pendingFollowIdRef.current = player.id;
+    if (playerId && !followInitializedRef.current) {
+      pendingFollowIdRef.current = playerId;
       followInitializedRef.current = true;
     }
-  }, [player]);
+  }, [playerId]);
 
   // Methods for camera control
   const goToPosition = useCallback(
     (position: Position) => {
       setFollowedEntityId(null);
 
-      if (containerRef.current && world) {
+      if (containerRef.current && hasWorld) {
         const containerWidth = containerRef.current.clientWidth;
         const containerHeight = containerRef.current.clientHeight;
         const offset = calculateCameraOffset(
@@ -384,19 +418,19 @@ export const useCamera = ({
         setPanOffset(offset);
       }
     },
-    [world, zoom, containerRef],
+    [hasWorld, zoom, containerRef],
   );
 
   const goToEntity = useCallback(
     (entityId: string) => {
-      const entity = entityRegistry.get(entityId);
+      const entity = findStoreEntity(store.getState(), entityId);
       if (!entity) {
         return;
       }
 
       setFollowedEntityId(null);
 
-      if (world && containerRef.current) {
+      if (hasWorld && containerRef.current) {
         const offset = calculateCameraOffset(
           entity.pos.x,
           entity.pos.y,
@@ -407,10 +441,13 @@ export const useCamera = ({
         setPanOffset(offset);
       }
     },
-    [entityRegistry, world, zoom, containerRef],
+    [store, hasWorld, zoom, containerRef],
   );
 
   const followEntity = useCallback((entityId: string | null) => {
+    if (entityId) {
+      lastFollowedIdRef.current = entityId;
+    }
     setFollowedEntityId(entityId);
   }, []);
 
@@ -420,14 +457,13 @@ export const useCamera = ({
 
   const toggleFollow = useCallback(() => {
     if (followedEntityId) {
-      if (containerRef.current && world) {
-        const followedEntity = entityRegistry.get(followedEntityId);
-        if (followedEntity) {
+      if (containerRef.current && hasWorld) {
+        if (followedPosition) {
           const containerWidth = containerRef.current.clientWidth;
           const containerHeight = containerRef.current.clientHeight;
           const offset = calculateCameraOffset(
-            followedEntity.pos.x,
-            followedEntity.pos.y,
+            followedPosition.x,
+            followedPosition.y,
             containerWidth,
             containerHeight,
             zoom,
@@ -437,9 +473,9 @@ export const useCamera = ({
       }
       setFollowedEntityId(null);
     } else {
-      setFollowedEntityId(player?.id || null);
+      setFollowedEntityId(playerId || lastFollowedIdRef.current);
     }
-  }, [followedEntityId, player, world, zoom, entityRegistry, containerRef]);
+  }, [followedEntityId, followedPosition, playerId, hasWorld, zoom, containerRef]);
 
   return {
     zoom,
@@ -448,6 +484,7 @@ export const useCamera = ({
     panOffset,
     followedEntityId,
     cameraOffset,
+    viewport,
     handleWheel,
     goToPosition,
     goToEntity,
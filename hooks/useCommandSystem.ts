@@ -17,6 +17,7 @@ import {
   getCommandMetadata,
   LoginPayload,
 } from "../commands";
+import {findStoreEntity, GameStore, GameStoreState} from "../services/gameStore";
 import {
   ClientToServerCommand,
   ClientToServerCustomPayload,
@@ -26,17 +27,31 @@ import {
   ClientToServerTextPayload,
   Entity,
   Item,
+  LogSegment,
   LogType,
   Position,
 } from "../types";
+import {
+  entityRef,
+  formatLogTemplate,
+  itemRef,
+  logText,
+  positionRef,
+} from "../utils/logSegments";
 
 interface UseCommandSystemProps {
-  player: Entity | null;
-  activeEntityId: string | null;
-  entityRegistry: Map<string, Entity>;
-  sendCommand: (command: ClientToServerCommand) => boolean;
+  /** Игровые данные: исполнитель и чей ход читаются в момент команды */
+  store: GameStore;
+  /** Режим наблюдателя: команды, требующие хода, не отправляются */
+  isSpectator?: boolean;
+  /** Просмотр истории: игровые команды не отправляются до возврата в настоящее */
+  isInputLocked?: boolean;
+  /** Все свои сущности (основная и участники группы) */
+  ownedEntityIds?: string[];
+  /** Отправка команды от имени сущности (undefined — управляемая) */
+  sendCommand: (command: ClientToServerCommand, entityId?: string) => boolean;
   addLog: (
-    text: string,
+    text: string | LogSegment[],
     type: LogType,
     commandData?: { action: string; payload?: any },
     position?: Position,
@@ -44,13 +59,38 @@ interface UseCommandSystemProps {
   ) => void;
 }
 
+const EMPTY_OWNED_IDS: string[] = [];
+
+/**
+ * Кто действует сейчас: своя сущность, чей сейчас ход, иначе управляемая
+ */
+function readTurn(state: GameStoreState, ownedEntityIds: string[]) {
+  const { activeEntityId, player } = state;
+  const actorId =
+    activeEntityId && ownedEntityIds.includes(activeEntityId)
+      ? activeEntityId
+      : (player?.id ?? null);
+  const actor: Entity | null = actorId
+    ? (findStoreEntity(state, actorId) ?? player)
+    : player;
+  return { activeEntityId, actorId, actor };
+}
+
 export const useCommandSystem = ({
-  player,
-  activeEntityId,
-  entityRegistry,
+  store,
+  isSpectator = false,
+  isInputLocked = false,
+  ownedEntityIds = EMPTY_OWNED_IDS,
   sendCommand: wsSendCommand,
   addLog,
 }: UseCommandSystemProps) => {
+  // Исполнитель и реестр читаются в момент команды: обработчики не
+  // пересоздаются от каждого обновления сервера
+  const getTurn = useCallback(
+    () => readTurn(store.getState(), ownedEntityIds),
+    [store, ownedEntityIds],
+  );
+
   // Маппинг обработчиков команд с улучшенной типизацией
   const commandHandlers: CommandHandlersMap = useMemo(
     () => ({
@@ -165,15 +205,32 @@ export const useCommandSystem = ({
    * и т.д.
    */
   const sendCommand = useCallback(
-    (action: string, payload?: any, description?: string) => {
+    (action: string, payload?: any, description?: string | LogSegment[]) => {
+      const { activeEntityId, actorId, actor } = getTurn();
+
       // Получаем метаданные команды для проверки доступности
       const metadata = getCommandMetadata(action as CommandAction);
 
+      // Spectators do not own an entity and never get a turn
+      if (isSpectator && metadata && !metadata.availableOutOfTurn) {
+        addLog("Режим наблюдателя — действие недоступно", LogType.INFO);
+        return;
+      }
+
+      // The map shows a past tick, acting on it would be misleading
+      if (isInputLocked && metadata && !metadata.availableOutOfTurn) {
+        addLog(
+          "Просмотр истории — вернитесь в настоящее, чтобы действовать",
+          LogType.INFO,
+        );
+        return;
+      }
+
       // Check if it's player's turn (except for non-gameplay commands)
       if (
         activeEntityId &&
-        player &&
-        activeEntityId !== player.id &&
+        actorId &&
+        activeEntityId !== actorId &&
         metadata &&
         !metadata.availableOutOfTurn
       ) {
@@ -191,8 +248,8 @@ export const useCommandSystem = ({
         return;
       }
 
-      // Отправляем через WebSocket
-      const success = wsSendCommand(command);
+      // Отправляем через WebSocket (соединение сущности, чей ход)
+      const success = wsSendCommand(command, actorId ?? undefined);
       if (!success) {
         return;
       }
@@ -216,73 +273,55 @@ export const useCommandSystem = ({
         }
       }
 
-      // Форматируем сообщение лога с поддержкой шаблонов
-      let logMessage: string;
-
-      if (commandDescription) {
-        logMessage = commandDescription;
-
-        // Замена {targetName} или {target} с кликабельной ссылкой
-        if (payload?.targetId) {
-          const targetEntity = entityRegistry.get(payload.targetId);
-          const targetName = targetEntity
-            ? targetEntity.name
-            : `ID:${payload.targetId}`;
-          const clickableTarget = `<span class="cursor-pointer text-cyan-400 hover:underline" data-entity-id="${payload.targetId}">${targetName}</span>`;
-          logMessage = logMessage
-            .replace(/\{targetName\}/g, clickableTarget)
-            .replace(/\{target\}/g, clickableTarget);
-        }
-
-        // Замена {x} и {y}
-        if (payload?.x !== undefined) {
-          logMessage = logMessage.replace(/\{x\}/g, String(payload.x));
-        }
-        if (payload?.y !== undefined) {
-          logMessage = logMessage.replace(/\{y\}/g, String(payload.y));
-        }
-
-        // Замена {position} с кликабельной ссылкой
-        if (payload?.x !== undefined && payload?.y !== undefined) {
-          const clickablePosition = `<span class="cursor-pointer text-orange-400 hover:underline" data-position-x="${payload.x}" data-position-y="${payload.y}">(${payload.x}, ${payload.y})</span>`;
-          logMessage = logMessage.replace(/\{position\}/g, clickablePosition);
-        }
+      // Форматируем сообщение лога: подстановки шаблона становятся ссылками
+      const targetEntity = payload?.targetId
+        ? findStoreEntity(store.getState(), payload.targetId)
+        : undefined;
+      const targetRef = payload?.targetId
+        ? entityRef(
+          targetEntity ?? { id: payload.targetId, name: `ID:${payload.targetId}` },
+        )
+        : undefined;
+      const hasPosition = payload?.x !== undefined && payload?.y !== undefined;
+      const positionSegment = hasPosition
+        ? positionRef({ x: payload.x, y: payload.y })
+        : undefined;
 
-        // Замена {text} для речевых команд
-        if (payload?.text !== undefined) {
-          logMessage = logMessage.replace(/\{text\}/g, String(payload.text));
-        }
+      let logMessage: LogSegment[];
 
-        // Замена {name} для предметов
-        if (payload?.name !== undefined) {
-          logMessage = logMessage.replace(/\{name\}/g, String(payload.name));
-        }
-      } else if (payload?.targetId) {
-        const targetEntity = entityRegistry.get(payload.targetId);
-        const targetName = targetEntity
-          ? targetEntity.name
-          : `ID:${payload.targetId}`;
-        logMessage = `Вы выполнили ${action} на ${targetName}`;
-      } else if (payload?.x !== undefined && payload?.y !== undefined) {
-        logMessage = `Вы выполнили ${action} на позицию (${payload.x}, ${payload.y})`;
+      if (Array.isArray(commandDescription)) {
+        logMessage = commandDescription;
+      } else if (commandDescription) {
+        logMessage = formatLogTemplate(commandDescription, {
+          targetName: targetRef,
+          target: targetRef,
+          x: payload?.x !== undefined ? String(payload.x) : undefined,
+          y: payload?.y !== undefined ? String(payload.y) : undefined,
+          position: positionSegment,
+          text: payload?.text !== undefined ? String(payload.text) : undefined,
+          name: payload?.name !== undefined ? String(payload.name) : undefined,
+        });
+      } else if (targetRef) {
+        logMessage = logText`Вы выполнили ${action} на ${targetRef}`;
+      } else if (positionSegment) {
+        logMessage = logText`Вы выполнили ${action} на позицию ${positionSegment}`;
       } else {
-        logMessage = `Вы выполнили ${action}`;
+        logMessage = logText`Вы выполнили ${action}`;
       }
 
       // Определяем позицию события для лога
       let logPosition: Position | undefined;
       if (payload?.targetId) {
-        const targetEntity = entityRegistry.get(payload.targetId);
         if (targetEntity) {
           logPosition = { x: targetEntity.pos.x, y: targetEntity.pos.y };
         }
-      } else if (payload?.x !== undefined && payload?.y !== undefined) {
+      } else if (hasPosition) {
         logPosition = { x: payload.x, y: payload.y };
       }
 
       // Позиция игрока в момент команды
-      const playerPosition = player
-        ? { x: player.pos.x, y: player.pos.y }
+      const playerPosition = actor
+        ? { x: actor.pos.x, y: actor.pos.y }
         : undefined;
 
       // Сохраняем полные данные команды для отображения JSON
@@ -295,10 +334,11 @@ export const useCommandSystem = ({
       );
     },
     [
+      store,
       createClientCommand,
-      entityRegistry,
-      player,
-      activeEntityId,
+      getTurn,
+      isSpectator,
+      isInputLocked,
       addLog,
       wsSendCommand,
     ],
@@ -324,18 +364,23 @@ export const useCommandSystem = ({
    */
   const handleUseItem = useCallback(
     (item: Item) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor } = getTurn();
+      if (!actor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      sendCommand("USE", { itemId: item.id }, `использовали ${item.name}`);
+      sendCommand(
+        "USE",
+        { itemId: item.id },
+        logText`использовали ${itemRef(item)}`,
+      );
     },
-    [player, activeEntityId, sendCommand, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   /**
@@ -343,18 +388,23 @@ export const useCommandSystem = ({
    */
   const handleDropItem = useCallback(
     (item: Item) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor } = getTurn();
+      if (!actor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      sendCommand("DROP", { itemId: item.id }, `бросили ${item.name}`);
+      sendCommand(
+        "DROP",
+        { itemId: item.id },
+        logText`бросили ${itemRef(item)}`,
+      );
     },
-    [player, activeEntityId, sendCommand, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   /**
@@ -362,18 +412,23 @@ export const useCommandSystem = ({
    */
   const handlePickupItem = useCallback(
     (item: Item) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor } = getTurn();
+      if (!actor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      sendCommand("PICKUP", { itemId: item.id }, `подобрали ${item.name}`);
+      sendCommand(
+        "PICKUP",
+        { itemId: item.id },
+        logText`подобрали ${itemRef(item)}`,
+      );
     },
-    [player, activeEntityId, sendCommand, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   /**
@@ -381,18 +436,23 @@ export const useCommandSystem = ({
    */
   const handleEquipItem = useCallback(
     (item: Item) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor } = getTurn();
+      if (!actor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      sendCommand("EQUIP", { itemId: item.id }, `надели ${item.name}`);
+      sendCommand(
+        "EQUIP",
+        { itemId: item.id },
+        logText`надели ${itemRef(item)}`,
+      );
     },
-    [player, activeEntityId, sendCommand, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   /**
@@ -400,18 +460,23 @@ export const useCommandSystem = ({
    */
   const handleUnequipItem = useCallback(
     (item: Item) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor } = getTurn();
+      if (!actor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      sendCommand("UNEQUIP", { itemId: item.id }, `сняли ${item.name}`);
+      sendCommand(
+        "UNEQUIP",
+        { itemId: item.id },
+        logText`сняли ${itemRef(item)}`,
+      );
     },
-    [player, activeEntityId, sendCommand, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   /**
@@ -430,21 +495,26 @@ export const useCommandSystem = ({
    */
   const handleMovePlayer = useCallback(
     (x: number, y: number) => {
-      if (!player) {
+      const { activeEntityId, actorId, actor: currentActor } = getTurn();
+      if (!currentActor) {
         return;
       }
 
-      if (activeEntityId && activeEntityId !== player.id) {
+      if (activeEntityId && activeEntityId !== actorId) {
         addLog("Не ваш ход!", LogType.ERROR);
         return;
       }
 
-      const dx = x - player.pos.x;
-      const dy = y - player.pos.y;
+      const dx = x - currentActor.pos.x;
+      const dy = y - currentActor.pos.y;
 
-      sendCommand("MOVE", { dx, dy }, `переместились на (${x}, ${y})`);
+      sendCommand(
+        "MOVE",
+        { dx, dy },
+        logText`переместились на ${positionRef({ x, y })}`,
+      );
     },
-    [player, sendCommand, activeEntityId, addLog],
+    [getTurn, sendCommand, addLog],
   );
 
   return {
@@ -0,0 +1,203 @@
+import {useCallback, useEffect, useRef, useState} from "react";
+
+import {ClientToServerCommand, ClientToServerTrackedCommand, LogType} from "../types";
+import {
+  COMMAND_ACK_TIMEOUT_MS,
+  COMMAND_FEEDBACK_MS,
+  CommandOrigin,
+  createTrackedCommand,
+  matchCommandReply,
+  TrackedCommand,
+  withCommandId,
+} from "../utils/commandTracker";
+import {
+  DecodedServerMessage,
+  isAckMessage,
+  isServerErrorMessage,
+} from "../utils/protocolDecoder";
+
+interface UseCommandTrackerProps {
+  addLog: (text: string, type: LogType) => void;
+}
+
+/**
+ * React Hook для отслеживания ответов на отправленные команды
+ *
+ * Каждой команде присваивается id. Команда остается в списке, пока
+ * сервер не подтвердит ее (удаляется), не отклонит (статус "rejected"
+ * с причиной) или не истечет таймаут (статус "timeout"). Отклоненные и
+ * потерянные команды видны в UI еще COMMAND_FEEDBACK_MS. Ответы
+ * сопоставляются только с командами того соединения, из которого пришли.
+ *
+ * @example
+ * ```typescript
+ * const tracker = useCommandTracker({ addLog });
+ * const tracked = tracker.track(command, { connectionId: null, entityId });
+ * if (!wsSendCommand(tracked)) {
+ *   tracker.cancel(tracked.id);
+ * }
+ * // ... tracker.handleReply(msg, null) в обработчике сообщений
+ * ```
+ */
+export const useCommandTracker = ({ addLog }: UseCommandTrackerProps) => {
+  const [commands, setCommands] = useState<TrackedCommand[]>([]);
+  const commandsRef = useRef<TrackedCommand[]>([]);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // Соединения, в которые сервер уже присылал ACK (null — основное)
+  const acksSupportedRef = useRef(new Set<string | null>());
+  const addLogRef = useRef(addLog);
+
+  useEffect(() => {
+    addLogRef.current = addLog;
+  }, [addLog]);
+
+  // Clear timers on unmount
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const commit = useCallback((next: TrackedCommand[]) => {
+    commandsRef.current = next;
+    setCommands(next);
+  }, []);
+
+  const schedule = useCallback(
+    (id: string, delay: number, fn: () => void) => {
+      const timers = timersRef.current;
+      const previous = timers.get(id);
+      if (previous) {
+        clearTimeout(previous);
+      }
+      timers.set(
+        id,
+        setTimeout(() => {
+          timers.delete(id);
+          fn();
+        }, delay),
+      );
+    },
+    [],
+  );
+
+  /**
+   * Убирает команду из списка
+   *
+   * @param id - id команды
+   */
+  const cancel = useCallback(
+    (id: string) => {
+      const timer = timersRef.current.get(id);
+      if (timer) {
+        clearTimeout(timer);
+        timersRef.current.delete(id);
+      }
+      commit(commandsRef.current.filter((c) => c.id !== id));
+    },
+    [commit],
+  );
+
+  /**
+   * Переводит команду в конечный статус и убирает ее после показа в UI
+   */
+  const settle = useCallback(
+    (id: string, status: TrackedCommand["status"], reason?: string) => {
+      commit(
+        commandsRef.current.map((c) =>
+          c.id === id ? { ...c, status, reason } : c,
+        ),
+      );
+      schedule(id, COMMAND_FEEDBACK_MS, () => cancel(id));
+    },
+    [commit, schedule, cancel],
+  );
+
+  /**
+   * Присваивает команде id и начинает ждать ответа
+   *
+   * @param command - команда для отправки
+   * @param origin - соединение и сущность-исполнитель
+   * @returns команда с полем id
+   */
+  const track = useCallback(
+    (
+      command: ClientToServerCommand,
+      origin: CommandOrigin,
+    ): ClientToServerTrackedCommand => {
+      const tracked = withCommandId(command);
+      commit([...commandsRef.current, createTrackedCommand(tracked, origin)]);
+
+      schedule(tracked.id, COMMAND_ACK_TIMEOUT_MS, () => {
+        addLogRef.current(
+          `No reply to ${tracked.action} in ${COMMAND_ACK_TIMEOUT_MS / 1000}s`,
+          LogType.ERROR,
+        );
+        settle(tracked.id, "timeout");
+      });
+
+      return tracked;
+    },
+    [commit, schedule, settle],
+  );
+
+  /**
+   * Сопоставляет сообщение сервера с ожидающей командой
+   *
+   * @param msg - проверенное сообщение сервера
+   * @param connectionId - соединение, из которого пришло сообщение (null — основное)
+   */
+  const handleReply = useCallback(
+    (msg: DecodedServerMessage, connectionId: string | null) => {
+      // Сервер знает про ACK — дальше сопоставляем только по id
+      if (isAckMessage(msg) || (isServerErrorMessage(msg) && msg.commandId)) {
+        acksSupportedRef.current.add(connectionId);
+      }
+
+      const reply = matchCommandReply(
+        commandsRef.current,
+        msg,
+        connectionId,
+        acksSupportedRef.current.has(connectionId),
+      );
+      if (!reply) {
+        return;
+      }
+
+      const command = commandsRef.current.find(
+        (c) => c.id === reply.commandId,
+      );
+      // Ответ на команду, которая уже истекла или отменена
+      if (!command || command.status !== "pending") {
+        return;
+      }
+
+      if (reply.accepted) {
+        cancel(command.id);
+      } else {
+        settle(command.id, "rejected", reply.reason);
+      }
+    },
+    [cancel, settle],
+  );
+
+  /**
+   * Забывает все команды (при подключении к другому серверу)
+   */
+  const reset = useCallback(() => {
+    timersRef.current.forEach((timer) => clearTimeout(timer));
+    timersRef.current.clear();
+    acksSupportedRef.current.clear();
+    commit([]);
+  }, [commit]);
+
+  return {
+    commands,
+    track,
+    cancel,
+    handleReply,
+    reset,
+  };
+};
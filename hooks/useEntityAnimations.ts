@@ -0,0 +1,46 @@
+import {useEffect, useLayoutEffect, useState, useSyncExternalStore,} from "react";
+
+import {createEntityAnimator} from "../services/entityAnimator";
+import {AnimationSettings, Entity, LogType} from "../types";
+import type {EntityAnimationState} from "../utils/entityAnimations";
+
+import {useLogs, usePlayer} from "./useGameStore";
+
+const COMBAT_LOG_TYPES: readonly LogType[] = [LogType.COMBAT];
+
+/**
+ * Анимации сущностей карты: перемещения, рывки при ударе, попадания и
+ * угасание умерших
+ *
+ * Снимки сущностей и боевые сообщения передаются источнику анимаций до
+ * отрисовки кадра (layout-эффект), поэтому сущность не мелькает на новой
+ * клетке перед началом перемещения.
+ *
+ * @param entities - сущности на карте
+ * @param settings - скорость анимаций и «уменьшить движение»
+ * @returns текущие эффекты (см. utils/entityAnimations)
+ */
+export const useEntityAnimations = (
+  entities: Entity[],
+  settings: AnimationSettings,
+): EntityAnimationState => {
+  const [animator] = useState(() => createEntityAnimator(settings));
+  const combatLogs = useLogs(COMBAT_LOG_TYPES);
+  const viewerId = usePlayer()?.id ?? null;
+
+  useLayoutEffect(() => {
+    animator.setSettings(settings);
+  }, [animator, settings]);
+
+  useLayoutEffect(() => {
+    animator.updateEntities(entities, Date.now());
+  }, [animator, entities]);
+
+  useLayoutEffect(() => {
+    animator.updateLogs(combatLogs, viewerId, Date.now());
+  }, [animator, combatLogs, viewerId]);
+
+  useEffect(() => () => animator.dispose(), [animator]);
+
+  return useSyncExternalStore(animator.subscribe, animator.getState);
+};
@@ -1,80 +1,257 @@
 import {useCallback, useEffect, useMemo, useRef, useState} from "react";
 
-import {Entity, GameState, GameWorld, LogMessage, LogType, Position, SpeechBubble,} from "../types";
+import {LOG_ARCHIVE_BATCH, LOG_RETENTION_DEFAULT} from "../constants";
+import {
+  createGameStore,
+  EMPTY_GAME_STORE_STATE,
+  GameStoreState,
+  selectGameState,
+} from "../services/gameStore";
+import {
+  archiveLogs,
+  clearLogArchive,
+  pruneStaleLogArchives,
+} from "../services/logArchive";
+import {
+  Entity,
+  GameState,
+  GameWorld,
+  LevelMemory,
+  LogMessage,
+  LogSegment,
+  LogType,
+  Position,
+  ServerToClientDelta,
+} from "../types";
+import {
+  createRunStats,
+  createRunSummary,
+  hasStartedNewRun,
+  RunStats,
+  updateRunStats,
+} from "../utils/gameRun";
+import {updateGhostMarkers} from "../utils/ghostMarkers";
+import {
+  loadLevelMemory,
+  rememberLevel,
+  restoreExploredTiles,
+  saveLevelMemory,
+} from "../utils/levelMemory";
+import {splitLogOverflow} from "../utils/logHistory";
+import {hasLogMarkup, parseLogMarkup} from "../utils/logMarkup";
+import {segmentsToText} from "../utils/logSegments";
+import {
+  DecodedServerMessage,
+  isDeltaMessage,
+  isSnapshotMessage,
+} from "../utils/protocolDecoder";
+import {
+  createSessionStats,
+  SessionStats,
+  updateSessionStats,
+} from "../utils/sessionStats";
+import {
+  applyEntityDelta,
+  applyTileDelta,
+  buildWorldFromSnapshot,
+  isNextDeltaSeq,
+  normalizeEntity,
+} from "../utils/worldState";
 
-export const useGameState = () => {
-  // --- React State (For Rendering) ---
-  const [world, setWorld] = useState<GameWorld | null>(null);
-  const worldRef = useRef<GameWorld | null>(null);
+import {useStoreSelector} from "./useGameStore";
+
+interface UseGameStateProps {
+  /** Вызывается, когда клиенту нужен полный снимок (пропуск DELTA) */
+  onResyncRequired?: () => void;
+  /**
+   * Ключ памяти об уровнях для своей сущности (см. getLevelMemoryScope)
+   * @returns null — память не ведется (нет сервера, воспроизведение записи)
+   */
+  resolveLevelMemoryScope?: (myEntityId: string) => string | null;
+  /** Сколько сообщений лога держать в памяти, старые уходят в архив */
+  logRetention?: number;
+}
+
+/** Задержка сохранения памяти об уровнях после изменения мира (мс) */
+const LEVEL_MEMORY_SAVE_DELAY = 1000;
 
-  const [player, setPlayer] = useState<Entity | null>(null);
-  const [entities, setEntities] = useState<Entity[]>([]);
+const selectSummaryState = (state: GameStoreState): GameStoreState | null =>
+  selectGameState(state) === GameState.GAME_OVER ? state : null;
 
-  const [logs, setLogs] = useState<LogMessage[]>(() => {
+export const useGameState = ({
+  onResyncRequired,
+  resolveLevelMemoryScope,
+  logRetention = LOG_RETENTION_DEFAULT,
+}: UseGameStateProps = {}) => {
+  // --- Game Store (components subscribe to their own slices) ---
+  const [store] = useState(() => {
     // Initial build info log
     const buildDate = new Date(__BUILD_TIME__).toLocaleString("ru-RU");
-    return [
-      {
-        id: "build-info",
-        text: `Build: ${__GIT_COMMIT__} (${__GIT_BRANCH__}) от ${buildDate}`,
-        type: LogType.INFO,
-        timestamp: Date.now(),
-      },
-    ];
+    return createGameStore({
+      logs: [
+        {
+          id: "build-info",
+          text: `Build: ${__GIT_COMMIT__} (${__GIT_BRANCH__}) от ${buildDate}`,
+          type: LogType.INFO,
+          timestamp: Date.now(),
+        },
+      ],
+    });
   });
+  const worldRef = useRef<GameWorld | null>(null);
+
+  // Владелец хука подписан только на состояние игры: мир, сущности и
+  // лог читают компоненты через селекторы (см. hooks/useGameStore)
+  const gameState = useStoreSelector(store, selectGameState);
+
+  // Delta tracking: все сущности (включая игрока), id игрока и номер seq
+  const allEntitiesRef = useRef<Entity[]>([]);
+  const myEntityIdRef = useRef<string | null>(null);
+  const lastSeqRef = useRef<number | null>(null);
+  const resyncRequestedRef = useRef(false);
+  const onResyncRequiredRef = useRef(onResyncRequired);
 
-  const [gameState] = useState<GameState>(GameState.EXPLORATION);
-  const [activeEntityId, setActiveEntityId] = useState<string | null>(null);
-  const [speechBubbles, setSpeechBubbles] = useState<SpeechBubble[]>([]);
+  // Level memory: explored tiles and last-seen entities per level
+  const levelMemoriesRef = useRef(new Map<number, LevelMemory>());
+  const levelMemoryScopeRef = useRef<string | null>(null);
+  const resolveLevelMemoryScopeRef = useRef(resolveLevelMemoryScope);
+
+  const logRetentionRef = useRef(logRetention);
+  // Log archive writes: one at a time; a failure is reported once
+  const isArchivingRef = useRef(false);
+  const archiveFailedRef = useRef(false);
+  // Bumped on reset: a write that finishes later must not touch new logs
+  const archiveGenerationRef = useRef(0);
+
+  // Ghost markers: last known positions of entities that left the view
+  const ghostsRef = useRef(EMPTY_GAME_STORE_STATE.rememberedEntities);
+  const ghostsSinceRef = useRef(0);
+
+  // Run statistics for the game-over summary
+  const [runStats, setRunStats] = useState<RunStats | null>(null);
+  const runStatsRef = useRef<RunStats | null>(null);
+  // Statistics of every owned entity: switching party control keeps them
+  const runStatsByEntityRef = useRef(new Map<string, RunStats>());
+  const sessionStatsByEntityRef = useRef(new Map<string, SessionStats>());
 
-  // Keep worldRef in sync with latest world
   useEffect(() => {
-    worldRef.current = world;
-  }, [world]);
-
-  // Единый регистр всех сущностей (включая игрока)
-  const entityRegistry = useMemo(() => {
-    const registry = new Map<string, Entity>();
-    if (player) {
-      registry.set(player.id, player);
-    }
-    entities.forEach((entity) => {
-      registry.set(entity.id, entity);
-    });
-    return registry;
-  }, [player, entities]);
+    onResyncRequiredRef.current = onResyncRequired;
+  }, [onResyncRequired]);
+
+  useEffect(() => {
+    resolveLevelMemoryScopeRef.current = resolveLevelMemoryScope;
+  }, [resolveLevelMemoryScope]);
+
+  useEffect(() => {
+    logRetentionRef.current = logRetention;
+  }, [logRetention]);
 
-  // Ref для доступа к текущему entityRegistry без создания зависимости
-  const entityRegistryRef = useRef(entityRegistry);
+  // Архив лога относится к текущей сессии: записи закрытых вкладок
+  // больше никто не прочитает
   useEffect(() => {
-    entityRegistryRef.current = entityRegistry;
-  }, [entityRegistry]);
+    pruneStaleLogArchives();
+  }, []);
+
+  // Данные для итогов забега нужны только после гибели: пока персонаж
+  // жив, обновления не перерисовывают владельца хука
+  const summaryState = useStoreSelector(store, selectSummaryState);
+
+  // Итоги забега, пока персонаж мертв
+  const runSummary = useMemo(
+    () =>
+      summaryState?.player && runStats
+        ? createRunSummary(
+          runStats,
+          summaryState.player,
+          summaryState.entities,
+          summaryState.world,
+          summaryState.logs,
+        )
+        : null,
+    [summaryState, runStats],
+  );
 
   /**
    * Добавляет лог с поддержкой речевых пузырей
+   *
+   * @param message - текст или сегменты со ссылками (см. utils/logSegments);
+   * разметка в тексте разбирается по белому списку (см. utils/logMarkup)
+   * @returns добавленное сообщение
    */
   const addLog = useCallback(
     (
-      text: string,
+      message: string | LogSegment[],
       type: LogType = LogType.INFO,
       commandData?: { action: string; payload?: any },
       position?: Position,
       playerPosition?: Position,
-    ) => {
+    ): LogMessage => {
       const logId = `log-${Date.now()}-${Math.random()}`;
+      let segments: LogSegment[] | undefined;
+      if (typeof message !== "string") {
+        segments = message;
+      } else if (hasLogMarkup(message)) {
+        segments = parseLogMarkup(message);
+      }
+      const text = segments ? segmentsToText(segments) : (message as string);
+      const log: LogMessage = {
+        id: logId,
+        text,
+        segments,
+        type,
+        timestamp: Date.now(),
+        commandData,
+        position,
+        playerPosition,
+      };
 
-      setLogs((prev) => [
-        ...prev,
-        {
-          id: logId,
-          text,
-          type,
-          timestamp: Date.now(),
-          commandData,
-          position,
-          playerPosition,
-        },
-      ]);
+      store.setState((state) => ({ logs: [...state.logs, log] }));
+
+      // Older messages leave memory once the archive has them
+      const overflow = isArchivingRef.current
+        ? null
+        : splitLogOverflow(
+          store.getState().logs,
+          logRetentionRef.current,
+          LOG_ARCHIVE_BATCH,
+        );
+      if (overflow) {
+        isArchivingRef.current = true;
+        const generation = archiveGenerationRef.current;
+        const archivedIds = new Set(overflow.archived.map((log) => log.id));
+        archiveLogs(overflow.archived)
+          .then(() => {
+            archiveFailedRef.current = false;
+            if (generation !== archiveGenerationRef.current) {
+              return;
+            }
+            store.setState((state) => ({
+              logs: state.logs.filter((log) => !archivedIds.has(log.id)),
+              archivedLogCount:
+                state.archivedLogCount + overflow.archived.length,
+            }));
+          })
+          .catch((error) => {
+            console.warn("[useGameState] Failed to archive logs:", error);
+            if (!archiveFailedRef.current) {
+              archiveFailedRef.current = true;
+              store.setState((state) => ({
+                logs: [
+                  ...state.logs,
+                  {
+                    id: `log-${Date.now()}-${Math.random()}`,
+                    text: "Log archive is unavailable: older messages stay in memory",
+                    type: LogType.ERROR,
+                    timestamp: Date.now(),
+                  },
+                ],
+              }));
+            }
+          })
+          .finally(() => {
+            isArchivingRef.current = false;
+          });
+      }
 
       // Create speech bubble for SPEECH type messages
       if (type === LogType.SPEECH) {
@@ -84,150 +261,425 @@ export const useGameState = () => {
           const speakerName = match[1].trim();
           const speechText = match[2].trim();
 
-          // Find entity by name using ref to avoid dependency cycle
-          const speaker = [...entityRegistryRef.current.values()].find(
+          // Find entity by name in the latest store state
+          const { player, entities } = store.getState();
+          const speaker = [...(player ? [player] : []), ...entities].find(
             (e) => e.name === speakerName,
           );
 
           if (speaker) {
             const bubbleId = `bubble-${Date.now()}-${Math.random()}`;
-            setSpeechBubbles((prev) => [
-              ...prev,
-              {
-                id: bubbleId,
-                entityId: speaker.id,
-                text: speechText,
-                timestamp: Date.now(),
-              },
-            ]);
+            store.setState((state) => ({
+              speechBubbles: [
+                ...state.speechBubbles,
+                {
+                  id: bubbleId,
+                  entityId: speaker.id,
+                  text: speechText,
+                  timestamp: Date.now(),
+                },
+              ],
+            }));
 
             // Remove speech bubble after 5 seconds
             setTimeout(() => {
-              setSpeechBubbles((prev) => prev.filter((b) => b.id !== bubbleId));
+              store.setState((state) => ({
+                speechBubbles: state.speechBubbles.filter(
+                  (b) => b.id !== bubbleId,
+                ),
+              }));
             }, 5000);
           }
         }
       }
+      return log;
+    },
+    [store],
+  );
+
+  /**
+   * Публикует полный список сущностей, разделяя игрока и остальных
+   */
+  const commitEntities = useCallback((all: Entity[]) => {
+    allEntitiesRef.current = all;
+
+    const myEntityId = myEntityIdRef.current;
+    if (!myEntityId) {
+      store.setState({ entities: all });
+      return;
+    }
+
+    const playerEntity = all.find((e) => e.id === myEntityId);
+    if (playerEntity) {
+      store.setState({ player: playerEntity });
+    } else {
+      console.warn(
+        "[useGameState] Player entity not found for myEntityId:",
+        myEntityId,
+      );
+    }
+    store.setState({ entities: all.filter((e) => e.id !== myEntityId) });
+  }, [store]);
+
+  /**
+   * Обновляет призраки после изменения мира или сущностей
+   *
+   * @param previousWorld - мир до изменения
+   * @param previousEntities - сущности до изменения
+   */
+  const refreshGhosts = useCallback(
+    (previousWorld: GameWorld | null, previousEntities: Entity[]) => {
+      const currentWorld = worldRef.current;
+      if (!currentWorld) {
+        return;
+      }
+      const next = updateGhostMarkers({
+        ghosts: ghostsRef.current,
+        previousWorld,
+        previousEntities,
+        world: currentWorld,
+        entities: allEntitiesRef.current,
+        myEntityId: myEntityIdRef.current,
+        since: ghostsSinceRef.current,
+      });
+      if (next !== ghostsRef.current) {
+        ghostsRef.current = next;
+        store.setState({ rememberedEntities: next });
+      }
+    },
+    [store],
+  );
+
+  /**
+   * Обновляет статистику забега после изменения мира или сущностей
+   *
+   * Статистика ведется для каждой своей сущности отдельно (переключение
+   * управления в группе ее не сбрасывает) и начинается заново с новым
+   * забегом сущности.
+   *
+   * @param previousWorld - мир до изменения
+   * @param previousEntities - сущности до изменения
+   * @param logs - сообщения, пришедшие с изменением
+   */
+  const refreshRunStats = useCallback(
+    (
+      previousWorld: GameWorld | null,
+      previousEntities: Entity[],
+      logs: LogMessage[],
+    ) => {
+      const myEntityId = myEntityIdRef.current;
+      const currentWorld = worldRef.current;
+      if (!myEntityId || !currentWorld) {
+        return;
+      }
+      const stored = runStatsByEntityRef.current.get(myEntityId);
+      const current =
+        stored &&
+        !hasStartedNewRun(previousEntities, allEntitiesRef.current, myEntityId)
+          ? stored
+          : createRunStats(myEntityId, currentWorld.globalTick);
+      const next = updateRunStats(
+        current,
+        previousWorld,
+        previousEntities,
+        currentWorld,
+        allEntitiesRef.current,
+        logs,
+      );
+      runStatsByEntityRef.current.set(myEntityId, next);
+      if (next !== runStatsRef.current) {
+        runStatsRef.current = next;
+        setRunStats(next);
+      }
     },
     [],
   );
 
+  /**
+   * Обновляет статистику сессии после изменения мира или сущностей
+   *
+   * Ведется, как и статистика забега, для каждой своей сущности отдельно
+   * и начинается заново с новым забегом.
+   *
+   * @param previousWorld - мир до изменения
+   * @param previousEntities - сущности до изменения
+   * @param logs - сообщения, пришедшие с изменением
+   */
+  const refreshSessionStats = useCallback(
+    (
+      previousWorld: GameWorld | null,
+      previousEntities: Entity[],
+      logs: LogMessage[],
+    ) => {
+      const myEntityId = myEntityIdRef.current;
+      const currentWorld = worldRef.current;
+      if (!myEntityId || !currentWorld) {
+        return;
+      }
+      const stored = sessionStatsByEntityRef.current.get(myEntityId);
+      const current =
+        stored &&
+        !hasStartedNewRun(previousEntities, allEntitiesRef.current, myEntityId)
+          ? stored
+          : createSessionStats(myEntityId);
+      const next = updateSessionStats(
+        current,
+        previousWorld,
+        previousEntities,
+        currentWorld,
+        allEntitiesRef.current,
+        logs,
+      );
+      sessionStatsByEntityRef.current.set(myEntityId, next);
+      store.setState({ sessionStats: next });
+    },
+    [store],
+  );
+
+  /**
+   * Применяет инкрементальное обновление к текущему миру
+   *
+   * @returns false если обновление нельзя применить (пропуск seq)
+   */
+  const applyDelta = useCallback(
+    (msg: ServerToClientDelta): boolean => {
+      const currentWorld = worldRef.current;
+      if (!currentWorld || !isNextDeltaSeq(lastSeqRef.current, msg.seq)) {
+        return false;
+      }
+      lastSeqRef.current = msg.seq;
+      const previousEntities = allEntitiesRef.current;
+
+      const nextWorld =
+        Array.isArray(msg.tiles) && msg.tiles.length > 0
+          ? applyTileDelta(currentWorld, msg.tiles, msg.tick)
+          : { ...currentWorld, globalTick: msg.tick };
+      store.setState({ world: nextWorld });
+      worldRef.current = nextWorld;
+
+      if (msg.entities) {
+        commitEntities(
+          applyEntityDelta(allEntitiesRef.current, msg.entities),
+        );
+      }
+
+      if (msg.activeEntityId !== undefined) {
+        store.setState({ activeEntityId: msg.activeEntityId });
+      }
+
+      refreshGhosts(currentWorld, previousEntities);
+      return true;
+    },
+    [store, commitEntities, refreshGhosts],
+  );
+
+  /**
+   * Запоминает текущий уровень (тайлы и видимые сущности)
+   *
+   * @returns память о текущем уровне или null, если память не ведется
+   */
+  const rememberCurrentLevel = useCallback((): LevelMemory | null => {
+    const currentWorld = worldRef.current;
+    if (!currentWorld || !levelMemoryScopeRef.current) {
+      return null;
+    }
+    const memory = rememberLevel(
+      currentWorld,
+      allEntitiesRef.current,
+      myEntityIdRef.current,
+      levelMemoriesRef.current.get(currentWorld.level),
+    );
+    levelMemoriesRef.current.set(currentWorld.level, memory);
+    return memory;
+  }, []);
+
+  /**
+   * Запоминает текущий уровень и сохраняет память в localStorage
+   */
+  const saveCurrentLevelMemory = useCallback(() => {
+    const memory = rememberCurrentLevel();
+    if (memory && levelMemoryScopeRef.current) {
+      saveLevelMemory(levelMemoryScopeRef.current, levelMemoriesRef.current);
+    }
+  }, [rememberCurrentLevel]);
+
+  /**
+   * Переключает память об уровнях на текущие сервер + персонажа
+   */
+  const syncLevelMemoryScope = useCallback(() => {
+    const myEntityId = myEntityIdRef.current;
+    const scope = myEntityId
+      ? (resolveLevelMemoryScopeRef.current?.(myEntityId) ?? null)
+      : null;
+    if (scope === levelMemoryScopeRef.current) {
+      return;
+    }
+    saveCurrentLevelMemory();
+    levelMemoryScopeRef.current = scope;
+    levelMemoriesRef.current = scope ? loadLevelMemory(scope) : new Map();
+  }, [saveCurrentLevelMemory]);
+
+  // Persist level memory shortly after the world stops changing
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let { world, entities } = store.getState();
+    const unsubscribe = store.subscribe(() => {
+      const state = store.getState();
+      if (state.world === world && state.entities === entities) {
+        return;
+      }
+      ({ world, entities } = state);
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+      if (world) {
+        timeout = setTimeout(saveCurrentLevelMemory, LEVEL_MEMORY_SAVE_DELAY);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+    };
+  }, [store, saveCurrentLevelMemory]);
+
+  /**
+   * Сбрасывает состояние сессии (мир, сущности, лог)
+   *
+   * Используется при перемотке записи сессии: состояние строится
+   * заново повторной подачей сообщений.
+   */
+  const resetGameState = useCallback(() => {
+    saveCurrentLevelMemory();
+    levelMemoryScopeRef.current = null;
+    levelMemoriesRef.current = new Map();
+
+    worldRef.current = null;
+    allEntitiesRef.current = [];
+    myEntityIdRef.current = null;
+    lastSeqRef.current = null;
+    resyncRequestedRef.current = false;
+
+    ghostsRef.current = [];
+    store.setState(EMPTY_GAME_STORE_STATE);
+    archiveGenerationRef.current += 1;
+    clearLogArchive();
+    runStatsRef.current = null;
+    runStatsByEntityRef.current.clear();
+    sessionStatsByEntityRef.current.clear();
+    setRunStats(null);
+  }, [store, saveCurrentLevelMemory]);
+
+  /**
+   * Запрашивает полный снимок и до его прихода игнорирует DELTA
+   *
+   * Используется при смене соединения, из которого строится мир:
+   * номера seq у разных соединений не связаны.
+   */
+  const requestResync = useCallback(() => {
+    resyncRequestedRef.current = true;
+    onResyncRequiredRef.current?.();
+  }, []);
+
   /**
    * Обрабатывает сообщения от сервера
    */
   const handleServerMessage = useCallback(
-    (msg: any) => {
-      // Handle INIT/UPDATE payloads from server
-      if (msg?.type === "INIT" || msg?.type === "UPDATE") {
+    (msg: DecodedServerMessage) => {
+      const previousWorld = worldRef.current;
+      const previousEntities = allEntitiesRef.current;
+
+      // Handle INIT/UPDATE payloads from server (full snapshot)
+      if (isSnapshotMessage(msg)) {
+        lastSeqRef.current = typeof msg.seq === "number" ? msg.seq : null;
+        resyncRequestedRef.current = false;
+
+        if (msg.myEntityId) {
+          myEntityIdRef.current = msg.myEntityId;
+        }
+        syncLevelMemoryScope();
+
         // Update world from grid and map
         if (msg.grid && Array.isArray(msg.map)) {
-          const newWorld: GameWorld = {
-            width: msg.grid.w,
-            height: msg.grid.h,
-            level: worldRef.current?.level ?? 1,
-            globalTick: msg.tick ?? 0,
-            map: [],
-          };
-
-          // Initialize empty map
-          for (let y = 0; y < newWorld.height; y++) {
-            newWorld.map[y] = [];
-            for (let x = 0; x < newWorld.width; x++) {
-              newWorld.map[y][x] = {
-                x,
-                y,
-                isWall: true,
-                env: "stone",
-                isVisible: false,
-                isExplored: false,
-              };
-            }
+          // Без поля level уровень считается прежним
+          const previousLevel = worldRef.current?.level;
+          const level = msg.level ?? previousLevel ?? 1;
+          if (previousLevel !== undefined && level !== previousLevel) {
+            saveCurrentLevelMemory();
+          } else {
+            rememberCurrentLevel();
           }
 
-          // Update tiles from server
-          msg.map.forEach((tileView: any) => {
-            if (
-              tileView.y >= 0 &&
-              tileView.y < newWorld.height &&
-              tileView.x >= 0 &&
-              tileView.x < newWorld.width
-            ) {
-              newWorld.map[tileView.y][tileView.x] = {
-                x: tileView.x,
-                y: tileView.y,
-                isWall: tileView.isWall ?? false,
-                env: tileView.isWall ? "stone" : "floor",
-                isVisible: tileView.isVisible ?? false,
-                isExplored: tileView.isExplored ?? false,
-              };
+          let newWorld = buildWorldFromSnapshot(
+            msg.grid,
+            msg.map,
+            level,
+            msg.tick ?? 0,
+          );
+
+          // Restore tiles explored earlier (e.g. when coming back via stairs)
+          const memory = levelMemoriesRef.current.get(level);
+          if (memory) {
+            const restored = restoreExploredTiles(newWorld, memory);
+            if (restored) {
+              newWorld = restored;
+            } else {
+              levelMemoriesRef.current.delete(level);
             }
-          });
+          }
 
-          setWorld(newWorld);
+          store.setState({ world: newWorld });
           worldRef.current = newWorld;
+
+          // New level: start from the entities remembered there
+          if (level !== previousLevel) {
+            ghostsRef.current =
+              levelMemoriesRef.current.get(level)?.entities ?? [];
+            ghostsSinceRef.current = newWorld.globalTick;
+          }
         }
 
         // Handle entities
         if (Array.isArray(msg.entities)) {
-          const normalizedEntities = msg.entities.map((entity: any) => {
-            const normalized: any = {
-              id: entity.id,
-              type: entity.type,
-              name: entity.name,
-              pos: entity.pos,
-              symbol: entity.render?.symbol ?? "?",
-              color: entity.render?.color ?? "#ffffff",
-              label: entity.render?.label ?? "",
-              inventory: entity.inventory?.items || [],
-              inventoryData: entity.inventory || null,
-              equipment: entity.equipment || null,
-              isHostile: entity.type !== "PLAYER" && entity.type !== "NPC",
-              isDead: entity.stats?.isDead ?? false,
-              nextActionTick: 0,
-              stats: {
-                hp: entity.stats?.hp ?? 0,
-                maxHp: entity.stats?.maxHp ?? 0,
-                stamina: entity.stats?.stamina ?? 0,
-                maxStamina: entity.stats?.maxStamina ?? 0,
-                strength: entity.stats?.strength ?? 0,
-                gold: entity.stats?.gold ?? 0,
-              },
-            };
-            return normalized;
-          });
-
-          // Find player entity by myEntityId
-          if (msg.myEntityId) {
-            const playerEntity = normalizedEntities.find(
-              (e: any) => e.id === msg.myEntityId,
-            );
-            if (playerEntity) {
-              setPlayer(playerEntity);
-            } else {
-              console.warn(
-                "[useGameState] Player entity not found for myEntityId:",
-                msg.myEntityId,
-              );
-            }
-
-            // Set other entities (excluding player)
-            const otherEntities = normalizedEntities.filter(
-              (e: any) => e.id !== msg.myEntityId,
-            );
-            setEntities(otherEntities);
-          } else {
-            setEntities(normalizedEntities);
-          }
+          commitEntities(msg.entities.map(normalizeEntity));
         }
 
         // Update active entity
         if (msg.activeEntityId !== undefined) {
-          setActiveEntityId(msg.activeEntityId);
+          store.setState({ activeEntityId: msg.activeEntityId });
         }
+
+        refreshGhosts(previousWorld, previousEntities);
+      }
+
+      // Handle incremental DELTA payloads, fall back to a snapshot on a gap.
+      // A refused delta is dropped whole: the snapshot repeats its logs too.
+      if (isDeltaMessage(msg)) {
+        if (resyncRequestedRef.current) {
+          return;
+        }
+        if (!applyDelta(msg)) {
+          resyncRequestedRef.current = true;
+          console.warn(
+            "[useGameState] Delta sequence gap, requesting snapshot:",
+            lastSeqRef.current,
+            "->",
+            msg.seq,
+          );
+          onResyncRequiredRef.current?.();
+          return;
+        }
+      }
+
+      if (!isSnapshotMessage(msg) && !isDeltaMessage(msg)) {
+        return;
       }
 
       // Process logs array from server
-      if (Array.isArray(msg?.logs)) {
+      const added: LogMessage[] = [];
+      if (Array.isArray(msg.logs)) {
         const typeMap: Record<string, LogType> = {
           INFO: LogType.INFO,
           ERROR: LogType.ERROR,
@@ -237,41 +689,41 @@ export const useGameState = () => {
           SPEECH: LogType.SPEECH,
         };
 
-        msg.logs.forEach((entry: any) => {
-          if (
-            entry &&
-            typeof entry === "object" &&
-            typeof entry.text === "string"
-          ) {
-            const t = typeMap[entry.type] ?? LogType.INFO;
-            addLog(entry.text, t);
-          } else if (typeof entry === "string") {
-            addLog(entry, LogType.INFO);
+        msg.logs.forEach((entry) => {
+          // Entries are validated by the decoder: string or { text, type? }
+          if (typeof entry === "string") {
+            added.push(addLog(entry, LogType.INFO));
+          } else {
+            added.push(addLog(entry.text, typeMap[entry.type] ?? LogType.INFO));
           }
         });
       }
+
+      // Damage and kills come from the combat logs of the same update
+      refreshRunStats(previousWorld, previousEntities, added);
+      refreshSessionStats(previousWorld, previousEntities, added);
     },
-    [addLog],
+    [
+      store,
+      addLog,
+      applyDelta,
+      commitEntities,
+      syncLevelMemoryScope,
+      saveCurrentLevelMemory,
+      rememberCurrentLevel,
+      refreshGhosts,
+      refreshRunStats,
+      refreshSessionStats,
+    ],
   );
 
   return {
-    world,
-    setWorld,
-    worldRef,
-    player,
-    setPlayer,
-    entities,
-    setEntities,
-    logs,
-    setLogs,
+    store,
     gameState,
-    activeEntityId,
-    setActiveEntityId,
-    speechBubbles,
-    setSpeechBubbles,
-    entityRegistry,
-    entityRegistryRef,
+    runSummary,
     addLog,
     handleServerMessage,
+    requestResync,
+    resetGameState,
   };
 };
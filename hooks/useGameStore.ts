@@ -0,0 +1,280 @@
+import {createContext, useCallback, useContext, useMemo, useSyncExternalStore,} from "react";
+
+import {
+  findStoreEntity,
+  GameStore,
+  GameStoreState,
+  selectActiveEntityId,
+  selectArchivedLogCount,
+  selectEntities,
+  selectGameState,
+  selectPlayer,
+  selectPlayerEquipment,
+  selectPlayerInventory,
+  selectPlayerInventoryData,
+  selectRememberedEntities,
+  selectSessionStats,
+  selectSpeechBubbles,
+  selectTickHistory,
+  selectWorld,
+} from "../services/gameStore";
+import {
+  Entity,
+  GameState,
+  GameWorld,
+  Item,
+  LogMessage,
+  LogType,
+  RememberedEntity,
+  ServerToClientEquipmentView,
+  ServerToClientInventoryView,
+  SpeechBubble,
+  Tile,
+} from "../types";
+import type {SessionStats} from "../utils/sessionStats";
+import {findTickSnapshotIndex, TickSnapshot} from "../utils/tickHistory";
+
+/**
+ * Подписки на срезы хранилища игровых данных
+ *
+ * Компонент перерисовывается, только когда меняется выбранный им срез:
+ * инспектор сущности — при изменении этой сущности, лог — при новых
+ * сообщениях нужного типа и т.д.
+ *
+ * @example
+ * ```typescript
+ * const player = usePlayer();
+ * const goblin = useEntity(goblinId);
+ * const combatLogs = useLogs(COMBAT_LOG_TYPES);
+ * ```
+ */
+
+export const GameStoreContext = createContext<GameStore | null>(null);
+
+/**
+ * Хранилище из GameStoreContext
+ */
+export const useGameStore = (): GameStore => {
+  const store = useContext(GameStoreContext);
+  if (!store) {
+    throw new Error("useGameStore must be used within GameStoreContext");
+  }
+  return store;
+};
+
+function isShallowEqualArray<T>(a: readonly T[], b: readonly T[]): boolean {
+  return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+}
+
+/**
+ * Чтение среза с запоминанием последнего результата
+ */
+function createSelectionGetter<T>(
+  store: GameStore,
+  selector: (state: GameStoreState) => T,
+  isEqual: (a: T, b: T) => boolean,
+): () => T {
+  let memoState: GameStoreState | null = null;
+  let memoSelection: T;
+  return () => {
+    const state = store.getState();
+    if (state === memoState) {
+      return memoSelection;
+    }
+    const selection = selector(state);
+    if (memoState === null || !isEqual(memoSelection, selection)) {
+      memoSelection = selection;
+    }
+    memoState = state;
+    return memoSelection;
+  };
+}
+
+/**
+ * Подписывается на срез хранилища
+ *
+ * Срез пересчитывается только при новом состоянии хранилища; если он
+ * равен прежнему по isEqual, возвращается прежний объект и компонент
+ * не перерисовывается. selector и isEqual должны быть стабильными
+ * (объявлены вне компонента или через useCallback).
+ *
+ * @param store - хранилище игровых данных
+ * @param selector - выбирает срез из состояния
+ * @param isEqual - сравнение срезов (по умолчанию Object.is)
+ */
+export function useStoreSelector<T>(
+  store: GameStore,
+  selector: (state: GameStoreState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+): T {
+  const getSnapshot = useMemo(
+    () => createSelectionGetter(store, selector, isEqual),
+    [store, selector, isEqual],
+  );
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Срез хранилища из GameStoreContext (см. useStoreSelector)
+ */
+export function useGameSelector<T>(
+  selector: (state: GameStoreState) => T,
+  isEqual?: (a: T, b: T) => boolean,
+): T {
+  return useStoreSelector(useGameStore(), selector, isEqual);
+}
+
+/**
+ * Свой персонаж (null у наблюдателя и до входа)
+ */
+export const usePlayer = (): Entity | null => useGameSelector(selectPlayer);
+
+/**
+ * Текущий мир (null до первого снимка)
+ */
+export const useWorld = (): GameWorld | null => useGameSelector(selectWorld);
+
+/**
+ * Все известные сущности, кроме своего персонажа
+ */
+export const useEntities = (): Entity[] => useGameSelector(selectEntities);
+
+const selectAllEntities = (state: GameStoreState): Entity[] =>
+  state.player ? [state.player, ...state.entities] : state.entities;
+
+/**
+ * Все известные сущности вместе со своим персонажем (он первый)
+ */
+export const useAllEntities = (): Entity[] =>
+  useGameSelector(selectAllEntities, isShallowEqualArray);
+
+/**
+ * Инвентарь своего персонажа (пустой у наблюдателя)
+ */
+export const usePlayerInventory = (): Item[] =>
+  useGameSelector(selectPlayerInventory);
+
+/**
+ * Вместимость и вес инвентаря своего персонажа
+ */
+export const usePlayerInventoryData = (): ServerToClientInventoryView | null =>
+  useGameSelector(selectPlayerInventoryData);
+
+/**
+ * Экипировка своего персонажа
+ */
+export const usePlayerEquipment = (): ServerToClientEquipmentView | null =>
+  useGameSelector(selectPlayerEquipment);
+
+/**
+ * Чей сейчас ход
+ */
+export const useActiveEntityId = (): string | null =>
+  useGameSelector(selectActiveEntityId);
+
+/**
+ * Состояние игры (исследование, бой, гибель), выведенное из данных сервера
+ */
+export const useDerivedGameState = (): GameState =>
+  useGameSelector(selectGameState);
+
+const selectGlobalTick = (state: GameStoreState): number =>
+  state.world?.globalTick ?? 0;
+
+/**
+ * Текущий тик мира (0 до первого снимка)
+ */
+export const useGlobalTick = (): number => useGameSelector(selectGlobalTick);
+
+/**
+ * Реплики над сущностями
+ */
+export const useSpeechBubbles = (): SpeechBubble[] =>
+  useGameSelector(selectSpeechBubbles);
+
+/**
+ * Призраки: последние известные позиции ушедших из вида сущностей
+ */
+export const useRememberedEntities = (): RememberedEntity[] =>
+  useGameSelector(selectRememberedEntities);
+
+/**
+ * Сущность по id, включая своего персонажа
+ * @returns undefined, если сущность не известна
+ */
+export const useEntity = (entityId: string): Entity | undefined => {
+  const selector = useCallback(
+    (state: GameStoreState) => findStoreEntity(state, entityId),
+    [entityId],
+  );
+  return useGameSelector(selector);
+};
+
+/**
+ * Клетка карты текущего мира
+ * @returns null за пределами карты или до первого снимка
+ */
+export const useTile = (x: number, y: number): Tile | null => {
+  const selector = useCallback(
+    (state: GameStoreState) => state.world?.map[y]?.[x] ?? null,
+    [x, y],
+  );
+  return useGameSelector(selector);
+};
+
+/**
+ * Сообщения лога
+ *
+ * С фильтром компонент не перерисовывается от сообщений других типов.
+ *
+ * @param types - типы сообщений (стабильный массив); без фильтра — все
+ */
+export const useLogs = (types?: readonly LogType[]): LogMessage[] => {
+  const selector = useCallback(
+    (state: GameStoreState) =>
+      types ? state.logs.filter((log) => types.includes(log.type)) : state.logs,
+    [types],
+  );
+  return useGameSelector(selector, isShallowEqualArray);
+};
+
+/**
+ * Сколько старых сообщений лога перенесено в архив
+ */
+export const useArchivedLogCount = (): number =>
+  useGameSelector(selectArchivedLogCount);
+
+/**
+ * Статистика сессии своего персонажа (null до входа)
+ */
+export const useSessionStats = (): SessionStats | null =>
+  useGameSelector(selectSessionStats);
+
+/**
+ * Записанные состояния мира по тикам, последнее — настоящее
+ */
+export const useTickSnapshots = (): TickSnapshot[] =>
+  useGameSelector(selectTickHistory);
+
+/**
+ * Состояние мира на просматриваемом тике
+ * @param viewedTick - тик из useTickHistory (null — настоящее)
+ * @returns снимок или null, если показывается настоящее
+ */
+export const useViewedTickSnapshot = (
+  viewedTick: number | null,
+): TickSnapshot | null => {
+  const selector = useCallback(
+    (state: GameStoreState) => {
+      if (viewedTick === null) {
+        return null;
+      }
+      const index = findTickSnapshotIndex(state.tickHistory, viewedTick);
+      return index >= 0 && index < state.tickHistory.length - 1
+        ? state.tickHistory[index]
+        : null;
+    },
+    [viewedTick],
+  );
+  return useGameSelector(selector);
+};
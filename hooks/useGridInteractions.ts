@@ -0,0 +1,249 @@
+import {useCallback, useState} from "react";
+
+import {ContextMenuData, Entity, EntityType, GameWorld, Position} from "../types";
+import {getCellEntities} from "../utils/mapCells";
+
+/**
+ * Открытое радиальное меню: сущность и левый верхний угол ее клетки на экране
+ */
+export interface RadialMenuState {
+  entity: Entity;
+  x: number;
+  y: number;
+}
+
+interface UseGridInteractionsOptions {
+  world: GameWorld;
+  entities: Entity[];
+  selectedTargetPosition: Position | null;
+  /** Внешнее состояние радиального меню: false закрывает локальное меню */
+  radialMenuOpen: boolean;
+  onMovePlayer?: (x: number, y: number) => void;
+  onSelectEntity?: (entityId: string | null) => void;
+  onSelectPosition?: (x: number, y: number) => void;
+  onSendCommand?: (action: string, payload?: any) => void;
+  onContextMenu?: (data: ContextMenuData) => void;
+  onRadialMenuChange?: (isOpen: boolean) => void;
+}
+
+/**
+ * Действия с клетками карты, общие для DOM- и canvas-отрисовки
+ *
+ * Отрисовка определяет клетку под курсором и вызывает эти обработчики;
+ * выбор, радиальное меню, контекстное меню и перетаскивание игрока
+ * работают одинаково в обоих режимах.
+ *
+ * @example
+ * ```tsx
+ * const grid = useGridInteractions({ world, entities, ... });
+ * <div onClick={(e) => grid.selectCell(x, y, e.currentTarget.getBoundingClientRect())} />
+ * ```
+ */
+export const useGridInteractions = ({
+  world,
+  entities,
+  selectedTargetPosition,
+  radialMenuOpen,
+  onMovePlayer,
+  onSelectEntity,
+  onSelectPosition,
+  onSendCommand,
+  onContextMenu,
+  onRadialMenuChange,
+}: UseGridInteractionsOptions) => {
+  const [localContextMenu, setLocalContextMenu] =
+    useState<ContextMenuData | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [draggedEntity, setDraggedEntity] = useState<Entity | null>(null);
+  const [radialMenu, setRadialMenu] = useState<RadialMenuState | null>(null);
+
+  // Close radial menu if external prop changes
+  if (!radialMenuOpen && radialMenu) {
+    setRadialMenu(null);
+  }
+
+  const getEntitiesAt = useCallback(
+    (x: number, y: number) => getCellEntities(entities, x, y),
+    [entities],
+  );
+
+  const closeRadialMenu = useCallback(() => {
+    setRadialMenu(null);
+    if (onRadialMenuChange) {
+      onRadialMenuChange(false);
+    }
+  }, [onRadialMenuChange]);
+
+  const closeLocalContextMenu = useCallback(() => {
+    setLocalContextMenu(null);
+  }, []);
+
+  /**
+   * Клик по клетке
+   * @param cellRect - положение клетки на экране (для радиального меню)
+   */
+  const selectCell = useCallback(
+    (x: number, y: number, cellRect: { left: number; top: number }) => {
+      const cellEntities = getEntitiesAt(x, y);
+
+      // Check if clicking on already selected position with entities
+      const isAlreadySelected =
+        selectedTargetPosition?.x === x && selectedTargetPosition?.y === y;
+
+      if (isAlreadySelected && cellEntities.length > 0) {
+        // Open radial menu for the top entity
+        const topEntity = cellEntities[cellEntities.length - 1];
+
+        setRadialMenu({
+          entity: topEntity,
+          x: cellRect.left,
+          y: cellRect.top,
+        });
+        if (onRadialMenuChange) {
+          onRadialMenuChange(true);
+        }
+        return;
+      }
+
+      // Close radial menu if clicking elsewhere
+      if (radialMenu) {
+        closeRadialMenu();
+      }
+
+      // Выбор позиции
+      if (onSelectPosition) {
+        onSelectPosition(x, y);
+      }
+
+      // Выбор сущности (если есть)
+      if (cellEntities.length > 0 && onSelectEntity) {
+        // Выбираем верхнюю сущность
+        const topEntity = cellEntities[cellEntities.length - 1];
+        onSelectEntity(topEntity.id);
+      } else if (onSelectEntity) {
+        onSelectEntity(null);
+      }
+    },
+    [
+      onSelectEntity,
+      onSelectPosition,
+      getEntitiesAt,
+      selectedTargetPosition,
+      radialMenu,
+      closeRadialMenu,
+      onRadialMenuChange,
+    ],
+  );
+
+  /**
+   * Контекстное меню клетки в точке экрана
+   */
+  const openCellContextMenu = useCallback(
+    (x: number, y: number, clientX: number, clientY: number) => {
+      const data = {
+        x: clientX,
+        y: clientY,
+        cellX: x,
+        cellY: y,
+        entities: getEntitiesAt(x, y),
+      };
+
+      if (onContextMenu) {
+        onContextMenu(data);
+      } else {
+        setLocalContextMenu(data);
+      }
+    },
+    [getEntitiesAt, onContextMenu],
+  );
+
+  /**
+   * Начало перетаскивания сущности
+   * @returns false, если сущность нельзя перетаскивать (только игрок)
+   */
+  const startDrag = useCallback((entity: Entity): boolean => {
+    if (entity.type !== EntityType.PLAYER) {
+      return false;
+    }
+
+    setIsDragging(true);
+    setDraggedEntity(entity);
+    return true;
+  }, []);
+
+  /**
+   * Перетаскиваемая сущность отпущена над клеткой
+   */
+  const dropOnCell = useCallback(
+    (x: number, y: number) => {
+      setIsDragging(false);
+
+      if (!draggedEntity || draggedEntity.type !== EntityType.PLAYER) {
+        return;
+      }
+
+      const tile = world.map[y]?.[x];
+      if (!tile || !tile.isWalkable) {
+        return;
+      }
+
+      // Перемещаем игрока
+      if (onMovePlayer) {
+        onMovePlayer(x, y);
+      }
+
+      setDraggedEntity(null);
+    },
+    [draggedEntity, world, onMovePlayer],
+  );
+
+  // Radial menu handlers
+  const handleRadialAction = useCallback(
+    (actionId: string, entity: Entity) => {
+      if (!onSendCommand) {
+        return;
+      }
+
+      switch (actionId) {
+      case "attack":
+        onSendCommand("ATTACK", { targetId: entity.id });
+        break;
+      case "talk":
+        onSendCommand("TALK", { targetId: entity.id });
+        break;
+      case "pickup":
+        onSendCommand("PICKUP", { itemId: entity.id });
+        break;
+      case "interact":
+        onSendCommand("INTERACT", { targetId: entity.id });
+        break;
+      case "inspect":
+        // For inspection, we can select the entity
+        if (onSelectEntity) {
+          onSelectEntity(entity.id);
+        }
+        break;
+      }
+
+      // Close radial menu after action
+      closeRadialMenu();
+    },
+    [onSendCommand, onSelectEntity, closeRadialMenu],
+  );
+
+  return {
+    getEntitiesAt,
+    radialMenu,
+    closeRadialMenu,
+    handleRadialAction,
+    localContextMenu,
+    closeLocalContextMenu,
+    isDragging,
+    selectCell,
+    openCellContextMenu,
+    startDrag,
+    dropOnCell,
+  };
+};
+
+export type GridInteractions = ReturnType<typeof useGridInteractions>;
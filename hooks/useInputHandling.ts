@@ -1,6 +1,6 @@
 import {useCallback, useEffect, useState} from "react";
 
-import {KeyBindingManager} from "@/commands";
+import {CommandSwitchEntity, KeyBindingManager} from "@/commands";
 
 import {ContextMenuData, Position} from "../types";
 
@@ -13,6 +13,8 @@ interface UseInputHandlingProps {
   sendCommand: (action: string, payload?: any, description?: string) => void;
   setRadialMenuOpen: (open: boolean) => void;
   setContextMenu: (data: ContextMenuData | null) => void;
+  /** Переключение на следующую свою сущность (клиентская команда) */
+  onSwitchEntity?: () => void;
 }
 
 export const useInputHandling = ({
@@ -24,6 +26,7 @@ export const useInputHandling = ({
   sendCommand,
   setRadialMenuOpen,
   setContextMenu,
+  onSwitchEntity,
 }: UseInputHandlingProps) => {
   const [selectedTargetEntityIdState, setSelectedTargetEntityId] = useState<
     string | null
@@ -127,6 +130,11 @@ export const useInputHandling = ({
       if (command) {
         e.preventDefault();
 
+        if (command.action === CommandSwitchEntity.action) {
+          onSwitchEntity?.();
+          return;
+        }
+
         // Проверяем, требует ли команда выбор цели
         let payload = command.payload || {};
 
@@ -157,6 +165,7 @@ export const useInputHandling = ({
     };
   }, [
     sendCommand,
+    onSwitchEntity,
     keyBindingManager,
     selectedTargetEntityIdState,
     selectedTargetPositionState,
@@ -0,0 +1,142 @@
+import {useCallback, useMemo, useRef} from "react";
+
+import {ClientToServerCommand} from "../types";
+import {
+  ConnectionEvent,
+  createNetworkCounters,
+  measurePayloadBytes,
+  NetworkCounters,
+  recordConnectionEvent,
+  recordInboundTraffic,
+  recordOutboundTraffic,
+} from "../utils/networkMetrics";
+import {
+  DecodedServerMessage,
+  decodeServerMessage,
+  formatDecodeErrors,
+} from "../utils/protocolDecoder";
+
+/**
+ * Статистика декодирования входящих сообщений
+ */
+export interface DecodeStats {
+  /** Сообщений, прошедших проверку */
+  decoded: number;
+  /** Отброшенных некорректных сообщений */
+  malformed: number;
+  /** Текст последней ошибки декодирования */
+  lastError: string | null;
+}
+
+/**
+ * Входящее сообщение после проверки
+ */
+export type InboundResult =
+  | { ok: true; value: DecodedServerMessage }
+  | { ok: false; error: string };
+
+/**
+ * Общий учет трафика и декодирования для всех соединений
+ */
+export interface NetworkDiagnostics {
+  /**
+   * Учитывает и проверяет входящее сообщение
+   * @returns сообщение или текст ошибки декодирования
+   */
+  decodeInbound: (data: unknown) => InboundResult;
+  /**
+   * Учитывает исходящую команду
+   * @param queued - команда поставлена в очередь до подключения
+   */
+  recordOutbound: (command: ClientToServerCommand, queued: boolean) => void;
+  recordConnection: (kind: ConnectionEvent["kind"], detail?: string) => void;
+  getDecodeStats: () => DecodeStats;
+  /** Живой объект — читать, не изменять */
+  getNetworkCounters: () => NetworkCounters;
+}
+
+/**
+ * React Hook для учета трафика и декодирования сообщений
+ *
+ * Счетчики общие для основного соединения (useWebSocket) и соединений
+ * участников группы (useParty), поэтому окно Network показывает весь
+ * трафик клиента.
+ *
+ * @example
+ * ```typescript
+ * const diagnostics = useNetworkDiagnostics();
+ * useWebSocket({ diagnostics, ... });
+ * useParty({ diagnostics, ... });
+ * ```
+ */
+export const useNetworkDiagnostics = (): NetworkDiagnostics => {
+  const decodeStatsRef = useRef<DecodeStats>({
+    decoded: 0,
+    malformed: 0,
+    lastError: null,
+  });
+  const networkCountersRef = useRef<NetworkCounters>(createNetworkCounters());
+
+  const decodeInbound = useCallback((data: any): InboundResult => {
+    recordInboundTraffic(networkCountersRef.current, measurePayloadBytes(data));
+    const result = decodeServerMessage(data);
+
+    // Malformed payloads never reach the game state
+    if (result.ok === false) {
+      const rawType = typeof data?.type === "string" ? data.type : "?";
+      const error = formatDecodeErrors(rawType, result.errors);
+      decodeStatsRef.current.malformed += 1;
+      decodeStatsRef.current.lastError = error;
+      console.error("[useNetworkDiagnostics]", error, data);
+      return { ok: false, error };
+    }
+
+    decodeStatsRef.current.decoded += 1;
+    return result;
+  }, []);
+
+  const recordOutbound = useCallback(
+    (command: ClientToServerCommand, queued: boolean) => {
+      recordOutboundTraffic(
+        networkCountersRef.current,
+        measurePayloadBytes(command),
+        queued,
+      );
+    },
+    [],
+  );
+
+  const recordConnection = useCallback(
+    (kind: ConnectionEvent["kind"], detail?: string) => {
+      recordConnectionEvent(networkCountersRef.current, kind, detail);
+    },
+    [],
+  );
+
+  const getDecodeStats = useCallback(
+    (): DecodeStats => ({ ...decodeStatsRef.current }),
+    [],
+  );
+
+  const getNetworkCounters = useCallback(
+    (): NetworkCounters => networkCountersRef.current,
+    [],
+  );
+
+  return useMemo(
+    () => ({
+      decodeInbound,
+      recordOutbound,
+      recordConnection,
+      getDecodeStats,
+      getNetworkCounters,
+    }),
+    [
+      decodeInbound,
+      recordOutbound,
+      recordConnection,
+      getDecodeStats,
+      getNetworkCounters,
+    ],
+  );
+};
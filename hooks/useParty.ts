@@ -0,0 +1,479 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from "react";
+
+import {
+  DisconnectedEventData,
+  ErrorEventData,
+  MessageEventData,
+  ReconnectAttemptEventData,
+  WebSocketConfig,
+  WebSocketEvent,
+} from "@cognitive-dungeon/agent-sdk";
+
+import {GameConnection, SocketConnection} from "../services/gameConnection";
+import type {GameStore} from "../services/gameStore";
+import {isMockServerUrl, MockConnection} from "../services/mockServer";
+import {ClientToServerCommand, LogType} from "../types";
+import {
+  DecodedServerMessage,
+  isServerErrorMessage,
+  isSnapshotMessage,
+} from "../utils/protocolDecoder";
+
+import type {NetworkDiagnostics} from "./useNetworkDiagnostics";
+
+/**
+ * Состояние соединения участника группы
+ */
+export type PartyMemberStatus = "connecting" | "online" | "offline" | "error";
+
+/**
+ * Дополнительная своя сущность со своим соединением
+ */
+export interface PartyMember {
+  entityId: string;
+  status: PartyMemberStatus;
+  /** Причина отказа во входе */
+  error?: string;
+}
+
+/** Настройки соединений участников — как у основного в useWebSocket */
+const MEMBER_SERVICE_CONFIG: WebSocketConfig = {
+  maxReconnectAttempts: 10,
+  reconnectDelay: 3000,
+  autoReconnect: true,
+  debug: false,
+};
+
+interface UsePartyProps {
+  /** URL текущего сервера, к нему подключаются участники */
+  serverUrl: string | null;
+  /** Сущность, вошедшая через основное соединение */
+  primaryEntityId: string | null;
+  /** Игровые данные: по смене activeEntityId управление переходит к своей сущности */
+  store: GameStore;
+  /**
+   * Сообщение из соединения участника
+   * @param isControlled - из этого соединения строится мир
+   * @param memberId - участник, чье это соединение
+   */
+  onMessage: (
+    msg: DecodedServerMessage,
+    isControlled: boolean,
+    memberId: string,
+  ) => void;
+  /**
+   * Вызывается для каждого входящего сообщения до проверки (запись сессии)
+   * @param isControlled - из этого соединения строится мир
+   */
+  onRawMessage?: (data: unknown, isControlled: boolean) => void;
+  /** Управление перешло к другой сущности (null — к основной) */
+  onControlChange: (memberId: string | null) => void;
+  addLog: (text: string, type: LogType) => void;
+  /** Учет трафика и декодирования, общий с основным соединением */
+  diagnostics: NetworkDiagnostics;
+}
+
+/**
+ * React Hook для управления несколькими своими сущностями
+ *
+ * Основная сущность входит через useWebSocket, каждый участник группы —
+ * через отдельное соединение с тем же сервером (LOGIN повторяется после
+ * каждого переподключения). Сообщения участников проходят тот же учет и
+ * ту же проверку, что и сообщения основного соединения
+ * (см. useNetworkDiagnostics); участник считается вошедшим, когда
+ * пришел снимок с его myEntityId. Мир на экране строится из соединения
+ * управляемой сущности. Управление переходит к своей сущности, когда
+ * наступает ее ход, или вручную (switchControl / cycleControl).
+ *
+ * @example
+ * ```typescript
+ * const party = useParty({
+ *   serverUrl,
+ *   primaryEntityId,
+ *   store,
+ *   onMessage: (msg, isControlled) => isControlled && handleServerMessage(msg),
+ *   onControlChange: () => requestResync(),
+ *   addLog,
+ *   diagnostics,
+ * });
+ * party.addMember("hero-2");
+ * ```
+ */
+export const useParty = ({
+  serverUrl,
+  primaryEntityId,
+  store,
+  onMessage,
+  onRawMessage,
+  onControlChange,
+  addLog,
+  diagnostics,
+}: UsePartyProps) => {
+  const [members, setMembers] = useState<PartyMember[]>([]);
+  const membersRef = useRef<PartyMember[]>([]);
+  const servicesRef = useRef(new Map<string, GameConnection>());
+  const [controlledMemberId, setControlledMemberId] = useState<string | null>(
+    null,
+  );
+  const controlledMemberIdRef = useRef<string | null>(null);
+  const primaryEntityIdRef = useRef(primaryEntityId);
+  const onMessageRef = useRef(onMessage);
+  const onRawMessageRef = useRef(onRawMessage);
+  const onControlChangeRef = useRef(onControlChange);
+  const addLogRef = useRef(addLog);
+  const diagnosticsRef = useRef(diagnostics);
+
+  useEffect(() => {
+    primaryEntityIdRef.current = primaryEntityId;
+  }, [primaryEntityId]);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    onRawMessageRef.current = onRawMessage;
+  }, [onRawMessage]);
+
+  useEffect(() => {
+    onControlChangeRef.current = onControlChange;
+  }, [onControlChange]);
+
+  useEffect(() => {
+    addLogRef.current = addLog;
+  }, [addLog]);
+
+  useEffect(() => {
+    diagnosticsRef.current = diagnostics;
+  }, [diagnostics]);
+
+  // Close member connections on unmount
+  useEffect(() => {
+    const services = servicesRef.current;
+    return () => {
+      services.forEach((service) => service.destroy());
+      services.clear();
+    };
+  }, []);
+
+  const commit = useCallback((next: PartyMember[]) => {
+    membersRef.current = next;
+    setMembers(next);
+  }, []);
+
+  const updateMember = useCallback(
+    (entityId: string, patch: Partial<PartyMember>) => {
+      commit(
+        membersRef.current.map((m) =>
+          m.entityId === entityId ? { ...m, ...patch } : m,
+        ),
+      );
+    },
+    [commit],
+  );
+
+  /**
+   * Все свои сущности: основная и участники, вошедшие в игру
+   */
+  const ownedEntityIds = useMemo(() => {
+    const online = members
+      .filter((m) => m.status === "online")
+      .map((m) => m.entityId);
+    return primaryEntityId ? [primaryEntityId, ...online] : online;
+  }, [members, primaryEntityId]);
+
+  const setControlled = useCallback((memberId: string | null) => {
+    if (controlledMemberIdRef.current === memberId) {
+      return;
+    }
+    controlledMemberIdRef.current = memberId;
+    setControlledMemberId(memberId);
+    onControlChangeRef.current(memberId);
+  }, []);
+
+  /**
+   * Передает управление своей сущности
+   *
+   * @param entityId - основная сущность или участник в статусе "online"
+   */
+  const switchControl = useCallback(
+    (entityId: string) => {
+      if (entityId === primaryEntityIdRef.current) {
+        setControlled(null);
+        return;
+      }
+      const member = membersRef.current.find((m) => m.entityId === entityId);
+      if (member?.status !== "online") {
+        addLogRef.current(`${entityId} is not in the game`, LogType.ERROR);
+        return;
+      }
+      setControlled(entityId);
+    },
+    [setControlled],
+  );
+
+  /**
+   * Передает управление следующей своей сущности (по кругу)
+   */
+  const cycleControl = useCallback(() => {
+    if (ownedEntityIds.length < 2) {
+      addLogRef.current("No other owned entities to switch to", LogType.INFO);
+      return;
+    }
+    const current =
+      controlledMemberIdRef.current ?? primaryEntityIdRef.current;
+    const index = ownedEntityIds.indexOf(current);
+    const next = ownedEntityIds[(index + 1) % ownedEntityIds.length];
+    switchControl(next);
+    addLogRef.current(`Controlling ${next}`, LogType.INFO);
+  }, [ownedEntityIds, switchControl]);
+
+  const ownedEntityIdsRef = useRef(ownedEntityIds);
+  const switchControlRef = useRef(switchControl);
+
+  useEffect(() => {
+    ownedEntityIdsRef.current = ownedEntityIds;
+    switchControlRef.current = switchControl;
+  }, [ownedEntityIds, switchControl]);
+
+  // Turn passed to one of our entities: take control of it as soon as the
+  // store gets the new activeEntityId, not after the next render
+  useEffect(() => {
+    let prevActiveEntityId = store.getState().activeEntityId;
+    return store.subscribe(() => {
+      const { activeEntityId } = store.getState();
+      if (activeEntityId === prevActiveEntityId) {
+        return;
+      }
+      prevActiveEntityId = activeEntityId;
+      if (activeEntityId && ownedEntityIdsRef.current.includes(activeEntityId)) {
+        switchControlRef.current(activeEntityId);
+      }
+    });
+  }, [store]);
+
+  /**
+   * Подписывает обработчики на события соединения участника
+   */
+  const bindMemberEvents = useCallback(
+    (entityId: string, service: GameConnection) => {
+      let isOnline = false;
+
+      service.on(WebSocketEvent.CONNECTED, () => {
+        diagnosticsRef.current.recordConnection("connected", entityId);
+        updateMember(entityId, { status: "connecting", error: undefined });
+        const login: ClientToServerCommand = { action: "LOGIN", token: entityId };
+        if (service.send(login, { queue: false }).success) {
+          diagnosticsRef.current.recordOutbound(login, false);
+        }
+      });
+
+      service.on(WebSocketEvent.DISCONNECTED, (data: DisconnectedEventData) => {
+        diagnosticsRef.current.recordConnection(
+          "disconnected",
+          `${entityId}: code ${data.code}`,
+        );
+        isOnline = false;
+        if (controlledMemberIdRef.current === entityId) {
+          setControlled(null);
+        }
+        if (servicesRef.current.get(entityId) !== service) {
+          return;
+        }
+        updateMember(entityId, { status: "offline" });
+        addLogRef.current(
+          `${entityId}: disconnected from server (${data.code})`,
+          LogType.INFO,
+        );
+      });
+
+      service.on(WebSocketEvent.MESSAGE, (data: MessageEventData) => {
+        const isControlled = controlledMemberIdRef.current === entityId;
+        onRawMessageRef.current?.(data.data, isControlled);
+
+        const result = diagnosticsRef.current.decodeInbound(data.data);
+        if (result.ok === false) {
+          addLogRef.current(`${entityId}: ${result.error}`, LogType.ERROR);
+          return;
+        }
+
+        const msg = result.value;
+        if (isServerErrorMessage(msg)) {
+          addLogRef.current(
+            `${entityId}: Server error: ${msg.error}`,
+            LogType.ERROR,
+          );
+
+          // LOGIN rejected: keep the member listed with the reason
+          if (!isOnline && msg.error.includes("not found")) {
+            servicesRef.current.delete(entityId);
+            service.destroy();
+            updateMember(entityId, { status: "error", error: msg.error });
+            return;
+          }
+        }
+
+        // The server confirmed the login only once it sends our entity
+        if (!isOnline && isSnapshotMessage(msg) && msg.myEntityId === entityId) {
+          isOnline = true;
+          service.setAuthenticated(true);
+          updateMember(entityId, { status: "online" });
+          addLogRef.current(`${entityId} joined the party`, LogType.SUCCESS);
+        }
+
+        onMessageRef.current(msg, isControlled, entityId);
+      });
+
+      service.on(
+        WebSocketEvent.RECONNECT_ATTEMPT,
+        (data: ReconnectAttemptEventData) => {
+          diagnosticsRef.current.recordConnection(
+            "reconnecting",
+            `${entityId}: attempt ${data.attempt}/${data.maxAttempts}`,
+          );
+        },
+      );
+
+      service.on(WebSocketEvent.ERROR, (data: ErrorEventData) => {
+        if (data.type === "connection") {
+          diagnosticsRef.current.recordConnection(
+            "error",
+            `${entityId}: ${data.message}`,
+          );
+          addLogRef.current(
+            `${entityId}: connection error: ${data.message}`,
+            LogType.ERROR,
+          );
+        }
+      });
+    },
+    [updateMember, setControlled],
+  );
+
+  /**
+   * Входит еще одной сущностью через новое соединение
+   *
+   * @param entityId - ID сущности / token входа
+   */
+  const addMember = useCallback(
+    (entityId: string) => {
+      const id = entityId.trim();
+      if (!id) {
+        return;
+      }
+      if (!serverUrl) {
+        addLogRef.current("Connect to a server first", LogType.ERROR);
+        return;
+      }
+      if (id === primaryEntityIdRef.current || servicesRef.current.has(id)) {
+        addLogRef.current(`${id} is already in the party`, LogType.INFO);
+        return;
+      }
+
+      const service: GameConnection = isMockServerUrl(serverUrl)
+        ? new MockConnection()
+        : new SocketConnection({ ...MEMBER_SERVICE_CONFIG, url: serverUrl });
+      bindMemberEvents(id, service);
+      servicesRef.current.set(id, service);
+
+      commit([
+        ...membersRef.current.filter((m) => m.entityId !== id),
+        { entityId: id, status: "connecting" },
+      ]);
+      addLogRef.current(`Logging in as ${id} over a new connection...`, LogType.INFO);
+      service.connect();
+    },
+    [serverUrl, bindMemberEvents, commit],
+  );
+
+  /**
+   * Закрывает соединение участника и убирает его из группы
+   *
+   * @param entityId - ID участника
+   */
+  const removeMember = useCallback(
+    (entityId: string) => {
+      const service = servicesRef.current.get(entityId);
+      servicesRef.current.delete(entityId);
+      service?.destroy();
+      if (controlledMemberIdRef.current === entityId) {
+        setControlled(null);
+      }
+      commit(membersRef.current.filter((m) => m.entityId !== entityId));
+    },
+    [commit, setControlled],
+  );
+
+  /**
+   * Выбирает соединение участника для команды
+   *
+   * @param entityId - сущность-исполнитель (по умолчанию — управляемая)
+   * @returns ID участника или null — основное соединение
+   */
+  const getMemberConnection = useCallback(
+    (entityId?: string): string | null => {
+      const id = entityId ?? controlledMemberIdRef.current;
+      return id && servicesRef.current.has(id) ? id : null;
+    },
+    [],
+  );
+
+  /**
+   * Проверяет, строится ли мир из основного соединения
+   */
+  const isPrimaryControlled = useCallback(
+    (): boolean => controlledMemberIdRef.current === null,
+    [],
+  );
+
+  /**
+   * Отправка команды через соединение участника
+   *
+   * @returns true если команда отправлена
+   */
+  const sendCommand = useCallback(
+    (entityId: string, command: ClientToServerCommand): boolean => {
+      const service = servicesRef.current.get(entityId);
+      if (!service?.isConnected()) {
+        addLogRef.current(`${entityId} is not connected`, LogType.ERROR);
+        return false;
+      }
+      const result = service.send(command, { queue: false });
+      if (result.success) {
+        diagnosticsRef.current.recordOutbound(command, false);
+      } else {
+        addLogRef.current(
+          result.error || `Failed to send command for ${entityId}`,
+          LogType.ERROR,
+        );
+      }
+      return result.success;
+    },
+    [],
+  );
+
+  /**
+   * Закрывает все соединения участников (при подключении к другому серверу)
+   */
+  const reset = useCallback(() => {
+    servicesRef.current.forEach((service) => service.destroy());
+    servicesRef.current.clear();
+    controlledMemberIdRef.current = null;
+    setControlledMemberId(null);
+    commit([]);
+  }, [commit]);
+
+  return {
+    members,
+    ownedEntityIds,
+    controlledEntityId: controlledMemberId ?? primaryEntityId,
+    addMember,
+    removeMember,
+    switchControl,
+    cycleControl,
+    getMemberConnection,
+    isPrimaryControlled,
+    sendCommand,
+    reset,
+  };
+};
@@ -2,15 +2,15 @@ import {useCallback, useEffect, useRef, useState} from "react";
 
 import {findPath} from "@/utils";
 
-import {Entity, GameWorld, LogType, Position} from "../types";
-
+import {GameStore} from "../services/gameStore";
+import {LogSegment, LogType, Position} from "../types";
+import {logText, positionRef} from "../utils/logSegments";
 
 interface UsePathfindingProps {
-  player: Entity | null;
-  world: GameWorld | null;
-  activeEntityId: string | null;
+  /** Игровые данные: шаги маршрута идут по обновлениям персонажа и хода */
+  store: GameStore;
   addLog: (
-    text: string,
+    text: string | LogSegment[],
     type: LogType,
     commandData?: any,
     position?: Position,
@@ -20,9 +20,7 @@ interface UsePathfindingProps {
 }
 
 export const usePathfinding = ({
-  player,
-  world,
-  activeEntityId,
+  store,
   addLog,
   sendCommand,
 }: UsePathfindingProps) => {
@@ -31,12 +29,95 @@ export const usePathfinding = ({
   );
   const [currentPath, setCurrentPath] = useState<Position[]>([]);
   const [isPathfinding, setIsPathfinding] = useState(false);
-  const [waitingForMoveResponse, setWaitingForMoveResponse] = useState(false);
   const pathfindingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastCommandedPosRef = useRef<Position | null>(null);
 
+  // The route is driven by store updates, the refs mirror the state above
+  const pathRef = useRef<Position[]>([]);
+  const targetRef = useRef<Position | null>(null);
+  const waitingForMoveResponseRef = useRef(false);
+  const addLogRef = useRef(addLog);
+  const sendCommandRef = useRef(sendCommand);
+
+  useEffect(() => {
+    addLogRef.current = addLog;
+    sendCommandRef.current = sendCommand;
+  }, [addLog, sendCommand]);
+
+  const setPath = useCallback((path: Position[]) => {
+    pathRef.current = path;
+    setCurrentPath(path);
+  }, []);
+
+  const stopPathfinding = useCallback(() => {
+    if (pathfindingTimeoutRef.current) {
+      clearTimeout(pathfindingTimeoutRef.current);
+      pathfindingTimeoutRef.current = null;
+    }
+    setIsPathfinding(false);
+    setPath([]);
+    targetRef.current = null;
+    setPathfindingTarget(null);
+    waitingForMoveResponseRef.current = false;
+    lastCommandedPosRef.current = null;
+  }, [setPath]);
+
+  /**
+   * Отправляет следующий шаг маршрута, если сейчас ход игрока
+   *
+   * Проверка откладывается, пока не применено все обновление сервера:
+   * персонаж и очередь хода меняются в хранилище по отдельности.
+   */
+  const sendNextStep = useCallback(() => {
+    setTimeout(() => {
+      const { player, world, activeEntityId } = store.getState();
+      if (pathRef.current.length <= 1 || !player || !world) {
+        return;
+      }
+
+      // Pause pathfinding if it's not player's turn
+      if (activeEntityId && activeEntityId !== player.id) {
+        return;
+      }
+
+      // Don't send next command if we're waiting for response
+      if (waitingForMoveResponseRef.current) {
+        return;
+      }
+
+      const nextStep = pathRef.current[1]; // Index 0 is current position
+      const dx = nextStep.x - player.pos.x;
+      const dy = nextStep.y - player.pos.y;
+
+      sendCommandRef.current(
+        "MOVE",
+        { dx, dy },
+        `пошли на (${nextStep.x}, ${nextStep.y})`,
+      );
+
+      // Mark that we're waiting for server response
+      waitingForMoveResponseRef.current = true;
+      lastCommandedPosRef.current = nextStep;
+
+      // Set timeout as fallback in case server doesn't respond
+      pathfindingTimeoutRef.current = setTimeout(() => {
+        const current = store.getState().player;
+        if (current) {
+          addLogRef.current(
+            `Таймаут ожидания ответа сервера. Остановка пути.`,
+            LogType.ERROR,
+            undefined,
+            { x: current.pos.x, y: current.pos.y },
+          );
+        }
+        stopPathfinding();
+      }, 2000); // 2 second timeout
+    }, 0);
+  }, [store, stopPathfinding]);
+
   const handleGoToPathfinding = useCallback(
     (targetPos: Position) => {
+      const { player, world, activeEntityId } = store.getState();
       if (!player || !world) {
         return;
       }
@@ -52,7 +133,7 @@ export const usePathfinding = ({
         clearTimeout(pathfindingTimeoutRef.current);
         pathfindingTimeoutRef.current = null;
       }
-      setWaitingForMoveResponse(false);
+      waitingForMoveResponseRef.current = false;
       lastCommandedPosRef.current = null;
 
       // Find path
@@ -60,7 +141,7 @@ export const usePathfinding = ({
 
       if (!path || path.length === 0) {
         addLog(
-          `Не удалось найти путь к <span class="cursor-pointer text-orange-400 hover:underline" data-position-x="${targetPos.x}" data-position-y="${targetPos.y}">(${targetPos.x}, ${targetPos.y})</span>`,
+          logText`Не удалось найти путь к ${positionRef(targetPos)}`,
           LogType.ERROR,
           undefined,
           { x: player.pos.x, y: player.pos.y },
@@ -69,177 +150,90 @@ export const usePathfinding = ({
       }
 
       // Set pathfinding state
+      targetRef.current = targetPos;
       setPathfindingTarget(targetPos);
-      setCurrentPath([player.pos, ...path]);
+      setPath([player.pos, ...path]);
       setIsPathfinding(true);
 
       addLog(
-        `Начинаем движение к <span class="cursor-pointer text-orange-400 hover:underline" data-position-x="${targetPos.x}" data-position-y="${targetPos.y}">(${targetPos.x}, ${targetPos.y})</span>, длина пути: ${path.length}`,
+        logText`Начинаем движение к ${positionRef(targetPos)}, длина пути: ${path.length}`,
         LogType.INFO,
         undefined,
         targetPos,
         { x: player.pos.x, y: player.pos.y },
       );
+      sendNextStep();
     },
-    [player, world, activeEntityId, addLog],
+    [store, addLog, setPath, sendNextStep],
   );
 
-  const stopPathfinding = useCallback(() => {
-    if (pathfindingTimeoutRef.current) {
-      clearTimeout(pathfindingTimeoutRef.current);
-      pathfindingTimeoutRef.current = null;
-    }
-    setIsPathfinding(false);
-    setCurrentPath([]);
-    setPathfindingTarget(null);
-    setWaitingForMoveResponse(false);
-    lastCommandedPosRef.current = null;
-  }, []);
-
-  // Pathfinding execution loop - send next move command
+  // Server response: did the player move to the expected position,
+  // did the turn come back to the player
   useEffect(() => {
-    if (!isPathfinding || currentPath.length <= 1 || !player || !world) {
-      return;
-    }
-
-    // Pause pathfinding if it's not player's turn
-    if (activeEntityId && activeEntityId !== player.id) {
-      return;
-    }
-
-    // Don't send next command if we're waiting for response
-    if (waitingForMoveResponse) {
-      return;
-    }
-
-    const currentPlayerPos = player.pos;
-    const nextStep = currentPath[1]; // Index 0 is current position
-
-    // Calculate movement delta
-    const dx = nextStep.x - currentPlayerPos.x;
-    const dy = nextStep.y - currentPlayerPos.y;
-
-    // Send move command
-    setTimeout(() => {
-      sendCommand(
-        "MOVE",
-        { dx, dy },
-        `пошли на (${nextStep.x}, ${nextStep.y})`,
-      );
+    let prevPlayer = store.getState().player;
+    let prevActiveEntityId = store.getState().activeEntityId;
 
-      // Mark that we're waiting for server response
-      setWaitingForMoveResponse(true);
-      lastCommandedPosRef.current = nextStep;
-    }, 0);
-
-    // Set timeout as fallback in case server doesn't respond
-    pathfindingTimeoutRef.current = setTimeout(() => {
-      if (player) {
-        addLog(
-          `Таймаут ожидания ответа сервера. Остановка пути.`,
-          LogType.ERROR,
-          undefined,
-          { x: player.pos.x, y: player.pos.y },
-        );
-      }
-      stopPathfinding();
-    }, 2000); // 2 second timeout
-  }, [
-    isPathfinding,
-    currentPath,
-    waitingForMoveResponse,
-    player?.pos.x,
-    player?.pos.y,
-    player,
-    world,
-    sendCommand,
-    activeEntityId,
-    addLog,
-    stopPathfinding,
-  ]);
+    return store.subscribe(() => {
+      const { player, activeEntityId } = store.getState();
+      const moved =
+        !!player &&
+        (prevPlayer?.pos.x !== player.pos.x || prevPlayer?.pos.y !== player.pos.y);
+      const turnChanged = activeEntityId !== prevActiveEntityId;
+      prevPlayer = player;
+      prevActiveEntityId = activeEntityId;
 
-  // Check server response - did player move to expected position?
-  useEffect(() => {
-    if (!waitingForMoveResponse || !lastCommandedPosRef.current || !player) {
-      return;
-    }
-
-    const commandedPos = lastCommandedPosRef.current;
-    const currentPos = player.pos;
-
-    // Check if player moved to the commanded position
-    if (currentPos.x === commandedPos.x && currentPos.y === commandedPos.y) {
-      // Success! Player moved to expected position
-      if (pathfindingTimeoutRef.current) {
-        clearTimeout(pathfindingTimeoutRef.current);
-        pathfindingTimeoutRef.current = null;
+      const target = targetRef.current;
+      if (!target || !player || (!moved && !turnChanged)) {
+        return;
       }
 
-      // Remove completed step from path
-      setTimeout(() => {
-        setCurrentPath((prev) => prev.slice(1));
-        setWaitingForMoveResponse(false);
-        lastCommandedPosRef.current = null;
-      }, 0);
-    } else {
-      // Check if player position changed but not to expected position
-      const prevPos = currentPath[0];
-      if (
-        prevPos &&
-        (currentPos.x !== prevPos.x || currentPos.y !== prevPos.y)
-      ) {
-        // Position changed but not to where we expected
-        setTimeout(() => {
-          addLog(
-            `Сервер переместил на неожиданную позицию (${currentPos.x}, ${currentPos.y}). Остановка пути.`,
-            LogType.ERROR,
-            undefined,
-            { x: currentPos.x, y: currentPos.y },
-          );
-          stopPathfinding();
-        }, 0);
+      const commandedPos = lastCommandedPosRef.current;
+      if (moved && waitingForMoveResponseRef.current && commandedPos) {
+        const currentPos = player.pos;
+        if (currentPos.x === commandedPos.x && currentPos.y === commandedPos.y) {
+          // Success! Player moved to expected position
+          if (pathfindingTimeoutRef.current) {
+            clearTimeout(pathfindingTimeoutRef.current);
+            pathfindingTimeoutRef.current = null;
+          }
+          setPath(pathRef.current.slice(1));
+          waitingForMoveResponseRef.current = false;
+          lastCommandedPosRef.current = null;
+        } else {
+          const prevPos = pathRef.current[0];
+          if (
+            prevPos &&
+            (currentPos.x !== prevPos.x || currentPos.y !== prevPos.y)
+          ) {
+            // Position changed but not to where we expected
+            addLogRef.current(
+              logText`Сервер переместил на неожиданную позицию ${positionRef(currentPos)}. Остановка пути.`,
+              LogType.ERROR,
+              undefined,
+              { x: currentPos.x, y: currentPos.y },
+            );
+            stopPathfinding();
+            return;
+          }
+        }
       }
-    }
-  }, [
-    player?.pos.x,
-    player?.pos.y,
-    player,
-    waitingForMoveResponse,
-    currentPath,
-    addLog,
-    stopPathfinding,
-  ]);
-
-  // Stop pathfinding when reached target
-  useEffect(() => {
-    if (!isPathfinding || !player || !pathfindingTarget) {
-      return;
-    }
 
-    if (
-      player.pos.x === pathfindingTarget.x &&
-      player.pos.y === pathfindingTarget.y
-    ) {
-      setTimeout(() => {
-        addLog(
-          `Достигли цели <span class="cursor-pointer text-orange-400 hover:underline" data-position-x="${pathfindingTarget.x}" data-position-y="${pathfindingTarget.y}">(${pathfindingTarget.x}, ${pathfindingTarget.y})</span>`,
+      // Stop pathfinding when reached target
+      if (player.pos.x === target.x && player.pos.y === target.y) {
+        addLogRef.current(
+          logText`Достигли цели ${positionRef(target)}`,
           LogType.SUCCESS,
           undefined,
-          pathfindingTarget,
+          target,
           { x: player.pos.x, y: player.pos.y },
         );
         stopPathfinding();
-      }, 0);
-    }
-  }, [
-    player?.pos.x,
-    player?.pos.y,
-    player,
-    isPathfinding,
-    pathfindingTarget,
-    addLog,
-    stopPathfinding,
-  ]);
+        return;
+      }
+
+      sendNextStep();
+    });
+  }, [store, setPath, stopPathfinding, sendNextStep]);
 
   // Cleanup pathfinding timeout on unmount
   useEffect(() => {
@@ -247,7 +241,7 @@ export const usePathfinding = ({
       if (pathfindingTimeoutRef.current) {
         clearTimeout(pathfindingTimeoutRef.current);
       }
-      setWaitingForMoveResponse(false);
+      waitingForMoveResponseRef.current = false;
       lastCommandedPosRef.current = null;
     };
   }, []);
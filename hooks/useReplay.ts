@@ -0,0 +1,247 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from "react";
+
+import {LogType, SessionRecording, SessionRecordingEvent} from "../types";
+import {
+  DecodedServerMessage,
+  decodeServerMessage,
+  formatDecodeErrors,
+} from "../utils/protocolDecoder";
+import {
+  buildSessionTickIndex,
+  findSessionEventCountForTick,
+} from "../utils/sessionRecording";
+
+/** Максимальная пауза между событиями при воспроизведении (мс) */
+const MAX_REPLAY_GAP_MS = 2000;
+
+/** Доступные скорости воспроизведения */
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8] as const;
+
+interface UseReplayProps {
+  /** Обработчик входящих сообщений (тот же, что и для WebSocket) */
+  onMessage: (msg: DecodedServerMessage) => void;
+  /** Сброс игрового состояния перед перемоткой */
+  onReset: () => void;
+  addLog: (
+    text: string,
+    type: LogType,
+    commandData?: { action: string; payload?: any },
+  ) => void;
+}
+
+/**
+ * React Hook для воспроизведения записи сессии без сервера
+ *
+ * Подает входящие сообщения из записи в тот же обработчик, что и
+ * WebSocket, соблюдая исходные интервалы (с учетом скорости).
+ * Перемотка сбрасывает состояние и применяет события с начала записи
+ * до нужного тика.
+ *
+ * @example
+ * ```typescript
+ * const replay = useReplay({
+ *   onMessage: handleServerMessage,
+ *   onReset: resetGameState,
+ *   addLog,
+ * });
+ * replay.load(recording);
+ * replay.play();
+ * ```
+ */
+export const useReplay = ({ onMessage, onReset, addLog }: UseReplayProps) => {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Позиция воспроизведения (количество примененных событий)
+  const cursorRef = useRef(0);
+  const recordingRef = useRef<SessionRecording | null>(null);
+
+  // Store callbacks in refs to avoid recreation
+  const onMessageRef = useRef(onMessage);
+  const onResetRef = useRef(onReset);
+  const addLogRef = useRef(addLog);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    onResetRef.current = onReset;
+  }, [onReset]);
+
+  useEffect(() => {
+    addLogRef.current = addLog;
+  }, [addLog]);
+
+  const tickIndex = useMemo(
+    () => (recording ? buildSessionTickIndex(recording) : []),
+    [recording],
+  );
+
+  const minTick = tickIndex.length > 0 ? tickIndex[0] : 0;
+  const maxTick = tickIndex.length > 0 ? tickIndex[tickIndex.length - 1] : 0;
+  const currentTick = cursor > 0 ? tickIndex[cursor - 1] : minTick;
+
+  /**
+   * Применяет одно событие записи
+   */
+  const applyEvent = useCallback((event: SessionRecordingEvent) => {
+    if (event.direction === "out") {
+      addLogRef.current(
+        `[replay] > ${event.command.action}`,
+        LogType.COMMAND,
+        event.command,
+      );
+      return;
+    }
+
+    const result = decodeServerMessage(event.data);
+    if (result.ok === false) {
+      const rawType = (event.data as { type?: unknown } | null)?.type;
+      addLogRef.current(
+        formatDecodeErrors(
+          typeof rawType === "string" ? rawType : "?",
+          result.errors,
+        ),
+        LogType.ERROR,
+      );
+      return;
+    }
+    onMessageRef.current(result.value);
+  }, []);
+
+  /**
+   * Перематывает на позицию (количество примененных событий)
+   */
+  const seekToEvent = useCallback(
+    (count: number) => {
+      const current = recordingRef.current;
+      if (!current) {
+        return;
+      }
+
+      const target = Math.max(0, Math.min(count, current.events.length));
+      onResetRef.current();
+      for (let i = 0; i < target; i++) {
+        applyEvent(current.events[i]);
+      }
+
+      cursorRef.current = target;
+      setCursor(target);
+      if (target >= current.events.length) {
+        setIsPlaying(false);
+      }
+    },
+    [applyEvent],
+  );
+
+  // Воспроизведение: планируем следующее событие по исходному интервалу
+  useEffect(() => {
+    if (!isPlaying || !recording || cursor >= recording.events.length) {
+      return;
+    }
+
+    const previous = cursor > 0 ? recording.events[cursor - 1].t : 0;
+    const gap = Math.min(
+      recording.events[cursor].t - previous,
+      MAX_REPLAY_GAP_MS,
+    );
+
+    const timer = setTimeout(
+      () => {
+        const current = recordingRef.current;
+        const index = cursorRef.current;
+        if (!current || index >= current.events.length) {
+          setIsPlaying(false);
+          return;
+        }
+
+        applyEvent(current.events[index]);
+        cursorRef.current = index + 1;
+        setCursor(index + 1);
+        if (index + 1 >= current.events.length) {
+          setIsPlaying(false);
+        }
+      },
+      Math.max(0, gap) / speed,
+    );
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, recording, cursor, speed, applyEvent]);
+
+  /**
+   * Загружает запись и сбрасывает состояние
+   *
+   * @param next - запись сессии
+   */
+  const load = useCallback((next: SessionRecording) => {
+    onResetRef.current();
+    recordingRef.current = next;
+    cursorRef.current = 0;
+    setRecording(next);
+    setCursor(0);
+    setIsPlaying(false);
+  }, []);
+
+  /**
+   * Выгружает запись и выходит из режима воспроизведения
+   */
+  const eject = useCallback(() => {
+    recordingRef.current = null;
+    cursorRef.current = 0;
+    setRecording(null);
+    setCursor(0);
+    setIsPlaying(false);
+    onResetRef.current();
+  }, []);
+
+  /**
+   * Запускает воспроизведение (с начала, если запись проиграна до конца)
+   */
+  const play = useCallback(() => {
+    const current = recordingRef.current;
+    if (!current) {
+      return;
+    }
+    if (cursorRef.current >= current.events.length) {
+      seekToEvent(0);
+    }
+    setIsPlaying(true);
+  }, [seekToEvent]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  /**
+   * Перематывает на тик: применяются все события до этого тика включительно
+   *
+   * @param tick - целевой тик
+   */
+  const seekToTick = useCallback(
+    (tick: number) => {
+      seekToEvent(findSessionEventCountForTick(tickIndex, tick));
+    },
+    [seekToEvent, tickIndex],
+  );
+
+  return {
+    recording,
+    isReplaying: recording !== null,
+    isPlaying,
+    speed,
+    setSpeed,
+    cursor,
+    eventCount: recording?.events.length ?? 0,
+    currentTick,
+    minTick,
+    maxTick,
+    load,
+    eject,
+    play,
+    pause,
+    seekToTick,
+  };
+};
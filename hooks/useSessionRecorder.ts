@@ -0,0 +1,117 @@
+import {useCallback, useRef, useState} from "react";
+
+import {ClientToServerCommand, SessionRecording} from "../types";
+import {downloadTextFile} from "../utils/download";
+import {
+  createSessionRecording,
+  getSessionRecordingFileName,
+  serializeSessionRecording,
+} from "../utils/sessionRecording";
+
+/**
+ * React Hook для записи сессии
+ *
+ * Записывает все входящие сообщения WebSocket и исходящие команды
+ * с временными метками. Запись можно скачать файлом и воспроизвести
+ * через useReplay.
+ *
+ * @example
+ * ```typescript
+ * const recorder = useSessionRecorder();
+ * recorder.start(url);
+ * // ... recorder.recordInbound(data.data) в обработчике сообщений
+ * recorder.stop();
+ * recorder.download();
+ * ```
+ */
+export const useSessionRecorder = () => {
+  const recordingRef = useRef<SessionRecording | null>(null);
+  const isRecordingRef = useRef(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [eventCount, setEventCount] = useState(0);
+
+  /**
+   * Начинает новую запись (предыдущая отбрасывается)
+   *
+   * @param serverUrl - URL сервера для метаданных записи
+   */
+  const start = useCallback((serverUrl: string | null = null) => {
+    recordingRef.current = createSessionRecording(serverUrl);
+    isRecordingRef.current = true;
+    setIsRecording(true);
+    setEventCount(0);
+  }, []);
+
+  /**
+   * Останавливает запись, записанные события сохраняются
+   */
+  const stop = useCallback(() => {
+    isRecordingRef.current = false;
+    setIsRecording(false);
+  }, []);
+
+  /**
+   * Записывает входящее сообщение
+   *
+   * @param data - сырой payload сообщения
+   */
+  const recordInbound = useCallback((data: unknown) => {
+    const recording = recordingRef.current;
+    if (!isRecordingRef.current || !recording) {
+      return;
+    }
+    recording.events.push({
+      t: Date.now() - recording.startedAt,
+      direction: "in",
+      data,
+    });
+    setEventCount(recording.events.length);
+  }, []);
+
+  /**
+   * Записывает исходящую команду
+   *
+   * @param command - отправленная команда
+   */
+  const recordOutbound = useCallback((command: ClientToServerCommand) => {
+    const recording = recordingRef.current;
+    if (!isRecordingRef.current || !recording) {
+      return;
+    }
+    recording.events.push({
+      t: Date.now() - recording.startedAt,
+      direction: "out",
+      command,
+    });
+    setEventCount(recording.events.length);
+  }, []);
+
+  /**
+   * Скачивает текущую запись файлом
+   *
+   * @returns false если записи нет
+   */
+  const download = useCallback((): boolean => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      return false;
+    }
+
+    downloadTextFile(
+      serializeSessionRecording(recording),
+      getSessionRecordingFileName(recording),
+      "application/json",
+    );
+    return true;
+  }, []);
+
+  return {
+    isRecording,
+    eventCount,
+    start,
+    stop,
+    recordInbound,
+    recordOutbound,
+    download,
+  };
+};
@@ -0,0 +1,182 @@
+import {useCallback, useEffect, useRef} from "react";
+
+import {LogType} from "../types";
+import {DecodedServerMessage, isSnapshotMessage} from "../utils/protocolDecoder";
+
+/** Сколько ждать подтверждения повторного входа (мс) */
+const RESUME_TIMEOUT = 10000;
+
+/**
+ * Успешный вход, который можно повторить после переподключения
+ */
+interface RememberedLogin {
+  serverUrl: string;
+  /** null — вход наблюдателем (SPECTATE) */
+  token: string | null;
+}
+
+interface UseSessionResumeProps {
+  isConnected: boolean;
+  /** URL текущего сервера (null — сервер не выбран) */
+  serverUrl: string | null;
+  loginError: string | null;
+  /** Повторяет LOGIN (или SPECTATE при token === null) и запрашивает снимок */
+  onResume: (token: string | null) => void;
+  addLog: (text: string, type: LogType) => void;
+}
+
+/**
+ * React Hook для автоматического возобновления сессии
+ *
+ * Запоминает последний успешный LOGIN (сервер + token) и повторяет его,
+ * когда соединение с тем же сервером восстанавливается. Вход считается
+ * успешным, когда после него пришел снимок с ожидаемым `myEntityId` (у
+ * наблюдателя — любой снимок); отказ (loginError) забывает сохраненный вход.
+ * Об успехе повторного входа сообщается только после подтверждения, об
+ * отказе или отсутствии ответа за RESUME_TIMEOUT — сообщением об ошибке.
+ *
+ * @example
+ * ```typescript
+ * const { rememberLogin, handleServerMessage } = useSessionResume({
+ *   isConnected,
+ *   serverUrl,
+ *   loginError,
+ *   onResume: (token) => commandLogin(token),
+ *   addLog,
+ * });
+ * ```
+ */
+export const useSessionResume = ({
+  isConnected,
+  serverUrl,
+  loginError,
+  onResume,
+  addLog,
+}: UseSessionResumeProps) => {
+  const pendingLoginRef = useRef<RememberedLogin | null>(null);
+  const rememberedLoginRef = useRef<RememberedLogin | null>(null);
+  const wasConnectedRef = useRef(false);
+  // Повторный вход ждет подтверждения
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onResumeRef = useRef(onResume);
+  const addLogRef = useRef(addLog);
+
+  useEffect(() => {
+    onResumeRef.current = onResume;
+  }, [onResume]);
+
+  useEffect(() => {
+    addLogRef.current = addLog;
+  }, [addLog]);
+
+  const stopResumeTimer = () => {
+    if (!resumeTimerRef.current) {
+      return false;
+    }
+    clearTimeout(resumeTimerRef.current);
+    resumeTimerRef.current = null;
+    return true;
+  };
+
+  useEffect(() => () => void stopResumeTimer(), []);
+
+  // LOGIN rejected: never replay it
+  useEffect(() => {
+    if (loginError) {
+      pendingLoginRef.current = null;
+      rememberedLoginRef.current = null;
+      if (stopResumeTimer()) {
+        addLogRef.current(
+          `Could not resume session: ${loginError}`,
+          LogType.ERROR,
+        );
+      }
+    }
+  }, [loginError]);
+
+  // Connection restored: replay the remembered LOGIN
+  useEffect(() => {
+    const wasConnected = wasConnectedRef.current;
+    wasConnectedRef.current = isConnected;
+    if (!isConnected) {
+      // Dropped again before the reply: the next reconnect retries
+      stopResumeTimer();
+      return;
+    }
+    if (wasConnected) {
+      return;
+    }
+
+    const remembered = rememberedLoginRef.current;
+    if (!remembered || remembered.serverUrl !== serverUrl) {
+      return;
+    }
+
+    const who = remembered.token ?? "spectator";
+    addLogRef.current(
+      `Connection restored, resuming session as ${who}...`,
+      LogType.INFO,
+    );
+    stopResumeTimer();
+    resumeTimerRef.current = setTimeout(() => {
+      resumeTimerRef.current = null;
+      pendingLoginRef.current = null;
+      addLogRef.current(
+        `Could not resume session as ${who}: the server did not confirm the login`,
+        LogType.ERROR,
+      );
+    }, RESUME_TIMEOUT);
+    pendingLoginRef.current = remembered;
+    onResumeRef.current(remembered.token);
+  }, [isConnected, serverUrl]);
+
+  /**
+   * Запоминает отправленный LOGIN (станет сохраненным после ответа сервера)
+   *
+   * @param token - ID сущности / token входа, null — наблюдатель
+   */
+  const rememberLogin = useCallback(
+    (token: string | null) => {
+      pendingLoginRef.current = serverUrl ? { serverUrl, token } : null;
+    },
+    [serverUrl],
+  );
+
+  /**
+   * Забывает отправленный и сохраненный вход: после переподключения
+   * клиент не войдет ни персонажем, ни наблюдателем
+   */
+  const forgetLogin = useCallback(() => {
+    pendingLoginRef.current = null;
+    rememberedLoginRef.current = null;
+  }, []);
+
+  /**
+   * Подтверждает отправленный LOGIN по снимку с сущностью игрока
+   *
+   * @param msg - проверенное сообщение сервера
+   */
+  const handleServerMessage = useCallback((msg: DecodedServerMessage) => {
+    const pending = pendingLoginRef.current;
+    if (
+      pending &&
+      isSnapshotMessage(msg) &&
+      (pending.token === null || msg.myEntityId === pending.token)
+    ) {
+      rememberedLoginRef.current = pending;
+      pendingLoginRef.current = null;
+      if (stopResumeTimer()) {
+        addLogRef.current(
+          `Session resumed as ${pending.token ?? "spectator"}`,
+          LogType.SUCCESS,
+        );
+      }
+    }
+  }, []);
+
+  return {
+    rememberLogin,
+    forgetLogin,
+    handleServerMessage,
+  };
+};
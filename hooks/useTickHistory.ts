@@ -0,0 +1,124 @@
+import {useCallback, useEffect, useState} from "react";
+
+import {TICK_HISTORY_SIZE} from "../constants";
+import {GameStore} from "../services/gameStore";
+import {appendTickSnapshot, findTickSnapshotIndex} from "../utils/tickHistory";
+
+interface UseTickHistoryProps {
+  store: GameStore;
+}
+
+/**
+ * React Hook для истории состояний по тикам
+ *
+ * Записывает каждое новое состояние мира из хранилища в ограниченный
+ * буфер (GameStoreState.tickHistory) и позволяет просматривать мир на
+ * прошедших тиках. Сам хук перерисовывает владельца только при переходах
+ * по истории: снимки читают компоненты (useViewedTickSnapshot,
+ * useTickSnapshots). Сброс мира (world = null) очищает историю.
+ *
+ * @example
+ * ```typescript
+ * const history = useTickHistory({ store });
+ * history.stepBack();
+ * const snapshot = useViewedTickSnapshot(history.viewedTick);
+ * history.returnToPresent();
+ * ```
+ */
+export const useTickHistory = ({ store }: UseTickHistoryProps) => {
+  // Просматриваемый тик (null — настоящее)
+  const [viewedTick, setViewedTick] = useState<number | null>(null);
+
+  // Запись нового состояния сразу после его появления в хранилище
+  useEffect(() => {
+    let recorded = store.getState();
+    return store.subscribe(() => {
+      const state = store.getState();
+      const { world, player, entities } = state;
+      if (
+        recorded.world === world &&
+        recorded.player === player &&
+        recorded.entities === entities
+      ) {
+        return;
+      }
+      recorded = state;
+      const history = world
+        ? appendTickSnapshot(
+          state.tickHistory,
+          { tick: world.globalTick, world, player, entities },
+          TICK_HISTORY_SIZE,
+        )
+        : [];
+      // History restarted: nothing to look back at
+      if (history.length <= 1) {
+        setViewedTick(null);
+      }
+      store.setState({ tickHistory: history });
+    });
+  }, [store]);
+
+  const isViewingHistory = viewedTick !== null;
+
+  /**
+   * Показывает мир на указанном тике (тик настоящего — выход из истории)
+   */
+  const viewTick = useCallback(
+    (tick: number) => {
+      const history = store.getState().tickHistory;
+      const presentTick = history[history.length - 1]?.tick ?? null;
+      setViewedTick(presentTick !== null && tick >= presentTick ? null : tick);
+    },
+    [store],
+  );
+
+  /**
+   * Показывает мир по индексу снимка в истории
+   */
+  const viewIndex = useCallback(
+    (index: number) => {
+      const history = store.getState().tickHistory;
+      const snapshot = history[Math.max(0, Math.min(index, history.length - 1))];
+      if (snapshot) {
+        viewTick(snapshot.tick);
+      }
+    },
+    [store, viewTick],
+  );
+
+  /**
+   * Индекс просматриваемого снимка (настоящее — последний)
+   */
+  const getViewedIndex = useCallback(() => {
+    const history = store.getState().tickHistory;
+    return viewedTick === null
+      ? history.length - 1
+      : findTickSnapshotIndex(history, viewedTick);
+  }, [store, viewedTick]);
+
+  /** Предыдущий записанный тик */
+  const stepBack = useCallback(() => {
+    viewIndex(getViewedIndex() - 1);
+  }, [getViewedIndex, viewIndex]);
+
+  /** Следующий записанный тик (с последнего — возврат в настоящее) */
+  const stepForward = useCallback(() => {
+    if (viewedTick !== null) {
+      viewIndex(getViewedIndex() + 1);
+    }
+  }, [viewedTick, getViewedIndex, viewIndex]);
+
+  const returnToPresent = useCallback(() => {
+    setViewedTick(null);
+  }, []);
+
+  return {
+    viewedTick,
+    isViewingHistory,
+    viewTick,
+    viewIndex,
+    stepBack,
+    stepForward,
+    returnToPresent,
+  };
+};
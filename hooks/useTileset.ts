@@ -0,0 +1,35 @@
+import {useEffect, useState} from "react";
+
+import {TILESET_MANIFEST_URL} from "../constants";
+import {loadTileset} from "../services/tileset";
+import {Tileset, TileMode} from "../types";
+
+/**
+ * Тайлсет для графического режима карты
+ *
+ * Тайлсет загружается при первом включении режима "tiles" и остается
+ * в памяти, поэтому повторное переключение мгновенное.
+ *
+ * @param mode - режим отображения карты
+ * @returns тайлсет или null (ASCII-режим, загрузка или ошибка загрузки)
+ */
+export const useTileset = (mode: TileMode): Tileset | null => {
+  const [tileset, setTileset] = useState<Tileset | null>(null);
+
+  useEffect(() => {
+    if (mode !== "tiles") {
+      return;
+    }
+    let cancelled = false;
+    loadTileset(TILESET_MANIFEST_URL).then((loaded) => {
+      if (!cancelled) {
+        setTileset(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
+  return mode === "tiles" ? tileset : null;
+};
@@ -7,19 +7,30 @@ import {
   ReconnectAttemptEventData,
   WebSocketConfig,
   WebSocketEvent,
-  WebSocketService,
 } from "@cognitive-dungeon/agent-sdk";
 
 
+import {GameConnection, SocketConnection} from "../services/gameConnection";
+import {isMockServerUrl, MockConnection} from "../services/mockServer";
 import {ClientToServerCommand, LogType} from "../types";
+import {
+  DecodedServerMessage,
+  isServerErrorMessage,
+} from "../utils/protocolDecoder";
+
+import type {NetworkDiagnostics} from "./useNetworkDiagnostics";
 
 interface UseWebSocketProps {
-  onMessage: (data: any) => void;
+  onMessage: (data: DecodedServerMessage) => void;
+  /** Вызывается для каждого входящего сообщения до проверки (запись сессии) */
+  onRawMessage?: (data: unknown) => void;
   onConnectionChange: (isConnected: boolean) => void;
   onAuthenticationChange: (isAuthenticated: boolean) => void;
   onReconnectChange: (isReconnecting: boolean, attempt: number) => void;
   onLoginError: (error: string | null) => void;
   addLog: (text: string, type: LogType) => void;
+  /** Учет трафика и декодирования (см. useNetworkDiagnostics) */
+  diagnostics: NetworkDiagnostics;
   autoConnect?: boolean; // Auto-connect on mount
   config?: WebSocketConfig;
 }
@@ -27,7 +38,8 @@ interface UseWebSocketProps {
 /**
  * React Hook для управления WebSocket соединением
  *
- * Использует WebSocketService для всей логики работы с WebSocket.
+ * Использует WebSocketService (через SocketConnection) для всей логики
+ * работы с WebSocket, а для mock-сервера — MockConnection.
  * Предоставляет простой интерфейс для отправки команд и получения событий.
  *
  * @example
@@ -41,30 +53,41 @@ interface UseWebSocketProps {
  */
 export const useWebSocket = ({
   onMessage,
+  onRawMessage,
   onConnectionChange,
   onAuthenticationChange,
   onReconnectChange,
   onLoginError,
   addLog,
+  diagnostics,
   autoConnect = false,
   config = {},
 }: UseWebSocketProps) => {
-  const serviceRef = useRef<WebSocketService | null>(null);
+  // Активное соединение: WebSocket или локальный mock-сервер
+  const serviceRef = useRef<GameConnection | null>(null);
+  const socketServiceRef = useRef<SocketConnection | null>(null);
+  const mockServiceRef = useRef<GameConnection | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Store callbacks in refs to avoid recreation
   const onMessageRef = useRef(onMessage);
+  const onRawMessageRef = useRef(onRawMessage);
   const onConnectionChangeRef = useRef(onConnectionChange);
   const onAuthenticationChangeRef = useRef(onAuthenticationChange);
   const onReconnectChangeRef = useRef(onReconnectChange);
   const onLoginErrorRef = useRef(onLoginError);
   const addLogRef = useRef(addLog);
+  const diagnosticsRef = useRef(diagnostics);
 
   // Keep refs up to date
   useEffect(() => {
     onMessageRef.current = onMessage;
   }, [onMessage]);
 
+  useEffect(() => {
+    onRawMessageRef.current = onRawMessage;
+  }, [onRawMessage]);
+
   useEffect(() => {
     onConnectionChangeRef.current = onConnectionChange;
   }, [onConnectionChange]);
@@ -85,23 +108,20 @@ export const useWebSocket = ({
     addLogRef.current = addLog;
   }, [addLog]);
 
-  // Initialize WebSocketService and setup event listeners
   useEffect(() => {
-    // Создаем сервис с конфигурацией (без автоподключения)
-    const serviceConfig: WebSocketConfig = {
-      maxReconnectAttempts: 10,
-      reconnectDelay: 3000,
-      autoReconnect: true,
-      debug: false,
-      ...config,
-    };
-    const service = new WebSocketService(serviceConfig);
-
-    serviceRef.current = service;
-    setIsInitialized(true);
+    diagnosticsRef.current = diagnostics;
+  }, [diagnostics]);
 
+  /**
+   * Подписывает обработчики на события сервиса
+   *
+   * Обработчики читают только refs, поэтому функция стабильна и
+   * используется и для WebSocket, и для локального mock-сервера.
+   */
+  const bindServiceEvents = useCallback((service: GameConnection) => {
     // Обработка события подключения
     service.on(WebSocketEvent.CONNECTED, () => {
+      diagnosticsRef.current.recordConnection("connected");
       onConnectionChangeRef.current(true);
       onReconnectChangeRef.current(false, 0);
       onLoginErrorRef.current(null);
@@ -110,6 +130,10 @@ export const useWebSocket = ({
 
     // Обработка события отключения
     service.on(WebSocketEvent.DISCONNECTED, (data: DisconnectedEventData) => {
+      diagnosticsRef.current.recordConnection(
+        "disconnected",
+        `code ${data.code}`,
+      );
       onConnectionChangeRef.current(false);
       addLogRef.current(
         `Disconnected from server (${data.code})`,
@@ -120,15 +144,19 @@ export const useWebSocket = ({
     // Обработка входящих сообщений
     service.on(WebSocketEvent.MESSAGE, (data: MessageEventData) => {
       try {
-        const msg = data.data;
+        onRawMessageRef.current?.(data.data);
+
+        // Malformed payloads never reach the game state
+        const result = diagnosticsRef.current.decodeInbound(data.data);
+        if (result.ok === false) {
+          addLogRef.current(result.error, LogType.ERROR);
+          return;
+        }
+
+        const msg = result.value;
 
         // Handle error responses from server
-        if (
-          msg &&
-          typeof msg === "object" &&
-          "error" in msg &&
-          typeof msg.error === "string"
-        ) {
+        if (isServerErrorMessage(msg)) {
           addLogRef.current(`Server error: ${msg.error}`, LogType.ERROR);
 
           // If error during login (like "Entity not found"), reset authentication
@@ -158,6 +186,10 @@ export const useWebSocket = ({
     service.on(
       WebSocketEvent.RECONNECT_ATTEMPT,
       (data: ReconnectAttemptEventData) => {
+        diagnosticsRef.current.recordConnection(
+          "reconnecting",
+          `attempt ${data.attempt}/${data.maxAttempts}`,
+        );
         onReconnectChangeRef.current(true, data.attempt);
         addLogRef.current(
           `Reconnecting... (attempt ${data.attempt}/${data.maxAttempts})`,
@@ -171,6 +203,7 @@ export const useWebSocket = ({
       console.error(`[WebSocket Error] ${data.type}:`, data.message);
 
       if (data.type === "connection") {
+        diagnosticsRef.current.recordConnection("error", data.message);
         addLogRef.current(`Connection error: ${data.message}`, LogType.ERROR);
 
         // Если превышено максимальное количество попыток
@@ -184,6 +217,24 @@ export const useWebSocket = ({
     service.on(WebSocketEvent.AUTH_CHANGE, (data) => {
       onAuthenticationChangeRef.current(data.isAuthenticated);
     });
+  }, []);
+
+  // Initialize the WebSocket connection and setup event listeners
+  useEffect(() => {
+    // Создаем сервис с конфигурацией (без автоподключения)
+    const serviceConfig: WebSocketConfig = {
+      maxReconnectAttempts: 10,
+      reconnectDelay: 3000,
+      autoReconnect: true,
+      debug: false,
+      ...config,
+    };
+    const service = new SocketConnection(serviceConfig);
+    bindServiceEvents(service);
+
+    serviceRef.current = service;
+    socketServiceRef.current = service;
+    setIsInitialized(true);
 
     // Подключаемся к серверу только если autoConnect = true
     if (autoConnect) {
@@ -193,6 +244,9 @@ export const useWebSocket = ({
     // Cleanup при размонтировании
     return () => {
       service.destroy();
+      mockServiceRef.current?.destroy();
+      mockServiceRef.current = null;
+      socketServiceRef.current = null;
       serviceRef.current = null;
       setIsInitialized(false);
     };
@@ -205,17 +259,34 @@ export const useWebSocket = ({
    * @param url - URL WebSocket сервера
    */
   const connect = useCallback((url: string) => {
-    if (!serviceRef.current) {
+    if (!socketServiceRef.current) {
       addLogRef.current("WebSocket service not initialized", LogType.ERROR);
       return;
     }
 
-    // Обновляем конфиг с новым URL
-    (serviceRef.current as any).config.url = url;
+    if (isMockServerUrl(url)) {
+      if (!mockServiceRef.current) {
+        const mock = new MockConnection();
+        bindServiceEvents(mock);
+        mockServiceRef.current = mock;
+      }
+      if (socketServiceRef.current.isConnected()) {
+        socketServiceRef.current.disconnect();
+      }
+      serviceRef.current = mockServiceRef.current;
+      serviceRef.current.connect();
+      return;
+    }
+
+    if (mockServiceRef.current?.isConnected()) {
+      mockServiceRef.current.disconnect();
+    }
+    socketServiceRef.current.setUrl(url);
+    serviceRef.current = socketServiceRef.current;
 
     // Подключаемся
     serviceRef.current.connect();
-  }, []);
+  }, [bindServiceEvents]);
 
   /**
    * Отключение от сервера
@@ -243,6 +314,13 @@ export const useWebSocket = ({
       queue: true, // Добавлять в очередь, если не подключено
     });
 
+    if (result.success || result.queued) {
+      diagnosticsRef.current.recordOutbound(
+        command,
+        !result.success && Boolean(result.queued),
+      );
+    }
+
     if (!result.success && !result.queued) {
       addLogRef.current(
         result.error || "Failed to send command",
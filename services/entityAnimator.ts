@@ -0,0 +1,179 @@
+import {AnimationSettings, Entity, LogMessage} from "../types";
+import {readCombatLog} from "../utils/combatLog";
+import {
+  diffEntitySnapshots,
+  EMPTY_ENTITY_ANIMATION_STATE,
+  EntityAnimationState,
+  getNextEffectEnd,
+  pruneEntityAnimations,
+  startDeath,
+  startLunge,
+} from "../utils/entityAnimations";
+
+/**
+ * Источник анимаций сущностей вне React
+ *
+ * Получает снимки сущностей и сообщения лога, выводит из них эффекты
+ * (см. utils/entityAnimations, utils/combatLog) и сам убирает
+ * закончившиеся. Компоненты подписываются на состояние так же, как на
+ * хранилище игры.
+ *
+ * Сервер может прислать сообщение о смерти раньше или позже снимка, в
+ * котором сущность исчезла, поэтому обе половины ждут друг друга
+ * DEATH_MATCH_WINDOW.
+ */
+
+/** Сколько исчезнувшая сущность или сообщение о смерти ждут пару (мс) */
+const DEATH_MATCH_WINDOW = 500;
+
+export interface EntityAnimator {
+  getState: () => EntityAnimationState;
+  /** @returns функция отписки */
+  subscribe: (listener: () => void) => () => void;
+  setSettings: (settings: AnimationSettings) => void;
+  /** Новый снимок сущностей карты */
+  updateEntities: (entities: Entity[], now: number) => void;
+  /**
+   * Сообщения лога; уже разобранные пропускаются
+   * @param viewerId - свой персонаж («you» в тексте сообщений)
+   */
+  updateLogs: (
+    logs: LogMessage[],
+    viewerId: string | null,
+    now: number,
+  ) => void;
+  /** Останавливает таймер очистки */
+  dispose: () => void;
+}
+
+/**
+ * Создает источник анимаций
+ */
+export function createEntityAnimator(
+  initialSettings: AnimationSettings,
+): EntityAnimator {
+  let settings = initialSettings;
+  let state = EMPTY_ENTITY_ANIMATION_STATE;
+  let snapshot: Map<string, Entity> | null = null;
+  // Последнее разобранное сообщение (undefined — еще ни одного вызова)
+  let lastLogId: string | null | undefined = undefined;
+  // Исчезнувшие сущности и имена из сообщений о смерти, еще без пары
+  let removed: { entity: Entity; at: number }[] = [];
+  let deathMentions: { ids: Set<string>; at: number }[] = [];
+  let pruneTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<() => void>();
+
+  const schedulePrune = () => {
+    if (pruneTimer) {
+      clearTimeout(pruneTimer);
+      pruneTimer = null;
+    }
+    const end = getNextEffectEnd(state);
+    if (end !== null) {
+      pruneTimer = setTimeout(
+        () => setState(pruneEntityAnimations(state, Date.now())),
+        Math.max(0, end - Date.now()),
+      );
+    }
+  };
+
+  const setState = (next: EntityAnimationState) => {
+    if (next === state) {
+      return;
+    }
+    state = next;
+    schedulePrune();
+    listeners.forEach((listener) => listener());
+  };
+
+  const forgetStale = (now: number) => {
+    removed = removed.filter(({ at }) => now - at < DEATH_MATCH_WINDOW);
+    deathMentions = deathMentions.filter(
+      ({ at }) => now - at < DEATH_MATCH_WINDOW,
+    );
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setSettings: (next) => {
+      settings = next;
+    },
+    updateEntities: (entities, now) => {
+      const previous = snapshot;
+      snapshot = new Map(entities.map((entity) => [entity.id, entity]));
+      if (!previous) {
+        return;
+      }
+      forgetStale(now);
+      const diff = diffEntitySnapshots(state, previous, entities, settings, now);
+      let next = diff.state;
+      diff.removed.forEach((entity) => {
+        const mention = deathMentions.find(({ ids }) => ids.has(entity.id));
+        if (mention) {
+          next = startDeath(next, entity, settings, now);
+          mention.ids.delete(entity.id);
+        } else {
+          removed.push({ entity, at: now });
+        }
+      });
+      setState(next);
+    },
+    updateLogs: (logs, viewerId, now) => {
+      // Сообщения до первого вызова уже в прошлом
+      if (lastLogId === undefined) {
+        lastLogId = logs[logs.length - 1]?.id ?? null;
+        return;
+      }
+      // Новые — после последнего разобранного; если его уже нет в логе
+      // (ушел в архив или лог очищен), новые все
+      const fresh = logs.slice(
+        logs.findIndex((log) => log.id === lastLogId) + 1,
+      );
+      if (fresh.length === 0) {
+        return;
+      }
+      lastLogId = fresh[fresh.length - 1].id;
+      forgetStale(now);
+      const known = [
+        ...Array.from(snapshot?.values() ?? []),
+        ...removed.map(({ entity }) => entity),
+      ];
+      let next = state;
+      fresh.forEach((log) => {
+        const event = readCombatLog(log, known, viewerId);
+        if (!event) {
+          return;
+        }
+        if (event.attacker && event.target) {
+          next = startLunge(next, event.attacker, event.target, settings, now);
+        }
+        if (!event.isDeath) {
+          return;
+        }
+        const ids = new Set(event.mentions.flat().map((entity) => entity.id));
+        const gone = removed.filter(({ entity }) => ids.has(entity.id));
+        gone.forEach(({ entity }) => {
+          next = startDeath(next, entity, settings, now);
+          ids.delete(entity.id);
+        });
+        removed = removed.filter((item) => !gone.includes(item));
+        if (ids.size > 0) {
+          deathMentions.push({ ids, at: now });
+        }
+      });
+      setState(next);
+    },
+    dispose: () => {
+      if (pruneTimer) {
+        clearTimeout(pruneTimer);
+        pruneTimer = null;
+      }
+    },
+  };
+}
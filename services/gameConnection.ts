@@ -0,0 +1,84 @@
+/**
+ * Game Connection
+ *
+ * Соединение с игровым сервером — та часть API WebSocketService, которой
+ * пользуются хуки соединений (useWebSocket, useParty). Реализуется
+ * адаптером над WebSocketService (SocketConnection) и локальным
+ * mock-сервером (MockConnection), поэтому хуки не зависят от того, куда
+ * подключен клиент.
+ */
+
+import {
+  SendOptions,
+  SendResult,
+  WebSocketConfig,
+  WebSocketEvent,
+  WebSocketService,
+} from "@cognitive-dungeon/agent-sdk";
+
+import type {ClientToServerCommand} from "../types";
+
+export interface GameConnection {
+  /** Подписка на событие соединения (CONNECTED, MESSAGE, ...) */
+  on(event: WebSocketEvent, listener: (data: any) => void): void;
+  connect(): void;
+  disconnect(): void;
+  /** Закрывает соединение и снимает все подписки */
+  destroy(): void;
+  send(command: ClientToServerCommand, options?: SendOptions): SendResult;
+  isConnected(): boolean;
+  setAuthenticated(value: boolean): void;
+  /** Транспортные метрики (undefined, если соединение их не ведет) */
+  getMetrics(): unknown;
+}
+
+/**
+ * Соединение через WebSocket
+ */
+export class SocketConnection implements GameConnection {
+  private service: WebSocketService;
+
+  constructor(config: WebSocketConfig) {
+    this.service = new WebSocketService(config);
+  }
+
+  /**
+   * Меняет адрес сервера для следующего connect()
+   */
+  setUrl(url: string) {
+    // WebSocketService reads the url from its config on every connect
+    (this.service as any).config.url = url;
+  }
+
+  on(event: WebSocketEvent, listener: (data: any) => void) {
+    this.service.on(event, listener);
+  }
+
+  connect() {
+    this.service.connect();
+  }
+
+  disconnect() {
+    this.service.disconnect();
+  }
+
+  destroy() {
+    this.service.destroy();
+  }
+
+  send(command: ClientToServerCommand, options?: SendOptions): SendResult {
+    return this.service.send(command, options);
+  }
+
+  isConnected(): boolean {
+    return this.service.isConnected();
+  }
+
+  setAuthenticated(value: boolean) {
+    this.service.setAuthenticated(value);
+  }
+
+  getMetrics(): unknown {
+    return this.service.getMetrics();
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  Entity,
+  GameState,
+  GameWorld,
+  Item,
+  LogMessage,
+  RememberedEntity,
+  SpeechBubble,
+} from "../types";
+import {deriveGameState} from "../utils/gameRun";
+import type {SessionStats} from "../utils/sessionStats";
+import type {TickSnapshot} from "../utils/tickHistory";
+
+/**
+ * Хранилище игровых данных вне React
+ *
+ * useGameState пишет сюда обновления сервера, а компоненты читают только
+ * нужный им срез через селекторы (см. hooks/useGameStore). Подписчики
+ * уведомляются синхронно после каждого setState; сравнение срезов
+ * выполняют сами подписчики.
+ */
+
+/**
+ * Игровые данные текущей сессии
+ */
+export interface GameStoreState {
+  world: GameWorld | null;
+  /** Свой персонаж (null у наблюдателя) */
+  player: Entity | null;
+  /** Остальные известные сущности */
+  entities: Entity[];
+  /** Последние сообщения лога, более старые — в архиве (services/logArchive) */
+  logs: LogMessage[];
+  /** Сколько сообщений перенесено в архив */
+  archivedLogCount: number;
+  activeEntityId: string | null;
+  speechBubbles: SpeechBubble[];
+  /** Призраки: последние известные позиции ушедших из вида сущностей */
+  rememberedEntities: RememberedEntity[];
+  /** Статистика сессии своего персонажа (см. utils/sessionStats) */
+  sessionStats: SessionStats | null;
+  /** Прошлые состояния мира по тикам (см. hooks/useTickHistory) */
+  tickHistory: TickSnapshot[];
+}
+
+export type GameStoreUpdate =
+  | Partial<GameStoreState>
+  | ((state: GameStoreState) => Partial<GameStoreState>);
+
+export interface GameStore {
+  getState: () => GameStoreState;
+  setState: (update: GameStoreUpdate) => void;
+  /** @returns функция отписки */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const EMPTY_GAME_STORE_STATE: GameStoreState = {
+  world: null,
+  player: null,
+  entities: [],
+  logs: [],
+  archivedLogCount: 0,
+  activeEntityId: null,
+  speechBubbles: [],
+  rememberedEntities: [],
+  sessionStats: null,
+  tickHistory: [],
+};
+
+/**
+ * Создает хранилище игровых данных
+ * @param initial - начальные значения (остальное — пустое состояние)
+ */
+export function createGameStore(
+  initial: Partial<GameStoreState> = {},
+): GameStore {
+  let state: GameStoreState = { ...EMPTY_GAME_STORE_STATE, ...initial };
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const patch = typeof update === "function" ? update(state) : update;
+      const changed = (Object.keys(patch) as (keyof GameStoreState)[]).some(
+        (key) => patch[key] !== state[key],
+      );
+      if (!changed) {
+        return;
+      }
+      state = { ...state, ...patch };
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Селекторы верхнего уровня (стабильные ссылки для подписок)
+
+export const selectWorld = (state: GameStoreState) => state.world;
+export const selectPlayer = (state: GameStoreState) => state.player;
+const NO_ITEMS: Item[] = [];
+export const selectPlayerInventory = (state: GameStoreState) =>
+  state.player?.inventory ?? NO_ITEMS;
+export const selectPlayerInventoryData = (state: GameStoreState) =>
+  state.player?.inventoryData ?? null;
+export const selectPlayerEquipment = (state: GameStoreState) =>
+  state.player?.equipment ?? null;
+export const selectEntities = (state: GameStoreState) => state.entities;
+export const selectLogs = (state: GameStoreState) => state.logs;
+export const selectArchivedLogCount = (state: GameStoreState) =>
+  state.archivedLogCount;
+export const selectActiveEntityId = (state: GameStoreState) =>
+  state.activeEntityId;
+export const selectSpeechBubbles = (state: GameStoreState) =>
+  state.speechBubbles;
+export const selectRememberedEntities = (state: GameStoreState) =>
+  state.rememberedEntities;
+export const selectSessionStats = (state: GameStoreState) =>
+  state.sessionStats;
+export const selectTickHistory = (state: GameStoreState) => state.tickHistory;
+export const selectGameState = (state: GameStoreState): GameState =>
+  deriveGameState(state.world, state.player, state.entities);
+
+/**
+ * Сущность по id, включая своего персонажа
+ * @returns undefined, если сущность не известна
+ */
+export function findStoreEntity(
+  state: GameStoreState,
+  entityId: string,
+): Entity | undefined {
+  return state.player?.id === entityId
+    ? state.player
+    : state.entities.find((e) => e.id === entityId);
+}
@@ -0,0 +1,214 @@
+import {LOG_ARCHIVE_MAX_AGE, LOG_SEARCH_LIMIT} from "../constants";
+import {LogMessage} from "../types";
+import {downloadTextFile} from "../utils/download";
+import {
+  getLogHistoryFileName,
+  matchesLogQuery,
+  serializeLogHistory,
+} from "../utils/logHistory";
+
+/**
+ * Архив старых сообщений лога в IndexedDB
+ *
+ * База общая для всех вкладок, поэтому каждая запись помечена сессией
+ * (загрузкой клиента): чтение, поиск и очистка видят только записи своей
+ * сессии. Записи закрытых вкладок удаляются, когда устаревают
+ * (LOG_ARCHIVE_MAX_AGE). Сообщения хранятся в порядке добавления.
+ * Если IndexedDB недоступен, запись в архив завершается ошибкой, и
+ * старые сообщения остаются в памяти.
+ */
+
+const DB_NAME = "cd-log-archive";
+const DB_VERSION = 2;
+const STORE_NAME = "logs";
+const SESSION_INDEX = "session";
+
+/** Сессия этой загрузки клиента */
+const SESSION_ID = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+interface ArchivedLog {
+  session: string;
+  /** Время записи (мс) — по нему удаляются записи закрытых вкладок */
+  archivedAt: number;
+  log: LogMessage;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        console.warn("[logArchive] IndexedDB is not available");
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 kept unscoped rows of whichever tab wrote them
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        db.createObjectStore(STORE_NAME, { autoIncrement: true }).createIndex(
+          SESSION_INDEX,
+          "session",
+        );
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[logArchive] Failed to open archive:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Выполняет действие в транзакции архива
+ * @returns результат действия или fallback, если архив недоступен
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fallback: T,
+  action: (store: IDBObjectStore, resolve: (value: T) => void) => void,
+): Promise<T> {
+  const db = await openDatabase();
+  if (!db) {
+    return fallback;
+  }
+  return new Promise((resolve) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    transaction.onerror = () => {
+      console.warn("[logArchive] Transaction failed:", transaction.error);
+      resolve(fallback);
+    };
+    action(transaction.objectStore(STORE_NAME), resolve);
+  });
+}
+
+/**
+ * Записи текущей сессии в порядке добавления
+ */
+function sessionRange(): IDBKeyRange {
+  return IDBKeyRange.only(SESSION_ID);
+}
+
+/**
+ * Добавляет сообщения в конец архива текущей сессии
+ * @throws если архив недоступен или запись не удалась
+ */
+export async function archiveLogs(logs: LogMessage[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    throw new Error("Log archive is not available");
+  }
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    const archivedAt = Date.now();
+    logs.forEach((log) => {
+      const row: ArchivedLog = { session: SESSION_ID, archivedAt, log };
+      store.add(row);
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Очищает архив текущей сессии (записи других вкладок не трогает)
+ */
+export function clearLogArchive(): Promise<void> {
+  return withStore<void>("readwrite", undefined, (store, resolve) => {
+    const request = store.index(SESSION_INDEX).openKeyCursor(sessionRange());
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    store.transaction.oncomplete = () => resolve();
+  });
+}
+
+/**
+ * Удаляет устаревшие записи других сессий (закрытых вкладок)
+ */
+export function pruneStaleLogArchives(): Promise<void> {
+  const staleBefore = Date.now() - LOG_ARCHIVE_MAX_AGE;
+  return withStore<void>("readwrite", undefined, (store, resolve) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      const row: ArchivedLog = cursor.value;
+      if (row.session !== SESSION_ID && row.archivedAt < staleBefore) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    store.transaction.oncomplete = () => resolve();
+  });
+}
+
+/**
+ * Читает архив текущей сессии в порядке добавления
+ */
+export function readArchivedLogs(): Promise<LogMessage[]> {
+  return withStore<LogMessage[]>("readonly", [], (store, resolve) => {
+    const request = store.index(SESSION_INDEX).getAll(sessionRange());
+    request.onsuccess = () =>
+      resolve((request.result as ArchivedLog[]).map((row) => row.log));
+  });
+}
+
+/**
+ * Ищет сообщения в архиве текущей сессии
+ * @param query - текст для поиска (без учета регистра)
+ * @param limit - сколько последних совпадений вернуть
+ * @returns совпадения в порядке добавления
+ */
+export function searchArchivedLogs(
+  query: string,
+  limit: number = LOG_SEARCH_LIMIT,
+): Promise<LogMessage[]> {
+  const needle = query.trim().toLowerCase();
+  return withStore<LogMessage[]>("readonly", [], (store, resolve) => {
+    const found: LogMessage[] = [];
+    // Newest first, so the limit keeps the most recent matches
+    const request = store
+      .index(SESSION_INDEX)
+      .openCursor(sessionRange(), "prev");
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || found.length >= limit) {
+        resolve(found.reverse());
+        return;
+      }
+      const { log } = cursor.value as ArchivedLog;
+      if (matchesLogQuery(log, needle)) {
+        found.push(log);
+      }
+      cursor.continue();
+    };
+  });
+}
+
+/**
+ * Сохраняет полную историю лога (архив и сообщения в памяти) в файл
+ * @param currentLogs - сообщения, которые сейчас в памяти
+ */
+export async function exportLogHistory(currentLogs: LogMessage[]): Promise<void> {
+  const archived = await readArchivedLogs();
+  downloadTextFile(
+    serializeLogHistory([...archived, ...currentLogs]),
+    getLogHistoryFileName(),
+    "application/json",
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Mock Connection
+ *
+ * Соединение (см. services/gameConnection) поверх MockGameServer: те же
+ * события, что у WebSocketService (CONNECTED, DISCONNECTED, MESSAGE,
+ * AUTH_CHANGE), и тот же результат send(). Сообщения проходят через JSON, как по сети, чтобы
+ * клиент не мог случайно зависеть от общих ссылок с "сервером".
+ *
+ * Все соединения вкладки подключаются к одному миру — так несколько
+ * сущностей можно вести через несколько соединений. Мир пересоздается,
+ * когда отключается последнее соединение.
+ */
+
+import {SendResult, WebSocketEvent} from "@cognitive-dungeon/agent-sdk";
+
+import type {ClientToServerCommand} from "../../types";
+import type {GameConnection} from "../gameConnection";
+
+import {MockGameServer} from "./MockGameServer";
+
+/** Имитация сетевой задержки (мс) */
+const MOCK_LATENCY_MS = 30;
+
+type Listener = (data: any) => void;
+
+let sharedServer: MockGameServer | null = null;
+let sharedConnections = 0;
+
+function acquireServer(): MockGameServer {
+  if (!sharedServer) {
+    sharedServer = new MockGameServer();
+  }
+  sharedConnections += 1;
+  return sharedServer;
+}
+
+function releaseServer() {
+  sharedConnections -= 1;
+  if (sharedConnections <= 0) {
+    sharedConnections = 0;
+    sharedServer = null;
+  }
+}
+
+export class MockConnection implements GameConnection {
+  private listeners = new Map<string, Set<Listener>>();
+  private server: MockGameServer | null = null;
+  private clientId: string | null = null;
+  private connected = false;
+  private authenticated = false;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Подписка на событие
+   * @returns функция отписки
+   */
+  on(event: WebSocketEvent, listener: Listener): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => {
+      this.listeners.get(event)?.delete(listener);
+    };
+  }
+
+  connect() {
+    if (this.connected) {
+      return;
+    }
+    this.defer(() => {
+      this.server = acquireServer();
+      this.clientId = this.server.connect((message) => this.deliver(message));
+      this.connected = true;
+      this.emit(WebSocketEvent.CONNECTED, { url: "mock://local" });
+    });
+  }
+
+  disconnect() {
+    if (!this.connected) {
+      return;
+    }
+    this.reset();
+    this.emit(WebSocketEvent.DISCONNECTED, {
+      code: 1000,
+      reason: "Client disconnect",
+    });
+  }
+
+  destroy() {
+    this.reset();
+    this.listeners.clear();
+  }
+
+  send(command: ClientToServerCommand): SendResult {
+    if (!this.connected || !this.server) {
+      return { success: false, queued: false, error: "Not connected" };
+    }
+    const payload = JSON.parse(JSON.stringify(command));
+    this.defer(() => this.server?.handleCommand(this.clientId, payload));
+    return { success: true, queued: false };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  setAuthenticated(value: boolean) {
+    if (this.authenticated === value) {
+      return;
+    }
+    this.authenticated = value;
+    this.emit(WebSocketEvent.AUTH_CHANGE, { isAuthenticated: value });
+  }
+
+  /**
+   * Транспортных метрик у локального сервера нет
+   */
+  getMetrics(): unknown {
+    return undefined;
+  }
+
+  private deliver(message: unknown) {
+    const data = JSON.parse(JSON.stringify(message));
+    this.defer(() => this.emit(WebSocketEvent.MESSAGE, { data }));
+  }
+
+  private defer(fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, MOCK_LATENCY_MS);
+    this.timers.add(timer);
+  }
+
+  private reset() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    if (this.server) {
+      this.server.disconnect(this.clientId);
+      releaseServer();
+    }
+    this.server = null;
+    this.clientId = null;
+    this.connected = false;
+    this.authenticated = false;
+  }
+
+  private emit(event: string, data: unknown) {
+    this.listeners.get(event)?.forEach((listener) => listener(data));
+  }
+}
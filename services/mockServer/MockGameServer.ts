@@ -0,0 +1,1037 @@
+/**
+ * Mock Game Server
+ *
+ * Локальная замена игрового сервера для разработки без бэкенда.
+ * Понимает команды из commands/builders.ts и отвечает сообщениями
+ * INIT/UPDATE в том же формате, что и настоящий сервер.
+ *
+ * Команды с полем `id` подтверждаются сообщением ACK, ошибки несут
+ * `commandId` отклоненной команды. CUSTOM/SPECTATE вместо LOGIN включает
+ * режим наблюдателя: весь уровень виден, `myEntityId` не отправляется.
+ *
+ * Один мир обслуживает несколько клиентов (connect/disconnect): каждый
+ * входит своей сущностью, игроки ходят по очереди (`activeEntityId`).
+ *
+ * Снимки несут номер уровня (`level`). По лестницам можно вернуться на
+ * пройденный уровень; исследованные тайлы сервер помнит только до ухода
+ * с уровня — при возвращении их восстанавливает память клиента.
+ *
+ * Логика намеренно упрощена: монстры идут к ближайшему игроку и бьют
+ * в упор, предметы — зелья, золото и оружие.
+ */
+
+import {COLORS, MAP_HEIGHT, MAP_WIDTH, SYMBOLS, TIME_COST} from "../../constants";
+import type {
+  ClientToServerCommand,
+  ClientToServerTrackedCommand,
+  Position,
+} from "../../types";
+
+import {
+  createRandom,
+  Dungeon,
+  generateDungeon,
+  hasLineOfSight,
+  isPassableTerrain,
+  randomInt,
+  roomCenter,
+  TERRAIN_MOVE_COST,
+} from "./dungeon";
+
+/** Радиус обзора игрока */
+const VIEW_RADIUS = 8;
+
+/** Слотов в инвентаре игрока */
+const INVENTORY_SLOTS = 12;
+
+/** Действия, которые тратят ход и доступны только активному игроку */
+const TURN_ACTIONS = new Set<string>([
+  "MOVE",
+  "ATTACK",
+  "PICKUP",
+  "DROP",
+  "USE",
+  "EQUIP",
+  "UNEQUIP",
+  "TALK",
+  "INTERACT",
+  "WAIT",
+]);
+
+type MockItemType = "POTION" | "WEAPON" | "GOLD";
+
+interface MockItem {
+  id: string;
+  name: string;
+  type: MockItemType;
+  value: number;
+  description: string;
+  weight: number;
+}
+
+interface MockEntity {
+  id: string;
+  type: string;
+  name: string;
+  pos: Position;
+  symbol: string;
+  color: string;
+  hp: number;
+  maxHp: number;
+  strength: number;
+  gold: number;
+  isDead: boolean;
+  items: MockItem[];
+  weapon: MockItem | null;
+  /** Для сущностей-предметов на полу */
+  item?: MockItem;
+  /** Для лестниц: куда ведет */
+  stairs?: "down" | "up";
+}
+
+/**
+ * Пройденный уровень: карта, монстры и предметы (без игроков)
+ */
+interface MockLevel {
+  dungeon: Dungeon;
+  entities: MockEntity[];
+}
+
+interface MockLogEntry {
+  text: string;
+  type: "INFO" | "COMBAT" | "SPEECH" | "ERROR" | "NARRATIVE";
+}
+
+/**
+ * Подключенный клиент: свое соединение и своя сущность
+ */
+interface MockClient {
+  id: string;
+  /** Отправка сообщения этому клиенту */
+  send: (message: unknown) => void;
+  playerId: string | null;
+  spectating: boolean;
+}
+
+interface MockGameServerOptions {
+  /** Seed генератора (по умолчанию — текущее время) */
+  seed?: number;
+}
+
+export class MockGameServer {
+  private readonly random: () => number;
+
+  private level = 0;
+  private tick = 0;
+  private nextId = 1;
+  private dungeon: Dungeon;
+  private explored: boolean[][] = [];
+  private entities = new Map<string, MockEntity>();
+  private levels = new Map<number, MockLevel>();
+  private clients = new Map<string, MockClient>();
+  private nextClientId = 1;
+  /** Игрок, чей сейчас ход */
+  private activePlayerId: string | null = null;
+  /** Клиент, чья команда сейчас исполняется */
+  private client: MockClient | null = null;
+  /** id команды, которая сейчас исполняется */
+  private commandId: string | null = null;
+  private commandRejected = false;
+
+  constructor({ seed = Date.now() }: MockGameServerOptions = {}) {
+    this.random = createRandom(seed);
+    this.dungeon = this.generateLevel(1);
+  }
+
+  /**
+   * Подключает клиента к миру
+   * @param send - отправка сообщений этому клиенту
+   * @returns id клиента для handleCommand/disconnect
+   */
+  connect(send: (message: unknown) => void): string {
+    const id = `client-${this.nextClientId++}`;
+    this.clients.set(id, { id, send, playerId: null, spectating: false });
+    return id;
+  }
+
+  /**
+   * Отключает клиента; если ходил он — ход переходит следующему игроку
+   */
+  disconnect(clientId: string) {
+    if (!this.clients.delete(clientId)) {
+      return;
+    }
+    const active = this.activePlayerId;
+    this.ensureActivePlayer();
+    if (this.activePlayerId !== active) {
+      this.clients.forEach((c) => this.sendSnapshot(c, "UPDATE", []));
+    }
+  }
+
+  /**
+   * Обрабатывает команду клиента
+   * @param clientId - id из connect()
+   * @param command - команда в формате протокола (id необязателен)
+   */
+  handleCommand(
+    clientId: string,
+    command: ClientToServerCommand | ClientToServerTrackedCommand,
+  ) {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
+    }
+
+    const id = (command as Partial<ClientToServerTrackedCommand>).id;
+    this.client = client;
+    this.commandId = typeof id === "string" ? id : null;
+    this.commandRejected = false;
+
+    this.execute(client, command);
+
+    if (this.commandId && !this.commandRejected) {
+      client.send({ type: "ACK", commandId: this.commandId });
+    }
+    this.commandId = null;
+    this.client = null;
+  }
+
+  private execute(client: MockClient, command: ClientToServerCommand) {
+    if (command.action === "LOGIN") {
+      client.spectating = false;
+      this.login(client, command.token);
+      return;
+    }
+
+    if (command.action === "CUSTOM" && command.payload?.action === "SPECTATE") {
+      client.spectating = true;
+      client.playerId = null;
+      this.ensureActivePlayer();
+      this.sendSnapshot(client, "INIT", [
+        { text: "You are watching the mock dungeon.", type: "INFO" },
+      ]);
+      return;
+    }
+
+    if (client.spectating) {
+      if (command.action === "CUSTOM") {
+        this.sendSnapshot(client, "UPDATE", []);
+      } else {
+        this.reject("Spectators cannot act");
+      }
+      return;
+    }
+
+    const player = this.getPlayer(client);
+    if (!player) {
+      this.reject("Not logged in");
+      return;
+    }
+    if (player.isDead) {
+      this.reject("You are dead");
+      return;
+    }
+    if (
+      TURN_ACTIONS.has(command.action) &&
+      this.activePlayerId &&
+      this.activePlayerId !== player.id
+    ) {
+      this.reject("Not your turn");
+      return;
+    }
+
+    const logs: MockLogEntry[] = [];
+    const payload: any = command.payload ?? {};
+
+    switch (command.action) {
+    case "MOVE":
+      this.handleMove(player, payload, logs);
+      break;
+    case "ATTACK":
+      this.handleAttack(player, payload.targetId, logs);
+      break;
+    case "PICKUP":
+      this.handlePickup(player, payload.itemId, logs);
+      break;
+    case "DROP":
+      this.handleDrop(player, payload.itemId, logs);
+      break;
+    case "USE":
+      this.handleUse(player, payload.itemId, logs);
+      break;
+    case "EQUIP":
+      this.handleEquip(player, payload.itemId, logs);
+      break;
+    case "UNEQUIP":
+      this.handleUnequip(player, payload.itemId, logs);
+      break;
+    case "TALK":
+    case "INTERACT":
+      this.handleInteract(player, payload.targetId, logs);
+      break;
+    case "SAY":
+    case "WHISPER":
+    case "YELL":
+      logs.push({ text: `${player.name}: "${payload.text}"`, type: "SPEECH" });
+      this.broadcast("UPDATE", logs);
+      return;
+    case "WAIT":
+      this.endTurn(TIME_COST.WAIT, logs);
+      break;
+    case "CUSTOM":
+      // RESYNC и прочие служебные запросы — просто полный снимок
+      this.sendSnapshot(client, "UPDATE", logs);
+      return;
+    default:
+      this.reject(`Unknown action: ${String(command.action)}`);
+      return;
+    }
+
+    this.broadcast("UPDATE", logs);
+  }
+
+  // ==========================================================================
+  // Session
+  // ==========================================================================
+
+  private login(client: MockClient, token: string | undefined) {
+    const id = token?.trim();
+    if (!id) {
+      this.reject("Entity not found: empty id");
+      return;
+    }
+
+    if (!this.entities.has(id)) {
+      const firstRoom = this.dungeon.rooms[0];
+      const center = roomCenter(firstRoom);
+      const start = this.blockerAt(center) ? this.randomFloorIn(firstRoom) : center;
+      this.entities.set(id, {
+        id,
+        type: "PLAYER",
+        name: id,
+        pos: start,
+        symbol: SYMBOLS.PLAYER,
+        color: COLORS.PLAYER,
+        hp: 30,
+        maxHp: 30,
+        strength: 5,
+        gold: 0,
+        isDead: false,
+        items: [this.createItem("POTION")],
+        weapon: null,
+      });
+    }
+
+    client.playerId = id;
+    this.ensureActivePlayer();
+    this.broadcast("INIT", [
+      { text: `Welcome to the mock dungeon, ${id}.`, type: "NARRATIVE" },
+      { text: "This is a local mock server, no network involved.", type: "INFO" },
+    ]);
+  }
+
+  /**
+   * Отклоняет текущую команду с ошибкой
+   */
+  private reject(error: string) {
+    this.commandRejected = true;
+    this.client?.send(
+      this.commandId ? { error, commandId: this.commandId } : { error },
+    );
+  }
+
+  private getPlayer(client: MockClient): MockEntity | null {
+    return client.playerId ? (this.entities.get(client.playerId) ?? null) : null;
+  }
+
+  /**
+   * Живые игроки подключенных клиентов в порядке подключения — очередь ходов
+   */
+  private turnOrder(): MockEntity[] {
+    const ids = new Set<string>();
+    this.clients.forEach((c) => {
+      if (c.playerId) {
+        ids.add(c.playerId);
+      }
+    });
+    return [...ids]
+      .map((id) => this.entities.get(id))
+      .filter((e): e is MockEntity => Boolean(e) && !e.isDead);
+  }
+
+  /**
+   * Отдает ход первому игроку, если активный ушел или погиб
+   */
+  private ensureActivePlayer() {
+    const order = this.turnOrder();
+    if (!order.some((e) => e.id === this.activePlayerId)) {
+      this.activePlayerId = order[0]?.id ?? null;
+    }
+  }
+
+  /**
+   * Передает ход следующему игроку в очереди
+   */
+  private passTurn() {
+    const order = this.turnOrder();
+    const index = order.findIndex((e) => e.id === this.activePlayerId);
+    this.activePlayerId =
+      order.length > 0 ? order[(index + 1) % order.length].id : null;
+  }
+
+  // ==========================================================================
+  // Level
+  // ==========================================================================
+
+  /**
+   * Переводит всю группу на другой уровень
+   *
+   * Покидаемый уровень сохраняется, новый берется из сохраненных или
+   * генерируется. Игроки встают у лестницы, по которой пришли.
+   */
+  private changeLevel(level: number) {
+    const players = [...this.entities.values()].filter(
+      (e) => e.type === "PLAYER",
+    );
+    const arrivedBy = level > this.level ? "up" : "down";
+
+    this.levels.set(this.level, {
+      dungeon: this.dungeon,
+      entities: [...this.entities.values()].filter((e) => e.type !== "PLAYER"),
+    });
+
+    const stored = this.levels.get(level);
+    if (stored) {
+      this.level = level;
+      this.dungeon = stored.dungeon;
+      this.explored = this.dungeon.walls.map((row) => row.map(() => false));
+      this.entities = new Map(stored.entities.map((e) => [e.id, e]));
+    } else {
+      this.generateLevel(level);
+    }
+
+    const stairs = [...this.entities.values()].find(
+      (e) => e.stairs === arrivedBy,
+    );
+    const start = stairs?.pos ?? roomCenter(this.dungeon.rooms[0]);
+    const room =
+      this.dungeon.rooms.find(
+        (r) =>
+          start.x >= r.x &&
+          start.x < r.x + r.w &&
+          start.y >= r.y &&
+          start.y < r.y + r.h,
+      ) ?? this.dungeon.rooms[0];
+    players.forEach((player, index) => {
+      player.pos = index === 0 ? { ...start } : this.randomFloorIn(room);
+      this.entities.set(player.id, player);
+    });
+  }
+
+  private generateLevel(level: number): Dungeon {
+    this.level = level;
+    this.dungeon = generateDungeon(MAP_WIDTH, MAP_HEIGHT, this.random);
+    this.explored = this.dungeon.walls.map((row) => row.map(() => false));
+    this.entities = new Map();
+
+    const rooms = this.dungeon.rooms;
+    this.spawn({
+      type: "EXIT",
+      name: "Stairs Down",
+      pos: roomCenter(rooms[rooms.length - 1]),
+      symbol: SYMBOLS.EXIT,
+      color: COLORS.EXIT,
+      stairs: "down",
+    });
+    if (level > 1) {
+      this.spawn({
+        type: "EXIT",
+        name: "Stairs Up",
+        pos: roomCenter(rooms[0]),
+        symbol: SYMBOLS.EXIT_UP,
+        color: COLORS.EXIT,
+        stairs: "up",
+      });
+    }
+
+    rooms.slice(1).forEach((room) => {
+      const monsters = randomInt(this.random, 0, 2);
+      for (let i = 0; i < monsters; i++) {
+        const isOrc = this.random() < 0.25 + level * 0.05;
+        this.spawn({
+          type: isOrc ? "ORC" : "GOBLIN",
+          name: isOrc ? "Orc" : "Goblin",
+          pos: this.randomFloorIn(room),
+          symbol: isOrc ? SYMBOLS.ORC : SYMBOLS.GOBLIN,
+          color: isOrc ? COLORS.ORC : COLORS.GOBLIN,
+          hp: isOrc ? 14 + level * 2 : 7 + level,
+          strength: isOrc ? 4 : 2,
+        });
+      }
+
+      if (this.random() < 0.6) {
+        const roll = this.random();
+        const itemType: MockItemType =
+          roll < 0.45 ? "POTION" : roll < 0.85 ? "GOLD" : "WEAPON";
+        this.spawnItem(this.createItem(itemType), this.randomFloorIn(room));
+      }
+    });
+
+    return this.dungeon;
+  }
+
+  private randomFloorIn(room: { x: number; y: number; w: number; h: number }) {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const pos = {
+        x: randomInt(this.random, room.x, room.x + room.w - 1),
+        y: randomInt(this.random, room.y, room.y + room.h - 1),
+      };
+      if (this.isPassable(pos) && !this.blockerAt(pos)) {
+        return pos;
+      }
+    }
+    return roomCenter(room);
+  }
+
+  private spawn(
+    init: Pick<MockEntity, "type" | "name" | "pos" | "symbol" | "color"> &
+      Partial<MockEntity>,
+  ): MockEntity {
+    const hp = init.hp ?? 1;
+    const entity: MockEntity = {
+      id: `mock-${this.nextId++}`,
+      hp,
+      maxHp: hp,
+      strength: 0,
+      gold: 0,
+      isDead: false,
+      items: [],
+      weapon: null,
+      ...init,
+    };
+    this.entities.set(entity.id, entity);
+    return entity;
+  }
+
+  private spawnItem(item: MockItem, pos: Position) {
+    const isGold = item.type === "GOLD";
+    this.spawn({
+      type: "ITEM",
+      name: item.name,
+      pos,
+      symbol: isGold ? SYMBOLS.GOLD : item.type === "WEAPON" ? ")" : SYMBOLS.POTION,
+      color: isGold ? COLORS.ITEM_GOLD : COLORS.ITEM_POTION,
+      item,
+    });
+  }
+
+  private createItem(type: MockItemType): MockItem {
+    const id = `item-${this.nextId++}`;
+    switch (type) {
+    case "POTION":
+      return {
+        id,
+        name: "Healing Potion",
+        type,
+        value: 10,
+        description: "Restores 10 HP",
+        weight: 0.5,
+      };
+    case "WEAPON":
+      return {
+        id,
+        name: "Rusty Sword",
+        type,
+        value: 3,
+        description: "+3 damage",
+        weight: 3,
+      };
+    case "GOLD":
+      return {
+        id,
+        name: "Gold Coins",
+        type,
+        value: randomInt(this.random, 5, 25),
+        description: "Shiny",
+        weight: 0,
+      };
+    }
+  }
+
+  // ==========================================================================
+  // Actions
+  // ==========================================================================
+
+  private handleMove(player: MockEntity, payload: any, logs: MockLogEntry[]) {
+    let dx = payload.dx;
+    let dy = payload.dy;
+    if (dx === undefined && payload.x !== undefined) {
+      dx = Math.sign(payload.x - player.pos.x);
+      dy = Math.sign(payload.y - player.pos.y);
+    }
+    dx = Math.max(-1, Math.min(1, Number(dx) || 0));
+    dy = Math.max(-1, Math.min(1, Number(dy) || 0));
+
+    const target = { x: player.pos.x + dx, y: player.pos.y + dy };
+    if (this.isWall(target)) {
+      logs.push({ text: "You bump into a wall.", type: "INFO" });
+      return;
+    }
+    if (!this.isPassable(target)) {
+      logs.push({ text: "A tree blocks your way.", type: "INFO" });
+      return;
+    }
+
+    const blocker = this.blockerAt(target);
+    if (blocker) {
+      if (this.isHostile(blocker)) {
+        this.attack(player, blocker, logs);
+        this.endTurn(TIME_COST.ATTACK_LIGHT, logs);
+      } else {
+        logs.push({ text: `${blocker.name} is in the way.`, type: "INFO" });
+      }
+      return;
+    }
+
+    player.pos = target;
+    const itemsHere = this.itemsAt(target);
+    if (itemsHere.length > 0) {
+      logs.push({
+        text: `You see here: ${itemsHere.map((e) => e.name).join(", ")}.`,
+        type: "INFO",
+      });
+    }
+    const terrain = this.dungeon.terrain[target.y][target.x];
+    this.endTurn(TIME_COST.MOVE * TERRAIN_MOVE_COST[terrain], logs);
+  }
+
+  private handleAttack(
+    player: MockEntity,
+    targetId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const target = targetId ? this.entities.get(targetId) : undefined;
+    if (!target || target.isDead || !this.isHostile(target)) {
+      this.reject("Invalid attack target");
+      return;
+    }
+    if (distance(player.pos, target.pos) > 1) {
+      logs.push({ text: `${target.name} is too far away.`, type: "INFO" });
+      return;
+    }
+    this.attack(player, target, logs);
+    this.endTurn(TIME_COST.ATTACK_LIGHT, logs);
+  }
+
+  private handlePickup(
+    player: MockEntity,
+    itemId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const candidates = this.itemsAt(player.pos);
+    const entity = itemId
+      ? candidates.find((e) => e.id === itemId || e.item?.id === itemId)
+      : candidates[0];
+    if (!entity?.item) {
+      logs.push({ text: "There is nothing here to pick up.", type: "INFO" });
+      return;
+    }
+
+    if (entity.item.type === "GOLD") {
+      player.gold += entity.item.value;
+      logs.push({ text: `You pick up ${entity.item.value} gold.`, type: "INFO" });
+    } else if (player.items.length >= INVENTORY_SLOTS) {
+      logs.push({ text: "Your inventory is full.", type: "ERROR" });
+      return;
+    } else {
+      player.items.push(entity.item);
+      logs.push({ text: `You pick up ${entity.item.name}.`, type: "INFO" });
+    }
+
+    this.entities.delete(entity.id);
+    this.endTurn(TIME_COST.INTERACT, logs);
+  }
+
+  private handleDrop(
+    player: MockEntity,
+    itemId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const item = this.takeItem(player, itemId);
+    if (!item) {
+      this.reject(`Item not found: ${String(itemId)}`);
+      return;
+    }
+    this.spawnItem(item, { ...player.pos });
+    logs.push({ text: `You drop ${item.name}.`, type: "INFO" });
+    this.endTurn(TIME_COST.INTERACT, logs);
+  }
+
+  private handleUse(
+    player: MockEntity,
+    itemId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const item = player.items.find((i) => i.id === itemId);
+    if (!item) {
+      this.reject(`Item not found: ${String(itemId)}`);
+      return;
+    }
+    if (item.type !== "POTION") {
+      logs.push({ text: `You can't use ${item.name}.`, type: "INFO" });
+      return;
+    }
+
+    this.takeItem(player, item.id);
+    const healed = Math.min(item.value, player.maxHp - player.hp);
+    player.hp += healed;
+    logs.push({ text: `You drink ${item.name} (+${healed} HP).`, type: "INFO" });
+    this.endTurn(TIME_COST.USE, logs);
+  }
+
+  private handleEquip(
+    player: MockEntity,
+    itemId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const item = player.items.find((i) => i.id === itemId);
+    if (!item || item.type !== "WEAPON") {
+      this.reject("Cannot equip that");
+      return;
+    }
+    this.takeItem(player, item.id);
+    if (player.weapon) {
+      player.items.push(player.weapon);
+    }
+    player.weapon = item;
+    logs.push({ text: `You wield ${item.name}.`, type: "INFO" });
+    this.endTurn(TIME_COST.USE, logs);
+  }
+
+  private handleUnequip(
+    player: MockEntity,
+    itemId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    if (!player.weapon || (itemId && player.weapon.id !== itemId)) {
+      this.reject("Nothing to unequip");
+      return;
+    }
+    logs.push({ text: `You put away ${player.weapon.name}.`, type: "INFO" });
+    player.items.push(player.weapon);
+    player.weapon = null;
+    this.endTurn(TIME_COST.USE, logs);
+  }
+
+  private handleInteract(
+    player: MockEntity,
+    targetId: string | undefined,
+    logs: MockLogEntry[],
+  ) {
+    const target = targetId ? this.entities.get(targetId) : undefined;
+    if (!target) {
+      this.reject(`Entity not visible: ${String(targetId)}`);
+      return;
+    }
+    if (distance(player.pos, target.pos) > 1) {
+      logs.push({ text: `${target.name} is too far away.`, type: "INFO" });
+      return;
+    }
+
+    if (target.type === "EXIT") {
+      const isUp = target.stairs === "up";
+      this.changeLevel(this.level + (isUp ? -1 : 1));
+      logs.push({
+        text: `You ${isUp ? "climb up" : "descend"} to level ${this.level}.`,
+        type: "NARRATIVE",
+      });
+      this.endTurn(TIME_COST.INTERACT, logs);
+      return;
+    }
+
+    if (this.isHostile(target)) {
+      logs.push({ text: `${target.name} snarls at you.`, type: "SPEECH" });
+    } else {
+      logs.push({ text: `Nothing happens.`, type: "INFO" });
+    }
+    this.endTurn(TIME_COST.INTERACT, logs);
+  }
+
+  // ==========================================================================
+  // Turn
+  // ==========================================================================
+
+  private attack(
+    attacker: MockEntity,
+    defender: MockEntity,
+    logs: MockLogEntry[],
+  ) {
+    const damage =
+      attacker.strength +
+      (attacker.weapon?.value ?? 0) +
+      randomInt(this.random, 0, 2);
+    defender.hp = Math.max(0, defender.hp - damage);
+    logs.push({
+      text: `${attacker.name} hits ${defender.name} for ${damage}.`,
+      type: "COMBAT",
+    });
+
+    if (defender.hp > 0) {
+      return;
+    }
+
+    defender.isDead = true;
+    if (defender.type === "PLAYER") {
+      logs.push({
+        text:
+          defender.id === this.client?.playerId
+            ? "You die..."
+            : `${defender.name} dies...`,
+        type: "NARRATIVE",
+      });
+      return;
+    }
+
+    logs.push({ text: `${defender.name} dies.`, type: "COMBAT" });
+    this.entities.delete(defender.id);
+    if (this.random() < 0.5) {
+      this.spawnItem(this.createItem("GOLD"), { ...defender.pos });
+    }
+  }
+
+  /**
+   * Ход монстров после действия игрока, затем ход переходит следующему
+   */
+  private endTurn(cost: number, logs: MockLogEntry[]) {
+    this.tick += cost;
+
+    this.entities.forEach((monster) => {
+      if (monster.isDead || !this.isHostile(monster)) {
+        return;
+      }
+      const player = this.nearestVisiblePlayer(monster.pos);
+      if (!player) {
+        return;
+      }
+
+      if (distance(monster.pos, player.pos) <= 1) {
+        this.attack(monster, player, logs);
+        return;
+      }
+
+      const step = {
+        x: monster.pos.x + Math.sign(player.pos.x - monster.pos.x),
+        y: monster.pos.y + Math.sign(player.pos.y - monster.pos.y),
+      };
+      if (this.isPassable(step) && !this.blockerAt(step)) {
+        monster.pos = step;
+      }
+    });
+
+    this.passTurn();
+  }
+
+  private nearestVisiblePlayer(from: Position): MockEntity | null {
+    let nearest: MockEntity | null = null;
+    for (const player of this.turnOrder()) {
+      if (
+        this.canSee(from, player.pos) &&
+        (!nearest || distance(from, player.pos) < distance(from, nearest.pos))
+      ) {
+        nearest = player;
+      }
+    }
+    return nearest;
+  }
+
+  // ==========================================================================
+  // Queries
+  // ==========================================================================
+
+  private isWall(pos: Position): boolean {
+    return (
+      pos.x < 0 ||
+      pos.y < 0 ||
+      pos.x >= this.dungeon.width ||
+      pos.y >= this.dungeon.height ||
+      this.dungeon.walls[pos.y][pos.x]
+    );
+  }
+
+  /**
+   * Можно ли встать на клетку (не стена и не дерево)
+   */
+  private isPassable(pos: Position): boolean {
+    return (
+      !this.isWall(pos) &&
+      isPassableTerrain(this.dungeon.terrain[pos.y][pos.x])
+    );
+  }
+
+  private isHostile(entity: MockEntity): boolean {
+    return entity.type === "GOBLIN" || entity.type === "ORC";
+  }
+
+  private blockerAt(pos: Position): MockEntity | undefined {
+    return [...this.entities.values()].find(
+      (e) =>
+        e.pos.x === pos.x &&
+        e.pos.y === pos.y &&
+        !e.isDead &&
+        e.type !== "ITEM" &&
+        e.type !== "EXIT",
+    );
+  }
+
+  private itemsAt(pos: Position): MockEntity[] {
+    return [...this.entities.values()].filter(
+      (e) => e.type === "ITEM" && e.pos.x === pos.x && e.pos.y === pos.y,
+    );
+  }
+
+  private takeItem(player: MockEntity, itemId: string | undefined) {
+    const index = player.items.findIndex((i) => i.id === itemId);
+    if (index === -1) {
+      return null;
+    }
+    return player.items.splice(index, 1)[0];
+  }
+
+  private canSee(from: Position, to: Position): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    if (dx * dx + dy * dy > VIEW_RADIUS * VIEW_RADIUS) {
+      return false;
+    }
+    return hasLineOfSight(this.dungeon.walls, from, to);
+  }
+
+  // ==========================================================================
+  // Views
+  // ==========================================================================
+
+  /**
+   * Рассылает снимки всем клиентам: автор команды получает свой тип
+   * сообщения и логи, остальные — UPDATE без логов
+   */
+  private broadcast(type: "INIT" | "UPDATE", logs: MockLogEntry[]) {
+    this.clients.forEach((client) => {
+      if (client === this.client) {
+        this.sendSnapshot(client, type, logs);
+      } else {
+        this.sendSnapshot(client, "UPDATE", []);
+      }
+    });
+  }
+
+  private sendSnapshot(
+    client: MockClient,
+    type: "INIT" | "UPDATE",
+    logs: MockLogEntry[],
+  ) {
+    const player = this.getPlayer(client);
+    if (!player && !client.spectating) {
+      return;
+    }
+    // Наблюдатель видит весь уровень
+    const isVisibleFrom = (pos: Position) =>
+      !player || this.canSee(player.pos, pos);
+
+    const map: unknown[] = [];
+    for (let y = 0; y < this.dungeon.height; y++) {
+      for (let x = 0; x < this.dungeon.width; x++) {
+        const isVisible = isVisibleFrom({ x, y });
+        if (isVisible) {
+          this.explored[y][x] = true;
+        }
+        if (this.explored[y][x]) {
+          const isWall = this.dungeon.walls[y][x];
+          const terrain = this.dungeon.terrain[y][x];
+          map.push({
+            x,
+            y,
+            isWall,
+            ...(isWall
+              ? { env: "stone" }
+              : {
+                env: terrain,
+                isWalkable: isPassableTerrain(terrain),
+                moveCost: TERRAIN_MOVE_COST[terrain],
+              }),
+            isVisible,
+            isExplored: true,
+          });
+        }
+      }
+    }
+
+    const entities = [...this.entities.values()]
+      .filter((e) => e.id === player?.id || isVisibleFrom(e.pos))
+      .map((e) => this.toEntityView(e, player?.id ?? null));
+    const activeEntityId = this.activePlayerId ?? player?.id;
+
+    client.send({
+      type,
+      tick: this.tick,
+      level: this.level,
+      grid: { w: this.dungeon.width, h: this.dungeon.height },
+      map,
+      entities,
+      ...(activeEntityId ? { activeEntityId } : {}),
+      ...(player ? { myEntityId: player.id } : {}),
+      logs,
+    });
+  }
+
+  /**
+   * Сущность глазами клиента: инвентарь виден только у своей
+   */
+  private toEntityView(entity: MockEntity, viewerId: string | null) {
+    const isPlayer = entity.id === viewerId;
+    return {
+      id: entity.id,
+      type: entity.type,
+      name: entity.name,
+      pos: { ...entity.pos },
+      render: { symbol: entity.symbol, color: entity.color },
+      stats: {
+        hp: entity.hp,
+        maxHp: entity.maxHp,
+        stamina: 0,
+        maxStamina: 0,
+        strength: entity.strength,
+        gold: entity.gold,
+        isDead: entity.isDead,
+      },
+      ...(isPlayer && {
+        inventory: {
+          items: entity.items.map(toItemView),
+          maxSlots: INVENTORY_SLOTS,
+          currentWeight: entity.items.reduce((sum, i) => sum + i.weight, 0),
+          maxWeight: 30,
+        },
+        equipment: {
+          weapon: entity.weapon ? toItemView(entity.weapon) : null,
+          armor: null,
+        },
+      }),
+    };
+  }
+}
+
+function toItemView(item: MockItem) {
+  return {
+    id: item.id,
+    name: item.name,
+    type: item.type,
+    value: item.value,
+    description: item.description,
+    weight: item.weight,
+    isStackable: item.type === "POTION",
+    category: item.type === "WEAPON" ? "weapon" : "consumable",
+  };
+}
+
+function distance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
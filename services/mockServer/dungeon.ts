@@ -0,0 +1,269 @@
+/**
+ * Mock Dungeon Generator
+ *
+ * Простой генератор "комнаты + коридоры" для локального mock-сервера.
+ * Детерминирован по seed, чтобы баги можно было воспроизвести.
+ */
+
+import type {Position} from "../../types";
+
+/**
+ * Прямоугольная комната
+ */
+export interface DungeonRoom {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Местность проходимых клеток (стены — всегда камень)
+ */
+export type DungeonTerrain = "floor" | "grass" | "water" | "tree";
+
+/** Множитель стоимости перемещения по местности */
+export const TERRAIN_MOVE_COST: Record<DungeonTerrain, number> = {
+  floor: 1,
+  grass: 1,
+  water: 2,
+  tree: 1,
+};
+
+/**
+ * Сгенерированный уровень
+ */
+export interface Dungeon {
+  width: number;
+  height: number;
+  /** walls[y][x] === true — стена */
+  walls: boolean[][];
+  /** terrain[y][x] — местность клетки (у стен — "floor") */
+  terrain: DungeonTerrain[][];
+  rooms: DungeonRoom[];
+}
+
+/**
+ * Можно ли встать на клетку с такой местностью
+ */
+export function isPassableTerrain(terrain: DungeonTerrain): boolean {
+  return terrain !== "tree";
+}
+
+/**
+ * Детерминированный генератор случайных чисел (mulberry32)
+ * @param seed - начальное значение
+ * @returns функция, возвращающая число в [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Случайное целое в диапазоне [min, max]
+ */
+export function randomInt(random: () => number, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Центр комнаты
+ */
+export function roomCenter(room: DungeonRoom): Position {
+  return {
+    x: room.x + Math.floor(room.w / 2),
+    y: room.y + Math.floor(room.h / 2),
+  };
+}
+
+function intersects(a: DungeonRoom, b: DungeonRoom): boolean {
+  return (
+    a.x - 1 < b.x + b.w &&
+    a.x + a.w + 1 > b.x &&
+    a.y - 1 < b.y + b.h &&
+    a.y + a.h + 1 > b.y
+  );
+}
+
+function carveRoom(walls: boolean[][], room: DungeonRoom) {
+  for (let y = room.y; y < room.y + room.h; y++) {
+    for (let x = room.x; x < room.x + room.w; x++) {
+      walls[y][x] = false;
+    }
+  }
+}
+
+function carveCorridor(
+  walls: boolean[][],
+  corridors: boolean[][],
+  from: Position,
+  to: Position,
+) {
+  let { x, y } = from;
+  while (x !== to.x) {
+    walls[y][x] = false;
+    corridors[y][x] = true;
+    x += Math.sign(to.x - x);
+  }
+  while (y !== to.y) {
+    walls[y][x] = false;
+    corridors[y][x] = true;
+    y += Math.sign(to.y - y);
+  }
+  walls[y][x] = false;
+  corridors[y][x] = true;
+}
+
+/**
+ * Заполняет комнату травой, лужей или деревьями
+ *
+ * Деревья не ставятся на коридоры, центральные ряд и столбец комнаты и
+ * рядом друг с другом, поэтому не отрезают части уровня.
+ */
+function decorateRoom(
+  terrain: DungeonTerrain[][],
+  corridors: boolean[][],
+  room: DungeonRoom,
+  random: () => number,
+) {
+  const center = roomCenter(room);
+  const roll = random();
+
+  for (let y = room.y; y < room.y + room.h; y++) {
+    for (let x = room.x; x < room.x + room.w; x++) {
+      if (roll < 0.3) {
+        if (random() < 0.6) {
+          terrain[y][x] = "grass";
+        }
+      } else if (roll < 0.5) {
+        // Лужа в середине комнаты
+        if (Math.abs(x - center.x) <= 1 && Math.abs(y - center.y) <= 1) {
+          terrain[y][x] = "water";
+        }
+      } else if (roll < 0.7) {
+        const hasTreeNearby = [-1, 0, 1].some((dy) =>
+          [-1, 0, 1].some((dx) => terrain[y + dy]?.[x + dx] === "tree"),
+        );
+        if (
+          !corridors[y][x] &&
+          x !== center.x &&
+          y !== center.y &&
+          !hasTreeNearby &&
+          random() < 0.2
+        ) {
+          terrain[y][x] = "tree";
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Генерирует уровень подземелья
+ * @param width - ширина карты
+ * @param height - высота карты
+ * @param random - генератор случайных чисел
+ * @returns уровень с картой стен, местностью и списком комнат (минимум одна)
+ */
+export function generateDungeon(
+  width: number,
+  height: number,
+  random: () => number,
+): Dungeon {
+  const walls: boolean[][] = Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => true),
+  );
+  const corridors: boolean[][] = walls.map((row) => row.map(() => false));
+  const terrain: DungeonTerrain[][] = walls.map((row) =>
+    row.map((): DungeonTerrain => "floor"),
+  );
+  const rooms: DungeonRoom[] = [];
+
+  for (let attempt = 0; attempt < 60 && rooms.length < 9; attempt++) {
+    const w = randomInt(random, 4, 9);
+    const h = randomInt(random, 3, 6);
+    const room: DungeonRoom = {
+      x: randomInt(random, 1, width - w - 2),
+      y: randomInt(random, 1, height - h - 2),
+      w,
+      h,
+    };
+    if (rooms.some((other) => intersects(room, other))) {
+      continue;
+    }
+
+    carveRoom(walls, room);
+    if (rooms.length > 0) {
+      carveCorridor(
+        walls,
+        corridors,
+        roomCenter(rooms[rooms.length - 1]),
+        roomCenter(room),
+      );
+    }
+    rooms.push(room);
+  }
+
+  // Fallback: one room in the middle so there is always somewhere to stand
+  if (rooms.length === 0) {
+    const room: DungeonRoom = {
+      x: Math.floor(width / 2) - 3,
+      y: Math.floor(height / 2) - 2,
+      w: 6,
+      h: 4,
+    };
+    carveRoom(walls, room);
+    rooms.push(room);
+  }
+
+  // Первая комната (вход) и последняя (лестница вниз) остаются пустыми
+  rooms
+    .slice(1, -1)
+    .forEach((room) => decorateRoom(terrain, corridors, room, random));
+
+  return { width, height, walls, terrain, rooms };
+}
+
+/**
+ * Проверяет прямую видимость между двумя клетками (Bresenham)
+ * @param walls - карта стен
+ * @param from - точка наблюдения
+ * @param to - целевая клетка
+ * @returns true если линию не перекрывают стены (сама цель может быть стеной)
+ */
+export function hasLineOfSight(
+  walls: boolean[][],
+  from: Position,
+  to: Position,
+): boolean {
+  let x = from.x;
+  let y = from.y;
+  const dx = Math.abs(to.x - x);
+  const dy = -Math.abs(to.y - y);
+  const sx = x < to.x ? 1 : -1;
+  const sy = y < to.y ? 1 : -1;
+  let err = dx + dy;
+
+  while (x !== to.x || y !== to.y) {
+    if ((x !== from.x || y !== from.y) && walls[y][x]) {
+      return false;
+    }
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return true;
+}
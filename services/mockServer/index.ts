@@ -0,0 +1,39 @@
+/**
+ * Mock Server - Barrel Export
+ *
+ * Локальный игровой сервер для разработки без бэкенда.
+ * Выбирается в окне выбора сервера как обычный сервер.
+ */
+
+import type {ServerInfo} from "@cognitive-dungeon/agent-sdk";
+
+export { MockGameServer } from "./MockGameServer";
+export { MockConnection } from "./MockConnection";
+
+/** URL, по которому useWebSocket подключается к mock-серверу */
+export const MOCK_SERVER_URL = "mock://local";
+
+/**
+ * Встроенная запись mock-сервера для списка серверов
+ */
+export const MOCK_SERVER: ServerInfo = {
+  id: "local-mock",
+  name: "Local Mock Server",
+  host: "mock",
+  port: 0,
+  isDefault: true,
+};
+
+/**
+ * Проверяет, является ли сервер встроенным mock-сервером
+ */
+export function isMockServer(server: ServerInfo): boolean {
+  return server.id === MOCK_SERVER.id;
+}
+
+/**
+ * Проверяет, указывает ли URL на mock-сервер
+ */
+export function isMockServerUrl(url: string): boolean {
+  return url.startsWith("mock://");
+}
@@ -0,0 +1,103 @@
+import {SpriteRect, Tileset, TilesetManifest} from "../types";
+
+/**
+ * Загрузка тайлсета из public/assets
+ *
+ * Манифест описывает атлас и прямоугольники спрайтов; путь к атласу
+ * задается относительно манифеста. Загрузка выполняется один раз на URL,
+ * при ошибке возвращается null и карта остается в ASCII.
+ */
+
+const SPRITE_GROUPS = ["env", "entity", "npc", "item"] as const;
+
+const isSpriteRect = (value: unknown): value is SpriteRect => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const rect = value as Record<string, unknown>;
+  return ["x", "y", "w", "h"].every(
+    (key) => typeof rect[key] === "number" && Number.isFinite(rect[key]),
+  );
+};
+
+/**
+ * Проверяет и нормализует манифест тайлсета
+ * Некорректные прямоугольники отбрасываются (объект рисуется символом)
+ * @throws Error если нет пути к атласу
+ */
+function parseTilesetManifest(data: unknown): TilesetManifest {
+  const raw = (data ?? {}) as Record<string, unknown>;
+  if (typeof raw.image !== "string" || !raw.image) {
+    throw new Error("Tileset manifest has no image");
+  }
+  const rawSprites = (raw.sprites ?? {}) as Record<string, unknown>;
+  const sprites = {} as TilesetManifest["sprites"];
+  SPRITE_GROUPS.forEach((group) => {
+    const rects: Record<string, SpriteRect> = {};
+    Object.entries((rawSprites[group] ?? {}) as Record<string, unknown>).forEach(
+      ([key, rect]) => {
+        if (isSpriteRect(rect)) {
+          rects[key] = rect;
+        }
+      },
+    );
+    sprites[group] = rects;
+  });
+  return {
+    name: typeof raw.name === "string" ? raw.name : "Tileset",
+    image: raw.image,
+    sprites,
+  };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+}
+
+const cache = new Map<string, Promise<Tileset | null>>();
+
+async function fetchTileset(manifestUrl: string): Promise<Tileset | null> {
+  try {
+    const response = await fetch(manifestUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const manifest = parseTilesetManifest(await response.json());
+    const imageUrl = new URL(
+      manifest.image,
+      new URL(manifestUrl, window.location.href),
+    ).href;
+    const image = await loadImage(imageUrl);
+    return { manifest, image, imageUrl };
+  } catch (error) {
+    console.warn("[tileset] Failed to load tileset:", error);
+    return null;
+  }
+}
+
+/**
+ * Загружает тайлсет (повторные вызовы возвращают тот же результат)
+ *
+ * Неудачная загрузка не кэшируется: следующий вызов пробует снова.
+ *
+ * @param manifestUrl - URL манифеста tileset.json
+ * @returns тайлсет или null, если загрузить не удалось
+ */
+export function loadTileset(manifestUrl: string): Promise<Tileset | null> {
+  let promise = cache.get(manifestUrl);
+  if (!promise) {
+    promise = fetchTileset(manifestUrl);
+    cache.set(manifestUrl, promise);
+    promise.then((tileset) => {
+      if (!tileset && cache.get(manifestUrl) === promise) {
+        cache.delete(manifestUrl);
+      }
+    });
+  }
+  return promise;
+}
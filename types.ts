@@ -33,6 +33,7 @@ export type {
   ClientToServerCommand,
   CommandAction,
   CommandPayloadMap,
+  ClientToServerTrackedCommand,
 } from "./types/protocol";
 
 export { serializeClientCommand } from "./types/protocol";
@@ -52,6 +53,13 @@ export type {
   ServerToClientUpdate,
   ServerToClientError,
   ServerToClientMessage,
+  ServerToClientEntityDelta,
+  ServerToClientDelta,
+  ServerToClientAck,
+  ServerToClientCommandError,
+  ServerVersionInfoWithProtocol,
+  ServerToClientUpdateWithLevel,
+  ServerToClientTileViewWithTerrain,
 } from "./types/protocol";
 
 // ============================================================================
@@ -75,13 +83,35 @@ export type { Item, ItemAction } from "./types/game";
 export { ItemType, ItemActionType } from "./types/game";
 
 // World
-export type { Tile, TileEnv, GameWorld } from "./types/game";
+export type {
+  Tile,
+  TileEnv,
+  GameWorld,
+  RememberedEntity,
+  LevelMemory,
+} from "./types/game";
 
 // Log
-export type { LogMessage, LogCommandData } from "./types/game";
+export type {
+  LogMessage,
+  LogCommandData,
+  LogSegment,
+  LogTextStyle,
+  RunSummary,
+} from "./types/game";
 
 export { GameState, LogType } from "./types/game";
 
+// Session recording
+export type {
+  SessionRecording,
+  SessionRecordingEvent,
+  SessionRecordingInboundEvent,
+  SessionRecordingOutboundEvent,
+} from "./types/game";
+
+export { SESSION_RECORDING_VERSION } from "./types/game";
+
 // ============================================================================
 // UI Types
 // ============================================================================
@@ -90,6 +120,19 @@ export type { ContextMenuData } from "./types/ui";
 
 export type { SpeechBubble } from "./types/ui";
 
+export type { MapRenderer } from "./types/ui";
+
+export type {
+  TileMode,
+  SpriteRect,
+  TilesetManifest,
+  Tileset,
+} from "./types/ui";
+
+export type { GridOverlays } from "./types/ui";
+
+export type { AnimationSettings } from "./types/ui";
+
 // ============================================================================
 // Server Manager (deprecated location - use services/ServerManager)
 // ============================================================================
@@ -11,13 +11,35 @@ export type { Item, ItemAction } from "./item";
 export { ItemType, ItemActionType } from "./item";
 
 // World types (no dependencies on entity/item)
-export type { Tile, TileEnv, GameWorld } from "./world";
+export type {
+  Tile,
+  TileEnv,
+  GameWorld,
+  RememberedEntity,
+  LevelMemory,
+} from "./world";
 
 // Log types (depends only on Position from protocol)
-export type { LogMessage, LogCommandData } from "./log";
+export type {
+  LogMessage,
+  LogCommandData,
+  LogSegment,
+  LogTextStyle,
+  RunSummary,
+} from "./log";
 
 export { GameState, LogType } from "./log";
 
+// Session recording (depends only on protocol types)
+export type {
+  SessionRecording,
+  SessionRecordingEvent,
+  SessionRecordingInboundEvent,
+  SessionRecordingOutboundEvent,
+} from "./recording";
+
+export { SESSION_RECORDING_VERSION } from "./recording";
+
 // Entity types (depends on Item, so export last)
 export type { Stats, Entity, NpcType, Personality, AiState } from "./entity";
 
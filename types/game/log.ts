@@ -22,6 +22,28 @@ export enum GameState {
   GAME_OVER = "GAME_OVER",
 }
 
+/**
+ * Итоги забега (экран окончания игры)
+ */
+export interface RunSummary {
+  /** Имя погибшего персонажа */
+  characterName: string;
+  /** Причина смерти */
+  causeOfDeath: string;
+  /** Прожито ходов (продвижений globalTick) */
+  turns: number;
+  /** Прожито тиков */
+  ticks: number;
+  /** Убито врагов */
+  kills: number;
+  /** Золото на момент смерти */
+  gold: number;
+  /** Уровень подземелья, на котором погиб персонаж */
+  level: number;
+  /** Последние события лога */
+  lastEvents: LogMessage[];
+}
+
 // ============================================================================
 // Log Types
 // ============================================================================
@@ -56,14 +78,42 @@ export interface LogCommandData {
   payload?: any;
 }
 
+/**
+ * Оформление текста в сообщении лога (из разрешенной разметки)
+ */
+export interface LogTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  /** CSS-цвет: #hex или имя из палитры лога */
+  color?: string;
+}
+
+/**
+ * Часть сообщения лога: текст или ссылка на объект игры
+ *
+ * - text — текст, возможно с оформлением
+ * - entity — сущность (клик наводит камеру и выделяет ее)
+ * - position — клетка карты (клик подсвечивает клетку)
+ * - item — предмет (клик открывает инспектор предмета)
+ */
+export type LogSegment =
+  | { kind: "text"; text: string; style?: LogTextStyle }
+  | { kind: "entity"; entityId: string; name: string }
+  | { kind: "position"; x: number; y: number }
+  | { kind: "item"; itemId: string; name: string };
+
 /**
  * Сообщение в игровом логе (клиентская модель)
  */
 export interface LogMessage {
   /** Уникальный идентификатор */
   id: string;
-  /** Текст сообщения */
+  /** Текст сообщения (без разметки) */
   text: string;
+  /** Сообщение по частям со ссылками (если нет — только text) */
+  segments?: LogSegment[];
   /** Тип сообщения */
   type: LogType;
   /** Время создания (Unix milliseconds) */
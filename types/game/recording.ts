@@ -0,0 +1,56 @@
+/**
+ * Session Recording Types
+ *
+ * Формат файла записи сессии: входящие сообщения WebSocket и исходящие
+ * команды с временными метками. Используется для воспроизведения
+ * сессии без сервера.
+ */
+
+import type {ClientToServerCommand} from "../protocol";
+
+/**
+ * Текущая версия формата записи
+ */
+export const SESSION_RECORDING_VERSION = 1;
+
+/**
+ * Входящее сообщение от сервера (как пришло в MessageEventData.data)
+ */
+export interface SessionRecordingInboundEvent {
+  /** Миллисекунды от начала записи */
+  t: number;
+  direction: "in";
+  /** Сырой payload сообщения */
+  data: unknown;
+}
+
+/**
+ * Исходящая команда клиента
+ */
+export interface SessionRecordingOutboundEvent {
+  /** Миллисекунды от начала записи */
+  t: number;
+  direction: "out";
+  command: ClientToServerCommand;
+}
+
+/**
+ * Событие записи сессии
+ */
+export type SessionRecordingEvent =
+  | SessionRecordingInboundEvent
+  | SessionRecordingOutboundEvent;
+
+/**
+ * Файл записи сессии
+ */
+export interface SessionRecording {
+  /** Версия формата */
+  version: number;
+  /** Время начала записи (Unix ms) */
+  startedAt: number;
+  /** URL сервера, с которого велась запись */
+  serverUrl: string | null;
+  /** События в порядке поступления */
+  events: SessionRecordingEvent[];
+}
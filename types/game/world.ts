@@ -1,9 +1,11 @@
 /**
  * Game World Types
  *
- * Типы для игрового мира (карта, тайлы)
+ * Типы для игрового мира (карта, тайлы, память об уровнях)
  */
 
+import type {Position} from "../protocol";
+
 // ============================================================================
 // Tile Types
 // ============================================================================
@@ -25,6 +27,10 @@ export interface Tile {
   isWall: boolean;
   /** Тип окружения */
   env: TileEnv;
+  /** Можно ли встать на тайл (стены и деревья — нельзя) */
+  isWalkable: boolean;
+  /** Множитель стоимости перемещения на тайл (1 — обычный пол) */
+  moveCost: number;
   /** Виден ли тайл сейчас */
   isVisible: boolean;
   /** Был ли тайл исследован (для тумана войны) */
@@ -50,3 +56,38 @@ export interface GameWorld {
   /** Глобальный тик игры */
   globalTick: number;
 }
+
+// ============================================================================
+// Level Memory
+// ============================================================================
+
+/**
+ * Сущность, которую видели на уровне в последний раз
+ */
+export interface RememberedEntity {
+  id: string;
+  type: string;
+  name: string;
+  symbol: string;
+  color: string;
+  /** Последняя известная позиция */
+  pos: Position;
+  /** Тик, когда сущность видели в последний раз */
+  lastSeenTick: number;
+}
+
+/**
+ * Память клиента об уровне подземелья
+ */
+export interface LevelMemory {
+  /** Номер уровня */
+  level: number;
+  width: number;
+  height: number;
+  /** Исследованные тайлы построчно, один символ на тайл (см. utils/levelMemory.ts) */
+  rows: string[];
+  /** Сущности, которые были видны на уровне */
+  entities: RememberedEntity[];
+  /** Тик последнего обновления памяти */
+  tick: number;
+}
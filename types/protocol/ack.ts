@@ -0,0 +1,40 @@
+/**
+ * Command Acknowledgement Types
+ *
+ * Сопоставление ответов сервера с отправленными командами.
+ * Объявлены локально, пока не опубликованы в @cognitive-dungeon/agent-sdk.
+ *
+ * Клиент добавляет к каждой команде поле `id`. Сервер подтверждает
+ * принятую команду сообщением ACK, а в ошибку отклоненной команды
+ * добавляет `commandId`. Серверы без поддержки ACK просто игнорируют `id`.
+ */
+
+import type {
+  ClientToServerCommand,
+  ServerToClientError,
+} from "@cognitive-dungeon/agent-sdk";
+
+/**
+ * Команда с клиентским идентификатором
+ */
+export type ClientToServerTrackedCommand = ClientToServerCommand & {
+  /** Уникальный в пределах сессии id, генерируется клиентом */
+  id: string;
+};
+
+/**
+ * Подтверждение: сервер принял команду к исполнению
+ */
+export interface ServerToClientAck {
+  type: "ACK";
+  /** id команды из ClientToServerTrackedCommand */
+  commandId: string;
+}
+
+/**
+ * Ошибка сервера, относящаяся к конкретной команде
+ */
+export type ServerToClientCommandError = ServerToClientError & {
+  /** id отклоненной команды (если ошибка вызвана командой) */
+  commandId?: string;
+};
@@ -0,0 +1,47 @@
+/**
+ * Delta Protocol Types
+ *
+ * Инкрементальные обновления состояния (Server → Client).
+ * Объявлены локально, пока не опубликованы в @cognitive-dungeon/agent-sdk.
+ *
+ * Полные снимки (INIT/UPDATE) могут содержать поле `seq` — номер
+ * последнего примененного изменения. Каждый DELTA несет следующий номер;
+ * при пропуске номера клиент запрашивает новый полный снимок.
+ */
+
+import type {
+  ServerToClientEntityView,
+  ServerToClientLogEntry,
+  ServerToClientTileView,
+} from "@cognitive-dungeon/agent-sdk";
+
+/**
+ * Изменения сущностей, ключ — id сущности
+ */
+export interface ServerToClientEntityDelta {
+  /** Новые сущности в зоне видимости */
+  added?: ServerToClientEntityView[];
+  /** Сущности, у которых изменилось состояние (полное представление) */
+  changed?: ServerToClientEntityView[];
+  /** ID сущностей, которые исчезли из зоны видимости или были удалены */
+  removed?: string[];
+}
+
+/**
+ * Инкрементальное обновление мира
+ */
+export interface ServerToClientDelta {
+  type: "DELTA";
+  /** Порядковый номер изменения (предыдущий + 1) */
+  seq: number;
+  /** Глобальный тик после применения изменения */
+  tick: number;
+  /** Изменившиеся тайлы */
+  tiles?: ServerToClientTileView[];
+  /** Изменения сущностей */
+  entities?: ServerToClientEntityDelta;
+  /** Активная сущность (если сменилась) */
+  activeEntityId?: string;
+  /** Новые записи лога */
+  logs?: ServerToClientLogEntry[];
+}
@@ -54,3 +54,17 @@ export type {
   ServerToClientError,
   ServerToClientMessage,
 } from "@cognitive-dungeon/agent-sdk";
+
+// ============================================================================
+// Server → Client (client-side extensions, not yet in SDK)
+// ============================================================================
+
+export type { ServerToClientEntityDelta, ServerToClientDelta } from "./delta";
+export type {
+  ClientToServerTrackedCommand,
+  ServerToClientAck,
+  ServerToClientCommandError,
+} from "./ack";
+export type { ServerVersionInfoWithProtocol } from "./version";
+export type { ServerToClientUpdateWithLevel } from "./level";
+export type { ServerToClientTileViewWithTerrain } from "./terrain";
@@ -0,0 +1,21 @@
+/**
+ * Level Protocol Types
+ *
+ * Номер уровня подземелья в полных снимках (Server → Client).
+ * Объявлен локально, пока не опубликован в @cognitive-dungeon/agent-sdk.
+ *
+ * Полный снимок (INIT/UPDATE) может содержать поле `level`. По нему клиент
+ * хранит исследованную карту каждого уровня отдельно и восстанавливает ее
+ * при возвращении (см. utils/levelMemory.ts). Без поля уровень считается
+ * неизменным.
+ */
+
+import type {ServerToClientUpdate} from "@cognitive-dungeon/agent-sdk";
+
+/**
+ * Полный снимок с номером уровня
+ */
+export type ServerToClientUpdateWithLevel = ServerToClientUpdate & {
+  /** Номер текущего уровня подземелья (с 1) */
+  level?: number;
+};
@@ -0,0 +1,24 @@
+/**
+ * Terrain Protocol Types
+ *
+ * Свойства местности в представлении тайла (Server → Client).
+ * Объявлены локально, пока не опубликованы в @cognitive-dungeon/agent-sdk.
+ *
+ * Все поля необязательны: без `env` тип местности выводится из `isWall`
+ * (stone/floor), без `isWalkable`/`moveCost` берутся значения по умолчанию
+ * для типа местности (TERRAIN в constants.ts).
+ */
+
+import type {ServerToClientTileView} from "@cognitive-dungeon/agent-sdk";
+
+/**
+ * Тайл с типом местности, проходимостью и стоимостью перемещения
+ */
+export type ServerToClientTileViewWithTerrain = ServerToClientTileView & {
+  /** Тип местности: "stone" | "floor" | "grass" | "water" | "tree" */
+  env?: string;
+  /** Можно ли встать на тайл */
+  isWalkable?: boolean;
+  /** Множитель стоимости перемещения на тайл (1 — обычный пол) */
+  moveCost?: number;
+};
@@ -0,0 +1,20 @@
+/**
+ * Protocol Version Types
+ *
+ * Версия протокола в ответе сервера о сборке (ServerVersionInfo).
+ * Объявлены локально, пока не опубликованы в @cognitive-dungeon/agent-sdk.
+ *
+ * Сервер сообщает версию agent-sdk, по которой реализован его протокол.
+ * Клиент сравнивает ее со своей (см. utils/protocolVersion.ts) до
+ * подключения. Серверы без этого поля считаются непроверенными.
+ */
+
+import type {ServerVersionInfo} from "@cognitive-dungeon/agent-sdk";
+
+/**
+ * Информация о сборке сервера с версией протокола
+ */
+export type ServerVersionInfoWithProtocol = ServerVersionInfo & {
+  /** Версия протокола (semver версии agent-sdk), например "0.1.5" */
+  ProtocolVersion?: string;
+};
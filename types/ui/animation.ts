@@ -0,0 +1,15 @@
+/**
+ * Animation Types
+ *
+ * Типы для настроек анимаций сущностей на карте
+ */
+
+/**
+ * Настройки анимаций сущностей
+ */
+export interface AnimationSettings {
+  /** Множитель скорости: 2 — вдвое быстрее, 0.5 — вдвое медленнее */
+  speed: number;
+  /** Без перемещений и рывков: сущности сразу встают на новые клетки */
+  reduceMotion: boolean;
+}
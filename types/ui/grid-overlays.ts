@@ -0,0 +1,15 @@
+/**
+ * Grid Overlay Types
+ *
+ * Типы для слоев-подсказок поверх карты
+ */
+
+/**
+ * Включенные слои поверх карты
+ */
+export interface GridOverlays {
+  /** Видимость: видимые, запомненные и неисследованные клетки */
+  visibility: boolean;
+  /** Угрозы: клетки в досягаемости видимых врагов */
+  threat: boolean;
+}
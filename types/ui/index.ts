@@ -9,3 +9,15 @@ export type { ContextMenuData } from "./context-menu";
 
 // Speech bubble types
 export type { SpeechBubble } from "./speech-bubble";
+
+// Map renderer types
+export type { MapRenderer } from "./map-renderer";
+
+// Tileset types
+export type { TileMode, SpriteRect, TilesetManifest, Tileset } from "./tileset";
+
+// Grid overlay types
+export type { GridOverlays } from "./grid-overlays";
+
+// Animation types
+export type { AnimationSettings } from "./animation";
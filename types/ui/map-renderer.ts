@@ -0,0 +1,12 @@
+/**
+ * Map Renderer Types
+ *
+ * Типы для выбора способа отрисовки карты
+ */
+
+/**
+ * Способ отрисовки карты
+ * - "dom" — сетка из DOM-элементов (GameGrid)
+ * - "canvas" — отрисовка на canvas (CanvasGameGrid), для больших карт
+ */
+export type MapRenderer = "dom" | "canvas";
@@ -0,0 +1,51 @@
+/**
+ * Tileset Types
+ *
+ * Типы для графического режима карты (спрайты вместо ASCII-символов)
+ */
+
+/**
+ * Режим отображения клеток и сущностей
+ * - "ascii" — символы и цвета из SYMBOLS/COLORS
+ * - "tiles" — спрайты из тайлсета, неописанное рисуется символом
+ */
+export type TileMode = "ascii" | "tiles";
+
+/**
+ * Прямоугольник спрайта в атласе (в пикселях изображения)
+ */
+export interface SpriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Манифест тайлсета (tileset.json)
+ */
+export interface TilesetManifest {
+  name: string;
+  /** Путь к атласу относительно манифеста */
+  image: string;
+  sprites: {
+    /** Местность по TileEnv, плюс "wall" для стен */
+    env: Record<string, SpriteRect>;
+    /** Сущности по EntityType */
+    entity: Record<string, SpriteRect>;
+    /** NPC по NpcType (приоритетнее entity) */
+    npc: Record<string, SpriteRect>;
+    /** Предметы по ItemType (приоритетнее entity) */
+    item: Record<string, SpriteRect>;
+  };
+}
+
+/**
+ * Загруженный тайлсет: манифест и готовое к отрисовке изображение атласа
+ */
+export interface Tileset {
+  manifest: TilesetManifest;
+  image: HTMLImageElement;
+  /** URL атласа (для CSS background-image в DOM-отрисовке) */
+  imageUrl: string;
+}
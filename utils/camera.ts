@@ -93,3 +93,36 @@ export function calculateCameraOffset(
     y: containerHeight / 2 - pixelY,
   };
 }
+
+/**
+ * Видимая область карты в клетках (дробных: край окна режет клетку)
+ */
+export interface CameraViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Вычисляет видимую область карты по смещению камеры
+ * @param offset - смещение сетки относительно контейнера в пикселях
+ * @param containerWidth - ширина контейнера
+ * @param containerHeight - высота контейнера
+ * @param zoom - текущий уровень зума
+ * @returns область в координатах сетки
+ */
+export function getCameraViewport(
+  offset: { x: number; y: number },
+  containerWidth: number,
+  containerHeight: number,
+  zoom: number = 1,
+): CameraViewport {
+  const cellSize = getCellSize(zoom);
+  return {
+    x: -offset.x / cellSize,
+    y: -offset.y / cellSize,
+    width: containerWidth / cellSize,
+    height: containerHeight / cellSize,
+  };
+}
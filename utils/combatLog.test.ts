@@ -0,0 +1,123 @@
+import {describe, expect, it} from "vitest";
+
+import {Entity, LogMessage, LogType} from "../types";
+
+import {readCombatLog, tallyCombatLogs} from "./combatLog";
+
+const entity = (id: string, name: string, x: number, y: number): Entity =>
+  ({
+    id,
+    name,
+    type: "GOBLIN",
+    pos: { x, y },
+    isDead: false,
+  }) as unknown as Entity;
+
+const log = (text: string, type = LogType.COMBAT): LogMessage => ({
+  id: text,
+  text,
+  type,
+  timestamp: 0,
+});
+
+const hero = entity("hero", "Hero", 0, 0);
+const goblin = entity("goblin", "Goblin", 1, 0);
+
+describe("readCombatLog", () => {
+  it("ignores messages of other types", () => {
+    const message = log("Goblin hits Hero", LogType.INFO);
+    expect(readCombatLog(message, [hero, goblin], null)).toBeNull();
+  });
+
+  it("reads the attacker, the adjacent target and the damage", () => {
+    const event = readCombatLog(log("Goblin hits Hero for 4."), [hero, goblin], null);
+    expect(event).toMatchObject({
+      attacker: goblin,
+      target: hero,
+      damage: 4,
+      isDeath: false,
+    });
+  });
+
+  it("prefers longer names and reads \"you\" as the viewer", () => {
+    const chief = entity("chief", "Orc Chief", 0, 1);
+    const orc = entity("orc", "Orc", 5, 5);
+    const event = readCombatLog(log("Orc Chief hits you."), [hero, chief, orc], "hero");
+    expect(event?.mentions).toEqual([[chief], [hero]]);
+    expect(event?.attacker).toBe(chief);
+  });
+
+  it("takes entity links over names", () => {
+    const message: LogMessage = {
+      ...log("Goblin hits Hero"),
+      segments: [
+        { kind: "entity", entityId: "hero", name: "Goblin" },
+        { kind: "text", text: " hits " },
+        { kind: "entity", entityId: "goblin", name: "Hero" },
+      ],
+    };
+    expect(readCombatLog(message, [hero, goblin], null)?.attacker).toBe(hero);
+  });
+
+  it("has no attacker when the two are not adjacent", () => {
+    const far = entity("goblin", "Goblin", 4, 4);
+    const event = readCombatLog(log("Goblin hits Hero"), [hero, far], null);
+    expect(event?.attacker).toBeUndefined();
+    expect(event?.mentions).toHaveLength(2);
+  });
+
+  it("marks death messages", () => {
+    expect(readCombatLog(log("Goblin dies."), [goblin], null)?.isDeath).toBe(true);
+  });
+});
+
+describe("tallyCombatLogs", () => {
+  it("returns null without combat messages", () => {
+    const logs = [log("Hello", LogType.INFO)];
+    expect(tallyCombatLogs(logs, [hero], [hero], "hero")).toBeNull();
+  });
+
+  it("counts hits of the character with the damage from the text", () => {
+    const tally = tallyCombatLogs(
+      [
+        log("Hero hits Goblin for 3."),
+        log("Goblin hits Hero for 2."),
+        log("Hero hits Goblin."),
+      ],
+      [hero, goblin],
+      [hero, goblin],
+      "hero",
+    );
+    expect(tally).toEqual({
+      hits: [
+        { target: goblin, damage: 3 },
+        { target: goblin, damage: null },
+      ],
+      kills: [],
+    });
+  });
+
+  it("counts a kill only of a target the character hit", () => {
+    const rat = entity("rat", "Rat", 0, 1);
+    const tally = tallyCombatLogs(
+      [log("Hero hits Goblin for 5."), log("Goblin dies."), log("Rat dies.")],
+      [hero, goblin, rat],
+      [hero],
+      "hero",
+    );
+    expect(tally?.kills).toEqual([goblin]);
+  });
+
+  it("picks the adjacent one of targets with the same name", () => {
+    const near = entity("g1", "Goblin", 1, 1);
+    const far = entity("g2", "Goblin", 6, 6);
+    const entities = [hero, far, near];
+    const tally = tallyCombatLogs(
+      [log("Hero hits Goblin for 1.")],
+      entities,
+      entities,
+      "hero",
+    );
+    expect(tally?.hits[0].target).toBe(near);
+  });
+});
@@ -0,0 +1,223 @@
+import {Entity, LogMessage, LogType, Position} from "../types";
+
+/**
+ * Разбор боевых сообщений лога
+ *
+ * Сервер не присылает события боя отдельно, поэтому кто кого ударил, на
+ * сколько и кто умер, клиент узнает из текста сообщений COMBAT
+ * («Goblin hits Hero for 4.», «Goblin dies.»). По ним строятся анимации
+ * ударов (см. utils/entityAnimations) и статистика персонажа
+ * (см. utils/gameRun, utils/sessionStats). Разбор английского текста
+ * эвристический, поэтому результаты — оценки, а не данные сервера.
+ */
+
+/** Сообщения о смерти: «Goblin dies.», «Orc is slain» и т.п. */
+const DEATH_PATTERN = /\b(dies|died|dead|slain|killed|perish(?:es|ed)?)\b/i;
+/** Так сервер называет своего персонажа в тексте сообщений */
+const VIEWER_PATTERN = /\byou\b/gi;
+/** Урон в сообщении об ударе: «... for 4.» */
+const DAMAGE_PATTERN = /\bfor (\d+)\b/i;
+
+/**
+ * Что произошло по боевому сообщению
+ */
+export interface CombatLogEvent {
+  /** Атакующий и цель, если они рядом друг с другом */
+  attacker?: Entity;
+  target?: Entity;
+  /** Урон из текста сообщения, если он указан */
+  damage?: number;
+  /** Сообщение о смерти: умер кто-то из упомянутых */
+  isDeath: boolean;
+  /** Упомянутые сущности по порядку, кандидаты с одинаковыми именами */
+  mentions: Entity[][];
+}
+
+/**
+ * Удар персонажа по цели
+ */
+export interface CombatHit {
+  target: Entity;
+  /** Урон из текста; null — сервер его не указал */
+  damage: number | null;
+}
+
+/**
+ * Бой персонажа по сообщениям одного обновления
+ */
+export interface CombatTally {
+  hits: CombatHit[];
+  /** Цели персонажа, о смерти которых есть сообщение */
+  kills: Entity[];
+}
+
+const chebyshev = (a: Position, b: Position): number =>
+  Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Упоминания сущностей в тексте: по имени или «you» для своего персонажа
+ *
+ * Более длинные имена имеют приоритет («Orc Chief» — не «Orc»).
+ */
+function findMentions(
+  text: string,
+  entities: Entity[],
+  viewer: Entity | null,
+): Entity[][] {
+  const byName = new Map<string, Entity[]>();
+  entities.forEach((entity) => {
+    if (entity.name) {
+      byName.set(entity.name, [...(byName.get(entity.name) ?? []), entity]);
+    }
+  });
+
+  const matches: { index: number; length: number; entities: Entity[] }[] = [];
+  byName.forEach((named, name) => {
+    const pattern = new RegExp(`\\b${escapeRegExp(name)}\\b`, "g");
+    for (const match of text.matchAll(pattern)) {
+      matches.push({
+        index: match.index,
+        length: name.length,
+        entities: named,
+      });
+    }
+  });
+  if (viewer) {
+    for (const match of text.matchAll(VIEWER_PATTERN)) {
+      matches.push({
+        index: match.index,
+        length: match[0].length,
+        entities: [viewer],
+      });
+    }
+  }
+
+  matches.sort((a, b) => a.index - b.index || b.length - a.length);
+  const mentions: Entity[][] = [];
+  let end = 0;
+  matches.forEach((match) => {
+    if (match.index >= end) {
+      mentions.push(match.entities);
+      end = match.index + match.length;
+    }
+  });
+  return mentions;
+}
+
+/**
+ * Разбирает боевое сообщение
+ *
+ * Ссылки на сущности (segments) точнее текста, поэтому берутся первыми;
+ * иначе сущности ищутся по именам. Атакующий — первое упоминание, цель —
+ * следующее; рывок возможен, только если они стоят рядом.
+ *
+ * @param entities - сущности, которые могут быть упомянуты (в том числе
+ *   недавно исчезнувшие)
+ * @param viewerId - ID своего персонажа: «you» в тексте
+ * @returns null для сообщений других типов
+ */
+export function readCombatLog(
+  log: LogMessage,
+  entities: Entity[],
+  viewerId: string | null,
+): CombatLogEvent | null {
+  if (log.type !== LogType.COMBAT) {
+    return null;
+  }
+  const byId = new Map(entities.map((entity) => [entity.id, entity]));
+  const linked = (log.segments ?? []).flatMap((segment) =>
+    segment.kind === "entity" && byId.has(segment.entityId)
+      ? [[byId.get(segment.entityId)]]
+      : [],
+  );
+  const viewer = (viewerId && byId.get(viewerId)) ?? null;
+  const mentions =
+    linked.length > 0 ? linked : findMentions(log.text, entities, viewer);
+
+  const event: CombatLogEvent = {
+    isDeath: DEATH_PATTERN.test(log.text),
+    mentions,
+  };
+  const damage = log.text.match(DAMAGE_PATTERN);
+  if (damage) {
+    event.damage = Number(damage[1]);
+  }
+  const [attackers = [], targets = []] = mentions;
+  for (const attacker of attackers) {
+    const target = targets.find(
+      (candidate) =>
+        candidate.id !== attacker.id &&
+        !candidate.isDead &&
+        chebyshev(candidate.pos, attacker.pos) <= 1,
+    );
+    if (target && !attacker.isDead) {
+      event.attacker = attacker;
+      event.target = target;
+      break;
+    }
+  }
+  return event;
+}
+
+/**
+ * Собирает удары и убийства персонажа из сообщений одного обновления
+ *
+ * Удар — сообщение, где персонаж упомянут первым; из одноименных целей
+ * берется стоящая рядом. Убийство — сообщение о смерти цели, которую
+ * персонаж ударил в этом же обновлении.
+ *
+ * @param logs - сообщения обновления
+ * @param previousEntities - все сущности до обновления
+ * @param entities - все сущности после обновления
+ * @param myEntityId - свой персонаж
+ * @returns null, если боевых сообщений нет (сервер мог их не прислать)
+ */
+export function tallyCombatLogs(
+  logs: LogMessage[],
+  previousEntities: Entity[],
+  entities: Entity[],
+  myEntityId: string,
+): CombatTally | null {
+  const combat = logs.filter((log) => log.type === LogType.COMBAT);
+  // Убитые могли исчезнуть из обновления, а свой персонаж бил с прежней клетки
+  const known = new Map(entities.map((entity) => [entity.id, entity]));
+  previousEntities.forEach((entity) => {
+    if (!known.has(entity.id) || entity.id === myEntityId) {
+      known.set(entity.id, entity);
+    }
+  });
+  const me = known.get(myEntityId);
+  if (combat.length === 0 || !me) {
+    return null;
+  }
+  const mentionable = [...known.values()];
+  const tally: CombatTally = { hits: [], kills: [] };
+  const hitIds = new Set<string>();
+  combat.forEach((log) => {
+    const event = readCombatLog(log, mentionable, myEntityId);
+    const [attackers = [], targets = []] = event.mentions;
+    if (attackers.some((entity) => entity.id === myEntityId)) {
+      const candidates = targets.filter((entity) => entity.id !== myEntityId);
+      const target =
+        candidates.find((entity) => chebyshev(entity.pos, me.pos) <= 1) ??
+        candidates[0];
+      if (target) {
+        hitIds.add(target.id);
+        tally.hits.push({ target, damage: event.damage ?? null });
+      }
+    }
+    // «Hero killed Goblin» — и удар, и смерть в одном сообщении
+    if (event.isDeath) {
+      const dead = event.mentions
+        .flat()
+        .find((entity) => hitIds.has(entity.id));
+      if (dead && !tally.kills.some((entity) => entity.id === dead.id)) {
+        tally.kills.push(dead);
+      }
+    }
+  });
+  return tally;
+}
@@ -0,0 +1,144 @@
+import {describe, expect, it} from "vitest";
+
+import type {ClientToServerTrackedCommand} from "../types";
+
+import {
+  createTrackedCommand,
+  getItemCommandFeedback,
+  matchCommandReply,
+  TrackedCommand,
+} from "./commandTracker";
+import type {DecodedServerMessage} from "./protocolDecoder";
+
+const command = (
+  id: string,
+  connectionId: string | null,
+  entityId: string | null,
+  overrides: Partial<TrackedCommand> = {},
+): TrackedCommand => ({
+  id,
+  action: "MOVE",
+  connectionId,
+  entityId,
+  sentAt: 0,
+  status: "pending",
+  ...overrides,
+});
+
+const msg = (value: Record<string, unknown>) =>
+  value as unknown as DecodedServerMessage;
+
+describe("createTrackedCommand", () => {
+  it("records the origin and the item of the command", () => {
+    const tracked = createTrackedCommand(
+      { action: "USE", payload: { itemId: "potion" }, id: "c1" } as ClientToServerTrackedCommand,
+      { connectionId: "hero-2", entityId: "hero-2" },
+      100,
+    );
+    expect(tracked).toEqual({
+      id: "c1",
+      action: "USE",
+      itemId: "potion",
+      connectionId: "hero-2",
+      entityId: "hero-2",
+      sentAt: 100,
+      status: "pending",
+    });
+  });
+
+  it("takes the sender of a LOGIN from its token", () => {
+    const tracked = createTrackedCommand(
+      { action: "LOGIN", token: "hero", id: "c1" } as ClientToServerTrackedCommand,
+      { connectionId: null, entityId: null },
+    );
+    expect(tracked.entityId).toBe("hero");
+  });
+});
+
+describe("matchCommandReply", () => {
+  it("matches ACK and command errors by id on any connection", () => {
+    const commands = [command("c1", null, "hero")];
+    expect(
+      matchCommandReply(commands, msg({ type: "ACK", commandId: "c9" }), "hero-2", false),
+    ).toEqual({ commandId: "c9", accepted: true });
+    expect(
+      matchCommandReply(
+        commands,
+        msg({ type: "ERROR", error: "Not your turn", commandId: "c1" }),
+        null,
+        true,
+      ),
+    ).toEqual({ commandId: "c1", accepted: false, reason: "Not your turn" });
+  });
+
+  it("ignores unnumbered replies once the connection supports ACK", () => {
+    const commands = [command("c1", null, "hero")];
+    expect(
+      matchCommandReply(commands, msg({ type: "UPDATE", myEntityId: "hero" }), null, true),
+    ).toBeNull();
+  });
+
+  it("acks the oldest pending command of the same connection only", () => {
+    const commands = [
+      command("c1", null, "hero", { status: "rejected" }),
+      command("c2", "hero-2", "hero-2"),
+      command("c3", null, "hero"),
+    ];
+    expect(
+      matchCommandReply(commands, msg({ type: "UPDATE", myEntityId: "hero" }), null, false),
+    ).toEqual({ commandId: "c3", accepted: true });
+    expect(
+      matchCommandReply(commands, msg({ type: "ERROR", error: "Blocked" }), "hero-2", false),
+    ).toEqual({ commandId: "c2", accepted: false, reason: "Blocked" });
+    expect(
+      matchCommandReply(commands, msg({ type: "UPDATE", myEntityId: "hero" }), "hero-3", false),
+    ).toBeNull();
+  });
+
+  it("does not take a broadcast snapshot for an ack", () => {
+    const commands = [command("c1", null, "hero")];
+    expect(matchCommandReply(commands, msg({ type: "UPDATE" }), null, false)).toBeNull();
+    expect(
+      matchCommandReply(commands, msg({ type: "UPDATE", myEntityId: "hero-2" }), null, false),
+    ).toBeNull();
+  });
+
+  it("acks on a DELTA that changes the sender or passes its turn", () => {
+    const commands = [command("c1", null, "hero")];
+    const delta = (extra: Record<string, unknown>) =>
+      msg({ type: "DELTA", seq: 2, tick: 3, ...extra });
+
+    expect(matchCommandReply(commands, delta({}), null, false)).toBeNull();
+    expect(
+      matchCommandReply(
+        commands,
+        delta({ entities: { changed: [{ id: "goblin" }] } }),
+        null,
+        false,
+      ),
+    ).toBeNull();
+    expect(
+      matchCommandReply(
+        commands,
+        delta({ entities: { changed: [{ id: "hero" }] } }),
+        null,
+        false,
+      ),
+    ).toEqual({ commandId: "c1", accepted: true });
+    expect(
+      matchCommandReply(commands, delta({ activeEntityId: "goblin" }), null, false),
+    ).toEqual({ commandId: "c1", accepted: true });
+  });
+});
+
+describe("getItemCommandFeedback", () => {
+  it("keeps the latest command per item", () => {
+    const feedback = getItemCommandFeedback([
+      command("c1", null, "hero", { itemId: "potion" }),
+      command("c2", null, "hero"),
+      command("c3", null, "hero", { itemId: "potion", status: "rejected" }),
+    ]);
+    expect([...feedback.keys()]).toEqual(["potion"]);
+    expect(feedback.get("potion")?.id).toBe("c3");
+  });
+});
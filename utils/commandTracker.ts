@@ -0,0 +1,191 @@
+import type {ClientToServerCommand, ClientToServerTrackedCommand} from "../types";
+
+import {
+  DecodedServerMessage,
+  isAckMessage,
+  isDeltaMessage,
+  isServerErrorMessage,
+  isSnapshotMessage,
+} from "./protocolDecoder";
+
+/** Сколько ждать ответа на команду, прежде чем считать ее потерянной (мс) */
+export const COMMAND_ACK_TIMEOUT_MS = 5000;
+
+/** Сколько показывать отказ или таймаут в UI (мс) */
+export const COMMAND_FEEDBACK_MS = 4000;
+
+/**
+ * Состояние отслеживаемой команды
+ *
+ * Принятые команды из списка удаляются, поэтому статуса "accepted" нет.
+ */
+export type TrackedCommandStatus = "pending" | "rejected" | "timeout";
+
+/**
+ * Отправленная команда, ожидающая ответа сервера
+ */
+export interface TrackedCommand {
+  id: string;
+  action: string;
+  /** Предмет, над которым выполняется команда (USE, DROP, EQUIP...) */
+  itemId?: string;
+  /** Соединение, через которое ушла команда (null — основное) */
+  connectionId: string | null;
+  /** Сущность-исполнитель (null — еще не известна) */
+  entityId: string | null;
+  sentAt: number;
+  status: TrackedCommandStatus;
+  /** Причина отказа от сервера */
+  reason?: string;
+}
+
+/**
+ * Ответ сервера, сопоставленный с командой
+ */
+export interface CommandReply {
+  commandId: string;
+  accepted: boolean;
+  reason?: string;
+}
+
+let commandCounter = 0;
+
+/**
+ * Генерирует id команды, уникальный в пределах вкладки
+ * @example createCommandId() // "mgx3k2a1-1f"
+ */
+export function createCommandId(now: number = Date.now()): string {
+  commandCounter += 1;
+  return `${now.toString(36)}-${commandCounter.toString(36)}`;
+}
+
+/**
+ * Добавляет к команде клиентский id
+ */
+export function withCommandId(
+  command: ClientToServerCommand,
+  id: string = createCommandId(),
+): ClientToServerTrackedCommand {
+  return { ...command, id };
+}
+
+/**
+ * Откуда и от чьего имени отправлена команда
+ */
+export interface CommandOrigin {
+  /** ID участника группы или null — основное соединение */
+  connectionId: string | null;
+  /** Сущность-исполнитель; для LOGIN берется из token */
+  entityId: string | null;
+}
+
+/**
+ * Создает запись трекера для отправленной команды
+ */
+export function createTrackedCommand(
+  command: ClientToServerTrackedCommand,
+  origin: CommandOrigin,
+  now: number = Date.now(),
+): TrackedCommand {
+  const itemId = command.payload?.itemId;
+  const entityId =
+    command.action === "LOGIN" ? command.token : origin.entityId;
+  return {
+    id: command.id,
+    action: command.action,
+    itemId: typeof itemId === "string" ? itemId : undefined,
+    connectionId: origin.connectionId,
+    entityId,
+    sentAt: now,
+    status: "pending",
+  };
+}
+
+/**
+ * Проверяет, что снимок или DELTA относится к сущности-исполнителю
+ *
+ * Без ACK обновление считается ответом, только если оно адресовано
+ * исполнителю (снимок с его myEntityId) или меняет его самого либо
+ * передает ход от него. Широковещательные обновления о чужих ходах
+ * команды не подтверждают.
+ */
+function isScopedToEntity(
+  msg: DecodedServerMessage,
+  entityId: string | null,
+): boolean {
+  if (!entityId) {
+    return false;
+  }
+  if (isDeltaMessage(msg)) {
+    const changed = msg.entities?.changed ?? [];
+    return (
+      changed.some((e) => e.id === entityId) ||
+      (msg.activeEntityId !== undefined && msg.activeEntityId !== entityId)
+    );
+  }
+  return isSnapshotMessage(msg) && msg.myEntityId === entityId;
+}
+
+/**
+ * Сопоставляет сообщение сервера с ожидающей командой
+ *
+ * ACK и ошибки с `commandId` сопоставляются по id. Пока сервер ни разу
+ * не прислал `commandId` в это соединение (старый сервер без ACK), ответы
+ * сопоставляются по порядку: сервер обрабатывает команды соединения
+ * последовательно, поэтому ошибка или адресованное исполнителю обновление
+ * относятся к самой старой ожидающей команде этого соединения.
+ *
+ * @param commands - отслеживаемые команды в порядке отправки
+ * @param msg - проверенное сообщение сервера
+ * @param connectionId - соединение, из которого пришло сообщение (null — основное)
+ * @param acksSupported - сервер уже присылал ACK или commandId в это соединение
+ * @returns ответ или null, если сообщение не относится к командам
+ */
+export function matchCommandReply(
+  commands: TrackedCommand[],
+  msg: DecodedServerMessage,
+  connectionId: string | null,
+  acksSupported: boolean,
+): CommandReply | null {
+  if (isAckMessage(msg)) {
+    return { commandId: msg.commandId, accepted: true };
+  }
+
+  if (isServerErrorMessage(msg) && msg.commandId) {
+    return { commandId: msg.commandId, accepted: false, reason: msg.error };
+  }
+
+  if (acksSupported) {
+    return null;
+  }
+
+  const oldest = commands.find(
+    (c) => c.status === "pending" && c.connectionId === connectionId,
+  );
+  if (!oldest) {
+    return null;
+  }
+  if (isServerErrorMessage(msg)) {
+    return { commandId: oldest.id, accepted: false, reason: msg.error };
+  }
+  if (isScopedToEntity(msg, oldest.entityId)) {
+    return { commandId: oldest.id, accepted: true };
+  }
+  return null;
+}
+
+/**
+ * Последняя команда для каждого предмета — для подсветки слотов
+ * @returns Map itemId → команда
+ */
+export function getItemCommandFeedback(
+  commands: TrackedCommand[],
+): Map<string, TrackedCommand> {
+  const byItem = new Map<string, TrackedCommand>();
+  for (const command of commands) {
+    if (command.itemId) {
+      byItem.set(command.itemId, command);
+    }
+  }
+  return byItem;
+}
@@ -0,0 +1,50 @@
+/**
+ * Цвета Tailwind-классов для отрисовки на canvas
+ *
+ * Цвета сущностей и местности заданы классами ("text-red-600",
+ * "bg-green-950/40"), а canvas нужен CSS-цвет. Класс применяется к скрытому
+ * элементу, и вычисленный цвет кешируется, поэтому тема и любые классы от
+ * сервера выглядят так же, как в DOM-отрисовке.
+ */
+
+type ColorProperty = "color" | "backgroundColor" | "borderColor";
+
+const cache = new Map<string, string>();
+let probe: HTMLElement | null = null;
+
+function getProbe(): HTMLElement {
+  if (!probe) {
+    probe = document.createElement("span");
+    probe.setAttribute("aria-hidden", "true");
+    probe.style.position = "absolute";
+    probe.style.visibility = "hidden";
+    probe.style.pointerEvents = "none";
+    document.body.appendChild(probe);
+  }
+  return probe;
+}
+
+/**
+ * Вычисляет CSS-цвет Tailwind-класса
+ * @param className - класс цвета, например "text-cyan-400" или "bg-black/70"
+ * @param property - какое свойство задает класс
+ * @returns цвет в формате getComputedStyle (rgb()/oklch())
+ */
+export function resolveClassColor(
+  className: string,
+  property: ColorProperty = "color",
+): string {
+  const key = `${property}:${className}`;
+  const cached = cache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const element = getProbe();
+  element.className = className;
+  if (property === "borderColor") {
+    element.style.borderStyle = "solid";
+  }
+  const color = getComputedStyle(element)[property];
+  cache.set(key, color);
+  return color;
+}
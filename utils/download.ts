@@ -0,0 +1,38 @@
+/**
+ * Сохраняет текст в файл через загрузку браузера
+ * @param content - содержимое файла
+ * @param fileName - имя файла
+ * @param type - MIME-тип содержимого
+ */
+export function downloadTextFile(
+  content: string,
+  fileName: string,
+  type: string,
+): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Формирует имя файла с меткой времени
+ * @param prefix - начало имени ("log", "stats")
+ * @param extension - расширение без точки ("json", "csv")
+ * @param date - время в метке
+ * @returns имя файла вида "log-2025-01-31T12-00-00.json"
+ */
+export function getTimestampedFileName(
+  prefix: string,
+  extension: string,
+  date: Date = new Date(),
+): string {
+  const stamp = date
+    .toISOString()
+    .replace(/\..+$/, "")
+    .replace(/:/g, "-");
+  return `${prefix}-${stamp}.${extension}`;
+}
@@ -0,0 +1,220 @@
+import {describe, expect, it} from "vitest";
+
+import type {AnimationSettings, Entity} from "../types";
+
+import {
+  diffEntitySnapshots,
+  EMPTY_ENTITY_ANIMATION_STATE,
+  ENTITY_ANIMATION_DURATIONS,
+  getAnimationDurations,
+  getLungeOffset,
+  getMovePosition,
+  getNextEffectEnd,
+  LUNGE_DISTANCE,
+  pruneEntityAnimations,
+  startDeath,
+  startLunge,
+} from "./entityAnimations";
+
+const NORMAL: AnimationSettings = { speed: 1, reduceMotion: false };
+const REDUCED: AnimationSettings = { speed: 1, reduceMotion: true };
+
+const entity = (
+  id: string,
+  x: number,
+  y: number,
+  hp = 10,
+  isDead = false,
+): Entity =>
+  ({ id, pos: { x, y }, stats: { hp }, isDead }) as unknown as Entity;
+
+const snapshot = (...entities: Entity[]) =>
+  new Map(entities.map((e) => [e.id, e]));
+
+describe("getAnimationDurations", () => {
+  it("scales the durations by the speed", () => {
+    const durations = getAnimationDurations({ speed: 2, reduceMotion: false });
+    expect(durations.move).toBe(ENTITY_ANIMATION_DURATIONS.move / 2);
+    expect(durations.death).toBe(ENTITY_ANIMATION_DURATIONS.death / 2);
+  });
+});
+
+describe("diffEntitySnapshots", () => {
+  it("moves an entity to a nearby cell", () => {
+    const { state } = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0)),
+      [entity("a", 1, 0)],
+      NORMAL,
+      1000,
+    );
+    const move = state.effects.get("a")?.move;
+    expect(move).toEqual({
+      from: { x: 0, y: 0 },
+      to: { x: 1, y: 0 },
+      start: 1000,
+      duration: ENTITY_ANIMATION_DURATIONS.move,
+    });
+    expect(getMovePosition(move!, 1000)).toEqual({ x: 0, y: 0 });
+    expect(getMovePosition(move!, 1000 + move!.duration)).toEqual({ x: 1, y: 0 });
+  });
+
+  it("continues an interrupted move from the shown position", () => {
+    const first = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0)),
+      [entity("a", 1, 0)],
+      NORMAL,
+      1000,
+    ).state;
+    const shown = getMovePosition(first.effects.get("a")!.move!, 1100);
+    const { state } = diffEntitySnapshots(
+      first,
+      snapshot(entity("a", 1, 0)),
+      [entity("a", 2, 0)],
+      NORMAL,
+      1100,
+    );
+    expect(state.effects.get("a")?.move?.from).toEqual(shown);
+  });
+
+  it("does not animate teleports or moves with reduced motion", () => {
+    const teleport = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0)),
+      [entity("a", 5, 0)],
+      NORMAL,
+      1000,
+    );
+    expect(teleport.state.effects.has("a")).toBe(false);
+
+    const reduced = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0)),
+      [entity("a", 1, 0)],
+      REDUCED,
+      1000,
+    );
+    expect(reduced.state.effects.has("a")).toBe(false);
+  });
+
+  it("adds up damage taken while the hit is shown", () => {
+    const first = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0, 10)),
+      [entity("a", 0, 0, 7)],
+      NORMAL,
+      1000,
+    ).state;
+    const { state } = diffEntitySnapshots(
+      first,
+      snapshot(entity("a", 0, 0, 7)),
+      [entity("a", 0, 0, 5)],
+      REDUCED,
+      1200,
+    );
+    expect(state.effects.get("a")?.hit).toMatchObject({
+      damage: 5,
+      start: 1200,
+      motion: false,
+    });
+  });
+
+  it("starts the death fade with the last living snapshot", () => {
+    const alive = entity("a", 0, 0, 3);
+    const { state } = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(alive),
+      [entity("a", 0, 0, 0, true)],
+      NORMAL,
+      1000,
+    );
+    expect(state.dying).toEqual([
+      {
+        entity: alive,
+        death: { start: 1000, duration: ENTITY_ANIMATION_DURATIONS.death },
+      },
+    ]);
+    expect(startDeath(state, alive, NORMAL, 1100)).toBe(state);
+  });
+
+  it("returns removed entities and keeps the state when nothing changed", () => {
+    const gone = entity("b", 3, 3);
+    const result = diffEntitySnapshots(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      snapshot(entity("a", 0, 0), gone),
+      [entity("a", 0, 0)],
+      NORMAL,
+      1000,
+    );
+    expect(result.removed).toEqual([gone]);
+    expect(result.state).toBe(EMPTY_ENTITY_ANIMATION_STATE);
+  });
+});
+
+describe("startLunge", () => {
+  it("lunges towards the target and comes back", () => {
+    const state = startLunge(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      entity("a", 0, 0),
+      entity("b", 1, -1),
+      NORMAL,
+      1000,
+    );
+    const lunge = state.effects.get("a")!.lunge!;
+    expect(lunge).toMatchObject({ dx: 1, dy: -1 });
+    const start = getLungeOffset(lunge, 1000);
+    expect(start.x).toBeCloseTo(0);
+    expect(start.y).toBeCloseTo(0);
+    expect(getLungeOffset(lunge, 1000 + lunge.duration * 0.4)).toEqual({
+      x: LUNGE_DISTANCE,
+      y: -LUNGE_DISTANCE,
+    });
+    const back = getLungeOffset(lunge, 1000 + lunge.duration);
+    expect(back.x).toBeCloseTo(0);
+    expect(back.y).toBeCloseTo(0);
+  });
+
+  it("does nothing with reduced motion", () => {
+    const state = startLunge(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      entity("a", 0, 0),
+      entity("b", 1, 0),
+      REDUCED,
+      1000,
+    );
+    expect(state).toBe(EMPTY_ENTITY_ANIMATION_STATE);
+  });
+});
+
+describe("pruneEntityAnimations", () => {
+  const state = startDeath(
+    startLunge(
+      EMPTY_ENTITY_ANIMATION_STATE,
+      entity("a", 0, 0),
+      entity("b", 1, 0),
+      NORMAL,
+      1000,
+    ),
+    entity("c", 2, 2),
+    NORMAL,
+    1000,
+  );
+  const lungeEnd = 1000 + ENTITY_ANIMATION_DURATIONS.lunge;
+  const deathEnd = 1000 + ENTITY_ANIMATION_DURATIONS.death;
+
+  it("keeps running effects as they are", () => {
+    expect(pruneEntityAnimations(state, 1100)).toBe(state);
+    expect(getNextEffectEnd(state)).toBe(lungeEnd);
+  });
+
+  it("drops finished effects and dying entities", () => {
+    const afterLunge = pruneEntityAnimations(state, lungeEnd);
+    expect(afterLunge.effects.size).toBe(0);
+    expect(getNextEffectEnd(afterLunge)).toBe(deathEnd);
+
+    const afterDeath = pruneEntityAnimations(afterLunge, deathEnd);
+    expect(afterDeath.dying).toEqual([]);
+    expect(getNextEffectEnd(afterDeath)).toBeNull();
+  });
+});
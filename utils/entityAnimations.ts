@@ -0,0 +1,393 @@
+import {AnimationSettings, Entity, Position} from "../types";
+
+/**
+ * Анимации сущностей на карте
+ *
+ * Эффекты выводятся из двух источников: сравнения соседних снимков
+ * сущностей (перемещение, потеря HP, смерть) и боевых сообщений лога
+ * (удар — рывок к цели, смерть — угасание сущности, которую сервер уже
+ * убрал из списка). Время везде — Date.now(); рендереры только читают
+ * эффекты и рисуют их на свой лад (CSS-анимации или canvas).
+ */
+
+/** Базовые длительности эффектов при скорости 1 (мс) */
+export const ENTITY_ANIMATION_DURATIONS = {
+  move: 300,
+  lunge: 250,
+  /** Вспышка и тряска при уроне */
+  flash: 300,
+  /** Всплывающее число урона */
+  hit: 1000,
+  death: 600,
+};
+
+/** Насколько сущность подается к цели при ударе (доля клетки) */
+export const LUNGE_DISTANCE = 0.3;
+/** Доля рывка, за которую сущность доходит до крайней точки */
+const LUNGE_PEAK = 0.4;
+/** Смена позиции дальше этого (в клетках) — телепорт, без перемещения */
+const MAX_MOVE_DISTANCE = 2;
+
+
+/**
+ * Перемещение между клетками
+ */
+export interface MoveEffect {
+  /** Откуда (дробная позиция, если прервано другое перемещение) */
+  from: Position;
+  to: Position;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Рывок к цели при ударе
+ */
+export interface LungeEffect {
+  /** Направление к цели по осям: -1, 0 или 1 */
+  dx: number;
+  dy: number;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Попадание: вспышка, тряска и всплывающее число урона
+ */
+export interface HitEffect {
+  /** Урон, накопленный за время анимации */
+  damage: number;
+  start: number;
+  /** Длительность числа урона */
+  duration: number;
+  /** Длительность вспышки и тряски */
+  flashDuration: number;
+  /** Тряска и всплывающее число (выключены при «уменьшить движение») */
+  motion: boolean;
+}
+
+/**
+ * Угасание умершей сущности
+ */
+export interface DeathEffect {
+  start: number;
+  duration: number;
+}
+
+/**
+ * Текущие эффекты сущности
+ */
+export interface EntityEffects {
+  move?: MoveEffect;
+  lunge?: LungeEffect;
+  hit?: HitEffect;
+}
+
+/**
+ * Умершая сущность: последний снимок, пока идет угасание
+ */
+export interface DyingEntity {
+  entity: Entity;
+  death: DeathEffect;
+}
+
+/**
+ * Все анимации карты
+ */
+export interface EntityAnimationState {
+  /** Эффекты по ID сущности */
+  effects: Map<string, EntityEffects>;
+  dying: DyingEntity[];
+}
+
+export const EMPTY_ENTITY_ANIMATION_STATE: EntityAnimationState = {
+  effects: new Map(),
+  dying: [],
+};
+
+type EffectTiming = { start: number; duration: number };
+
+const easeOut = (t: number): number => 1 - (1 - t) * (1 - t);
+
+const chebyshev = (a: Position, b: Position): number =>
+  Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+
+/**
+ * Длительности эффектов с учетом скорости анимаций
+ */
+export function getAnimationDurations(
+  settings: AnimationSettings,
+): typeof ENTITY_ANIMATION_DURATIONS {
+  const scale = (duration: number) => Math.round(duration / settings.speed);
+  return {
+    move: scale(ENTITY_ANIMATION_DURATIONS.move),
+    lunge: scale(ENTITY_ANIMATION_DURATIONS.lunge),
+    flash: scale(ENTITY_ANIMATION_DURATIONS.flash),
+    hit: scale(ENTITY_ANIMATION_DURATIONS.hit),
+    death: scale(ENTITY_ANIMATION_DURATIONS.death),
+  };
+}
+
+/**
+ * Доля прошедшего времени эффекта: 0..1
+ */
+export function getEffectProgress(effect: EffectTiming, now: number): number {
+  if (effect.duration <= 0) {
+    return 1;
+  }
+  return Math.max(0, Math.min(1, (now - effect.start) / effect.duration));
+}
+
+export const isEffectRunning = (effect: EffectTiming, now: number): boolean =>
+  now < effect.start + effect.duration;
+
+/**
+ * Текущая позиция в клетках (дробная во время перемещения)
+ */
+export function getMovePosition(move: MoveEffect, now: number): Position {
+  const progress = easeOut(getEffectProgress(move, now));
+  return {
+    x: move.from.x + (move.to.x - move.from.x) * progress,
+    y: move.from.y + (move.to.y - move.from.y) * progress,
+  };
+}
+
+/**
+ * Смещение рывка в клетках: быстро к цели и плавно обратно
+ */
+export function getLungeOffset(lunge: LungeEffect, now: number): Position {
+  const t = getEffectProgress(lunge, now);
+  const reach =
+    t < LUNGE_PEAK
+      ? easeOut(t / LUNGE_PEAK)
+      : 1 - (t - LUNGE_PEAK) / (1 - LUNGE_PEAK);
+  return {
+    x: lunge.dx * LUNGE_DISTANCE * reach,
+    y: lunge.dy * LUNGE_DISTANCE * reach,
+  };
+}
+
+/**
+ * Обновляет эффекты сущности; пустые эффекты удаляются из карты
+ */
+function setEffects(
+  effects: Map<string, EntityEffects>,
+  entityId: string,
+  update: (current: EntityEffects) => EntityEffects,
+): void {
+  const next = update(effects.get(entityId) ?? {});
+  if (next.move || next.lunge || next.hit) {
+    effects.set(entityId, next);
+  } else {
+    effects.delete(entityId);
+  }
+}
+
+/**
+ * Начинает угасание сущности (повторно для той же сущности — нет)
+ */
+export function startDeath(
+  state: EntityAnimationState,
+  entity: Entity,
+  settings: AnimationSettings,
+  now: number,
+): EntityAnimationState {
+  if (state.dying.some((dying) => dying.entity.id === entity.id)) {
+    return state;
+  }
+  const effects = new Map(state.effects);
+  effects.delete(entity.id);
+  return {
+    effects,
+    dying: [
+      ...state.dying,
+      {
+        entity,
+        death: { start: now, duration: getAnimationDurations(settings).death },
+      },
+    ],
+  };
+}
+
+/**
+ * Сравнивает соседние снимки сущностей
+ *
+ * - смена клетки (не дальше MAX_MOVE_DISTANCE) — перемещение, начатое
+ *   с текущей показанной позиции;
+ * - потеря HP — попадание; урон, полученный во время анимации,
+ *   суммируется, а анимация начинается заново;
+ * - isDead — угасание.
+ *
+ * Исчезнувшие сущности возвращаются отдельно: умерли они или ушли,
+ * решают боевые сообщения (см. utils/combatLog).
+ *
+ * @param previous - прошлый снимок по ID сущности
+ * @param entities - новый снимок
+ */
+export function diffEntitySnapshots(
+  state: EntityAnimationState,
+  previous: Map<string, Entity>,
+  entities: Entity[],
+  settings: AnimationSettings,
+  now: number,
+): { state: EntityAnimationState; removed: Entity[] } {
+  const durations = getAnimationDurations(settings);
+  const effects = new Map(state.effects);
+  let next: EntityAnimationState = { ...state, effects };
+  let changed = false;
+  const present = new Set<string>();
+
+  entities.forEach((entity) => {
+    present.add(entity.id);
+    const before = previous.get(entity.id);
+    if (!before || before.isDead) {
+      return;
+    }
+
+    if (entity.isDead) {
+      next = startDeath(next, before, settings, now);
+      changed = true;
+      return;
+    }
+
+    const moved =
+      before.pos.x !== entity.pos.x || before.pos.y !== entity.pos.y;
+    if (moved) {
+      changed = true;
+      setEffects(next.effects, entity.id, (current) => {
+        const { move, ...rest } = current;
+        if (
+          settings.reduceMotion ||
+          chebyshev(before.pos, entity.pos) > MAX_MOVE_DISTANCE
+        ) {
+          return rest;
+        }
+        const from =
+          move && isEffectRunning(move, now)
+            ? getMovePosition(move, now)
+            : before.pos;
+        return {
+          ...rest,
+          move: { from, to: entity.pos, start: now, duration: durations.move },
+        };
+      });
+    }
+
+    const hpBefore = before.stats?.hp;
+    const hpNow = entity.stats?.hp;
+    if (hpBefore !== undefined && hpNow !== undefined && hpNow < hpBefore) {
+      changed = true;
+      setEffects(next.effects, entity.id, (current) => {
+        const running =
+          current.hit && isEffectRunning(current.hit, now) ? current.hit : null;
+        return {
+          ...current,
+          hit: {
+            damage: (running?.damage ?? 0) + hpBefore - hpNow,
+            start: now,
+            duration: durations.hit,
+            flashDuration: durations.flash,
+            motion: !settings.reduceMotion,
+          },
+        };
+      });
+    }
+  });
+
+  const removed: Entity[] = [];
+  previous.forEach((entity, id) => {
+    if (!present.has(id)) {
+      removed.push(entity);
+      if (next.effects.delete(id)) {
+        changed = true;
+      }
+    }
+  });
+
+  return { state: changed ? next : state, removed };
+}
+
+/**
+ * Начинает рывок атакующего к цели
+ */
+export function startLunge(
+  state: EntityAnimationState,
+  attacker: Entity,
+  target: Entity,
+  settings: AnimationSettings,
+  now: number,
+): EntityAnimationState {
+  if (settings.reduceMotion) {
+    return state;
+  }
+  const effects = new Map(state.effects);
+  setEffects(effects, attacker.id, (current) => ({
+    ...current,
+    lunge: {
+      dx: Math.sign(target.pos.x - attacker.pos.x),
+      dy: Math.sign(target.pos.y - attacker.pos.y),
+      start: now,
+      duration: getAnimationDurations(settings).lunge,
+    },
+  }));
+  return { ...state, effects };
+}
+
+/**
+ * Убирает закончившиеся эффекты
+ * @returns прежнее состояние, если убирать нечего
+ */
+export function pruneEntityAnimations(
+  state: EntityAnimationState,
+  now: number,
+): EntityAnimationState {
+  let changed = false;
+  const effects = new Map<string, EntityEffects>();
+  state.effects.forEach((current, id) => {
+    const running: EntityEffects = {};
+    if (current.move && isEffectRunning(current.move, now)) {
+      running.move = current.move;
+    }
+    if (current.lunge && isEffectRunning(current.lunge, now)) {
+      running.lunge = current.lunge;
+    }
+    if (current.hit && isEffectRunning(current.hit, now)) {
+      running.hit = current.hit;
+    }
+    if (
+      running.move !== current.move ||
+      running.lunge !== current.lunge ||
+      running.hit !== current.hit
+    ) {
+      changed = true;
+    }
+    if (running.move || running.lunge || running.hit) {
+      effects.set(id, running);
+    }
+  });
+  const dying = state.dying.filter(({ death }) => isEffectRunning(death, now));
+  if (dying.length !== state.dying.length) {
+    changed = true;
+  }
+  return changed ? { effects, dying } : state;
+}
+
+/**
+ * Когда закончится ближайший эффект
+ * @returns null, если эффектов нет
+ */
+export function getNextEffectEnd(state: EntityAnimationState): number | null {
+  const ends: number[] = [];
+  const add = (effect?: EffectTiming) => {
+    if (effect) {
+      ends.push(effect.start + effect.duration);
+    }
+  };
+  state.effects.forEach(({ move, lunge, hit }) => {
+    add(move);
+    add(lunge);
+    add(hit);
+  });
+  state.dying.forEach(({ death }) => add(death));
+  return ends.length > 0 ? Math.min(...ends) : null;
+}
@@ -0,0 +1,262 @@
+import {
+  Entity,
+  EntityType,
+  GameState,
+  GameWorld,
+  LogMessage,
+  LogType,
+  Position,
+  RunSummary,
+} from "../types";
+
+import {tallyCombatLogs} from "./combatLog";
+
+/**
+ * Состояние игры и итоги забега
+ *
+ * Состояние выводится из данных сервера: GAME_OVER — свой персонаж мертв,
+ * COMBAT — рядом есть живые враги (видимые или преследующие), иначе
+ * EXPLORATION. Статистику забега (ходы, убийства) клиент считает сам по
+ * последовательным обновлениям мира и боевым сообщениям.
+ */
+
+/** Сколько последних событий лога попадает в итоги забега */
+const RUN_SUMMARY_EVENTS = 8;
+
+/** Сущности, которые считаются враждебными, но не сражаются */
+const NON_COMBATANT_TYPES = new Set<string>([
+  EntityType.ITEM,
+  EntityType.CHEST,
+  EntityType.EXIT,
+]);
+
+/**
+ * Статистика текущего забега
+ */
+export interface RunStats {
+  /** Персонаж, для которого ведется статистика */
+  entityId: string;
+  /** Тик начала забега */
+  startTick: number;
+  /** Последний тик, когда персонаж был жив */
+  lastTick: number;
+  /** Ходов (продвижений globalTick), пока персонаж жив */
+  turns: number;
+  /** Убитых врагов */
+  kills: number;
+}
+
+/**
+ * Соседние клетки (включая диагонали) или одна и та же клетка
+ */
+export function isAdjacent(a: Position, b: Position): boolean {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) <= 1;
+}
+
+function isTileVisible(world: GameWorld, pos: Position): boolean {
+  return world.map[pos.y]?.[pos.x]?.isVisible ?? false;
+}
+
+/**
+ * Живой враг, способный сражаться (не предмет, сундук или выход)
+ */
+export function isHostileCombatant(entity: Entity): boolean {
+  return (
+    entity.isHostile && !entity.isDead && !NON_COMBATANT_TYPES.has(entity.type)
+  );
+}
+
+/**
+ * Выводит состояние игры из текущих данных сервера
+ * @param world - текущий мир
+ * @param player - свой персонаж (null у наблюдателя)
+ * @param entities - остальные известные сущности
+ */
+export function deriveGameState(
+  world: GameWorld | null,
+  player: Entity | null,
+  entities: Entity[],
+): GameState {
+  if (player?.isDead) {
+    return GameState.GAME_OVER;
+  }
+  if (!world) {
+    return GameState.EXPLORATION;
+  }
+  const engaged = entities.some(
+    (e) =>
+      isHostileCombatant(e) &&
+      (isTileVisible(world, e.pos) || e.aiState === "AGGRESSIVE"),
+  );
+  return engaged ? GameState.COMBAT : GameState.EXPLORATION;
+}
+
+/**
+ * Начинает статистику нового забега
+ */
+export function createRunStats(entityId: string, tick: number): RunStats {
+  return { entityId, startTick: tick, lastTick: tick, turns: 0, kills: 0 };
+}
+
+/**
+ * Начался ли у персонажа новый забег: был мертв и снова жив
+ * @param previousEntities - все сущности до обновления
+ * @param entities - все сущности после обновления
+ */
+export function hasStartedNewRun(
+  previousEntities: Entity[],
+  entities: Entity[],
+  entityId: string,
+): boolean {
+  const before = previousEntities.find((e) => e.id === entityId);
+  const now = entities.find((e) => e.id === entityId);
+  return Boolean(before?.isDead && now && !now.isDead);
+}
+
+/**
+ * Находит врагов, убитых персонажем между двумя обновлениями, по
+ * изменению сущностей
+ *
+ * Запасной способ для обновлений без боевых сообщений (см.
+ * utils/combatLog): убийством считается враг, который стоял вплотную к
+ * персонажу и в следующем обновлении мертв или исчез с видимой клетки.
+ *
+ * @param previousEntities - все сущности до обновления
+ * @param entities - все сущности после обновления
+ * @param world - мир после обновления
+ * @param myEntityId - свой персонаж
+ * @returns убитые враги в состоянии до обновления
+ */
+export function findKilledEntities(
+  previousEntities: Entity[],
+  entities: Entity[],
+  world: GameWorld,
+  myEntityId: string,
+): Entity[] {
+  const me = previousEntities.find((e) => e.id === myEntityId);
+  if (!me || me.isDead) {
+    return [];
+  }
+  const current = new Map(entities.map((e) => [e.id, e]));
+  return previousEntities.filter((e) => {
+    if (!isHostileCombatant(e) || !isAdjacent(e.pos, me.pos)) {
+      return false;
+    }
+    const now = current.get(e.id);
+    return now ? now.isDead : isTileVisible(world, e.pos);
+  });
+}
+
+/**
+ * Считает врагов, убитых персонажем между двумя обновлениями
+ *
+ * Убийства берутся из боевых сообщений обновления, а без них — из
+ * изменения сущностей (см. findKilledEntities).
+ *
+ * @param logs - сообщения, пришедшие с обновлением
+ */
+export function countKills(
+  previousEntities: Entity[],
+  entities: Entity[],
+  world: GameWorld,
+  myEntityId: string,
+  logs: LogMessage[],
+): number {
+  const tally = tallyCombatLogs(logs, previousEntities, entities, myEntityId);
+  return tally
+    ? tally.kills.length
+    : findKilledEntities(previousEntities, entities, world, myEntityId)
+      .length;
+}
+
+/**
+ * Определяет причину смерти персонажа
+ *
+ * Враги вплотную к персонажу считаются убийцами; если их нет (или они
+ * не видны), причиной считается последнее боевое сообщение лога.
+ */
+export function getCauseOfDeath(
+  player: Entity,
+  entities: Entity[],
+  logs: LogMessage[],
+): string {
+  const killers = entities.filter(
+    (e) => isHostileCombatant(e) && isAdjacent(e.pos, player.pos),
+  );
+  if (killers.length > 0) {
+    return `Killed by ${[...new Set(killers.map((e) => e.name))].join(", ")}`;
+  }
+  const lastCombat = [...logs]
+    .reverse()
+    .find((log) => log.type === LogType.COMBAT);
+  return lastCombat ? lastCombat.text : "Unknown causes";
+}
+
+/**
+ * Обновляет статистику забега по изменению мира и сущностей
+ * @param stats - статистика до обновления
+ * @param previousWorld - мир до обновления
+ * @param previousEntities - все сущности до обновления
+ * @param world - мир после обновления
+ * @param entities - все сущности после обновления
+ * @param logs - сообщения, пришедшие с обновлением
+ * @returns новая статистика или тот же объект, если ничего не изменилось
+ */
+export function updateRunStats(
+  stats: RunStats,
+  previousWorld: GameWorld | null,
+  previousEntities: Entity[],
+  world: GameWorld,
+  entities: Entity[],
+  logs: LogMessage[],
+): RunStats {
+  const me = entities.find((e) => e.id === stats.entityId);
+  const isNewTurn =
+    previousWorld !== null &&
+    world.globalTick > previousWorld.globalTick &&
+    me !== undefined &&
+    !me.isDead;
+  const kills = countKills(
+    previousEntities,
+    entities,
+    world,
+    stats.entityId,
+    logs,
+  );
+  if (!isNewTurn && kills === 0) {
+    return stats;
+  }
+  return {
+    ...stats,
+    lastTick: isNewTurn ? world.globalTick : stats.lastTick,
+    turns: stats.turns + (isNewTurn ? 1 : 0),
+    kills: stats.kills + kills,
+  };
+}
+
+/**
+ * Собирает итоги забега в момент смерти персонажа
+ * @param stats - статистика забега
+ * @param player - погибший персонаж
+ * @param entities - остальные известные сущности
+ * @param world - текущий мир
+ * @param logs - игровой лог
+ */
+export function createRunSummary(
+  stats: RunStats,
+  player: Entity,
+  entities: Entity[],
+  world: GameWorld | null,
+  logs: LogMessage[],
+): RunSummary {
+  return {
+    characterName: player.name,
+    causeOfDeath: getCauseOfDeath(player, entities, logs),
+    turns: stats.turns,
+    ticks: stats.lastTick - stats.startTick,
+    kills: stats.kills,
+    gold: player.stats.gold,
+    level: world?.level ?? 1,
+    lastEvents: logs.slice(-RUN_SUMMARY_EVENTS),
+  };
+}
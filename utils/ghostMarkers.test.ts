@@ -0,0 +1,128 @@
+import {describe, expect, it} from "vitest";
+
+import {GHOST_MARKER_TTL} from "../constants";
+import type {Entity, GameWorld, RememberedEntity, Tile} from "../types";
+
+import {formatGhostTooltip, updateGhostMarkers} from "./ghostMarkers";
+
+/** Мир из строк: "." — видимый пол, "," — исследованный вне видимости */
+const world = (rows: string[], globalTick = 100, level = 1): GameWorld => ({
+  map: rows.map((row, y) =>
+    [...row].map(
+      (ch, x): Tile => ({
+        x,
+        y,
+        isWall: false,
+        env: "floor",
+        isWalkable: true,
+        moveCost: 100,
+        isVisible: ch === ".",
+        isExplored: ch !== " ",
+      }),
+    ),
+  ),
+  width: rows[0].length,
+  height: rows.length,
+  level,
+  globalTick,
+});
+
+const entity = (id: string, x: number, y: number): Entity =>
+  ({
+    id,
+    type: "MONSTER",
+    name: id,
+    symbol: "g",
+    color: "#0f0",
+    pos: { x, y },
+  }) as unknown as Entity;
+
+const ghost = (id: string, x: number, y: number, lastSeenTick = 100): RememberedEntity => ({
+  id,
+  type: "MONSTER" as RememberedEntity["type"],
+  name: id,
+  symbol: "g",
+  color: "#0f0",
+  pos: { x, y },
+  lastSeenTick,
+});
+
+describe("updateGhostMarkers", () => {
+  const before = world(["...", "..."], 100);
+
+  it("leaves a ghost where a visible entity disappeared", () => {
+    const next = updateGhostMarkers({
+      ghosts: [],
+      previousWorld: before,
+      previousEntities: [entity("me", 0, 0), entity("goblin", 2, 1)],
+      world: world(["..,", "..,"], 110),
+      entities: [entity("me", 0, 0)],
+      myEntityId: "me",
+      since: 0,
+    });
+    expect(next).toEqual([ghost("goblin", 2, 1, 100)]);
+  });
+
+  it("makes no ghosts across a level change or on the first update", () => {
+    const options = {
+      ghosts: [],
+      previousEntities: [entity("goblin", 2, 1)],
+      world: world(["..,", "..,"], 110, 2),
+      entities: [],
+      myEntityId: null,
+      since: 0,
+    };
+    expect(updateGhostMarkers({ ...options, previousWorld: before })).toEqual([]);
+    expect(updateGhostMarkers({ ...options, previousWorld: null })).toEqual([]);
+  });
+
+  it("drops a ghost once its tile is visible or the entity is back", () => {
+    const ghosts = [ghost("goblin", 2, 1), ghost("orc", 0, 1)];
+    const next = updateGhostMarkers({
+      ghosts,
+      previousWorld: null,
+      previousEntities: [],
+      world: world([",,,", ",,."], 110),
+      entities: [entity("orc", 0, 0)],
+      myEntityId: null,
+      since: 0,
+    });
+    expect(next).toEqual([]);
+  });
+
+  it("expires ghosts after the TTL counted from the level entry", () => {
+    const ghosts = [ghost("goblin", 0, 0, 0)];
+    const options = {
+      ghosts,
+      previousWorld: null,
+      previousEntities: [],
+      entities: [],
+      myEntityId: null,
+    };
+    const later = world([",,"], GHOST_MARKER_TTL + 1);
+    expect(updateGhostMarkers({ ...options, world: later, since: 0 })).toEqual([]);
+    expect(updateGhostMarkers({ ...options, world: later, since: 1 })).toBe(ghosts);
+  });
+
+  it("returns the same array when nothing changed", () => {
+    const ghosts = [ghost("goblin", 0, 0)];
+    const next = updateGhostMarkers({
+      ghosts,
+      previousWorld: world([",,"], 100),
+      previousEntities: [],
+      world: world([",,"], 101),
+      entities: [],
+      myEntityId: null,
+      since: 0,
+    });
+    expect(next).toBe(ghosts);
+  });
+});
+
+describe("formatGhostTooltip", () => {
+  it("lists each ghost with the time since it was seen", () => {
+    expect(
+      formatGhostTooltip([ghost("Goblin", 0, 0, 100), ghost("Rat", 0, 0, 40)], 100),
+    ).toBe("Goblin — last seen just now\nRat — last seen 60 ticks ago");
+  });
+});
@@ -0,0 +1,97 @@
+import {GHOST_MARKER_TTL} from "../constants";
+import {Entity, GameWorld, RememberedEntity} from "../types";
+
+import {toRememberedEntity} from "./levelMemory";
+
+/**
+ * Призраки — последние известные позиции сущностей вне поля зрения
+ *
+ * Сущность, которая была видна и пропала из обновления, остается на карте
+ * тусклым символом там, где ее видели в последний раз. Призрак исчезает,
+ * когда сущность снова видна, когда ее клетка видна, а самой сущности там
+ * нет, или когда истекает срок (GHOST_MARKER_TTL тиков).
+ */
+
+interface UpdateGhostMarkersOptions {
+  /** Призраки до обновления */
+  ghosts: RememberedEntity[];
+  /** Мир и сущности до обновления (null — обновление первое) */
+  previousWorld: GameWorld | null;
+  previousEntities: Entity[];
+  /** Мир и сущности после обновления */
+  world: GameWorld;
+  entities: Entity[];
+  /** Своя сущность (призраком не становится) */
+  myEntityId: string | null;
+  /**
+   * Тик, с которого считается срок жизни призраков — вход на уровень
+   * (призраки из памяти об уровне живут срок с момента возвращения)
+   */
+  since: number;
+}
+
+/**
+ * Обновляет призраки после изменения мира или сущностей
+ *
+ * @returns новый список призраков (тот же массив, если ничего не изменилось)
+ */
+export function updateGhostMarkers({
+  ghosts,
+  previousWorld,
+  previousEntities,
+  world,
+  entities,
+  myEntityId,
+  since,
+}: UpdateGhostMarkersOptions): RememberedEntity[] {
+  const present = new Set(entities.map((e) => e.id));
+
+  // Сущности, которые были видны и пропали из обновления
+  const lost =
+    previousWorld && previousWorld.level === world.level
+      ? previousEntities.filter(
+        (e) =>
+          e.id !== myEntityId &&
+            !e.isDead &&
+            !present.has(e.id) &&
+            (previousWorld.map[e.pos.y]?.[e.pos.x]?.isVisible ?? false),
+      )
+      : [];
+  const lostIds = new Set(lost.map((e) => e.id));
+
+  const next = [
+    ...ghosts.filter((g) => !lostIds.has(g.id)),
+    ...lost.map((e) => toRememberedEntity(e, previousWorld.globalTick)),
+  ].filter((g) => {
+    const tile = world.map[g.pos.y]?.[g.pos.x];
+    return (
+      !present.has(g.id) &&
+      !!tile?.isExplored &&
+      !tile.isVisible &&
+      world.globalTick - Math.max(g.lastSeenTick, since) <= GHOST_MARKER_TTL
+    );
+  });
+
+  const unchanged =
+    next.length === ghosts.length && next.every((g, i) => g === ghosts[i]);
+  return unchanged ? ghosts : next;
+}
+
+/**
+ * Текст подсказки для призраков на клетке
+ *
+ * @param ghosts - призраки на одной клетке
+ * @param tick - текущий тик
+ * @returns строки вида "Goblin — last seen 120 ticks ago"
+ */
+export function formatGhostTooltip(
+  ghosts: RememberedEntity[],
+  tick: number,
+): string {
+  return ghosts
+    .map((g) => {
+      const age = Math.max(0, tick - g.lastSeenTick);
+      return `${g.name} — last seen ${age === 0 ? "just now" : `${age} ticks ago`}`;
+    })
+    .join("\n");
+}
@@ -5,11 +5,39 @@ export {
   getCellPixelPosition,
   pixelToGridPosition,
   calculateCameraOffset,
+  getCameraViewport,
 } from "./camera";
+export type { CameraViewport } from "./camera";
 
 // Экспорт утилит для поиска пути
 export { findPath } from "./pathfinding";
 
+// Экспорт утилит для построения и обновления состояния мира
+export {
+  isTileEnv,
+  getTerrainDefaults,
+  tileFromView,
+  buildWorldFromSnapshot,
+  applyTileDelta,
+  normalizeEntity,
+  applyEntityDelta,
+} from "./worldState";
+
+// Экспорт проверки формы сообщений от сервера
+export {
+  decodeServerMessage,
+  isServerErrorMessage,
+  isSnapshotMessage,
+  isDeltaMessage,
+  isAckMessage,
+  formatDecodeErrors,
+} from "./protocolDecoder";
+export type {
+  DecodeError,
+  DecodeResult,
+  DecodedServerMessage,
+} from "./protocolDecoder";
+
 // Экспорт типизированных билдеров команд (из commands/ модуля)
 export {
   createLoginCommand,
@@ -0,0 +1,151 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+
+import type {Entity, GameWorld, Tile} from "../types";
+
+import {
+  getLevelMemoryScope,
+  loadLevelMemory,
+  rememberLevel,
+  restoreExploredTiles,
+  saveLevelMemory,
+} from "./levelMemory";
+
+/**
+ * Мир из строк: "#" — видимая стена, "." — видимый пол,
+ * "," — исследованный пол вне видимости, " " — неисследованный тайл
+ */
+const world = (rows: string[], level = 1, globalTick = 10): GameWorld => ({
+  map: rows.map((row, y) =>
+    [...row].map(
+      (ch, x): Tile => ({
+        x,
+        y,
+        isWall: ch === "#",
+        env: ch === "#" ? "stone" : "floor",
+        isWalkable: ch !== "#",
+        moveCost: 100,
+        isVisible: ch === "#" || ch === ".",
+        isExplored: ch !== " ",
+      }),
+    ),
+  ),
+  width: rows[0].length,
+  height: rows.length,
+  level,
+  globalTick,
+});
+
+const entity = (id: string, x: number, y: number, isDead = false): Entity =>
+  ({
+    id,
+    type: "MONSTER",
+    name: id,
+    symbol: "g",
+    color: "#0f0",
+    pos: { x, y },
+    isDead,
+  }) as unknown as Entity;
+
+describe("rememberLevel", () => {
+  it("encodes explored tiles and keeps earlier ones the snapshot lacks", () => {
+    const first = rememberLevel(world(["#..", "   "]), [], null);
+    expect(first.rows).toEqual(["Sff", "   "]);
+
+    const second = rememberLevel(world(["   ", ",.#"]), [], null, first);
+    expect(second.rows).toEqual(["Sff", "ffS"]);
+  });
+
+  it("starts over when the previous memory is for another map size", () => {
+    const previous = rememberLevel(world(["#.."]), [], null);
+    expect(rememberLevel(world(["  ", " ."]), [], null, previous).rows).toEqual([
+      "  ",
+      " f",
+    ]);
+  });
+
+  it("remembers visible entities except self and the dead", () => {
+    const memory = rememberLevel(
+      world(["...", "..."], 1, 7),
+      [entity("me", 0, 0), entity("goblin", 1, 0), entity("rat", 2, 1, true)],
+      "me",
+    );
+    expect(memory.entities).toEqual([
+      {
+        id: "goblin",
+        type: "MONSTER",
+        name: "goblin",
+        symbol: "g",
+        color: "#0f0",
+        pos: { x: 1, y: 0 },
+        lastSeenTick: 7,
+      },
+    ]);
+  });
+
+  it("forgets an entity whose remembered spot is visible and empty", () => {
+    const seen = rememberLevel(
+      world(["..", ".."]),
+      [entity("goblin", 0, 0), entity("orc", 1, 1)],
+      null,
+    );
+    const next = rememberLevel(world([". ", "  "]), [], null, seen);
+    expect(next.entities.map((e) => e.id)).toEqual(["orc"]);
+  });
+});
+
+describe("restoreExploredTiles", () => {
+  it("fills unexplored tiles from memory and keeps server tiles", () => {
+    const memory = rememberLevel(world(["#..", "..#"]), [], null);
+    const restored = restoreExploredTiles(world(["#  ", "   "]), memory);
+
+    expect(restored?.map[0][0].isVisible).toBe(true);
+    expect(restored?.map[1][2]).toMatchObject({
+      isWall: true,
+      env: "stone",
+      isWalkable: false,
+      isVisible: false,
+      isExplored: true,
+    });
+    expect(restored?.map[0][1]).toMatchObject({ isWall: false, isExplored: true });
+  });
+
+  it("does not copy rows without restored tiles", () => {
+    const memory = rememberLevel(world(["...", "   "]), [], null);
+    const snapshot = world(["   ", "..."]);
+    expect(restoreExploredTiles(snapshot, memory)?.map[1]).toBe(snapshot.map[1]);
+  });
+
+  it("refuses memory of another map", () => {
+    const memory = rememberLevel(world(["....", "...."]), [], null);
+    expect(restoreExploredTiles(world(["...", "..."]), memory)).toBeNull();
+    expect(restoreExploredTiles(world(["####", "####"]), memory)).toBeNull();
+  });
+});
+
+describe("level memory storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("saves and loads levels per server and character", () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+
+    const scope = getLevelMemoryScope("ws://host", "hero");
+    const memory = rememberLevel(world(["#."], 2), [], null);
+    saveLevelMemory(scope, new Map([[2, memory]]));
+
+    expect(loadLevelMemory(scope).get(2)).toEqual(memory);
+    expect(loadLevelMemory(getLevelMemoryScope("ws://host", "other")).size).toBe(0);
+  });
+
+  it("skips damaged entries", () => {
+    vi.stubGlobal("localStorage", {
+      getItem: () => JSON.stringify([{ level: "x" }, null]),
+    });
+    expect(loadLevelMemory("scope").size).toBe(0);
+  });
+});
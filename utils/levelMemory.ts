@@ -0,0 +1,276 @@
+import {
+  Entity,
+  GameWorld,
+  LevelMemory,
+  Position,
+  RememberedEntity,
+  Tile,
+  TileEnv,
+} from "../types";
+
+import {getTerrainDefaults} from "./worldState";
+
+/**
+ * Память об уровнях подземелья
+ *
+ * Клиент хранит исследованные тайлы и последние замеченные сущности
+ * каждого уровня в localStorage, отдельно для каждой пары сервер +
+ * персонаж. Когда сервер снова присылает карту уровня (возвращение по
+ * лестнице или снимок только с видимыми тайлами), исследованные ранее
+ * тайлы восстанавливаются из памяти.
+ *
+ * Тайлы хранятся построчно по одному символу: " " — не исследован,
+ * строчная буква — тип окружения, заглавная — то же окружение, но стена.
+ * Проходимость и стоимость восстановленных тайлов — по умолчанию для
+ * типа окружения.
+ */
+
+const STORAGE_KEY_PREFIX = "cd-level-memory:";
+
+const UNEXPLORED = " ";
+
+const ENV_CODES: Record<TileEnv, string> = {
+  stone: "s",
+  floor: "f",
+  grass: "g",
+  water: "w",
+  tree: "t",
+};
+
+const CODE_ENVS = new Map<string, TileEnv>(
+  (Object.entries(ENV_CODES) as [TileEnv, string][]).map(([env, code]) => [
+    code,
+    env,
+  ]),
+);
+
+/**
+ * Доля расхождений по стенам, после которой память считается
+ * относящейся к другой карте (уровень сменился без поля `level`)
+ */
+const MAX_WALL_MISMATCH_RATIO = 0.1;
+
+/**
+ * Ключ памяти для пары сервер + персонаж
+ * @param serverUrl - URL сервера
+ * @param entityId - ID своей сущности
+ */
+export function getLevelMemoryScope(
+  serverUrl: string,
+  entityId: string,
+): string {
+  return `${serverUrl}|${entityId}`;
+}
+
+function encodeTile(tile: Tile): string {
+  if (!tile.isExplored && !tile.isVisible) {
+    return UNEXPLORED;
+  }
+  const code = ENV_CODES[tile.env] ?? ENV_CODES.floor;
+  return tile.isWall ? code.toUpperCase() : code;
+}
+
+function decodeTile(code: string, x: number, y: number): Tile | null {
+  const env = CODE_ENVS.get(code.toLowerCase());
+  if (!env) {
+    return null;
+  }
+  const isWall = code !== code.toLowerCase();
+  return {
+    x,
+    y,
+    isWall,
+    env,
+    ...getTerrainDefaults(env, isWall),
+    isVisible: false,
+    isExplored: true,
+  };
+}
+
+function isTileVisible(world: GameWorld, pos: Position): boolean {
+  return world.map[pos.y]?.[pos.x]?.isVisible ?? false;
+}
+
+function isSameMap(world: GameWorld, memory: LevelMemory): boolean {
+  return memory.width === world.width && memory.height === world.height;
+}
+
+/**
+ * Запоминает сущность на ее текущей позиции
+ * @param entity - видимая сущность
+ * @param tick - тик, когда ее видели
+ */
+export function toRememberedEntity(
+  entity: Entity,
+  tick: number,
+): RememberedEntity {
+  return {
+    id: entity.id,
+    type: entity.type,
+    name: entity.name,
+    symbol: entity.symbol,
+    color: entity.color,
+    pos: { x: entity.pos.x, y: entity.pos.y },
+    lastSeenTick: tick,
+  };
+}
+
+/**
+ * Обновляет память об уровне по текущему состоянию мира
+ *
+ * Исследованные тайлы объединяются с уже запомненными. Видимые сейчас
+ * сущности запоминаются на своих позициях; запомненные ранее сущности,
+ * чья позиция сейчас видна, а их самих там нет, забываются.
+ *
+ * @param world - текущий мир (его уровень — world.level)
+ * @param entities - все известные сущности
+ * @param myEntityId - своя сущность (не запоминается)
+ * @param previous - память об этом уровне до обновления
+ * @returns новая память об уровне
+ */
+export function rememberLevel(
+  world: GameWorld,
+  entities: Entity[],
+  myEntityId: string | null,
+  previous?: LevelMemory,
+): LevelMemory {
+  const base = previous && isSameMap(world, previous) ? previous : undefined;
+
+  const rows = world.map.map((row, y) =>
+    row
+      .map((tile, x) => {
+        const code = encodeTile(tile);
+        return code === UNEXPLORED ? (base?.rows[y]?.[x] ?? UNEXPLORED) : code;
+      })
+      .join(""),
+  );
+
+  const visible = entities.filter(
+    (e) => e.id !== myEntityId && !e.isDead && isTileVisible(world, e.pos),
+  );
+  const visibleIds = new Set(visible.map((e) => e.id));
+  const kept = (base?.entities ?? []).filter(
+    (e) => !visibleIds.has(e.id) && !isTileVisible(world, e.pos),
+  );
+
+  return {
+    level: world.level,
+    width: world.width,
+    height: world.height,
+    rows,
+    entities: [
+      ...kept,
+      ...visible.map((e) => toRememberedEntity(e, world.globalTick)),
+    ],
+    tick: world.globalTick,
+  };
+}
+
+/**
+ * Восстанавливает исследованные тайлы уровня из памяти
+ *
+ * Тайлы, которые сервер прислал сам, не меняются; неисследованные
+ * заполняются из памяти. Копируются только затронутые строки карты.
+ *
+ * @param world - мир, построенный из снимка
+ * @param memory - память об этом уровне
+ * @returns мир с восстановленными тайлами или null, если память
+ * относится к другой карте (другой размер или стены не совпадают)
+ */
+export function restoreExploredTiles(
+  world: GameWorld,
+  memory: LevelMemory,
+): GameWorld | null {
+  if (!isSameMap(world, memory)) {
+    return null;
+  }
+
+  let overlap = 0;
+  let mismatches = 0;
+  world.map.forEach((row, y) =>
+    row.forEach((tile, x) => {
+      const code = memory.rows[y]?.[x] ?? UNEXPLORED;
+      if (code === UNEXPLORED || encodeTile(tile) === UNEXPLORED) {
+        return;
+      }
+      overlap++;
+      if (tile.isWall !== (code !== code.toLowerCase())) {
+        mismatches++;
+      }
+    }),
+  );
+  if (overlap > 0 && mismatches / overlap > MAX_WALL_MISMATCH_RATIO) {
+    return null;
+  }
+
+  const map = world.map.map((row, y) => {
+    let copy: Tile[] | null = null;
+    row.forEach((tile, x) => {
+      if (encodeTile(tile) !== UNEXPLORED) {
+        return;
+      }
+      const remembered = decodeTile(memory.rows[y]?.[x] ?? UNEXPLORED, x, y);
+      if (remembered) {
+        copy = copy ?? row.slice();
+        copy[x] = remembered;
+      }
+    });
+    return copy ?? row;
+  });
+
+  return { ...world, map };
+}
+
+function isLevelMemory(value: unknown): value is LevelMemory {
+  const memory = value as LevelMemory;
+  return (
+    typeof memory === "object" &&
+    memory !== null &&
+    Number.isInteger(memory.level) &&
+    Number.isInteger(memory.width) &&
+    Number.isInteger(memory.height) &&
+    Array.isArray(memory.rows) &&
+    memory.rows.every((row) => typeof row === "string") &&
+    Array.isArray(memory.entities)
+  );
+}
+
+/**
+ * Загружает память об уровнях из localStorage
+ * @param scope - ключ из getLevelMemoryScope
+ * @returns память по номеру уровня (поврежденные записи пропускаются)
+ */
+export function loadLevelMemory(scope: string): Map<number, LevelMemory> {
+  const levels = new Map<number, LevelMemory>();
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + scope);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) {
+      parsed.filter(isLevelMemory).forEach((memory) => {
+        levels.set(memory.level, memory);
+      });
+    }
+  } catch (error) {
+    console.error("Failed to load level memory from localStorage:", error);
+  }
+  return levels;
+}
+
+/**
+ * Сохраняет память об уровнях в localStorage
+ * @param scope - ключ из getLevelMemoryScope
+ * @param levels - память по номеру уровня
+ */
+export function saveLevelMemory(
+  scope: string,
+  levels: Map<number, LevelMemory>,
+): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY_PREFIX + scope,
+      JSON.stringify([...levels.values()]),
+    );
+  } catch (error) {
+    console.error("Failed to save level memory to localStorage:", error);
+  }
+}
@@ -0,0 +1,54 @@
+import {LogMessage} from "../types";
+
+import {getTimestampedFileName} from "./download";
+
+/**
+ * Ограничение лога в памяти и экспорт полной истории
+ *
+ * В памяти держится не больше заданного числа сообщений, старые
+ * переносятся в архив (см. services/logArchive). Лишние сообщения
+ * отрезаются пачкой, чтобы архив не писался на каждое новое сообщение.
+ */
+
+/**
+ * Отделяет старые сообщения, которые нужно перенести в архив
+ * @param logs - сообщения в памяти
+ * @param limit - сколько сообщений оставить
+ * @param batch - на сколько можно превысить limit до переноса
+ * @returns null, если переносить пока нечего
+ */
+export function splitLogOverflow(
+  logs: LogMessage[],
+  limit: number,
+  batch: number,
+): { archived: LogMessage[]; kept: LogMessage[] } | null {
+  if (logs.length < limit + batch) {
+    return null;
+  }
+  const cut = logs.length - limit;
+  return { archived: logs.slice(0, cut), kept: logs.slice(cut) };
+}
+
+/**
+ * Подходит ли сообщение под поисковый запрос (без учета регистра)
+ * @param log - сообщение лога
+ * @param query - запрос в нижнем регистре
+ */
+export function matchesLogQuery(log: LogMessage, query: string): boolean {
+  return log.text.toLowerCase().includes(query);
+}
+
+/**
+ * Сериализует историю лога в JSON для сохранения в файл
+ */
+export function serializeLogHistory(logs: LogMessage[]): string {
+  return JSON.stringify({ exportedAt: Date.now(), logs });
+}
+
+/**
+ * Формирует имя файла истории лога
+ * @returns имя файла вида "log-2025-01-31T12-00-00.json"
+ */
+export function getLogHistoryFileName(date: Date = new Date()): string {
+  return getTimestampedFileName("log", "json", date);
+}
@@ -0,0 +1,112 @@
+import {describe, expect, it} from "vitest";
+
+import {hasLogMarkup, parseLogMarkup, sanitizeLogColor} from "./logMarkup";
+
+const plainText = (text: string): string =>
+  parseLogMarkup(text)
+    .map((segment) => (segment.kind === "text" ? segment.text : ""))
+    .join("");
+
+describe("parseLogMarkup", () => {
+  it("keeps plain text as a single segment", () => {
+    expect(parseLogMarkup("Goblin hits you.")).toEqual([
+      { kind: "text", text: "Goblin hits you." },
+    ]);
+  });
+
+  it("turns whitelisted tags into styled segments", () => {
+    expect(parseLogMarkup("a <b>bold</b> <i>move</i>")).toEqual([
+      { kind: "text", text: "a " },
+      { kind: "text", text: "bold", style: { bold: true } },
+      { kind: "text", text: " " },
+      { kind: "text", text: "move", style: { italic: true } },
+    ]);
+  });
+
+  it("drops script and style elements together with their content", () => {
+    expect(plainText("hi<script>alert(1)</script> there")).toBe("hi there");
+    expect(plainText("<style>body { display: none }</style>ok")).toBe("ok");
+    expect(plainText("<SCRIPT src=x>evil()</SCRIPT>safe")).toBe("safe");
+  });
+
+  it("drops event handler attributes", () => {
+    const segments = parseLogMarkup(
+      "<img src=x onerror=\"alert(1)\"><b onclick=\"steal()\">click</b>",
+    );
+    expect(segments).toEqual([
+      { kind: "text", text: "click", style: { bold: true } },
+    ]);
+    expect(JSON.stringify(segments)).not.toContain("alert");
+    expect(JSON.stringify(segments)).not.toContain("steal");
+  });
+
+  it("does not turn javascript: links into references", () => {
+    const segments = parseLogMarkup(
+      "<a href=\"javascript:alert(1)\">open</a> now",
+    );
+    expect(segments).toEqual([{ kind: "text", text: "open now" }]);
+  });
+
+  it("keeps only the color from a style attribute", () => {
+    const segments = parseLogMarkup(
+      "<span style=\"color: red; background: url(javascript:alert(1))\">hot</span>",
+    );
+    expect(segments).toEqual([
+      { kind: "text", text: "hot", style: { color: "#f87171" } },
+    ]);
+  });
+
+  it("ignores colors outside the whitelist", () => {
+    expect(
+      parseLogMarkup("<span style=\"color: expression(alert(1))\">x</span>"),
+    ).toEqual([{ kind: "text", text: "x" }]);
+    expect(parseLogMarkup("<font color=\"#12345g\">y</font>")).toEqual([
+      { kind: "text", text: "y" },
+    ]);
+  });
+
+  it("decodes entities without producing markup", () => {
+    expect(parseLogMarkup("&lt;b&gt;not bold&lt;/b&gt;")).toEqual([
+      { kind: "text", text: "<b>not bold</b>" },
+    ]);
+  });
+
+  it("turns data attributes into entity, item and position links", () => {
+    expect(
+      parseLogMarkup(
+        "<span data-entity-id=\"g1\">Goblin</span> drops <span data-item-id=\"i1\">Sword</span> at <span data-position-x=\"3\" data-position-y=\"4\"></span>",
+      ),
+    ).toEqual([
+      { kind: "entity", entityId: "g1", name: "Goblin" },
+      { kind: "text", text: " drops " },
+      { kind: "item", itemId: "i1", name: "Sword" },
+      { kind: "text", text: " at " },
+      { kind: "position", x: 3, y: 4 },
+    ]);
+  });
+});
+
+describe("sanitizeLogColor", () => {
+  it("accepts hex colors and palette names", () => {
+    expect(sanitizeLogColor("#ABC")).toBe("#abc");
+    expect(sanitizeLogColor(" #a1b2c3 ")).toBe("#a1b2c3");
+    expect(sanitizeLogColor("Cyan")).toBe("#22d3ee");
+  });
+
+  it("rejects anything else", () => {
+    expect(sanitizeLogColor(undefined)).toBeUndefined();
+    expect(sanitizeLogColor("")).toBeUndefined();
+    expect(sanitizeLogColor("#abcd")).toBeUndefined();
+    expect(sanitizeLogColor("rgb(0, 0, 0)")).toBeUndefined();
+    expect(sanitizeLogColor("red; background: red")).toBeUndefined();
+    expect(sanitizeLogColor("url(javascript:alert(1))")).toBeUndefined();
+  });
+});
+
+describe("hasLogMarkup", () => {
+  it("detects tags and entities", () => {
+    expect(hasLogMarkup("plain text")).toBe(false);
+    expect(hasLogMarkup("<b>x</b>")).toBe(true);
+    expect(hasLogMarkup("a &amp; b")).toBe(true);
+  });
+});
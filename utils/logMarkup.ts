@@ -0,0 +1,281 @@
+import type {LogSegment, LogTextStyle} from "../types";
+
+/**
+ * Разбор разметки в тексте лога по белому списку
+ *
+ * Текст логов приходит от сервера и от других игроков (SPEECH), поэтому
+ * он никогда не вставляется как HTML. Разрешенная разметка превращается
+ * в сегменты сообщения, все остальное отбрасывается:
+ * - `<b>`, `<strong>`, `<i>`, `<em>`, `<u>`, `<s>`, `<del>` — оформление
+ * - `<span style="color: ...">`, `<font color="...">` — цвет (#hex или
+ *   имя из палитры лога)
+ * - `<span data-entity-id="...">`, `<span data-position-x="..."
+ *   data-position-y="...">`, `<span data-item-id="...">` — ссылки
+ * - `<br>` — пробел
+ *
+ * Прочие теги удаляются с сохранением текста, содержимое `<script>`,
+ * `<style>` и подобных — вместе с тегом.
+ */
+
+/** Имена цветов, разрешенные в разметке, и их значения */
+const NAMED_COLORS: Record<string, string> = {
+  red: "#f87171",
+  orange: "#fb923c",
+  yellow: "#fde047",
+  green: "#4ade80",
+  cyan: "#22d3ee",
+  blue: "#60a5fa",
+  purple: "#c084fc",
+  gray: "#9ca3af",
+  grey: "#9ca3af",
+  white: "#ffffff",
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** Теги оформления и стиль, который они задают */
+const STYLE_TAGS: Record<string, LogTextStyle> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italic: true },
+  em: { italic: true },
+  u: { underline: true },
+  s: { strike: true },
+  del: { strike: true },
+  strike: { strike: true },
+};
+
+/** Теги, содержимое которых не показывается */
+const SKIPPED_CONTENT_TAGS = new Set([
+  "script",
+  "style",
+  "textarea",
+  "iframe",
+  "object",
+  "noscript",
+  "template",
+  "title",
+]);
+
+const VOID_TAGS = new Set(["br", "img", "hr", "input", "meta", "link", "wbr"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<\/?([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+const ATTRIBUTE_PATTERN = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+type LogLink = Exclude<LogSegment, { kind: "text" }>;
+
+interface OpenElement {
+  tag: string;
+  style: LogTextStyle;
+  link: LogLink | null;
+}
+
+/**
+ * Есть ли в тексте разметка или HTML-сущности, которые нужно разобрать
+ */
+export function hasLogMarkup(text: string): boolean {
+  return /[<&]/.test(text);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : "";
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes.set(match[1].toLowerCase(), decodeEntities(value));
+  }
+  return attributes;
+}
+
+/**
+ * Проверяет цвет по белому списку
+ * @returns CSS-цвет или undefined, если цвет не разрешен
+ */
+export function sanitizeLogColor(value: string | undefined): string | undefined {
+  const color = value?.trim().toLowerCase();
+  if (!color) {
+    return undefined;
+  }
+  if (HEX_COLOR.test(color)) {
+    return color;
+  }
+  return NAMED_COLORS[color];
+}
+
+function colorFromAttributes(
+  tag: string,
+  attributes: Map<string, string>,
+): string | undefined {
+  if (tag === "font") {
+    return sanitizeLogColor(attributes.get("color"));
+  }
+  const style = attributes.get("style") ?? "";
+  const match = /(?:^|;)\s*color\s*:\s*([^;]+)/i.exec(style);
+  return sanitizeLogColor(match?.[1]);
+}
+
+function linkFromAttributes(attributes: Map<string, string>): LogLink | null {
+  const entityId = attributes.get("data-entity-id");
+  if (entityId) {
+    return { kind: "entity", entityId, name: "" };
+  }
+  const itemId = attributes.get("data-item-id");
+  if (itemId) {
+    return { kind: "item", itemId, name: "" };
+  }
+  const x = Number(attributes.get("data-position-x"));
+  const y = Number(attributes.get("data-position-y"));
+  if (
+    attributes.has("data-position-x") &&
+    attributes.has("data-position-y") &&
+    Number.isInteger(x) &&
+    Number.isInteger(y)
+  ) {
+    return { kind: "position", x, y };
+  }
+  return null;
+}
+
+function isSameStyle(a?: LogTextStyle, b?: LogTextStyle): boolean {
+  return (
+    Boolean(a?.bold) === Boolean(b?.bold) &&
+    Boolean(a?.italic) === Boolean(b?.italic) &&
+    Boolean(a?.underline) === Boolean(b?.underline) &&
+    Boolean(a?.strike) === Boolean(b?.strike) &&
+    a?.color === b?.color
+  );
+}
+
+function isEmptyStyle(style: LogTextStyle): boolean {
+  return !style.bold && !style.italic && !style.underline && !style.strike && !style.color;
+}
+
+/**
+ * Разбирает текст лога с разметкой в сегменты
+ * @param text - текст сообщения (от сервера или игрока)
+ * @returns сегменты, в которых остались только разрешенные элементы
+ */
+export function parseLogMarkup(text: string): LogSegment[] {
+  const segments: LogSegment[] = [];
+  const stack: OpenElement[] = [];
+  let skipUntil: string | null = null;
+  let linkLabel = "";
+
+  const currentStyle = (): LogTextStyle =>
+    stack.reduce<LogTextStyle>((style, el) => ({ ...style, ...el.style }), {});
+  const currentLink = (): OpenElement | undefined =>
+    stack.find((el) => el.link !== null);
+
+  const pushText = (raw: string) => {
+    if (!raw || skipUntil) {
+      return;
+    }
+    const value = decodeEntities(raw);
+    if (currentLink()) {
+      linkLabel += value;
+      return;
+    }
+    const style = currentStyle();
+    const last = segments[segments.length - 1];
+    if (last?.kind === "text" && isSameStyle(last.style, style)) {
+      segments[segments.length - 1] = { ...last, text: last.text + value };
+      return;
+    }
+    segments.push(
+      isEmptyStyle(style)
+        ? { kind: "text", text: value }
+        : { kind: "text", text: value, style },
+    );
+  };
+
+  const closeElement = (tag: string) => {
+    const index = stack.map((el) => el.tag).lastIndexOf(tag);
+    if (index < 0) {
+      return;
+    }
+    const closed = stack.splice(index);
+    const link = closed.find((el) => el.link !== null)?.link;
+    if (link && !currentLink()) {
+      const name = linkLabel.trim();
+      linkLabel = "";
+      if (link.kind === "position") {
+        segments.push(link);
+      } else if (name) {
+        segments.push({ ...link, name });
+      }
+    }
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    pushText(text.slice(cursor, match.index));
+    cursor = (match.index ?? 0) + match[0].length;
+
+    const tag = match[1]?.toLowerCase();
+    if (!tag) {
+      continue; // comment
+    }
+    const isClosing = match[0][1] === "/";
+
+    if (skipUntil) {
+      if (isClosing && tag === skipUntil) {
+        skipUntil = null;
+      }
+      continue;
+    }
+    if (isClosing) {
+      closeElement(tag);
+      continue;
+    }
+    if (SKIPPED_CONTENT_TAGS.has(tag)) {
+      skipUntil = tag;
+      continue;
+    }
+    if (tag === "br") {
+      pushText(" ");
+      continue;
+    }
+    if (VOID_TAGS.has(tag) || match[2].trim().endsWith("/")) {
+      continue;
+    }
+
+    const attributes = parseAttributes(match[2]);
+    const color = colorFromAttributes(tag, attributes);
+    stack.push({
+      tag,
+      style: { ...STYLE_TAGS[tag], ...(color ? { color } : {}) },
+      link: tag === "span" || tag === "a" ? linkFromAttributes(attributes) : null,
+    });
+  }
+  pushText(text.slice(cursor));
+
+  // Unclosed link: keep its label as plain text
+  if (linkLabel) {
+    stack.length = 0;
+    pushText(linkLabel);
+  }
+
+  return segments;
+}
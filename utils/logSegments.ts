@@ -0,0 +1,125 @@
+import type {Entity, Item, LogSegment, Position} from "../types";
+
+/**
+ * Структурированные сообщения лога
+ *
+ * Сообщение собирается из сегментов: обычный текст и ссылки на сущность,
+ * позицию или предмет. Лог рисует ссылки интерактивными элементами,
+ * поэтому в тексте сообщений не нужна HTML-разметка.
+ *
+ * @example
+ * ```typescript
+ * addLog(logText`Начинаем движение к ${positionRef(target)}`, LogType.INFO);
+ * ```
+ */
+
+/**
+ * Ссылка на сущность
+ */
+export function entityRef(entity: Pick<Entity, "id" | "name">): LogSegment {
+  return { kind: "entity", entityId: entity.id, name: entity.name };
+}
+
+/**
+ * Ссылка на клетку карты
+ */
+export function positionRef(pos: Position): LogSegment {
+  return { kind: "position", x: pos.x, y: pos.y };
+}
+
+/**
+ * Ссылка на предмет
+ */
+export function itemRef(item: Pick<Item, "id" | "name">): LogSegment {
+  return { kind: "item", itemId: item.id, name: item.name };
+}
+
+function isLogSegment(value: unknown): value is LogSegment {
+  return typeof value === "object" && value !== null && "kind" in value;
+}
+
+/**
+ * Добавляет текст, склеивая соседние текстовые сегменты
+ */
+function pushText(segments: LogSegment[], text: string): void {
+  if (!text) {
+    return;
+  }
+  const last = segments[segments.length - 1];
+  if (last?.kind === "text") {
+    segments[segments.length - 1] = { kind: "text", text: last.text + text };
+  } else {
+    segments.push({ kind: "text", text });
+  }
+}
+
+/**
+ * Тег шаблонной строки: ссылки остаются сегментами, остальное — текстом
+ */
+export function logText(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): LogSegment[] {
+  const segments: LogSegment[] = [];
+  strings.forEach((str, i) => {
+    pushText(segments, str);
+    if (i < values.length) {
+      const value = values[i];
+      if (isLogSegment(value)) {
+        segments.push(value);
+      } else {
+        pushText(segments, String(value));
+      }
+    }
+  });
+  return segments;
+}
+
+/**
+ * Подставляет значения в шаблон вида "Вы атаковали {targetName}"
+ *
+ * Неизвестные подстановки остаются в тексте как есть.
+ *
+ * @param template - шаблон с подстановками в фигурных скобках
+ * @param values - текст или ссылка для каждой подстановки
+ */
+export function formatLogTemplate(
+  template: string,
+  values: Record<string, string | LogSegment | undefined>,
+): LogSegment[] {
+  const segments: LogSegment[] = [];
+  template.split(/(\{\w+\})/).forEach((part) => {
+    const key = /^\{(\w+)\}$/.exec(part)?.[1];
+    const value = key ? values[key] : undefined;
+    if (value === undefined) {
+      pushText(segments, part);
+    } else if (typeof value === "string") {
+      pushText(segments, value);
+    } else {
+      segments.push(value);
+    }
+  });
+  return segments;
+}
+
+/**
+ * Текст сегмента, как он читается в логе
+ */
+export function segmentToText(segment: LogSegment): string {
+  switch (segment.kind) {
+  case "text":
+    return segment.text;
+  case "entity":
+  case "item":
+    return segment.name;
+  case "position":
+    return `(${segment.x}, ${segment.y})`;
+  }
+}
+
+/**
+ * Сообщение целиком обычным текстом (поиск, речевые пузыри, итоги)
+ */
+export function segmentsToText(segments: LogSegment[]): string {
+  return segments.map(segmentToText).join("");
+}
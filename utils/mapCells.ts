@@ -0,0 +1,78 @@
+import {Entity, EntityType, RememberedEntity} from "../types";
+
+/**
+ * Порядок отрисовки сущностей в клетке: чем больше, тем выше
+ * (верхняя сущность — последняя)
+ */
+const CELL_LAYER_ORDER: Record<EntityType, number> = {
+  [EntityType.EXIT]: 1,
+  [EntityType.ITEM]: 2,
+  [EntityType.NPC]: 3,
+  [EntityType.ENEMY_GOBLIN]: 4,
+  [EntityType.ENEMY_ORC]: 4,
+  [EntityType.CHEST]: 4,
+  [EntityType.PLAYER]: 10,
+};
+
+/**
+ * Живые сущности в клетке, снизу вверх
+ * @param entities - все сущности карты
+ * @param x - координата X клетки
+ * @param y - координата Y клетки
+ */
+export function getCellEntities(
+  entities: Entity[],
+  x: number,
+  y: number,
+): Entity[] {
+  return entities
+    .filter((e) => e.pos.x === x && e.pos.y === y && !e.isDead)
+    .sort(compareCellLayer);
+}
+
+function compareCellLayer(a: Entity, b: Entity): number {
+  return (CELL_LAYER_ORDER[a.type] || 0) - (CELL_LAYER_ORDER[b.type] || 0);
+}
+
+/**
+ * Ключ клетки для карт "клетка → данные"
+ */
+export function getCellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Группирует призраков по клеткам (для подсказок)
+ */
+export function groupGhostsByCell(
+  rememberedEntities: RememberedEntity[],
+): Map<string, RememberedEntity[]> {
+  const byCell = new Map<string, RememberedEntity[]>();
+  rememberedEntities.forEach((ghost) => {
+    const key = getCellKey(ghost.pos.x, ghost.pos.y);
+    byCell.set(key, [...(byCell.get(key) ?? []), ghost]);
+  });
+  return byCell;
+}
+
+/**
+ * Группирует живые сущности по клеткам за один проход
+ * @returns сущности каждой клетки снизу вверх (как getCellEntities)
+ */
+export function groupEntitiesByCell(entities: Entity[]): Map<string, Entity[]> {
+  const byCell = new Map<string, Entity[]>();
+  entities.forEach((entity) => {
+    if (entity.isDead) {
+      return;
+    }
+    const key = getCellKey(entity.pos.x, entity.pos.y);
+    const cell = byCell.get(key);
+    if (cell) {
+      cell.push(entity);
+    } else {
+      byCell.set(key, [entity]);
+    }
+  });
+  byCell.forEach((cell) => cell.sort(compareCellLayer));
+  return byCell;
+}
@@ -0,0 +1,234 @@
+/** Сколько секунд истории трафика хранится */
+export const TRAFFIC_HISTORY_SECONDS = 60;
+
+/** Сколько событий соединения хранится */
+const MAX_CONNECTION_EVENTS = 20;
+
+/**
+ * Трафик за одну секунду
+ */
+export interface TrafficBucket {
+  /** Номер секунды (Math.floor(timestamp / 1000)) */
+  second: number;
+  messagesIn: number;
+  bytesIn: number;
+  messagesOut: number;
+  bytesOut: number;
+  /** Сумма и количество замеров времени ответа за секунду */
+  roundTripTotal: number;
+  roundTripCount: number;
+}
+
+/**
+ * Событие соединения (подключение, обрыв, переподключение)
+ */
+export interface ConnectionEvent {
+  at: number;
+  kind: "connected" | "disconnected" | "reconnecting" | "error";
+  detail?: string;
+}
+
+/**
+ * Счетчики сети, которые ведет клиент
+ */
+export interface NetworkCounters {
+  totalMessagesIn: number;
+  totalBytesIn: number;
+  totalMessagesOut: number;
+  totalBytesOut: number;
+  /** Команд в очереди отправки (ждут подключения) */
+  queuedCommands: number;
+  /** Время отправки команды, на которую еще не пришел ответ */
+  pendingCommandAt: number | null;
+  /** Последнее время ответа: команда → следующее сообщение сервера */
+  lastRoundTripMs: number | null;
+  buckets: TrafficBucket[];
+  connectionEvents: ConnectionEvent[];
+}
+
+/**
+ * Создает пустые счетчики
+ */
+export function createNetworkCounters(): NetworkCounters {
+  return {
+    totalMessagesIn: 0,
+    totalBytesIn: 0,
+    totalMessagesOut: 0,
+    totalBytesOut: 0,
+    queuedCommands: 0,
+    pendingCommandAt: null,
+    lastRoundTripMs: null,
+    buckets: [],
+    connectionEvents: [],
+  };
+}
+
+/**
+ * Размер сообщения в байтах (длина JSON)
+ * @param value - payload сообщения
+ * @returns размер или 0, если payload не сериализуется
+ */
+export function measurePayloadBytes(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function emptyBucket(second: number): TrafficBucket {
+  return {
+    second,
+    messagesIn: 0,
+    bytesIn: 0,
+    messagesOut: 0,
+    bytesOut: 0,
+    roundTripTotal: 0,
+    roundTripCount: 0,
+  };
+}
+
+function currentBucket(counters: NetworkCounters, now: number): TrafficBucket {
+  const second = Math.floor(now / 1000);
+  const last = counters.buckets[counters.buckets.length - 1];
+  if (last && last.second === second) {
+    return last;
+  }
+
+  const bucket = emptyBucket(second);
+  counters.buckets.push(bucket);
+  const oldest = second - TRAFFIC_HISTORY_SECONDS;
+  while (counters.buckets.length > 0 && counters.buckets[0].second <= oldest) {
+    counters.buckets.shift();
+  }
+  return bucket;
+}
+
+/**
+ * Учитывает входящее сообщение (и время ответа, если ждали ответа)
+ */
+export function recordInboundTraffic(
+  counters: NetworkCounters,
+  bytes: number,
+  now: number = Date.now(),
+) {
+  const bucket = currentBucket(counters, now);
+  bucket.messagesIn += 1;
+  bucket.bytesIn += bytes;
+  counters.totalMessagesIn += 1;
+  counters.totalBytesIn += bytes;
+
+  if (counters.pendingCommandAt !== null) {
+    const roundTrip = now - counters.pendingCommandAt;
+    bucket.roundTripTotal += roundTrip;
+    bucket.roundTripCount += 1;
+    counters.lastRoundTripMs = roundTrip;
+    counters.pendingCommandAt = null;
+  }
+}
+
+/**
+ * Учитывает исходящую команду
+ *
+ * @param queued - команда не отправлена, а поставлена в очередь
+ */
+export function recordOutboundTraffic(
+  counters: NetworkCounters,
+  bytes: number,
+  queued: boolean,
+  now: number = Date.now(),
+) {
+  if (queued) {
+    counters.queuedCommands += 1;
+    return;
+  }
+
+  const bucket = currentBucket(counters, now);
+  bucket.messagesOut += 1;
+  bucket.bytesOut += bytes;
+  counters.totalMessagesOut += 1;
+  counters.totalBytesOut += bytes;
+  if (counters.pendingCommandAt === null) {
+    counters.pendingCommandAt = now;
+  }
+}
+
+/**
+ * Добавляет событие соединения в историю
+ */
+export function recordConnectionEvent(
+  counters: NetworkCounters,
+  kind: ConnectionEvent["kind"],
+  detail?: string,
+  now: number = Date.now(),
+) {
+  counters.connectionEvents.push({ at: now, kind, detail });
+  if (counters.connectionEvents.length > MAX_CONNECTION_EVENTS) {
+    counters.connectionEvents.shift();
+  }
+
+  if (kind === "connected") {
+    // Очередь отправляется сразу после подключения
+    counters.queuedCommands = 0;
+  }
+  if (kind !== "connected") {
+    counters.pendingCommandAt = null;
+  }
+}
+
+/**
+ * История трафика по секундам, без пропусков
+ * @param counters - счетчики
+ * @param now - текущее время
+ * @returns TRAFFIC_HISTORY_SECONDS корзин, последняя — текущая секунда
+ */
+export function getTrafficHistory(
+  counters: NetworkCounters,
+  now: number = Date.now(),
+): TrafficBucket[] {
+  const current = Math.floor(now / 1000);
+  const bySecond = new Map(counters.buckets.map((b) => [b.second, b]));
+  const history: TrafficBucket[] = [];
+  for (let i = TRAFFIC_HISTORY_SECONDS - 1; i >= 0; i--) {
+    const second = current - i;
+    history.push(bySecond.get(second) ?? emptyBucket(second));
+  }
+  return history;
+}
+
+/**
+ * Средние значения в секунду за последние полные секунды
+ * @param history - история из getTrafficHistory
+ * @param seconds - окно усреднения
+ */
+export function summarizeTraffic(history: TrafficBucket[], seconds = 5) {
+  // Текущая секунда еще не закончилась — не учитываем ее
+  const window = history.slice(-seconds - 1, -1);
+  const sum = (pick: (b: TrafficBucket) => number) =>
+    window.reduce((total, b) => total + pick(b), 0);
+  const divisor = Math.max(window.length, 1);
+
+  const roundTripCount = sum((b) => b.roundTripCount);
+  return {
+    messagesInPerSec: sum((b) => b.messagesIn) / divisor,
+    messagesOutPerSec: sum((b) => b.messagesOut) / divisor,
+    bytesInPerSec: sum((b) => b.bytesIn) / divisor,
+    bytesOutPerSec: sum((b) => b.bytesOut) / divisor,
+    averageRoundTripMs:
+      roundTripCount > 0 ? sum((b) => b.roundTripTotal) / roundTripCount : null,
+  };
+}
+
+/**
+ * Форматирует размер в байтах
+ * @example formatBytes(1536) // "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${Math.round(bytes)} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
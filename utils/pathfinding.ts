@@ -9,10 +9,15 @@ interface PathNode {
 }
 
 /**
- * Manhattan distance heuristic
+ * Octile distance heuristic (8-directional movement, diagonal step 1.414)
+ *
+ * Manhattan distance overestimates diagonal paths, so with terrain costs
+ * A* would prefer a straight path through expensive tiles.
  */
 function heuristic(a: Position, b: Position): number {
-  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  return Math.max(dx, dy) + (1.414 - 1) * Math.min(dx, dy);
 }
 
 /**
@@ -35,9 +40,9 @@ function getNeighbors(pos: Position, world: GameWorld): Position[] {
         continue;
       }
 
-      // Check if tile is walkable (not a wall)
+      // Check if tile is walkable (walls, trees and other blocking terrain)
       const tile = world.map[newY]?.[newX];
-      if (!tile || tile.isWall) {
+      if (!tile || !tile.isWalkable) {
         continue;
       }
 
@@ -50,6 +55,9 @@ function getNeighbors(pos: Position, world: GameWorld): Position[] {
 
 /**
  * Find path using A* algorithm
+ *
+ * Impassable tiles (`isWalkable === false`) are skipped, each step costs
+ * the terrain `moveCost` of the tile being entered.
  * @param start Starting position
  * @param goal Goal position
  * @param world Game world with map data
@@ -67,7 +75,7 @@ export function findPath(
 
   // Check if goal is walkable
   const goalTile = world.map[goal.y]?.[goal.x];
-  if (!goalTile || goalTile.isWall) {
+  if (!goalTile || !goalTile.isWalkable) {
     return null; // Goal is not walkable
   }
 
@@ -127,10 +135,12 @@ export function findPath(
         continue;
       }
 
-      // Calculate costs
+      // Calculate costs (terrain cost of the tile being entered)
       const dx = Math.abs(neighborPos.x - current.pos.x);
       const dy = Math.abs(neighborPos.y - current.pos.y);
-      const moveCost = dx + dy === 2 ? 1.414 : 1; // Diagonal vs straight
+      const stepCost = dx + dy === 2 ? 1.414 : 1; // Diagonal vs straight
+      const moveCost =
+        stepCost * world.map[neighborPos.y][neighborPos.x].moveCost;
       const g = current.g + moveCost;
       const h = heuristic(neighborPos, goal);
       const f = g + h;
@@ -0,0 +1,142 @@
+import {describe, expect, it} from "vitest";
+
+import {decodeServerMessage, formatDecodeErrors} from "./protocolDecoder";
+
+const entity = (overrides: Record<string, unknown> = {}) => ({
+  id: "e1",
+  type: "PLAYER",
+  name: "Hero",
+  pos: { x: 1, y: 2 },
+  render: { symbol: "@", color: "#fff" },
+  stats: { hp: 10, maxHp: 10 },
+  ...overrides,
+});
+
+const errorPaths = (raw: unknown): string[] => {
+  const result = decodeServerMessage(raw);
+  return result.ok === false ? result.errors.map((e) => e.path) : [];
+};
+
+describe("decodeServerMessage", () => {
+  it("accepts a well-formed snapshot", () => {
+    const result = decodeServerMessage({
+      type: "UPDATE",
+      tick: 5,
+      seq: 1,
+      grid: { w: 2, h: 1 },
+      map: [{ x: 0, y: 0, isWall: false, env: "floor" }],
+      entities: [entity()],
+      logs: ["plain", { text: "typed", type: "INFO" }],
+    });
+    expect(result.ok).toBe(true);
+  });
+
+  it("accepts a well-formed delta", () => {
+    const result = decodeServerMessage({
+      type: "DELTA",
+      seq: 2,
+      tick: 6,
+      tiles: [{ x: 1, y: 0, isVisible: true }],
+      entities: { added: [entity({ id: "e2" })], removed: ["e3"] },
+    });
+    expect(result.ok).toBe(true);
+  });
+
+  it("passes unknown message types through unchecked", () => {
+    expect(decodeServerMessage({ type: "PING", anything: 1 }).ok).toBe(true);
+  });
+
+  it("rejects payloads that are not objects", () => {
+    expect(errorPaths(null)).toEqual(["$"]);
+    expect(errorPaths("UPDATE")).toEqual(["$"]);
+    expect(errorPaths([{ type: "UPDATE" }])).toEqual(["$"]);
+  });
+
+  it("rejects a missing or non-string type", () => {
+    expect(errorPaths({})).toEqual(["type"]);
+    expect(errorPaths({ type: 1 })).toEqual(["type"]);
+  });
+
+  it("reports the path to a malformed entity field", () => {
+    const paths = errorPaths({
+      type: "UPDATE",
+      entities: [entity(), entity({ stats: { hp: "10", maxHp: 10 } })],
+    });
+    expect(paths).toEqual(["entities[1].stats.hp"]);
+  });
+
+  it("rejects entities without id, position or render data", () => {
+    const paths = errorPaths({
+      type: "INIT",
+      entities: [entity({ id: "", pos: { x: 1.5, y: 0 }, render: null })],
+    });
+    expect(paths).toEqual([
+      "entities[0].id",
+      "entities[0].pos.x",
+      "entities[0].render",
+    ]);
+  });
+
+  it("requires a grid together with the map", () => {
+    expect(errorPaths({ type: "UPDATE", map: [] })).toEqual(["grid"]);
+    expect(errorPaths({ type: "UPDATE", grid: { w: 1, h: 1 } })).toEqual([
+      "map",
+    ]);
+  });
+
+  it("rejects tiles with a non-positive move cost", () => {
+    const paths = errorPaths({
+      type: "DELTA",
+      seq: 1,
+      tick: 1,
+      tiles: [{ x: 0, y: 0, moveCost: 0 }],
+    });
+    expect(paths).toEqual(["tiles[0].moveCost"]);
+  });
+
+  it("requires integer seq and tick in a delta", () => {
+    expect(errorPaths({ type: "DELTA", tick: 1 })).toEqual(["seq"]);
+    expect(errorPaths({ type: "DELTA", seq: 1.5, tick: 1 })).toEqual(["seq"]);
+  });
+
+  it("rejects malformed entity changes in a delta", () => {
+    const paths = errorPaths({
+      type: "DELTA",
+      seq: 1,
+      tick: 1,
+      entities: { changed: [entity({ name: 7 })], removed: [""] },
+    });
+    expect(paths).toEqual(["entities.changed[0].name", "entities.removed[0]"]);
+  });
+
+  it("rejects log entries without text", () => {
+    expect(errorPaths({ type: "UPDATE", logs: [{ type: "INFO" }] })).toEqual([
+      "logs[0].text",
+    ]);
+  });
+
+  it("requires a command id in an ACK", () => {
+    expect(errorPaths({ type: "ACK" })).toEqual(["commandId"]);
+  });
+
+  it("accepts command errors and checks their command id", () => {
+    expect(decodeServerMessage({ error: "Not your turn" }).ok).toBe(true);
+    expect(errorPaths({ error: "Not your turn", commandId: "" })).toEqual([
+      "commandId",
+    ]);
+  });
+});
+
+describe("formatDecodeErrors", () => {
+  it("lists the first errors and counts the rest", () => {
+    const errors = Array.from({ length: 7 }, (_, i) => ({
+      path: `map[${i}].x`,
+      message: "expected integer, got string",
+    }));
+    const text = formatDecodeErrors("UPDATE", errors);
+    expect(text).toMatch(/^Malformed UPDATE message: map\[0\]\.x: /);
+    expect(text).toContain("map[4].x");
+    expect(text).not.toContain("map[5].x");
+    expect(text).toMatch(/\(\+2 more\)$/);
+  });
+});
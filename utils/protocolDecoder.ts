@@ -0,0 +1,395 @@
+import {
+  ServerToClientAck,
+  ServerToClientCommandError,
+  ServerToClientDelta,
+  ServerToClientUpdateWithLevel,
+} from "../types";
+
+/**
+ * Ошибка декодирования конкретного поля сообщения
+ */
+export interface DecodeError {
+  /** Путь к полю (e.g., "entities[3].stats.hp") */
+  path: string;
+  /** Что ожидалось и что пришло */
+  message: string;
+}
+
+/**
+ * Результат декодирования
+ */
+export type DecodeResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: DecodeError[] };
+
+/**
+ * Сообщение от сервера, прошедшее проверку формы
+ *
+ * Сообщения с неизвестным `type` пропускаются без проверки содержимого —
+ * клиент их игнорирует, но они не считаются ошибкой протокола.
+ */
+export type DecodedServerMessage =
+  | ServerToClientUpdateWithLevel
+  | ServerToClientDelta
+  | ServerToClientAck
+  | ServerToClientCommandError
+  | { type: string };
+
+/** Максимум ошибок, попадающих в одну строку лога */
+const MAX_REPORTED_ERRORS = 5;
+
+// ============================================================================
+// Primitive checks
+// ============================================================================
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+): value is Record<string, any> {
+  if (!isObject(value)) {
+    errors.push({ path, message: `expected object, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function expectArray(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+): value is unknown[] {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected array, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function expectString(value: unknown, path: string, errors: DecodeError[]) {
+  if (typeof value !== "string") {
+    errors.push({ path, message: `expected string, got ${describe(value)}` });
+  }
+}
+
+function expectNonEmptyString(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+) {
+  if (typeof value !== "string" || value.length === 0) {
+    errors.push({
+      path,
+      message: `expected non-empty string, got ${describe(value)}`,
+    });
+  }
+}
+
+function expectNumber(value: unknown, path: string, errors: DecodeError[]) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push({ path, message: `expected number, got ${describe(value)}` });
+  }
+}
+
+function expectPositiveNumber(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    errors.push({
+      path,
+      message: `expected positive number, got ${typeof value === "number" ? value : describe(value)}`,
+    });
+  }
+}
+
+function expectInteger(value: unknown, path: string, errors: DecodeError[]) {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    errors.push({ path, message: `expected integer, got ${describe(value)}` });
+  }
+}
+
+function optional(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+  check: (value: unknown, path: string, errors: DecodeError[]) => void,
+) {
+  if (value !== undefined && value !== null) {
+    check(value, path, errors);
+  }
+}
+
+function expectBoolean(value: unknown, path: string, errors: DecodeError[]) {
+  if (typeof value !== "boolean") {
+    errors.push({ path, message: `expected boolean, got ${describe(value)}` });
+  }
+}
+
+// ============================================================================
+// Structure checks
+// ============================================================================
+
+function checkPosition(value: unknown, path: string, errors: DecodeError[]) {
+  if (expectObject(value, path, errors)) {
+    expectInteger(value.x, `${path}.x`, errors);
+    expectInteger(value.y, `${path}.y`, errors);
+  }
+}
+
+function checkTile(value: unknown, path: string, errors: DecodeError[]) {
+  if (!expectObject(value, path, errors)) {
+    return;
+  }
+  expectInteger(value.x, `${path}.x`, errors);
+  expectInteger(value.y, `${path}.y`, errors);
+  optional(value.isWall, `${path}.isWall`, errors, expectBoolean);
+  optional(value.isVisible, `${path}.isVisible`, errors, expectBoolean);
+  optional(value.isExplored, `${path}.isExplored`, errors, expectBoolean);
+  // Unknown env values are not an error: the client falls back to isWall
+  optional(value.env, `${path}.env`, errors, expectString);
+  optional(value.isWalkable, `${path}.isWalkable`, errors, expectBoolean);
+  optional(value.moveCost, `${path}.moveCost`, errors, expectPositiveNumber);
+}
+
+function checkEntity(value: unknown, path: string, errors: DecodeError[]) {
+  if (!expectObject(value, path, errors)) {
+    return;
+  }
+  expectNonEmptyString(value.id, `${path}.id`, errors);
+  expectNonEmptyString(value.type, `${path}.type`, errors);
+  expectString(value.name, `${path}.name`, errors);
+  checkPosition(value.pos, `${path}.pos`, errors);
+
+  if (expectObject(value.render, `${path}.render`, errors)) {
+    expectNonEmptyString(value.render.symbol, `${path}.render.symbol`, errors);
+    expectNonEmptyString(value.render.color, `${path}.render.color`, errors);
+    optional(value.render.label, `${path}.render.label`, errors, expectString);
+  }
+
+  if (expectObject(value.stats, `${path}.stats`, errors)) {
+    const stats = value.stats;
+    expectNumber(stats.hp, `${path}.stats.hp`, errors);
+    expectNumber(stats.maxHp, `${path}.stats.maxHp`, errors);
+    optional(stats.stamina, `${path}.stats.stamina`, errors, expectNumber);
+    optional(stats.maxStamina, `${path}.stats.maxStamina`, errors, expectNumber);
+    optional(stats.strength, `${path}.stats.strength`, errors, expectNumber);
+    optional(stats.gold, `${path}.stats.gold`, errors, expectNumber);
+    optional(stats.isDead, `${path}.stats.isDead`, errors, expectBoolean);
+  }
+
+  if (value.inventory !== undefined && value.inventory !== null) {
+    if (expectObject(value.inventory, `${path}.inventory`, errors)) {
+      optional(
+        value.inventory.items,
+        `${path}.inventory.items`,
+        errors,
+        expectArray,
+      );
+    }
+  }
+}
+
+function checkLogEntry(value: unknown, path: string, errors: DecodeError[]) {
+  if (typeof value === "string") {
+    return;
+  }
+  if (expectObject(value, path, errors)) {
+    expectString(value.text, `${path}.text`, errors);
+    optional(value.type, `${path}.type`, errors, expectString);
+  }
+}
+
+function checkList(
+  value: unknown,
+  path: string,
+  errors: DecodeError[],
+  check: (value: unknown, path: string, errors: DecodeError[]) => void,
+) {
+  if (expectArray(value, path, errors)) {
+    value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+  }
+}
+
+function checkSnapshot(msg: Record<string, any>, errors: DecodeError[]) {
+  optional(msg.tick, "tick", errors, expectInteger);
+  optional(msg.seq, "seq", errors, expectInteger);
+  optional(msg.level, "level", errors, expectInteger);
+
+  if (msg.grid !== undefined || msg.map !== undefined) {
+    if (expectObject(msg.grid, "grid", errors)) {
+      expectInteger(msg.grid.w, "grid.w", errors);
+      expectInteger(msg.grid.h, "grid.h", errors);
+    }
+    checkList(msg.map, "map", errors, checkTile);
+  }
+
+  optional(msg.entities, "entities", errors, (value, path, errs) =>
+    checkList(value, path, errs, checkEntity),
+  );
+  optional(msg.activeEntityId, "activeEntityId", errors, expectString);
+  optional(msg.myEntityId, "myEntityId", errors, expectString);
+}
+
+function checkDelta(msg: Record<string, any>, errors: DecodeError[]) {
+  expectInteger(msg.seq, "seq", errors);
+  expectInteger(msg.tick, "tick", errors);
+  optional(msg.tiles, "tiles", errors, (value, path, errs) =>
+    checkList(value, path, errs, checkTile),
+  );
+
+  if (msg.entities !== undefined && msg.entities !== null) {
+    if (expectObject(msg.entities, "entities", errors)) {
+      const delta = msg.entities;
+      optional(delta.added, "entities.added", errors, (value, path, errs) =>
+        checkList(value, path, errs, checkEntity),
+      );
+      optional(delta.changed, "entities.changed", errors, (value, path, errs) =>
+        checkList(value, path, errs, checkEntity),
+      );
+      optional(delta.removed, "entities.removed", errors, (value, path, errs) =>
+        checkList(value, path, errs, expectNonEmptyString),
+      );
+    }
+  }
+
+  optional(msg.activeEntityId, "activeEntityId", errors, expectString);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Проверяет форму сообщения от сервера
+ *
+ * @param raw - распарсенный JSON из WebSocket
+ * @returns сообщение или список ошибок с путями до полей
+ *
+ * @example
+ * ```typescript
+ * const result = decodeServerMessage(data);
+ * if (result.ok === false) {
+ *   addLog(formatDecodeErrors("UPDATE", result.errors), LogType.ERROR);
+ * }
+ * ```
+ */
+export function decodeServerMessage(
+  raw: unknown,
+): DecodeResult<DecodedServerMessage> {
+  const errors: DecodeError[] = [];
+
+  if (!expectObject(raw, "$", errors)) {
+    return { ok: false, errors };
+  }
+
+  if (typeof raw.error === "string") {
+    optional(raw.commandId, "commandId", errors, expectNonEmptyString);
+    if (errors.length > 0) {
+      return { ok: false, errors };
+    }
+    return { ok: true, value: raw as ServerToClientCommandError };
+  }
+
+  if (typeof raw.type !== "string") {
+    errors.push({
+      path: "type",
+      message: `expected string, got ${describe(raw.type)}`,
+    });
+    return { ok: false, errors };
+  }
+
+  switch (raw.type) {
+  case "INIT":
+  case "UPDATE":
+    checkSnapshot(raw, errors);
+    break;
+  case "DELTA":
+    checkDelta(raw, errors);
+    break;
+  case "ACK":
+    expectNonEmptyString(raw.commandId, "commandId", errors);
+    break;
+  default:
+    return { ok: true, value: raw as { type: string } };
+  }
+
+  optional(raw.logs, "logs", errors, (value, path, errs) =>
+    checkList(value, path, errs, checkLogEntry),
+  );
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: raw as DecodedServerMessage };
+}
+
+/**
+ * Type guard: сообщение об ошибке от сервера
+ */
+export function isServerErrorMessage(
+  msg: DecodedServerMessage,
+): msg is ServerToClientCommandError {
+  return typeof (msg as { error?: unknown }).error === "string";
+}
+
+/**
+ * Type guard: полный снимок состояния (INIT/UPDATE)
+ */
+export function isSnapshotMessage(
+  msg: DecodedServerMessage,
+): msg is ServerToClientUpdateWithLevel {
+  return msg.type === "INIT" || msg.type === "UPDATE";
+}
+
+/**
+ * Type guard: инкрементальное обновление (DELTA)
+ */
+export function isDeltaMessage(
+  msg: DecodedServerMessage,
+): msg is ServerToClientDelta {
+  return msg.type === "DELTA";
+}
+
+/**
+ * Type guard: подтверждение команды (ACK)
+ */
+export function isAckMessage(
+  msg: DecodedServerMessage,
+): msg is ServerToClientAck {
+  return msg.type === "ACK";
+}
+
+/**
+ * Форматирует ошибки декодирования в одну строку для игрового лога
+ *
+ * @param messageType - тип сообщения (или "?" если неизвестен)
+ * @param errors - ошибки декодирования
+ * @returns строка вида "Malformed UPDATE: entities[0].stats.hp: expected number, got undefined"
+ */
+export function formatDecodeErrors(
+  messageType: string,
+  errors: DecodeError[],
+): string {
+  const shown = errors
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map((e) => `${e.path}: ${e.message}`)
+    .join("; ");
+  const hidden = errors.length - MAX_REPORTED_ERRORS;
+  return `Malformed ${messageType} message: ${shown}${hidden > 0 ? ` (+${hidden} more)` : ""}`;
+}
@@ -0,0 +1,84 @@
+import {describe, expect, it} from "vitest";
+
+import type {ServerVersionInfo} from "../types/server";
+
+import {
+  checkProtocolCompatibility,
+  getServerProtocolVersion,
+  parseProtocolVersion,
+} from "./protocolVersion";
+
+describe("parseProtocolVersion", () => {
+  it("reads semver with an optional v prefix and pre-release", () => {
+    expect(parseProtocolVersion("v0.1.5-canary-09d9226")).toEqual({
+      major: 0,
+      minor: 1,
+      patch: 5,
+      prerelease: "canary-09d9226",
+    });
+    expect(parseProtocolVersion(" 2.0.1 ")).toEqual({
+      major: 2,
+      minor: 0,
+      patch: 1,
+      prerelease: "",
+    });
+  });
+
+  it("returns null for anything that is not a version", () => {
+    expect(parseProtocolVersion(null)).toBeNull();
+    expect(parseProtocolVersion("")).toBeNull();
+    expect(parseProtocolVersion("1.2")).toBeNull();
+    expect(parseProtocolVersion("latest")).toBeNull();
+  });
+});
+
+describe("getServerProtocolVersion", () => {
+  it("takes a trimmed ProtocolVersion from the build info", () => {
+    const info = { ProtocolVersion: " 0.1.5 " } as unknown as ServerVersionInfo;
+    expect(getServerProtocolVersion(info)).toBe("0.1.5");
+  });
+
+  it("returns null when the server does not report one", () => {
+    expect(getServerProtocolVersion(null)).toBeNull();
+    expect(getServerProtocolVersion({} as ServerVersionInfo)).toBeNull();
+    expect(
+      getServerProtocolVersion({ ProtocolVersion: "  " } as unknown as ServerVersionInfo),
+    ).toBeNull();
+  });
+});
+
+describe("checkProtocolCompatibility", () => {
+  const status = (server: string | null, client: string) =>
+    checkProtocolCompatibility(server, client).status;
+
+  it("accepts the same version", () => {
+    expect(status("0.1.5", "0.1.5")).toBe("compatible");
+    expect(status("1.4.0-rc.1", "1.4.0-rc.1")).toBe("compatible");
+  });
+
+  it("treats patch and pre-release differences as compatible", () => {
+    expect(status("0.1.6", "0.1.5")).toBe("patch-mismatch");
+    expect(status("1.2.0-canary", "1.2.0")).toBe("patch-mismatch");
+  });
+
+  it("blocks a different major, and a different minor before 1.0", () => {
+    expect(status("2.0.0", "1.9.9")).toBe("incompatible");
+    expect(status("0.2.0", "0.1.5")).toBe("incompatible");
+    expect(status("1.3.0", "1.2.0")).toBe("compatible");
+  });
+
+  it("tells which side to update", () => {
+    expect(checkProtocolCompatibility("0.2.0", "0.1.0").message).toContain(
+      "Update the client",
+    );
+    expect(checkProtocolCompatibility("0.1.0", "0.2.0").message).toContain(
+      "server deployment is outdated",
+    );
+  });
+
+  it("cannot check without a readable version on either side", () => {
+    expect(status(null, "0.1.5")).toBe("unknown");
+    expect(status("dev", "0.1.5")).toBe("unknown");
+    expect(status("0.1.5", "")).toBe("unknown");
+  });
+});
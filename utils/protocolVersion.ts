@@ -0,0 +1,135 @@
+import type {ServerVersionInfoWithProtocol} from "../types";
+import type {ServerVersionInfo} from "../types/server";
+
+/** Версия протокола, с которой собран клиент (версия agent-sdk) */
+export const CLIENT_PROTOCOL_VERSION = __PROTOCOL_VERSION__;
+
+/**
+ * Результат сравнения версий протокола
+ *
+ * - compatible — версии совпадают
+ * - patch-mismatch — совместимы, но отличаются patch/pre-release
+ * - incompatible — несовместимы, подключение блокируется
+ * - unknown — сервер не сообщил версию, проверить нельзя
+ */
+export type ProtocolCompatibilityStatus =
+  | "compatible"
+  | "patch-mismatch"
+  | "incompatible"
+  | "unknown";
+
+export interface ProtocolCompatibility {
+  status: ProtocolCompatibilityStatus;
+  clientVersion: string;
+  serverVersion: string | null;
+  /** Объяснение для пользователя */
+  message: string;
+}
+
+interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string;
+}
+
+/**
+ * Разбирает semver-версию протокола
+ * @example parseProtocolVersion("0.1.5-canary-09d9226") // { major: 0, minor: 1, patch: 5, prerelease: "canary-09d9226" }
+ * @returns null, если строка не похожа на версию
+ */
+export function parseProtocolVersion(
+  version: string | null | undefined,
+): ParsedVersion | null {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?/.exec(
+    version?.trim() ?? "",
+  );
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ?? "",
+  };
+}
+
+/**
+ * Достает версию протокола из информации о сборке сервера
+ */
+export function getServerProtocolVersion(
+  info: ServerVersionInfo | null | undefined,
+): string | null {
+  const version = (info as ServerVersionInfoWithProtocol | null | undefined)
+    ?.ProtocolVersion;
+  return typeof version === "string" && version.trim() ? version.trim() : null;
+}
+
+/**
+ * Сравнивает версию протокола сервера с версией клиента
+ *
+ * Несовместимы разные major-версии, а до 1.0 — и разные minor
+ * (по semver до 1.0 любое minor-изменение может ломать протокол).
+ *
+ * @param serverVersion - версия протокола сервера (null — не сообщил)
+ * @param clientVersion - версия протокола клиента
+ */
+export function checkProtocolCompatibility(
+  serverVersion: string | null,
+  clientVersion: string = CLIENT_PROTOCOL_VERSION,
+): ProtocolCompatibility {
+  const result = (
+    status: ProtocolCompatibilityStatus,
+    message: string,
+  ): ProtocolCompatibility => ({
+    status,
+    clientVersion,
+    serverVersion,
+    message,
+  });
+
+  const client = parseProtocolVersion(clientVersion);
+  const server = parseProtocolVersion(serverVersion);
+  if (!server) {
+    return result(
+      "unknown",
+      serverVersion
+        ? `Server reports an unreadable protocol version "${serverVersion}"; compatibility with client protocol ${clientVersion} was not checked.`
+        : `Server does not report its protocol version; compatibility with client protocol ${clientVersion} was not checked.`,
+    );
+  }
+  if (!client) {
+    return result(
+      "unknown",
+      `This client build has no protocol version; compatibility with server protocol ${serverVersion} was not checked.`,
+    );
+  }
+
+  const breaking =
+    client.major !== server.major ||
+    (client.major === 0 && client.minor !== server.minor);
+  if (breaking) {
+    const newer =
+      server.major > client.major ||
+      (server.major === client.major && server.minor > client.minor);
+    return result(
+      "incompatible",
+      `Server speaks protocol ${serverVersion}, this client was built for ${clientVersion}. ` +
+        "These versions exchange incompatible messages: the map and commands would break. " +
+        (newer
+          ? "Update the client to a build for the newer protocol."
+          : "The server deployment is outdated; update the server or pick another one."),
+    );
+  }
+
+  if (client.patch !== server.patch || client.prerelease !== server.prerelease) {
+    return result(
+      "patch-mismatch",
+      `Server protocol ${serverVersion} differs from client protocol ${clientVersion} in patch version. ` +
+        "They are compatible, but some new fields may be ignored.",
+    );
+  }
+
+  return result("compatible", `Protocol ${serverVersion} matches the client.`);
+}
@@ -0,0 +1,99 @@
+import {describe, expect, it} from "vitest";
+
+import {SESSION_RECORDING_VERSION, SessionRecording} from "../types";
+
+import {
+  buildSessionTickIndex,
+  createSessionRecording,
+  findSessionEventCountForTick,
+  getSessionEventTick,
+  parseSessionRecording,
+  serializeSessionRecording,
+} from "./sessionRecording";
+
+const recording = (events: SessionRecording["events"]): SessionRecording => ({
+  version: SESSION_RECORDING_VERSION,
+  startedAt: 1000,
+  serverUrl: "ws://localhost:8080",
+  events,
+});
+
+const errorPaths = (text: string): string[] => {
+  const result = parseSessionRecording(text);
+  return result.ok === false ? result.errors.map((e) => e.path) : [];
+};
+
+describe("parseSessionRecording", () => {
+  it("reads back a serialized recording", () => {
+    const original = recording([
+      { t: 0, direction: "out", command: { action: "WAIT" } as any },
+      { t: 5, direction: "in", data: { type: "UPDATE", tick: 3 } },
+    ]);
+    const result = parseSessionRecording(serializeSessionRecording(original));
+    expect(result).toEqual({ ok: true, value: original });
+  });
+
+  it("starts an empty recording for the server", () => {
+    const created = createSessionRecording(null);
+    expect(created.version).toBe(SESSION_RECORDING_VERSION);
+    expect(created.serverUrl).toBeNull();
+    expect(created.events).toEqual([]);
+  });
+
+  it("rejects text that is not a recording object", () => {
+    expect(errorPaths("{")).toEqual(["$"]);
+    expect(errorPaths("[]")).toEqual(["$"]);
+  });
+
+  it("rejects an unsupported version and a missing event list", () => {
+    expect(
+      errorPaths(JSON.stringify({ version: 99, startedAt: 0, events: [] })),
+    ).toEqual(["version"]);
+    expect(
+      errorPaths(JSON.stringify({ version: SESSION_RECORDING_VERSION, startedAt: 0 })),
+    ).toEqual(["events"]);
+  });
+
+  it("reports the path to a malformed event", () => {
+    const text = JSON.stringify({
+      version: SESSION_RECORDING_VERSION,
+      startedAt: 0,
+      events: [
+        { t: 0, direction: "in" },
+        { t: 1, direction: "out", command: {} },
+        { direction: "sideways" },
+      ],
+    });
+    expect(errorPaths(text)).toEqual([
+      "events[0].data",
+      "events[1].command.action",
+      "events[2].t",
+      "events[2].direction",
+    ]);
+  });
+});
+
+describe("session tick index", () => {
+  const events: SessionRecording["events"] = [
+    { t: 0, direction: "in", data: { type: "INIT", tick: 2 } },
+    { t: 1, direction: "out", command: { action: "WAIT" } as any },
+    { t: 2, direction: "in", data: { type: "PING" } },
+    { t: 3, direction: "in", data: { type: "DELTA", tick: 5 } },
+  ];
+
+  it("reads the tick of inbound events only", () => {
+    expect(events.map(getSessionEventTick)).toEqual([2, null, null, 5]);
+  });
+
+  it("carries the last known tick over events without one", () => {
+    expect(buildSessionTickIndex(recording(events))).toEqual([2, 2, 2, 5]);
+  });
+
+  it("counts the events to apply to reach a tick", () => {
+    const index = buildSessionTickIndex(recording(events));
+    expect(findSessionEventCountForTick(index, 1)).toBe(0);
+    expect(findSessionEventCountForTick(index, 2)).toBe(3);
+    expect(findSessionEventCountForTick(index, 4)).toBe(3);
+    expect(findSessionEventCountForTick(index, 9)).toBe(4);
+  });
+});
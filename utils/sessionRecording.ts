@@ -0,0 +1,184 @@
+import {
+  SESSION_RECORDING_VERSION,
+  SessionRecording,
+  SessionRecordingEvent,
+} from "../types";
+
+import {getTimestampedFileName} from "./download";
+import {DecodeError, DecodeResult} from "./protocolDecoder";
+
+/**
+ * Создает пустую запись сессии
+ * @param serverUrl - URL сервера, с которого ведется запись
+ * @returns новая запись
+ */
+export function createSessionRecording(
+  serverUrl: string | null,
+): SessionRecording {
+  return {
+    version: SESSION_RECORDING_VERSION,
+    startedAt: Date.now(),
+    serverUrl,
+    events: [],
+  };
+}
+
+/**
+ * Сериализует запись в JSON для сохранения в файл
+ * @param recording - запись сессии
+ * @returns JSON-строка
+ */
+export function serializeSessionRecording(recording: SessionRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Формирует имя файла записи
+ * @param recording - запись сессии
+ * @returns имя файла вида "session-2025-01-31T12-00-00.cdrec.json"
+ */
+export function getSessionRecordingFileName(
+  recording: SessionRecording,
+): string {
+  return getTimestampedFileName(
+    "session",
+    "cdrec.json",
+    new Date(recording.startedAt),
+  );
+}
+
+/**
+ * Разбирает файл записи сессии
+ *
+ * Проверяется только структура файла — содержимое входящих сообщений
+ * проверяется декодером протокола при воспроизведении.
+ *
+ * @param text - содержимое файла
+ * @returns запись или список ошибок
+ */
+export function parseSessionRecording(
+  text: string,
+): DecodeResult<SessionRecording> {
+  const errors: DecodeError[] = [];
+
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, errors: [{ path: "$", message }] };
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return {
+      ok: false,
+      errors: [{ path: "$", message: "expected recording object" }],
+    };
+  }
+
+  if (raw.version !== SESSION_RECORDING_VERSION) {
+    errors.push({
+      path: "version",
+      message: `unsupported version ${String(raw.version)}, expected ${SESSION_RECORDING_VERSION}`,
+    });
+  }
+  if (typeof raw.startedAt !== "number") {
+    errors.push({ path: "startedAt", message: "expected number" });
+  }
+  if (!Array.isArray(raw.events)) {
+    errors.push({ path: "events", message: "expected array" });
+    return { ok: false, errors };
+  }
+
+  raw.events.forEach((event: any, index: number) => {
+    const path = `events[${index}]`;
+    if (typeof event !== "object" || event === null) {
+      errors.push({ path, message: "expected object" });
+      return;
+    }
+    if (typeof event.t !== "number") {
+      errors.push({ path: `${path}.t`, message: "expected number" });
+    }
+    if (event.direction === "in") {
+      if (event.data === undefined) {
+        errors.push({ path: `${path}.data`, message: "missing payload" });
+      }
+    } else if (event.direction === "out") {
+      if (typeof event.command?.action !== "string") {
+        errors.push({
+          path: `${path}.command.action`,
+          message: "expected string",
+        });
+      }
+    } else {
+      errors.push({
+        path: `${path}.direction`,
+        message: `expected "in" or "out", got ${String(event.direction)}`,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      version: raw.version,
+      startedAt: raw.startedAt,
+      serverUrl: typeof raw.serverUrl === "string" ? raw.serverUrl : null,
+      events: raw.events as SessionRecordingEvent[],
+    },
+  };
+}
+
+/**
+ * Возвращает тик, который несет входящее сообщение
+ * @param event - событие записи
+ * @returns тик или null, если событие его не содержит
+ */
+export function getSessionEventTick(event: SessionRecordingEvent): number | null {
+  if (event.direction !== "in") {
+    return null;
+  }
+  const data = event.data as { tick?: unknown } | null;
+  return typeof data?.tick === "number" ? data.tick : null;
+}
+
+/**
+ * Строит индекс тиков для перемотки
+ *
+ * Для каждого события — последний известный тик на момент после его
+ * применения (события без тика наследуют предыдущий).
+ *
+ * @param recording - запись сессии
+ * @returns массив тиков той же длины, что и recording.events
+ */
+export function buildSessionTickIndex(recording: SessionRecording): number[] {
+  let current = 0;
+  return recording.events.map((event) => {
+    const tick = getSessionEventTick(event);
+    if (tick !== null) {
+      current = tick;
+    }
+    return current;
+  });
+}
+
+/**
+ * Находит позицию воспроизведения для перемотки на тик
+ * @param tickIndex - индекс тиков (см. buildSessionTickIndex)
+ * @param tick - целевой тик
+ * @returns количество событий, которые нужно применить (0..length)
+ */
+export function findSessionEventCountForTick(
+  tickIndex: number[],
+  tick: number,
+): number {
+  let count = 0;
+  while (count < tickIndex.length && tickIndex[count] <= tick) {
+    count++;
+  }
+  return count;
+}
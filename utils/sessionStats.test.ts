@@ -0,0 +1,210 @@
+import {describe, expect, it} from "vitest";
+
+import {
+  Entity,
+  EntityType,
+  GameWorld,
+  Item,
+  ItemType,
+  LogMessage,
+  LogType,
+} from "../types";
+
+import {
+  countAllKills,
+  createSessionStats,
+  EMPTY_SESSION_COUNTERS,
+  serializeSessionStatsCsv,
+  sumSessionCounters,
+  updateSessionStats,
+} from "./sessionStats";
+
+const world = (globalTick: number, level = 1): GameWorld =>
+  ({ map: [], width: 10, height: 10, level, globalTick }) as GameWorld;
+
+interface EntityOptions {
+  x?: number;
+  y?: number;
+  hp?: number;
+  gold?: number;
+  inventory?: Item[];
+  isHostile?: boolean;
+  isDead?: boolean;
+  type?: EntityType;
+}
+
+const entity = (id: string, name: string, options: EntityOptions = {}): Entity =>
+  ({
+    id,
+    name,
+    type: options.type ?? EntityType.ENEMY_GOBLIN,
+    pos: { x: options.x ?? 0, y: options.y ?? 0 },
+    stats: {
+      hp: options.hp ?? 10,
+      maxHp: 10,
+      stamina: 5,
+      maxStamina: 5,
+      gold: options.gold ?? 0,
+    },
+    inventory: options.inventory ?? [],
+    isHostile: options.isHostile ?? false,
+    isDead: options.isDead ?? false,
+  }) as unknown as Entity;
+
+const potion = (id: string): Item => ({ id, type: ItemType.POTION }) as Item;
+
+const combat = (text: string): LogMessage => ({
+  id: text,
+  text,
+  type: LogType.COMBAT,
+  timestamp: 0,
+});
+
+const hero = (options: EntityOptions = {}) =>
+  entity("hero", "Hero", { type: EntityType.PLAYER, ...options });
+const goblin = (options: EntityOptions = {}) =>
+  entity("goblin", "Goblin", { x: 1, isHostile: true, ...options });
+
+describe("updateSessionStats", () => {
+  it("only samples the character on the first update", () => {
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      null,
+      [],
+      world(5),
+      [hero()],
+      [],
+    );
+    expect(stats.levels).toEqual({});
+    expect(stats.samples).toEqual([
+      { tick: 5, level: 1, hp: 10, maxHp: 10, stamina: 5, maxStamina: 5 },
+    ]);
+  });
+
+  it("counts damage and kills from the combat messages", () => {
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      world(1),
+      [hero(), goblin({ hp: 4 })],
+      world(2),
+      [hero()],
+      [combat("Hero hits Goblin for 4."), combat("Goblin dies.")],
+    );
+    expect(stats.levels[1]).toMatchObject({
+      ticks: 1,
+      damageDealt: 4,
+      kills: { [EntityType.ENEMY_GOBLIN]: 1 },
+      ticksWaited: 0,
+    });
+  });
+
+  it("estimates the damage from adjacent enemies' HP without combat messages", () => {
+    const orc = (hp: number) => entity("orc", "Orc", { x: 5, hp, isHostile: true });
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      world(1),
+      [hero(), goblin({ hp: 10 }), orc(10)],
+      world(2),
+      [hero(), goblin({ hp: 7 }), orc(2)],
+      [],
+    );
+    expect(stats.levels[1].damageDealt).toBe(3);
+  });
+
+  it("counts damage taken, gold, distance and waited ticks", () => {
+    let stats = updateSessionStats(
+      createSessionStats("hero"),
+      world(1),
+      [hero()],
+      world(2),
+      [hero({ x: 2, y: 1, hp: 7, gold: 5 })],
+      [],
+    );
+    stats = updateSessionStats(
+      stats,
+      world(2),
+      [hero({ x: 2, y: 1, hp: 7, gold: 5 })],
+      world(3),
+      [hero({ x: 2, y: 1, hp: 7, gold: 5 })],
+      [],
+    );
+    expect(stats.levels[1]).toEqual({
+      ...EMPTY_SESSION_COUNTERS,
+      ticks: 2,
+      damageTaken: 3,
+      goldEarned: 5,
+      distanceWalked: 2,
+      ticksWaited: 1,
+    });
+  });
+
+  it("counts potions that left the inventory but not dropped ones", () => {
+    const dropped = {
+      ...entity("ground", "Potion", { type: EntityType.ITEM }),
+      itemData: potion("p2"),
+    };
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      world(1),
+      [hero({ inventory: [potion("p1"), potion("p2")] })],
+      world(1),
+      [hero(), dropped],
+      [],
+    );
+    expect(stats.levels[1].potionsUsed).toBe(1);
+  });
+
+  it("keeps the counters of each dungeon level", () => {
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      world(1, 1),
+      [hero()],
+      world(2, 2),
+      [hero({ x: 4 })],
+      [],
+    );
+    expect(Object.keys(stats.levels)).toEqual(["2"]);
+    expect(stats.levels[2]).toMatchObject({ ticks: 1, distanceWalked: 0 });
+  });
+
+  it("returns the same stats when nothing changed", () => {
+    const stats = updateSessionStats(
+      createSessionStats("hero"),
+      null,
+      [],
+      world(1),
+      [hero()],
+      [],
+    );
+    const next = updateSessionStats(stats, world(1), [hero()], world(1), [hero()], []);
+    expect(next).toBe(stats);
+  });
+});
+
+describe("session counters", () => {
+  const level = (ticks: number, goblins: number) => ({
+    ...EMPTY_SESSION_COUNTERS,
+    ticks,
+    kills: { [EntityType.ENEMY_GOBLIN]: goblins },
+  });
+
+  it("sums levels and their kills", () => {
+    const total = sumSessionCounters([level(3, 1), level(4, 2)]);
+    expect(total.ticks).toBe(7);
+    expect(countAllKills(total)).toBe(3);
+  });
+
+  it("exports a CSV row per level and a total", () => {
+    const stats = {
+      ...createSessionStats("hero"),
+      levels: { 2: level(4, 2), 1: level(3, 1) },
+    };
+    expect(serializeSessionStatsCsv(stats).split("\n")).toEqual([
+      "level,ticks,damage_dealt,damage_taken,kills,kills_goblin," +
+        "gold_earned,potions_used,distance_walked,ticks_waited",
+      "1,3,0,0,1,1,0,0,0,0",
+      "2,4,0,0,2,2,0,0,0,0",
+      "total,7,0,0,3,3,0,0,0,0",
+    ]);
+  });
+});
@@ -0,0 +1,415 @@
+import {SESSION_STATS_SAMPLES} from "../constants";
+import {
+  Entity,
+  EntityType,
+  GameWorld,
+  ItemType,
+  LogMessage,
+  Position,
+} from "../types";
+
+import {CombatTally, tallyCombatLogs} from "./combatLog";
+import {getTimestampedFileName} from "./download";
+import {findKilledEntities, isAdjacent, isHostileCombatant} from "./gameRun";
+
+/**
+ * Статистика сессии для балансировки
+ *
+ * Все показатели выводятся клиентом из последовательных обновлений мира
+ * и пришедших с ними сообщений, как и итоги забега (см. utils/gameRun).
+ * Событий боя сервер не присылает, поэтому часть показателей — оценки
+ * (ESTIMATED_SESSION_COUNTERS):
+ * - урон нанесенный и убийства — из текста боевых сообщений (см.
+ *   utils/combatLog); удар без числа урона — потеря HP целью, а
+ *   обновление без боевых сообщений — потеря HP врагами вплотную к
+ *   персонажу (для убитых — остаток их HP)
+ * - урон полученный — потеря HP персонажем (за вычетом лечения)
+ * - зелья — зелья, пропавшие из инвентаря и не появившиеся на земле
+ * - ожидание — тик, в котором персонаж не двигался, не наносил урон и
+ *   не менял инвентарь и золото
+ *
+ * Тики, золото и пройденные клетки считаются точно. Показатели ведутся
+ * отдельно для каждого уровня подземелья.
+ */
+
+/**
+ * Счетчики сессии (за уровень или за всю сессию)
+ */
+export interface SessionCounters {
+  /** Продвижений globalTick, пока персонаж жив (тики мира, а не ходы персонажа) */
+  ticks: number;
+  damageDealt: number;
+  damageTaken: number;
+  /** Убийства по типу сущности */
+  kills: Partial<Record<EntityType, number>>;
+  goldEarned: number;
+  potionsUsed: number;
+  /** Пройдено клеток (диагональный шаг — одна клетка) */
+  distanceWalked: number;
+  /** Тиков без действий персонажа */
+  ticksWaited: number;
+}
+
+/**
+ * Счетчики, которые клиент оценивает по тексту лога и изменениям HP
+ */
+export const ESTIMATED_SESSION_COUNTERS: ReadonlySet<keyof SessionCounters> =
+  new Set<keyof SessionCounters>([
+    "damageDealt",
+    "damageTaken",
+    "kills",
+    "potionsUsed",
+    "ticksWaited",
+  ]);
+
+/**
+ * Состояние персонажа на тике (для графиков)
+ */
+export interface StatSample {
+  tick: number;
+  level: number;
+  hp: number;
+  maxHp: number;
+  stamina: number;
+  maxStamina: number;
+}
+
+/**
+ * Статистика сессии своего персонажа
+ */
+export interface SessionStats {
+  /** Персонаж, для которого ведется статистика */
+  entityId: string;
+  /** Счетчики по уровням подземелья */
+  levels: Record<number, SessionCounters>;
+  /** Последние SESSION_STATS_SAMPLES состояний персонажа */
+  samples: StatSample[];
+}
+
+export const EMPTY_SESSION_COUNTERS: SessionCounters = {
+  ticks: 0,
+  damageDealt: 0,
+  damageTaken: 0,
+  kills: {},
+  goldEarned: 0,
+  potionsUsed: 0,
+  distanceWalked: 0,
+  ticksWaited: 0,
+};
+
+function takeSample(world: GameWorld, me: Entity): StatSample {
+  return {
+    tick: world.globalTick,
+    level: world.level,
+    hp: me.stats.hp,
+    maxHp: me.stats.maxHp,
+    stamina: me.stats.stamina,
+    maxStamina: me.stats.maxStamina,
+  };
+}
+
+function isSameSample(a: StatSample, b: StatSample): boolean {
+  return (
+    a.tick === b.tick &&
+    a.level === b.level &&
+    a.hp === b.hp &&
+    a.maxHp === b.maxHp &&
+    a.stamina === b.stamina &&
+    a.maxStamina === b.maxStamina
+  );
+}
+
+/**
+ * Добавляет состояние в ряд: тот же тик заменяет последнее значение
+ */
+function appendSample(samples: StatSample[], sample: StatSample): StatSample[] {
+  const last = samples[samples.length - 1];
+  if (last && isSameSample(last, sample)) {
+    return samples;
+  }
+  const base = last?.tick === sample.tick ? samples.slice(0, -1) : samples;
+  return [...base, sample].slice(-SESSION_STATS_SAMPLES);
+}
+
+function countPotions(entity: Entity): Map<string, number> {
+  const potions = new Map<string, number>();
+  entity.inventory.forEach((item) => {
+    if (item.type === ItemType.POTION) {
+      potions.set(item.id, (potions.get(item.id) ?? 0) + (item.stackSize ?? 1));
+    }
+  });
+  return potions;
+}
+
+function stepDistance(a: Position, b: Position): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+/**
+ * Начинает статистику сессии
+ * @param entityId - свой персонаж
+ */
+export function createSessionStats(entityId: string): SessionStats {
+  return { entityId, levels: {}, samples: [] };
+}
+
+/**
+ * Потеря HP сущностью между двумя обновлениями (убитая теряет остаток HP,
+ * ушедшая из вида — ничего)
+ */
+function getHpLoss(
+  before: Entity,
+  current: Map<string, Entity>,
+  killedIds: Set<string>,
+): number {
+  if (killedIds.has(before.id)) {
+    return Math.max(0, before.stats.hp);
+  }
+  const now = current.get(before.id);
+  return now ? Math.max(0, before.stats.hp - now.stats.hp) : 0;
+}
+
+/**
+ * Урон, нанесенный персонажем между двумя обновлениями
+ * @param tally - удары персонажа по боевым сообщениям (null — их не было)
+ */
+function getDamageDealt(
+  tally: CombatTally | null,
+  previousMe: Entity,
+  previousEntities: Entity[],
+  entities: Entity[],
+  killed: Entity[],
+): number {
+  const current = new Map(entities.map((e) => [e.id, e]));
+  const killedIds = new Set(killed.map((e) => e.id));
+  const previous = new Map(previousEntities.map((e) => [e.id, e]));
+  if (tally) {
+    // Без числа в тексте урон по цели — ее потеря HP, один раз за обновление
+    const estimated = new Set<string>();
+    return tally.hits.reduce((total, { target, damage }) => {
+      if (damage !== null) {
+        return total + damage;
+      }
+      const before = previous.get(target.id);
+      if (!before || estimated.has(target.id)) {
+        return total;
+      }
+      estimated.add(target.id);
+      return total + getHpLoss(before, current, killedIds);
+    }, 0);
+  }
+  return previousEntities.reduce(
+    (total, e) =>
+      isHostileCombatant(e) && isAdjacent(e.pos, previousMe.pos)
+        ? total + getHpLoss(e, current, killedIds)
+        : total,
+    0,
+  );
+}
+
+/**
+ * Зелья, выпитые персонажем между двумя обновлениями
+ */
+function getPotionsUsed(
+  previousMe: Entity,
+  me: Entity,
+  entities: Entity[],
+): number {
+  const before = countPotions(previousMe);
+  const after = countPotions(me);
+  const onGround = new Set(
+    entities.flatMap((e) => (e.itemData ? [e.itemData.id] : [])),
+  );
+  let used = 0;
+  before.forEach((count, itemId) => {
+    // Dropped potions show up on the ground with the same id
+    if (!onGround.has(itemId)) {
+      used += Math.max(0, count - (after.get(itemId) ?? 0));
+    }
+  });
+  return used;
+}
+
+/**
+ * Обновляет статистику сессии по изменению мира и сущностей
+ * @param stats - статистика до обновления
+ * @param previousWorld - мир до обновления
+ * @param previousEntities - все сущности до обновления
+ * @param world - мир после обновления
+ * @param entities - все сущности после обновления
+ * @param logs - сообщения, пришедшие с обновлением
+ * @returns новая статистика или тот же объект, если ничего не изменилось
+ */
+export function updateSessionStats(
+  stats: SessionStats,
+  previousWorld: GameWorld | null,
+  previousEntities: Entity[],
+  world: GameWorld,
+  entities: Entity[],
+  logs: LogMessage[],
+): SessionStats {
+  const me = entities.find((e) => e.id === stats.entityId);
+  if (!me) {
+    return stats;
+  }
+  const samples = appendSample(stats.samples, takeSample(world, me));
+  const previousMe = previousEntities.find((e) => e.id === stats.entityId);
+  if (!previousWorld || !previousMe || previousMe.isDead) {
+    return samples === stats.samples ? stats : { ...stats, samples };
+  }
+
+  const tally = tallyCombatLogs(
+    logs,
+    previousEntities,
+    entities,
+    stats.entityId,
+  );
+  const killed =
+    tally?.kills ??
+    findKilledEntities(previousEntities, entities, world, stats.entityId);
+  const damageDealt = getDamageDealt(
+    tally,
+    previousMe,
+    previousEntities,
+    entities,
+    killed,
+  );
+  const damageTaken = Math.max(0, previousMe.stats.hp - me.stats.hp);
+  const goldEarned = Math.max(0, me.stats.gold - previousMe.stats.gold);
+  const potionsUsed = getPotionsUsed(previousMe, me, entities);
+  const distance =
+    previousWorld.level === world.level ? stepDistance(previousMe.pos, me.pos) : 0;
+  const isNewTick = world.globalTick > previousWorld.globalTick && !me.isDead;
+  const isWait =
+    isNewTick &&
+    distance === 0 &&
+    damageDealt === 0 &&
+    goldEarned === 0 &&
+    previousWorld.level === world.level &&
+    me.inventory.length === previousMe.inventory.length &&
+    potionsUsed === 0;
+
+  const changed =
+    isNewTick ||
+    killed.length > 0 ||
+    damageDealt > 0 ||
+    damageTaken > 0 ||
+    goldEarned > 0 ||
+    potionsUsed > 0 ||
+    distance > 0;
+  if (!changed) {
+    return samples === stats.samples ? stats : { ...stats, samples };
+  }
+
+  const counters = stats.levels[world.level] ?? EMPTY_SESSION_COUNTERS;
+  const kills = { ...counters.kills };
+  killed.forEach((e) => {
+    kills[e.type] = (kills[e.type] ?? 0) + 1;
+  });
+
+  return {
+    ...stats,
+    samples,
+    levels: {
+      ...stats.levels,
+      [world.level]: {
+        ticks: counters.ticks + (isNewTick ? 1 : 0),
+        damageDealt: counters.damageDealt + damageDealt,
+        damageTaken: counters.damageTaken + damageTaken,
+        kills,
+        goldEarned: counters.goldEarned + goldEarned,
+        potionsUsed: counters.potionsUsed + potionsUsed,
+        distanceWalked: counters.distanceWalked + distance,
+        ticksWaited: counters.ticksWaited + (isWait ? 1 : 0),
+      },
+    },
+  };
+}
+
+/**
+ * Суммирует счетчики (например, всех уровней)
+ */
+export function sumSessionCounters(
+  counters: SessionCounters[],
+): SessionCounters {
+  return counters.reduce<SessionCounters>((total, c) => {
+    const kills = { ...total.kills };
+    (Object.keys(c.kills) as EntityType[]).forEach((type) => {
+      kills[type] = (kills[type] ?? 0) + (c.kills[type] ?? 0);
+    });
+    return {
+      ticks: total.ticks + c.ticks,
+      damageDealt: total.damageDealt + c.damageDealt,
+      damageTaken: total.damageTaken + c.damageTaken,
+      kills,
+      goldEarned: total.goldEarned + c.goldEarned,
+      potionsUsed: total.potionsUsed + c.potionsUsed,
+      distanceWalked: total.distanceWalked + c.distanceWalked,
+      ticksWaited: total.ticksWaited + c.ticksWaited,
+    };
+  }, EMPTY_SESSION_COUNTERS);
+}
+
+/**
+ * Всего убийств в счетчиках
+ */
+export function countAllKills(counters: SessionCounters): number {
+  return Object.values(counters.kills).reduce((sum, n) => sum + (n ?? 0), 0);
+}
+
+/**
+ * Таблица по уровням в CSV (для таблиц балансировки)
+ * @returns CSV с заголовком, строкой на уровень и итоговой строкой
+ */
+export function serializeSessionStatsCsv(stats: SessionStats): string {
+  const levels = Object.keys(stats.levels)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const rows = levels.map((level) => ({
+    label: String(level),
+    counters: stats.levels[level],
+  }));
+  rows.push({
+    label: "total",
+    counters: sumSessionCounters(rows.map((r) => r.counters)),
+  });
+  const killTypes = Object.values(EntityType).filter((type) =>
+    rows.some((r) => r.counters.kills[type]),
+  );
+
+  const header = [
+    "level",
+    "ticks",
+    "damage_dealt",
+    "damage_taken",
+    "kills",
+    ...killTypes.map((type) => `kills_${type.toLowerCase()}`),
+    "gold_earned",
+    "potions_used",
+    "distance_walked",
+    "ticks_waited",
+  ];
+  const lines = rows.map(({ label, counters }) =>
+    [
+      label,
+      counters.ticks,
+      counters.damageDealt,
+      counters.damageTaken,
+      countAllKills(counters),
+      ...killTypes.map((type) => counters.kills[type] ?? 0),
+      counters.goldEarned,
+      counters.potionsUsed,
+      counters.distanceWalked,
+      counters.ticksWaited,
+    ].join(","),
+  );
+  return [header.join(","), ...lines].join("\n");
+}
+
+/**
+ * Формирует имя файла статистики
+ * @returns имя файла вида "stats-2025-01-31T12-00-00.csv"
+ */
+export function getSessionStatsFileName(date: Date = new Date()): string {
+  return getTimestampedFileName("stats", "csv", date);
+}
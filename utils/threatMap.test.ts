@@ -0,0 +1,148 @@
+import {describe, expect, it} from "vitest";
+
+import {TIME_COST} from "../constants";
+import {Entity, EntityType, GameWorld, Tile} from "../types";
+
+import {getCellKey} from "./mapCells";
+import {buildThreatMap, formatThreatTooltip} from "./threatMap";
+
+/**
+ * Мир из строк: "." — видимый пол, "~" — видимая трава (ход ×2),
+ * "#" — видимая стена, "," — исследованный пол вне видимости,
+ * " " — неисследованный тайл
+ */
+const world = (rows: string[], globalTick = 100): GameWorld => ({
+  map: rows.map((row, y) =>
+    [...row].map(
+      (ch, x): Tile => ({
+        x,
+        y,
+        isWall: ch === "#",
+        env: ch === "~" ? "grass" : "floor",
+        isWalkable: ch !== "#",
+        moveCost: ch === "~" ? 2 : 1,
+        isVisible: ch === "." || ch === "~" || ch === "#",
+        isExplored: ch !== " ",
+      }),
+    ),
+  ),
+  width: rows[0].length,
+  height: rows.length,
+  level: 1,
+  globalTick,
+});
+
+interface EntityOptions {
+  isHostile?: boolean;
+  isDead?: boolean;
+  type?: EntityType;
+  nextActionTick?: number;
+}
+
+const entity = (
+  name: string,
+  x: number,
+  y: number,
+  options: EntityOptions = {},
+): Entity =>
+  ({
+    id: name,
+    name,
+    type: options.type ?? EntityType.ENEMY_GOBLIN,
+    pos: { x, y },
+    isHostile: options.isHostile ?? true,
+    isDead: options.isDead ?? false,
+    nextActionTick: options.nextActionTick ?? 0,
+  }) as unknown as Entity;
+
+const cells = (threats: Map<string, unknown>) => [...threats.keys()].sort();
+
+describe("buildThreatMap", () => {
+  it("marks the cells around an enemy as in attack reach", () => {
+    const threats = buildThreatMap(world(["...", "...", "..."]), [
+      entity("Goblin", 1, 1, { nextActionTick: 120 }),
+    ]);
+    expect(threats.get(getCellKey(0, 0))).toEqual({
+      level: "attack",
+      tick: 120,
+      sources: ["Goblin"],
+    });
+    expect(threats.has(getCellKey(1, 1))).toBe(false);
+    expect(threats.size).toBe(8);
+  });
+
+  it("marks cells one step further as approach after the move cost", () => {
+    const threats = buildThreatMap(world(["...", ".~.", "..."]), [
+      entity("Goblin", 0, 0),
+    ]);
+    expect(threats.get(getCellKey(1, 1))).toMatchObject({ level: "attack", tick: 100 });
+    expect(threats.get(getCellKey(2, 0))).toMatchObject({
+      level: "approach",
+      tick: 100 + TIME_COST.MOVE,
+    });
+    // Only the step onto grass reaches this cell, and it costs twice as much
+    expect(threats.get(getCellKey(2, 2))).toMatchObject({
+      level: "approach",
+      tick: 100 + TIME_COST.MOVE * 2,
+    });
+  });
+
+  it("ignores friendly, dead and unseen enemies", () => {
+    const threats = buildThreatMap(world(["...,,"]), [
+      entity("Trader", 0, 0, { isHostile: false }),
+      entity("Corpse", 1, 0, { isDead: true }),
+      entity("Lurker", 4, 0),
+    ]);
+    expect(threats.size).toBe(0);
+  });
+
+  it("marks only known cells where one can stand", () => {
+    const threats = buildThreatMap(world([".# ", "...", ",.."]), [
+      entity("Goblin", 0, 0),
+    ]);
+    expect(cells(threats)).toEqual(
+      ["0,1", "1,1", "0,2", "1,2", "2,2", "2,1"].sort(),
+    );
+  });
+
+  it("does not step through occupied cells but does through items", () => {
+    const entities = [
+      entity("Goblin", 0, 0),
+      entity("Orc", 1, 0, { isHostile: false, type: EntityType.ENEMY_ORC }),
+    ];
+    expect(buildThreatMap(world(["..."]), entities).has(getCellKey(2, 0))).toBe(false);
+
+    const withItem = [
+      entity("Goblin", 0, 0),
+      entity("Sword", 1, 0, { isHostile: false, type: EntityType.ITEM }),
+    ];
+    expect(buildThreatMap(world(["..."]), withItem).get(getCellKey(2, 0))).toMatchObject({
+      level: "approach",
+    });
+  });
+
+  it("merges threats of several enemies", () => {
+    const threats = buildThreatMap(world(["....."]), [
+      entity("Goblin", 0, 0, { nextActionTick: 150 }),
+      entity("Orc", 3, 0),
+    ]);
+    expect(threats.get(getCellKey(1, 0))).toEqual({
+      level: "attack",
+      tick: 150,
+      sources: ["Goblin", "Orc"],
+    });
+    expect(threats.get(getCellKey(2, 0))).toEqual({
+      level: "attack",
+      tick: 100,
+      sources: ["Goblin", "Orc"],
+    });
+  });
+});
+
+describe("formatThreatTooltip", () => {
+  it("names the sources and the reach", () => {
+    expect(
+      formatThreatTooltip({ level: "approach", tick: 200, sources: ["Goblin", "Orc"] }),
+    ).toBe("Threat: Goblin, Orc — one move from attack (tick 200)");
+  });
+});
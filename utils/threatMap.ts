@@ -0,0 +1,147 @@
+import {TIME_COST} from "../constants";
+import {Entity, EntityType, GameWorld, Position} from "../types";
+
+import {getCellKey} from "./mapCells";
+
+/**
+ * Карта угроз: куда видимые враги могут ударить в ближайшие ходы
+ *
+ * Оценка строится по позициям и стоимостям действий (TIME_COST), как
+ * действуют монстры: удар по соседней клетке (в том числе по диагонали)
+ * либо шаг на свободную клетку и удар уже с нее. Настоящий AI сервера
+ * может действовать иначе, поэтому это подсказка, а не гарантия.
+ */
+
+/**
+ * Насколько близка угроза
+ * - "attack" — клетка в зоне удара без шага
+ * - "approach" — клетка в зоне удара после одного шага
+ */
+export type ThreatLevel = "attack" | "approach";
+
+/**
+ * Угроза клетке
+ */
+export interface CellThreat {
+  /** Самая близкая угроза среди всех врагов */
+  level: ThreatLevel;
+  /** Самый ранний тик, когда может прийти удар */
+  tick: number;
+  /** Имена угрожающих, без повторов */
+  sources: string[];
+}
+
+const NEIGHBOR_OFFSETS: Position[] = [
+  { x: -1, y: -1 },
+  { x: 0, y: -1 },
+  { x: 1, y: -1 },
+  { x: -1, y: 0 },
+  { x: 1, y: 0 },
+  { x: -1, y: 1 },
+  { x: 0, y: 1 },
+  { x: 1, y: 1 },
+];
+
+const neighbors = (pos: Position): Position[] =>
+  NEIGHBOR_OFFSETS.map((offset) => ({
+    x: pos.x + offset.x,
+    y: pos.y + offset.y,
+  }));
+
+/** Сущности, которые не занимают клетку (через них можно пройти) */
+const isPassThrough = (entity: Entity): boolean =>
+  entity.isDead ||
+  entity.type === EntityType.ITEM ||
+  entity.type === EntityType.EXIT;
+
+/**
+ * Строит карту угроз от враждебных сущностей на видимых клетках
+ * @param world - текущий мир
+ * @param entities - все сущности карты (в том числе свой персонаж)
+ * @returns угрозы по ключу клетки (getCellKey); клетки без угроз отсутствуют
+ */
+export function buildThreatMap(
+  world: GameWorld,
+  entities: Entity[],
+): Map<string, CellThreat> {
+  const threats = new Map<string, CellThreat>();
+  const occupied = new Set(
+    entities
+      .filter((entity) => !isPassThrough(entity))
+      .map((entity) => getCellKey(entity.pos.x, entity.pos.y)),
+  );
+
+  // Угрозы отмечаются только на известных клетках, куда можно встать
+  const isStandable = (pos: Position): boolean => {
+    const tile = world.map[pos.y]?.[pos.x];
+    return Boolean(
+      tile &&
+        (tile.isVisible || tile.isExplored) &&
+        tile.isWalkable &&
+        !tile.isWall,
+    );
+  };
+
+  const mark = (
+    pos: Position,
+    level: ThreatLevel,
+    tick: number,
+    source: string,
+  ) => {
+    if (!isStandable(pos)) {
+      return;
+    }
+    const key = getCellKey(pos.x, pos.y);
+    const threat = threats.get(key);
+    if (!threat) {
+      threats.set(key, { level, tick, sources: [source] });
+      return;
+    }
+    if (level === "attack") {
+      threat.level = "attack";
+    }
+    threat.tick = Math.min(threat.tick, tick);
+    if (!threat.sources.includes(source)) {
+      threat.sources.push(source);
+    }
+  };
+
+  entities.forEach((enemy) => {
+    if (
+      !enemy.isHostile ||
+      enemy.isDead ||
+      !world.map[enemy.pos.y]?.[enemy.pos.x]?.isVisible
+    ) {
+      return;
+    }
+    const ready = Math.max(enemy.nextActionTick ?? 0, world.globalTick);
+
+    neighbors(enemy.pos).forEach((target) =>
+      mark(target, "attack", ready, enemy.name),
+    );
+
+    neighbors(enemy.pos).forEach((step) => {
+      if (!isStandable(step) || occupied.has(getCellKey(step.x, step.y))) {
+        return;
+      }
+      const moveCost = world.map[step.y][step.x].moveCost;
+      const strikeTick = ready + TIME_COST.MOVE * moveCost;
+      neighbors(step).forEach((target) => {
+        if (target.x !== enemy.pos.x || target.y !== enemy.pos.y) {
+          mark(target, "approach", strikeTick, enemy.name);
+        }
+      });
+    });
+  });
+
+  return threats;
+}
+
+/**
+ * Подсказка об угрозе клетке
+ */
+export function formatThreatTooltip(threat: CellThreat): string {
+  const reach =
+    threat.level === "attack" ? "in attack reach" : "one move from attack";
+  return `Threat: ${threat.sources.join(", ")} — ${reach} (tick ${threat.tick})`;
+}
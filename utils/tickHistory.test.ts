@@ -0,0 +1,68 @@
+import {describe, expect, it} from "vitest";
+
+import type {GameWorld} from "../types";
+
+import {appendTickSnapshot, findTickSnapshotIndex, TickSnapshot} from "./tickHistory";
+
+const snapshot = (tick: number): TickSnapshot => ({
+  tick,
+  world: { map: [], width: 0, height: 0, level: 1, globalTick: tick } as GameWorld,
+  player: null,
+  entities: [],
+});
+
+const ticks = (history: TickSnapshot[]) => history.map((s) => s.tick);
+
+describe("appendTickSnapshot", () => {
+  it("appends snapshots of later ticks", () => {
+    let history: TickSnapshot[] = [];
+    history = appendTickSnapshot(history, snapshot(1), 10);
+    history = appendTickSnapshot(history, snapshot(3), 10);
+    expect(ticks(history)).toEqual([1, 3]);
+  });
+
+  it("replaces the last snapshot of the same tick", () => {
+    const latest = snapshot(3);
+    const history = appendTickSnapshot([snapshot(1), snapshot(3)], latest, 10);
+    expect(ticks(history)).toEqual([1, 3]);
+    expect(history[1]).toBe(latest);
+  });
+
+  it("starts over when the tick goes back", () => {
+    const history = appendTickSnapshot([snapshot(5), snapshot(6)], snapshot(2), 10);
+    expect(ticks(history)).toEqual([2]);
+  });
+
+  it("drops the oldest snapshots over capacity", () => {
+    const history = appendTickSnapshot(
+      [snapshot(1), snapshot(2), snapshot(3)],
+      snapshot(4),
+      3,
+    );
+    expect(ticks(history)).toEqual([2, 3, 4]);
+  });
+
+  it("does not modify the given history", () => {
+    const history = [snapshot(1)];
+    appendTickSnapshot(history, snapshot(2), 10);
+    expect(ticks(history)).toEqual([1]);
+  });
+});
+
+describe("findTickSnapshotIndex", () => {
+  const history = [snapshot(2), snapshot(5), snapshot(9)];
+
+  it("finds the last snapshot at or before the tick", () => {
+    expect(findTickSnapshotIndex(history, 5)).toBe(1);
+    expect(findTickSnapshotIndex(history, 8)).toBe(1);
+    expect(findTickSnapshotIndex(history, 100)).toBe(2);
+  });
+
+  it("falls back to the oldest snapshot for an earlier tick", () => {
+    expect(findTickSnapshotIndex(history, 0)).toBe(0);
+  });
+
+  it("returns -1 for an empty history", () => {
+    expect(findTickSnapshotIndex([], 5)).toBe(-1);
+  });
+});
@@ -0,0 +1,67 @@
+import type {Entity, GameWorld} from "../types";
+
+/**
+ * История состояний по тикам
+ *
+ * Клиент хранит ограниченный буфер снимков мира и сущностей, упорядоченных
+ * по GameWorld.globalTick. Снимки не копируются: состояние в useGameState
+ * неизменяемо, поэтому в буфере лежат ссылки на те же объекты.
+ */
+
+/**
+ * Состояние мира на один тик
+ */
+export interface TickSnapshot {
+  tick: number;
+  world: GameWorld;
+  player: Entity | null;
+  entities: Entity[];
+}
+
+/**
+ * Добавляет снимок в историю
+ *
+ * Снимок того же тика заменяет последний (несколько обновлений за тик).
+ * Тик меньше последнего означает новую сессию или перемотку записи —
+ * история начинается заново. Самые старые снимки сверх capacity
+ * отбрасываются.
+ *
+ * @param history - история, упорядоченная по тику
+ * @param snapshot - новое состояние
+ * @param capacity - максимальное число снимков
+ * @returns новая история
+ */
+export function appendTickSnapshot(
+  history: TickSnapshot[],
+  snapshot: TickSnapshot,
+  capacity: number,
+): TickSnapshot[] {
+  const last = history[history.length - 1];
+  if (!last || snapshot.tick < last.tick) {
+    return [snapshot];
+  }
+  const base = snapshot.tick === last.tick ? history.slice(0, -1) : history;
+  const next = [...base, snapshot];
+  return next.length > capacity ? next.slice(next.length - capacity) : next;
+}
+
+/**
+ * Находит снимок, актуальный на указанный тик
+ * @param history - история, упорядоченная по тику
+ * @param tick - искомый тик
+ * @returns индекс последнего снимка с тиком не больше указанного
+ * (0, если тик старше всей истории; -1 для пустой истории)
+ */
+export function findTickSnapshotIndex(
+  history: TickSnapshot[],
+  tick: number,
+): number {
+  let index = 0;
+  for (let i = 0; i < history.length; i++) {
+    if (history[i].tick > tick) {
+      break;
+    }
+    index = i;
+  }
+  return history.length > 0 ? index : -1;
+}
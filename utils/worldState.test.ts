@@ -0,0 +1,105 @@
+import {describe, expect, it} from "vitest";
+
+import type {
+  Entity,
+  ServerToClientEntityView,
+  ServerToClientTileViewWithTerrain,
+} from "../types";
+
+import {
+  applyEntityDelta,
+  applyTileDelta,
+  buildWorldFromSnapshot,
+  isNextDeltaSeq,
+  normalizeEntity,
+} from "./worldState";
+
+const view = (
+  id: string,
+  overrides: Partial<ServerToClientEntityView> = {},
+): ServerToClientEntityView =>
+  ({
+    id,
+    type: "MONSTER",
+    name: id,
+    pos: { x: 0, y: 0 },
+    render: { symbol: "g", color: "#0f0" },
+    stats: { hp: 5, maxHp: 5 },
+    ...overrides,
+  }) as ServerToClientEntityView;
+
+const tile = (
+  x: number,
+  y: number,
+  overrides: Partial<ServerToClientTileViewWithTerrain> = {},
+): ServerToClientTileViewWithTerrain =>
+  ({ x, y, isWall: false, ...overrides }) as ServerToClientTileViewWithTerrain;
+
+describe("isNextDeltaSeq", () => {
+  it("accepts only the next seq", () => {
+    expect(isNextDeltaSeq(4, 5)).toBe(true);
+  });
+
+  it("rejects a gap", () => {
+    expect(isNextDeltaSeq(4, 6)).toBe(false);
+  });
+
+  it("rejects a repeated or stale seq", () => {
+    expect(isNextDeltaSeq(4, 4)).toBe(false);
+    expect(isNextDeltaSeq(4, 2)).toBe(false);
+  });
+
+  it("rejects any delta before a snapshot with seq", () => {
+    expect(isNextDeltaSeq(null, 1)).toBe(false);
+  });
+});
+
+describe("applyTileDelta", () => {
+  const world = buildWorldFromSnapshot(
+    { w: 2, h: 2 },
+    [tile(0, 0, { env: "floor" })],
+    1,
+    10,
+  );
+
+  it("replaces changed tiles and keeps untouched rows", () => {
+    const next = applyTileDelta(
+      world,
+      [tile(1, 1, { env: "water", isVisible: true })],
+      11,
+    );
+    expect(next.globalTick).toBe(11);
+    expect(next.map[1][1]).toMatchObject({ env: "water", moveCost: 2 });
+    expect(next.map[0]).toBe(world.map[0]);
+    expect(world.map[1][1].env).toBe("stone");
+  });
+
+  it("ignores tiles outside the map", () => {
+    const next = applyTileDelta(world, [tile(5, 0)], 11);
+    expect(next.map).toEqual(world.map);
+  });
+});
+
+describe("applyEntityDelta", () => {
+  const goblin = normalizeEntity(view("goblin"));
+  const orc = normalizeEntity(view("orc"));
+  const entities: Entity[] = [goblin, orc];
+
+  it("applies changes in place and appends new entities", () => {
+    const next = applyEntityDelta(entities, {
+      changed: [view("goblin", { pos: { x: 1, y: 1 } })],
+      added: [view("rat")],
+    });
+    expect(next.map((e) => e.id)).toEqual(["goblin", "orc", "rat"]);
+    expect(next[0].pos).toEqual({ x: 1, y: 1 });
+    expect(next[1]).toBe(orc);
+  });
+
+  it("drops removed entities, even when added in the same delta", () => {
+    const next = applyEntityDelta(entities, {
+      added: [view("rat")],
+      removed: ["orc", "rat"],
+    });
+    expect(next).toEqual([goblin]);
+  });
+});
@@ -0,0 +1,241 @@
+import {TERRAIN} from "../constants";
+import {
+  Entity,
+  GameWorld,
+  ServerToClientEntityDelta,
+  ServerToClientEntityView,
+  ServerToClientTileViewWithTerrain,
+  Tile,
+  TileEnv,
+} from "../types";
+
+/**
+ * Проверяет, что строка — известный клиенту тип местности
+ */
+export function isTileEnv(value: unknown): value is TileEnv {
+  return typeof value === "string" && Object.hasOwn(TERRAIN, value);
+}
+
+/**
+ * Свойства местности по умолчанию
+ * @param env - тип местности
+ * @param isWall - стена (всегда непроходима)
+ * @returns проходимость и стоимость перемещения
+ */
+export function getTerrainDefaults(
+  env: TileEnv,
+  isWall: boolean,
+): Pick<Tile, "isWalkable" | "moveCost"> {
+  const terrain = TERRAIN[env];
+  return {
+    isWalkable: !isWall && terrain.isWalkable,
+    moveCost: terrain.moveCost,
+  };
+}
+
+/**
+ * Создает тайл клиентской модели из серверного представления
+ *
+ * Тип местности, проходимость и стоимость берутся от сервера, если он их
+ * прислал, иначе выводятся из `isWall` и TERRAIN.
+ *
+ * @param tileView - тайл от сервера
+ * @returns тайл клиентской модели
+ */
+export function tileFromView(tileView: ServerToClientTileViewWithTerrain): Tile {
+  const isWall = tileView.isWall ?? false;
+  const env: TileEnv = isTileEnv(tileView.env)
+    ? tileView.env
+    : isWall
+      ? "stone"
+      : "floor";
+  const defaults = getTerrainDefaults(env, isWall);
+  return {
+    x: tileView.x,
+    y: tileView.y,
+    isWall,
+    env,
+    isWalkable: tileView.isWalkable ?? defaults.isWalkable,
+    moveCost: tileView.moveCost ?? defaults.moveCost,
+    isVisible: tileView.isVisible ?? false,
+    isExplored: tileView.isExplored ?? false,
+  };
+}
+
+/**
+ * Строит мир целиком из полного снимка (INIT/UPDATE)
+ * @param grid - размеры карты
+ * @param tiles - тайлы от сервера
+ * @param level - текущий уровень подземелья
+ * @param tick - глобальный тик
+ * @returns новый мир
+ */
+export function buildWorldFromSnapshot(
+  grid: { w: number; h: number },
+  tiles: ServerToClientTileViewWithTerrain[],
+  level: number,
+  tick: number,
+): GameWorld {
+  const world: GameWorld = {
+    width: grid.w,
+    height: grid.h,
+    level,
+    globalTick: tick,
+    map: [],
+  };
+
+  // Initialize empty map
+  for (let y = 0; y < world.height; y++) {
+    world.map[y] = [];
+    for (let x = 0; x < world.width; x++) {
+      world.map[y][x] = {
+        x,
+        y,
+        isWall: true,
+        env: "stone",
+        isWalkable: false,
+        moveCost: TERRAIN.stone.moveCost,
+        isVisible: false,
+        isExplored: false,
+      };
+    }
+  }
+
+  tiles.forEach((tileView) => {
+    if (isInsideWorld(world, tileView.x, tileView.y)) {
+      world.map[tileView.y][tileView.x] = tileFromView(tileView);
+    }
+  });
+
+  return world;
+}
+
+/**
+ * Применяет изменившиеся тайлы к существующему миру
+ *
+ * Копируются только затронутые строки карты, остальные строки и тайлы
+ * переиспользуются — стоимость пропорциональна размеру изменения,
+ * а не размеру карты.
+ *
+ * @param world - текущий мир
+ * @param tiles - изменившиеся тайлы от сервера
+ * @param tick - глобальный тик после изменения
+ * @returns обновленный мир (новый объект)
+ */
+export function applyTileDelta(
+  world: GameWorld,
+  tiles: ServerToClientTileViewWithTerrain[],
+  tick: number,
+): GameWorld {
+  const map = world.map.slice();
+  const copiedRows = new Set<number>();
+
+  tiles.forEach((tileView) => {
+    if (!isInsideWorld(world, tileView.x, tileView.y)) {
+      return;
+    }
+    if (!copiedRows.has(tileView.y)) {
+      map[tileView.y] = map[tileView.y].slice();
+      copiedRows.add(tileView.y);
+    }
+    map[tileView.y][tileView.x] = tileFromView(tileView);
+  });
+
+  return { ...world, globalTick: tick, map };
+}
+
+/**
+ * Можно ли применить DELTA поверх последнего принятого обновления
+ *
+ * DELTA применяется только следующей по порядку: пропуск или повтор seq
+ * значит, что клиент разошелся с сервером и нужен новый снимок.
+ *
+ * @param lastSeq - seq последнего принятого обновления (null — снимок
+ *   пришел без seq, DELTA применять не к чему)
+ * @param seq - seq пришедшей DELTA
+ */
+export function isNextDeltaSeq(lastSeq: number | null, seq: number): boolean {
+  return lastSeq !== null && seq === lastSeq + 1;
+}
+
+/**
+ * Преобразует серверное представление сущности в клиентскую модель
+ *
+ * Обязательные поля уже проверены декодером протокола, значения
+ * по умолчанию подставляются только для необязательных.
+ *
+ * @param entity - сущность от сервера
+ * @returns сущность клиентской модели
+ */
+export function normalizeEntity(entity: ServerToClientEntityView): Entity {
+  return {
+    id: entity.id,
+    type: entity.type,
+    name: entity.name,
+    pos: entity.pos,
+    symbol: entity.render.symbol,
+    color: entity.render.color,
+    label: entity.render.label ?? "",
+    inventory: entity.inventory?.items || [],
+    inventoryData: entity.inventory || null,
+    equipment: entity.equipment || null,
+    isHostile: entity.type !== "PLAYER" && entity.type !== "NPC",
+    isDead: entity.stats.isDead ?? false,
+    nextActionTick: 0,
+    stats: {
+      hp: entity.stats.hp,
+      maxHp: entity.stats.maxHp,
+      stamina: entity.stats.stamina ?? 0,
+      maxStamina: entity.stats.maxStamina ?? 0,
+      strength: entity.stats.strength ?? 0,
+      gold: entity.stats.gold ?? 0,
+    },
+  };
+}
+
+/**
+ * Применяет изменения сущностей к текущему списку
+ *
+ * Неизмененные сущности сохраняют ссылочную идентичность, порядок
+ * существующих сущностей сохраняется, новые добавляются в конец.
+ *
+ * @param entities - текущий список сущностей
+ * @param delta - изменения сущностей от сервера
+ * @returns новый список сущностей
+ */
+export function applyEntityDelta(
+  entities: Entity[],
+  delta: ServerToClientEntityDelta,
+): Entity[] {
+  const removed = new Set(delta.removed ?? []);
+  const updates = new Map<string, Entity>();
+  [...(delta.added ?? []), ...(delta.changed ?? [])].forEach((view) => {
+    updates.set(view.id, normalizeEntity(view));
+  });
+
+  const result: Entity[] = [];
+  entities.forEach((entity) => {
+    if (removed.has(entity.id)) {
+      return;
+    }
+    const updated = updates.get(entity.id);
+    if (updated) {
+      result.push(updated);
+      updates.delete(entity.id);
+    } else {
+      result.push(entity);
+    }
+  });
+
+  updates.forEach((entity) => {
+    if (!removed.has(entity.id)) {
+      result.push(entity);
+    }
+  });
+
+  return result;
+}
+
+function isInsideWorld(world: GameWorld, x: number, y: number): boolean {
+  return x >= 0 && x < world.width && y >= 0 && y < world.height;
+}
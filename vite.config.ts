@@ -3,6 +3,7 @@ import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 import { execSync } from "child_process";
+import { readFileSync } from "fs";
 
 // Получаем информацию о билде
 const getBuildInfo = () => {
@@ -20,6 +21,29 @@ const getBuildInfo = () => {
   return { buildTime, gitCommit, gitBranch };
 };
 
+// Версия протокола — версия agent-sdk, с типами которой собирается клиент
+const getProtocolVersion = () => {
+  try {
+    const sdkPackage = JSON.parse(
+      readFileSync(
+        path.resolve(
+          __dirname,
+          "node_modules/@cognitive-dungeon/agent-sdk/package.json",
+        ),
+        "utf-8",
+      ),
+    );
+    return String(sdkPackage.version);
+  } catch {
+    // SDK не установлен — берем версию из зависимостей package.json
+    const appPackage = JSON.parse(
+      readFileSync(path.resolve(__dirname, "package.json"), "utf-8"),
+    );
+    const range = appPackage.dependencies?.["@cognitive-dungeon/agent-sdk"];
+    return typeof range === "string" ? range.replace(/^[\^~]/, "") : "unknown";
+  }
+};
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
   const buildInfo = getBuildInfo();
@@ -43,6 +67,7 @@ export default defineConfig(({ mode }) => {
       __BUILD_TIME__: JSON.stringify(buildInfo.buildTime),
       __GIT_COMMIT__: JSON.stringify(buildInfo.gitCommit),
       __GIT_BRANCH__: JSON.stringify(buildInfo.gitBranch),
+      __PROTOCOL_VERSION__: JSON.stringify(getProtocolVersion()),
     },
     resolve: {
       alias: {